@@ -0,0 +1,20 @@
+// Copies the listing fields (domain, data topic, uploader, ...) from the
+// metadata.json of submissions stored before the upload form wrote custom
+// metadata onto the objects, so GET /api/submissions lists them without
+// reading the zips. Safe to run more than once.
+//
+//   STORAGE_BACKEND=gcs SUBMISSIONS_BUCKET=stagedzips npm run backfill:submissions
+import { createStorageBackend } from '../server/storage/index.js';
+import { backfillSubmissionMetadata, isSubmissionObject, needsBackfill } from '../server/submissions.js';
+
+const storage = createStorageBackend();
+const objects = (await storage.listObjects({ delimiter: '/' })).filter(isSubmissionObject);
+
+let backfilled = 0;
+for (const object of objects) {
+  if (!needsBackfill(object)) continue;
+  await backfillSubmissionMetadata(storage, object);
+  backfilled++;
+}
+
+console.log(`Backfilled ${backfilled} of ${objects.length} submissions in ${storage.location}`);
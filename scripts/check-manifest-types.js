@@ -0,0 +1,102 @@
+// Fails when SubmissionManifest (src/types/manifestTypes.ts) drifts from the
+// JSON Schema the server validates against. Compares property names, which
+// properties are optional, which accept null, and recurses into nested
+// objects and arrays of objects.
+//
+//   npm run check:manifest
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import ts from 'typescript';
+
+const typesFile = fileURLToPath(new URL('../src/types/manifestTypes.ts', import.meta.url));
+const schemaFile = new URL('../server/schemas/submission-manifest.v1.json', import.meta.url);
+const rootSchema = JSON.parse(readFileSync(schemaFile, 'utf8'));
+
+const program = ts.createProgram([typesFile], { strict: true, noEmit: true, skipLibCheck: true });
+const checker = program.getTypeChecker();
+const sourceFile = program.getSourceFile(typesFile);
+
+const problems = [];
+
+const resolve = (schema) =>
+  schema?.$ref ? rootSchema.$defs[schema.$ref.replace(/^#\/\$defs\//, '')] : schema;
+
+// The object-shaped branch of a schema ("X or null" unions are written as anyOf)
+const objectSchema = (schema) => {
+  schema = resolve(schema);
+  if (schema?.properties) return schema;
+  for (const option of schema?.anyOf || []) {
+    const resolved = objectSchema(option);
+    if (resolved) return resolved;
+  }
+  return null;
+};
+
+const schemaAllowsNull = (schema) => {
+  schema = resolve(schema);
+  if (!schema) return false;
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  return types.includes('null') ||
+    (schema.enum || []).includes(null) ||
+    (schema.anyOf || []).some(schemaAllowsNull);
+};
+
+const typeAllowsNull = (type) =>
+  type.isUnion() ? type.types.some(member => member.flags & ts.TypeFlags.Null) : Boolean(type.flags & ts.TypeFlags.Null);
+
+function compare(type, schema, path) {
+  // Free-form objects (Record<string, T>, gdalAnalysis) have no properties to compare
+  const expected = objectSchema(schema);
+  if (!expected) return;
+
+  const required = new Set(expected.required || []);
+  const properties = new Map(checker.getPropertiesOfType(type).map(symbol => [symbol.name, symbol]));
+
+  for (const name of Object.keys(expected.properties)) {
+    if (!properties.has(name)) problems.push(`${path}.${name}: in the schema but not in the type`);
+  }
+
+  for (const [name, symbol] of properties) {
+    const propertySchema = expected.properties[name];
+    if (!propertySchema) {
+      problems.push(`${path}.${name}: in the type but not in the schema`);
+      continue;
+    }
+
+    const optional = Boolean(symbol.flags & ts.SymbolFlags.Optional);
+    if (optional === required.has(name)) {
+      problems.push(`${path}.${name}: ${optional ? 'optional in the type but required' : 'required in the type but optional'} in the schema`);
+    }
+
+    const propertyType = checker.getTypeOfSymbolAtLocation(symbol, sourceFile);
+    const nullInType = typeAllowsNull(propertyType);
+    if (nullInType !== schemaAllowsNull(propertySchema)) {
+      problems.push(`${path}.${name}: ${nullInType ? 'nullable in the type but not in the schema' : 'nullable in the schema but not in the type'}`);
+    }
+
+    const nonNull = checker.getNonNullableType(propertyType);
+    const resolved = resolve(propertySchema);
+    if (checker.isArrayType(nonNull)) {
+      const [elementType] = checker.getTypeArguments(nonNull);
+      compare(elementType, resolved?.items, `${path}.${name}[]`);
+    } else if (nonNull.flags & ts.TypeFlags.Object) {
+      compare(nonNull, propertySchema, `${path}.${name}`);
+    }
+  }
+}
+
+const manifestSymbol = checker.getExportsOfModule(checker.getSymbolAtLocation(sourceFile))
+  .find(symbol => symbol.name === 'SubmissionManifest');
+if (!manifestSymbol) {
+  console.error('❌ SubmissionManifest interface not found in src/types/manifestTypes.ts');
+  process.exit(1);
+}
+
+compare(checker.getDeclaredTypeOfSymbol(manifestSymbol), rootSchema, 'SubmissionManifest');
+
+if (problems.length > 0) {
+  console.error('❌ SubmissionManifest does not match server/schemas/submission-manifest.v1.json:');
+  for (const problem of problems) console.error(`   ${problem}`);
+  process.exit(1);
+}
+console.log('✅ SubmissionManifest matches server/schemas/submission-manifest.v1.json');
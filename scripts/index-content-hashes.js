@@ -0,0 +1,17 @@
+// Writes the content-sha256/<hash> marker of every stored submission that has
+// a content hash, so duplicate detection in /api/upload-session also finds
+// submissions uploaded before the markers existed. Safe to run more than once.
+//
+//   STORAGE_BACKEND=gcs SUBMISSIONS_BUCKET=stagedzips npm run index:content-hashes
+import { createStorageBackend } from '../server/storage/index.js';
+import { recordContentHash } from '../server/uploads.js';
+
+const storage = createStorageBackend();
+const objects = await storage.listObjects({ delimiter: '/' });
+
+let indexed = 0;
+for (const object of objects) {
+  if (await recordContentHash(storage, object)) indexed++;
+}
+
+console.log(`Indexed ${indexed} of ${objects.length} objects in ${storage.location}`);
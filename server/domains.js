@@ -0,0 +1,172 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import express from 'express';
+
+// Domain registry: which domains can be submitted to, and for each one its
+// label, database schema, PostgREST service, filename rules, allowed
+// publication types and the column name synonyms used to suggest mappings.
+// Loaded from DOMAIN_REGISTRY_PATH (default server/config/domains.json) and
+// re-read whenever the file changes, so a domain can be added by editing the
+// config without rebuilding the frontend.
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_REGISTRY_PATH = path.join(__dirname, 'config', 'domains.json');
+
+const NAMING_PARTS = ['scale', 'quadName', 'pubId'];
+
+const fail = (message) => {
+  throw new Error(`Invalid domain registry: ${message}`);
+};
+
+// Fill every domain from the defaults and reject malformed entries, so clients
+// always receive fully resolved domains
+function resolveRegistry(config) {
+  const defaults = config.defaults || {};
+  if (!Array.isArray(config.domains)) fail('"domains" must be an array');
+  if (!Array.isArray(config.publicationTypes)) fail('"publicationTypes" must be an array');
+
+  const publicationTypeValues = new Set(config.publicationTypes.map(type => type.value));
+  const ids = new Set();
+
+  const resolveNamingRules = (rules = {}) => {
+    const merged = { ...defaults.namingRules, ...rules };
+    const requiredParts = merged.requiredParts || [];
+    const unknownPart = requiredParts.find(part => !NAMING_PARTS.includes(part));
+    if (unknownPart) fail(`unknown naming part "${unknownPart}" (expected one of ${NAMING_PARTS.join(', ')})`);
+    return {
+      // First filename part; the domain id (or the typed custom domain) when not set
+      prefix: merged.prefix || null,
+      dataTopicPattern: merged.dataTopicPattern || null,
+      requiredParts,
+      maxLength: merged.maxLength || null
+    };
+  };
+
+  const resolvePublicationTypes = (allowed) => {
+    const list = allowed || defaults.allowedPublicationTypes || [...publicationTypeValues];
+    const unknownType = list.find(value => !publicationTypeValues.has(value));
+    if (unknownType) fail(`unknown publication type "${unknownType}"`);
+    return list;
+  };
+
+  // Groups of column names that mean the same thing; a domain's groups add to the defaults
+  const checkSynonymGroups = (owner, groups = []) => {
+    if (!Array.isArray(groups) || groups.some(group =>
+      !Array.isArray(group) || group.length < 2 || group.some(name => typeof name !== 'string' || !name))) {
+      fail(`"columnSynonyms" of ${owner} must be a list of groups of at least two column names`);
+    }
+    return groups;
+  };
+  const defaultSynonyms = checkSynonymGroups('the defaults', defaults.columnSynonyms);
+  const resolveColumnSynonyms = (owner, groups) => [...defaultSynonyms, ...checkSynonymGroups(owner, groups)];
+
+  const domains = config.domains.map(domain => {
+    if (!domain.id || !/^[a-z0-9_]+$/.test(domain.id)) fail(`domain id "${domain.id}" must be lowercase letters, digits or _`);
+    if (domain.id === 'custom') fail('"custom" is reserved for the free-text domain');
+    if (ids.has(domain.id)) fail(`duplicate domain id "${domain.id}"`);
+    ids.add(domain.id);
+
+    const schema = domain.schema || defaults.schema;
+    const postgrestUrl = domain.postgrestUrl || defaults.postgrestUrl;
+    if (!schema) fail(`domain "${domain.id}" has no schema`);
+    if (!postgrestUrl) fail(`domain "${domain.id}" has no postgrestUrl`);
+
+    return {
+      id: domain.id,
+      label: domain.label || domain.id,
+      schema,
+      postgrestUrl,
+      namingRules: resolveNamingRules(domain.namingRules),
+      allowedPublicationTypes: resolvePublicationTypes(domain.allowedPublicationTypes),
+      columnSynonyms: resolveColumnSynonyms(`domain "${domain.id}"`, domain.columnSynonyms)
+    };
+  });
+
+  const custom = config.customDomain || {};
+  return {
+    version: config.version || 1,
+    // Lets clients tell which domains have their own PostgREST service
+    defaultPostgrestUrl: defaults.postgrestUrl || null,
+    publicationTypes: config.publicationTypes,
+    domains,
+    customDomain: custom.enabled === false ? null : {
+      label: custom.label || 'Other (specify)',
+      schema: custom.schema || defaults.schema,
+      postgrestUrl: custom.postgrestUrl || defaults.postgrestUrl,
+      namingRules: resolveNamingRules(custom.namingRules),
+      allowedPublicationTypes: resolvePublicationTypes(custom.allowedPublicationTypes),
+      columnSynonyms: resolveColumnSynonyms('the custom domain', custom.columnSynonyms)
+    }
+  };
+}
+
+/**
+ * Check a submission manifest against its domain's entry in the resolved
+ * registry: the domain must exist (or custom domains be enabled), the publication
+ * type be allowed, and the naming rules hold for the data topic, the required
+ * filename parts and the zip filename. Returns { path, message } problems like
+ * validateManifest.
+ */
+export function checkDomainRules(registry, manifest, filename) {
+  const domain = registry.domains.find(entry => entry.id === manifest.domain) || registry.customDomain;
+  if (!domain) return [{ path: '/domain', message: `"${manifest.domain}" is not in the domain registry` }];
+
+  const errors = [];
+  const { prefix, dataTopicPattern, requiredParts, maxLength } = domain.namingRules;
+
+  if (!domain.allowedPublicationTypes.includes(manifest.publicationType)) {
+    errors.push({ path: '/publicationType', message: `"${manifest.publicationType}" is not accepted for this domain` });
+  }
+  if (dataTopicPattern && !new RegExp(dataTopicPattern).test(manifest.dataTopic)) {
+    errors.push({ path: '/dataTopic', message: `must match ${dataTopicPattern}` });
+  }
+  for (const part of requiredParts) {
+    if (!manifest[part]?.trim()) errors.push({ path: `/${part}`, message: 'is required for this domain' });
+  }
+
+  // Filenames start with the domain's prefix; custom domains and domains without one use the domain itself
+  const expectedPrefix = `${(domain.id && prefix) || manifest.domain}_`;
+  if (!filename.startsWith(expectedPrefix)) {
+    errors.push({ path: '/zipFilename', message: `must start with ${expectedPrefix}` });
+  }
+  if (maxLength && filename.length > maxLength) {
+    errors.push({ path: '/zipFilename', message: `is ${filename.length} characters; this domain allows ${maxLength}` });
+  }
+  return errors;
+}
+
+export function createDomainRegistry(registryPath = process.env.DOMAIN_REGISTRY_PATH || DEFAULT_REGISTRY_PATH) {
+  let cached = null;
+  let cachedMtime = 0;
+
+  return {
+    path: registryPath,
+
+    async get() {
+      const { mtimeMs } = await fs.stat(registryPath);
+      if (!cached || mtimeMs !== cachedMtime) {
+        const config = JSON.parse(await fs.readFile(registryPath, 'utf8'));
+        cached = resolveRegistry(config);
+        cachedMtime = mtimeMs;
+        console.log(`🗂️ Loaded domain registry with ${cached.domains.length} domains from ${registryPath}`);
+      }
+      return cached;
+    }
+  };
+}
+
+export function createDomainsRouter(registry) {
+  const router = express.Router();
+
+  router.get('/domains', async (req, res) => {
+    try {
+      res.json(await registry.get());
+    } catch (error) {
+      console.error('❌ Error loading domain registry:', error);
+      res.status(500).json({ error: 'Failed to load domain registry: ' + error.message });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { checkDomainRules } from './domains.js';
+import { updateManifest } from './testing/manifestFixture.js';
+
+const namingRules = (overrides = {}) => ({ prefix: null, dataTopicPattern: null, requiredParts: [], maxLength: null, ...overrides });
+
+// A resolved registry, as GET /api/domains returns it
+const registry = (customDomain = null) => ({
+  version: 1,
+  defaultPostgrestUrl: 'https://postgrest.test',
+  publicationTypes: [{ value: 'Digital Map', label: 'Digital Map' }, { value: 'Open File', label: 'Open File Report' }],
+  domains: [{
+    id: 'hazards',
+    label: 'Hazards',
+    schema: 'hazards',
+    postgrestUrl: 'https://postgrest.test',
+    namingRules: namingRules({ prefix: 'haz', requiredParts: ['scale'], maxLength: 40 }),
+    allowedPublicationTypes: ['Digital Map'],
+    columnSynonyms: [],
+  }],
+  customDomain,
+});
+
+describe('checkDomainRules', () => {
+  it('accepts a manifest that follows its domain rules', () => {
+    expect(checkDomainRules(registry(), updateManifest({ scale: '24k' }), 'haz_landslides_24k_update_20240301.zip')).toEqual([]);
+  });
+
+  it('reports publication types, required parts and filenames the domain does not allow', () => {
+    const manifest = updateManifest({ publicationType: 'Open File' });
+    expect(checkDomainRules(registry(), manifest, 'hazards_landslides_update_20240301_with_a_long_name.zip')).toEqual([
+      { path: '/publicationType', message: '"Open File" is not accepted for this domain' },
+      { path: '/scale', message: 'is required for this domain' },
+      { path: '/zipFilename', message: 'must start with haz_' },
+      { path: '/zipFilename', message: 'is 55 characters; this domain allows 40' },
+    ]);
+  });
+
+  it('accepts a domain outside the registry only when custom domains are enabled', () => {
+    const manifest = updateManifest({ domain: 'paleontology' });
+    expect(checkDomainRules(registry(), manifest, 'paleontology_fossils.zip')).toEqual([
+      { path: '/domain', message: '"paleontology" is not in the domain registry' },
+    ]);
+
+    const custom = { label: 'Other', schema: 'mapping', postgrestUrl: 'https://postgrest.test', namingRules: namingRules({ dataTopicPattern: '^[a-z_]+$' }), allowedPublicationTypes: ['Digital Map'], columnSynonyms: [] };
+    expect(checkDomainRules(registry(custom), manifest, 'paleontology_fossils.zip')).toEqual([]);
+    expect(checkDomainRules(registry(custom), updateManifest({ domain: 'paleontology', dataTopic: 'Fossils' }), 'paleontology_Fossils.zip')).toEqual([
+      { path: '/dataTopic', message: 'must match ^[a-z_]+$' },
+    ]);
+  });
+});
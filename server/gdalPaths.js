@@ -0,0 +1,20 @@
+// Paths in GDAL arguments for analysis zips staged in Cloud Storage.
+//
+// The browser builds ogrinfo arguments as if it had posted the zip itself:
+// /vsizip/<zip>/<path inside the zip>, or for an archive inside the zip (the
+// KML in a KMZ) the nested form /vsizip/{/vsizip/<zip>/data/x.kmz}/doc.kml.
+// When the zip was staged in the bucket instead, every reference to it has to
+// point the GDAL service at the object.
+
+const escapeRegExp = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Rewrite every /vsizip/ reference to `filename` in `args` to the object in
+ * `bucket`, keeping the path inside the zip and any nesting around it.
+ */
+export function toStoragePaths(args, filename, bucket) {
+  const reference = new RegExp(`/vsizip/(\\{?)${escapeRegExp(filename)}(?=[/}]|$)`, 'g');
+  return args.map(arg => typeof arg === 'string'
+    ? arg.replace(reference, (_, brace) => `/vsizip/${brace}gs://${bucket}/${filename}`)
+    : arg);
+}
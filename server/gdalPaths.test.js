@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { toStoragePaths } from './gdalPaths.js';
+
+const ZIP = 'temp-analysis-1700000000000-sites.zip';
+
+describe('toStoragePaths', () => {
+  it('points paths inside the staged zip at the bucket object', () => {
+    expect(toStoragePaths(['-json', '-al', `/vsizip/${ZIP}/data/sites.gpkg`], ZIP, 'stagedzips')).toEqual([
+      '-json', '-al', `/vsizip/gs://stagedzips/${ZIP}/data/sites.gpkg`,
+    ]);
+    expect(toStoragePaths(['-json', `/vsizip/${ZIP}/data/roads.gdb`], ZIP, 'stagedzips')).toEqual([
+      '-json', `/vsizip/gs://stagedzips/${ZIP}/data/roads.gdb`,
+    ]);
+  });
+
+  it('rewrites the zip inside a nested /vsizip/ path', () => {
+    expect(toStoragePaths([`/vsizip/{/vsizip/${ZIP}/data/trails.kmz}/doc.kml`], ZIP, 'stagedzips')).toEqual([
+      `/vsizip/{/vsizip/gs://stagedzips/${ZIP}/data/trails.kmz}/doc.kml`,
+    ]);
+    expect(toStoragePaths([`/vsizip/{${ZIP}}/data/sites.geojson`], ZIP, 'stagedzips')).toEqual([
+      `/vsizip/{gs://stagedzips/${ZIP}}/data/sites.geojson`,
+    ]);
+  });
+
+  it('leaves options and other archives alone', () => {
+    const args = ['-json', '-where', "name = 'x'", `/vsizip/${ZIP}.bak/data/sites.gpkg`, `/vsizip/other.zip/${ZIP}/a.shp`];
+    expect(toStoragePaths(args, ZIP, 'stagedzips')).toEqual(args);
+  });
+});
@@ -2,7 +2,12 @@ import express from 'express';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { GoogleAuth } from 'google-auth-library';
-import { Storage } from '@google-cloud/storage';
+import { createStorageBackend, LOCAL_STORAGE_ROUTE } from './storage/index.js';
+import { createSubmissionsRouter } from './submissions.js';
+import { createUploadsRouter, TEMP_ANALYSIS_PREFIX } from './uploads.js';
+import { createDomainRegistry, createDomainsRouter } from './domains.js';
+import { createTemplateStore, createTemplatesRouter } from './templates.js';
+import { toStoragePaths } from './gdalPaths.js';
 
 // Get __dirname equivalent in ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -14,8 +19,11 @@ const PORT = process.env.PORT || 8080;
 // Initialize Google Auth client for service-to-service authentication
 const auth = new GoogleAuth();
 
-// Initialize Cloud Storage client for cleanup operations
-const gcsStorage = new Storage();
+// Backend holding submission zips (GCS bucket, or a local directory for development)
+const storageBackend = createStorageBackend();
+
+// Domains, schemas and PostgREST services offered by the form
+const domainRegistry = createDomainRegistry();
 
 // Middleware
 app.use(express.static(path.join(__dirname, '../dist')));
@@ -43,22 +51,43 @@ app.get('/api/user', (req, res) => {
 
 // SPECIFIC ROUTES FIRST (before the catch-all route)
 
-// New endpoint: Analyze geodatabase from Cloud Storage (for large files)
+// Domain registry
+app.use('/api', createDomainsRouter(domainRegistry));
+
+// Upload sessions / signed URLs for submission zips, and verification of stored uploads
+app.use('/api', createUploadsRouter(storageBackend, domainRegistry));
+
+// The local backend serves its own upload URLs
+if (storageBackend.router) {
+  app.use(LOCAL_STORAGE_ROUTE, storageBackend.router);
+}
+
+// New endpoint: Analyze a zip staged in Cloud Storage (for large files); any
+// /vsizip/ path to the zip in args is rewritten to the bucket object
 app.post('/api/gdal-proxy/analyze-from-storage', async (req, res) => {
   try {
-    const { bucket, filename, gdbFolderName, command, args } = req.body;
+    const { filename, command, args } = req.body;
+
+    if (!filename || !Array.isArray(args)) {
+      return res.status(400).json({ success: false, error: 'filename and args are required' });
+    }
+
+    // The GDAL service reads the zip straight from the bucket
+    if (storageBackend.type !== 'gcs') {
+      return res.status(501).json({
+        success: false,
+        error: 'GDAL analysis from storage requires the gcs storage backend',
+        details: `Current backend: ${storageBackend.type}`
+      });
+    }
+    const bucket = storageBackend.bucketName;
     
     console.log(`🔍 GDAL analysis request from Cloud Storage:`);
     console.log(`  Bucket: ${bucket}`);
     console.log(`  File: ${filename}`);
-    console.log(`  GDB Folder: ${gdbFolderName}`);
     console.log(`  Command: ${command}`);
     console.log(`  Args: ${JSON.stringify(args)}`);
     
-    // Construct the Cloud Storage path for GDAL
-    const gcsPath = `/vsizip/gs://${bucket}/${filename}/${gdbFolderName}`;
-    console.log(`  GCS Path: ${gcsPath}`);
-    
     // Get an ID token for service-to-service authentication
     let idToken = '';
     try {
@@ -71,10 +100,10 @@ app.post('/api/gdal-proxy/analyze-from-storage', async (req, res) => {
       console.error('⚠️ Failed to get ID token:', authError);
     }
     
-    // Prepare the request to GDAL microservice
+    // Prepare the request to GDAL microservice, reading the zip from the bucket
     const gdalRequest = {
       command: command,
-      args: args.map(arg => arg.replace(`/vsizip/${filename}/${gdbFolderName}`, gcsPath))
+      args: toStoragePaths(args, filename, bucket)
     };
     
     console.log(`📤 Sending request to GDAL microservice:`, gdalRequest);
@@ -126,24 +155,21 @@ app.post('/api/gdal-proxy/analyze-from-storage', async (req, res) => {
 // New endpoint: Clean up temporary analysis files
 app.post('/api/gdal-proxy/cleanup-temp-file', async (req, res) => {
   try {
-    const { bucket, filename } = req.body;
-    
-    console.log(`🧹 Cleaning up temporary file: gs://${bucket}/${filename}`);
+    const { filename } = req.body;
+
+    // Only throwaway analysis uploads may be deleted through this endpoint
+    if (!filename || !filename.startsWith(TEMP_ANALYSIS_PREFIX)) {
+      return res.status(400).json({ success: false, error: 'Only temporary analysis files can be cleaned up' });
+    }
     
-    // Delete the temporary file from Cloud Storage
-    const file = gcsStorage.bucket(bucket).file(filename);
+    console.log(`🧹 Cleaning up temporary file: ${storageBackend.location}/${filename}`);
     
-    try {
-      await file.delete();
+    if (await storageBackend.deleteObject(filename)) {
       console.log(`✅ Successfully deleted temporary file: ${filename}`);
       res.json({ success: true, message: 'Temporary file cleaned up' });
-    } catch (deleteError) {
-      if (deleteError.code === 404) {
-        console.log(`ℹ️ Temporary file already deleted or doesn't exist: ${filename}`);
-        res.json({ success: true, message: 'File already cleaned up' });
-      } else {
-        throw deleteError;
-      }
+    } else {
+      console.log(`ℹ️ Temporary file already deleted or doesn't exist: ${filename}`);
+      res.json({ success: true, message: 'File already cleaned up' });
     }
     
   } catch (error) {
@@ -156,44 +182,6 @@ app.post('/api/gdal-proxy/cleanup-temp-file', async (req, res) => {
   }
 });
 
-// New endpoint: Update file metadata
-app.post('/api/update-file-metadata', async (req, res) => {
-  try {
-    const { filename, metadata } = req.body;
-    
-    if (!filename) {
-      return res.status(400).json({ success: false, error: 'Filename is required' });
-    }
-
-    console.log(`📝 Updating metadata for file: ${filename}`);
-    console.log('Received metadata:', metadata);
-    
-    // Get the file from GCS
-    const bucket = gcsStorage.bucket('stagedzips');
-    const file = bucket.file(filename);
-    
-    // Update the file metadata
-    await file.setMetadata({
-      metadata: metadata
-    });
-    
-    console.log(`✅ Metadata updated for: ${filename}`);
-    
-    res.json({
-      success: true,
-      filename: filename,
-      message: 'Metadata updated successfully'
-    });
-    
-  } catch (error) {
-    console.error('❌ Error updating file metadata:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to update metadata: ' + error.message
-    });
-  }
-});
-
 // GENERAL GDAL PROXY ROUTE (comes AFTER specific routes)
 app.post('/api/gdal-proxy/*', async (req, res) => {
   try {
@@ -293,6 +281,12 @@ app.post('/api/gdal-proxy/*', async (req, res) => {
   }
 });
 
+// Submission history (read-only; see server/submissions.js)
+app.use('/api/submissions', createSubmissionsRouter(storageBackend));
+
+// Saved column mappings shared between users (see server/templates.js)
+app.use('/api/mapping-templates', createTemplatesRouter(createTemplateStore(storageBackend)));
+
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({ status: 'healthy' });
@@ -311,4 +305,5 @@ app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
   console.log(`Running on Cloud Run: ${process.env.K_SERVICE !== undefined}`);
   console.log(`Service Account: ${process.env.K_SERVICE ? 'Will use metadata service' : 'Local development'}`);
+  console.log(`Submission storage: ${storageBackend.type} (${storageBackend.location})`);
 });
\ No newline at end of file
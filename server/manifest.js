@@ -0,0 +1,178 @@
+import crypto from 'crypto';
+import { readFileSync } from 'fs';
+
+// Validation of the submission manifest (the metadata.json inside every zip)
+// against server/schemas/submission-manifest.v<N>.json.
+//
+// Only the JSON Schema keywords the manifest schemas use are implemented:
+// $ref (local), type, const, enum, anyOf, allOf, if/then, required,
+// properties, additionalProperties, items, minItems, minLength, pattern,
+// minimum and format (date, date-time).
+
+export const CURRENT_MANIFEST_VERSION = 1;
+
+const loadSchema = (version) =>
+  JSON.parse(readFileSync(new URL(`./schemas/submission-manifest.v${version}.json`, import.meta.url), 'utf8'));
+
+const schemas = new Map([[CURRENT_MANIFEST_VERSION, loadSchema(CURRENT_MANIFEST_VERSION)]]);
+
+const typeOf = (value) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (Number.isInteger(value)) return 'integer';
+  return typeof value;
+};
+
+const matchesType = (value, type) =>
+  typeOf(value) === type || (type === 'number' && typeOf(value) === 'integer');
+
+const formats = {
+  // Round-tripping rejects dates like 2024-02-31 that Date.parse rolls over
+  date: (value) => {
+    const time = Date.parse(`${value}T00:00:00Z`);
+    return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(time) &&
+      new Date(time).toISOString().slice(0, 10) === value;
+  },
+  'date-time': (value) => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/.test(value) &&
+    !Number.isNaN(Date.parse(value))
+};
+
+const describe = (value) => (value === null ? 'null' : JSON.stringify(value));
+
+function validateNode(root, schema, value, path, errors) {
+  if (schema.$ref) {
+    const name = schema.$ref.replace(/^#\/\$defs\//, '');
+    schema = root.$defs?.[name];
+    if (!schema) throw new Error(`Unresolvable $ref in manifest schema: ${name}`);
+  }
+
+  const fail = (message) => errors.push({ path: path || '/', message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      fail(`must be ${types.join(' or ')}`);
+      return;
+    }
+  }
+  if ('const' in schema && value !== schema.const) {
+    fail(`must be ${describe(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    fail(`must be one of ${schema.enum.map(describe).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      fail(`must match ${schema.pattern}`);
+    }
+    if (schema.format && formats[schema.format] && !formats[schema.format](value)) {
+      fail(`must be a valid ${schema.format}`);
+    }
+  }
+
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    fail(`must be at least ${schema.minimum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateNode(root, schema.items, item, `${path}/${index}`, errors));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    for (const key of schema.required || []) {
+      if (!(key in value)) errors.push({ path: `${path}/${key}`, message: 'is required' });
+    }
+    for (const [key, child] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        validateNode(root, propertySchema, child, `${path}/${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: `${path}/${key}`, message: 'is not allowed' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateNode(root, schema.additionalProperties, child, `${path}/${key}`, errors);
+      }
+    }
+  }
+
+  if (schema.anyOf) {
+    const passes = schema.anyOf.some(option => {
+      const optionErrors = [];
+      validateNode(root, option, value, path, optionErrors);
+      return optionErrors.length === 0;
+    });
+    if (!passes) {
+      // Report the first option's errors; for "X or null" unions that is the useful one
+      if (value === null) fail('must not be null');
+      else validateNode(root, schema.anyOf[0], value, path, errors);
+    }
+  }
+
+  for (const option of schema.allOf || []) {
+    validateNode(root, option, value, path, errors);
+  }
+
+  if (schema.if && schema.then) {
+    const conditionErrors = [];
+    validateNode(root, schema.if, value, path, conditionErrors);
+    if (conditionErrors.length === 0) validateNode(root, schema.then, value, path, errors);
+  }
+}
+
+/**
+ * Validate a submission manifest. Returns a list of { path, message } problems,
+ * empty when the manifest is valid. path is a JSON pointer, e.g. "/originalFiles/0/sha256".
+ */
+export function validateManifest(manifest) {
+  if (typeOf(manifest) !== 'object') {
+    return [{ path: '/', message: 'must be an object' }];
+  }
+
+  const schema = schemas.get(manifest.manifestVersion);
+  if (!schema) {
+    return [{
+      path: '/manifestVersion',
+      message: `unsupported manifest version ${describe(manifest.manifestVersion ?? null)} (expected ${[...schemas.keys()].join(', ')})`
+    }];
+  }
+
+  const errors = [];
+  validateNode(schema, schema, manifest, '', errors);
+
+  // The same property can fail in both the base schema and a conditional; report it once
+  const seen = new Set();
+  return errors.filter(error => {
+    const key = `${error.path} ${error.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// JSON with object keys sorted, so equal manifests serialize the same however they were built
+const canonicalJson = (value) => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (typeOf(value) === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * SHA-256 of a manifest's content, independent of key order and formatting. Used
+ * to check that the metadata.json in a stored zip is the manifest accepted when
+ * its upload started.
+ */
+export const manifestFingerprint = (manifest) =>
+  crypto.createHash('sha256').update(canonicalJson(manifest)).digest('hex');
+
+export const formatManifestErrors = (errors) =>
+  errors.map(error => `${error.path} ${error.message}`).join('; ');
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { formatManifestErrors, validateManifest } from './manifest.js';
+import { updateManifest } from './testing/manifestFixture.js';
+
+const paths = (errors) => errors.map(error => error.path);
+
+describe('validateManifest', () => {
+  it('accepts a complete update manifest', () => {
+    expect(validateManifest(updateManifest())).toEqual([]);
+  });
+
+  it('rejects what is not an object or has an unknown version', () => {
+    expect(validateManifest(null)).toEqual([{ path: '/', message: 'must be an object' }]);
+    expect(paths(validateManifest(updateManifest({ manifestVersion: 2 })))).toEqual(['/manifestVersion']);
+  });
+
+  it('reports missing and unexpected properties', () => {
+    const manifest = updateManifest({ extra: true });
+    delete manifest.datasetName;
+    expect(validateManifest(manifest)).toEqual([
+      { path: '/datasetName', message: 'is required' },
+      { path: '/extra', message: 'is not allowed' },
+    ]);
+  });
+
+  it('checks types, enums, patterns and formats', () => {
+    const errors = validateManifest(updateManifest({
+      projectName: '',
+      reviewStatus: 'X',
+      zipFilename: 'nested/file.zip',
+      publicationDate: '2024-02-31',
+      totalFileSize: -1,
+      originalFiles: [{ name: 'a.csv', size: 1, type: '', lastModified: 0, sha256: 'not-a-hash' }],
+    }));
+    expect(paths(errors)).toEqual([
+      '/projectName', '/publicationDate', '/reviewStatus', '/zipFilename', '/originalFiles/0/sha256', '/totalFileSize',
+    ]);
+  });
+
+  it('applies the load type and correction conditions', () => {
+    expect(paths(validateManifest(updateManifest({ schemaValidation: null })))).toEqual(['/schemaValidation']);
+    expect(paths(validateManifest(updateManifest({ isCorrection: true, correctionReason: '' })))).toEqual(['/correctionReason']);
+    expect(paths(validateManifest(updateManifest({
+      loadType: 'new_table',
+      schemaValidation: null,
+      tableType: 'fact',
+      uniqueKey: '',
+    })))).toEqual(['/uniqueKey']);
+  });
+
+  it('validates nested definitions referenced with $ref', () => {
+    const errors = validateManifest(updateManifest({
+      schemaValidation: {
+        ...updateManifest().schemaValidation,
+        targetColumnValues: { source: { kind: 'formula', value: 'x' } },
+      },
+    }));
+    expect(formatManifestErrors(errors)).toBe('/schemaValidation/targetColumnValues/source/kind must be one of "constant", "expression"');
+  });
+});
@@ -0,0 +1,28 @@
+// CRC-32C (Castagnoli), encoded the way GCS reports it: base64 of the big-endian value.
+// Used by the local backend so verification behaves the same as against a bucket.
+
+const TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0x82F63B78 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function updateCrc32c(crc, data) {
+  let c = (crc ^ 0xFFFFFFFF) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    c = TABLE[(c ^ data[i]) & 0xFF] ^ (c >>> 8);
+  }
+  return (c ^ 0xFFFFFFFF) >>> 0;
+}
+
+export function crc32cToBase64(crc) {
+  const bytes = Buffer.alloc(4);
+  bytes.writeUInt32BE(crc, 0);
+  return bytes.toString('base64');
+}
@@ -0,0 +1,106 @@
+import { Storage } from '@google-cloud/storage';
+
+// Storage backend for a Google Cloud Storage bucket
+export function createGcsBackend({ bucketName }) {
+  const bucket = new Storage().bucket(bucketName);
+
+  const toObjectInfo = (metadata) => ({
+    name: metadata.name,
+    size: Number(metadata.size),
+    createdAt: metadata.timeCreated,
+    updatedAt: metadata.updated,
+    etag: metadata.etag,
+    crc32c: metadata.crc32c || null,
+    metadata: metadata.metadata || {}
+  });
+
+  return {
+    type: 'gcs',
+    location: `gs://${bucketName}`,
+    bucketName,
+
+    // With delimiter "/", objects in "subfolders" below the prefix are left out
+    async listObjects({ prefix, delimiter } = {}) {
+      const [files] = await bucket.getFiles({ autoPaginate: true, prefix, delimiter });
+      return files.map(file => toObjectInfo(file.metadata));
+    },
+
+    async getObject(name) {
+      try {
+        const [metadata] = await bucket.file(name).getMetadata();
+        return toObjectInfo(metadata);
+      } catch (error) {
+        if (error.code === 404) return null;
+        throw error;
+      }
+    },
+
+    // Inclusive byte range, like an HTTP Range header
+    async readRange(name, start, end) {
+      const [contents] = await bucket.file(name).download({ start, end });
+      return contents;
+    },
+
+    // Streams the whole object, for hashing objects too large to buffer
+    createReadStream(name) {
+      return bucket.file(name).createReadStream();
+    },
+
+    async readObject(name) {
+      try {
+        const [contents] = await bucket.file(name).download();
+        return contents;
+      } catch (error) {
+        if (error.code === 404) return null;
+        throw error;
+      }
+    },
+
+    // For small server-written objects; browsers upload through sessions or signed URLs
+    async writeObject(name, contents, { contentType = 'application/octet-stream', metadata = {} } = {}) {
+      await bucket.file(name).save(contents, {
+        resumable: false,
+        metadata: { contentType, metadata }
+      });
+    },
+
+    // The session URI only accepts CORS requests from the origin it was created for
+    async createUploadSession(name, { origin, metadata = {}, ifGenerationMatch } = {}) {
+      const [sessionUrl] = await bucket.file(name).createResumableUpload({
+        origin,
+        metadata: {
+          contentType: 'application/zip',
+          metadata
+        },
+        ...(ifGenerationMatch === undefined ? {} : { preconditionOpts: { ifGenerationMatch } })
+      });
+      return sessionUrl;
+    },
+
+    async getSignedUploadUrl(name, { expiresAt, contentType = 'application/zip' }) {
+      const [signedUrl] = await bucket.file(name).getSignedUrl({
+        version: 'v4',
+        action: 'write',
+        expires: expiresAt,
+        contentType
+      });
+      return signedUrl;
+    },
+
+    // Merges into the object's custom metadata; null values remove a key
+    async setMetadata(name, metadata) {
+      await bucket.file(name).setMetadata({ metadata });
+    },
+
+    // Resolves to false when the object did not exist
+    async deleteObject(name) {
+      try {
+        await bucket.file(name).delete();
+        return true;
+      } catch (error) {
+        if (error.code === 404) return false;
+        throw error;
+      }
+    }
+  };
+}
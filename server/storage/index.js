@@ -0,0 +1,40 @@
+import path from 'path';
+import { createGcsBackend } from './gcsBackend.js';
+import { createLocalBackend } from './localBackend.js';
+
+// Path the local backend's upload routes are mounted at (see server/index.js)
+export const LOCAL_STORAGE_ROUTE = '/api/local-storage';
+
+// Selects where submission zips are stored:
+//   STORAGE_BACKEND=gcs (default)  -> bucket SUBMISSIONS_BUCKET (default "stagedzips")
+//   STORAGE_BACKEND=local          -> directory LOCAL_STORAGE_DIR (default ./local-storage)
+//
+// Every backend provides:
+//   type, location
+//   listObjects({ prefix, delimiter })         -> [{ name, size, createdAt, updatedAt, etag, crc32c, metadata }]
+//                                                 (delimiter "/" lists only the level below prefix)
+//   getObject(name)                            -> object info, or null
+//   readRange(name, start, end)                -> Buffer (inclusive range)
+//   createReadStream(name)                     -> readable stream of the whole object
+//   readObject(name)                           -> Buffer with the whole object, or null
+//   writeObject(name, contents, { contentType, metadata }) -> stores a small object in one request
+//   createUploadSession(name, { origin, metadata, ifGenerationMatch }) -> resumable session URL
+//   getSignedUploadUrl(name, { expiresAt, contentType })               -> URL accepting one PUT
+//   setMetadata(name, metadata)                -> merges custom metadata
+//   deleteObject(name)                         -> false if it did not exist
+// and optionally an express `router` serving its upload URLs.
+export function createStorageBackend(env = process.env) {
+  const backend = env.STORAGE_BACKEND || 'gcs';
+
+  if (backend === 'local') {
+    return createLocalBackend({
+      rootDir: path.resolve(env.LOCAL_STORAGE_DIR || 'local-storage'),
+      publicPath: LOCAL_STORAGE_ROUTE,
+      signingSecret: env.LOCAL_STORAGE_SECRET
+    });
+  }
+  if (backend === 'gcs') {
+    return createGcsBackend({ bucketName: env.SUBMISSIONS_BUCKET || 'stagedzips' });
+  }
+  throw new Error(`Unknown STORAGE_BACKEND "${backend}" (expected "gcs" or "local")`);
+}
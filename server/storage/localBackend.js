@@ -0,0 +1,413 @@
+import fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import express from 'express';
+import { updateCrc32c, crc32cToBase64 } from './crc32c.js';
+
+// GCS resumable session URIs are valid for a week
+const SESSION_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Storage backend for a plain directory, for development and CI without GCP.
+// Objects are files in the root directory, and names with "/" (prefixes such as
+// mapping-templates/) are subdirectories; the custom metadata GCS would keep on
+// the object lives in .metadata/<name>.json next to them.
+//
+// Uploads go through routes served by this server (mounted at publicPath) that
+// speak the same protocols the browser uses against GCS:
+// - resumable sessions: PUT chunks with Content-Range, 308 + Range while
+//   incomplete, "bytes */total" status queries, DELETE to cancel (answers 499),
+//   X-Goog-Hash crc32c checked on the final chunk. A finished session keeps
+//   answering with its result until it expires, a week after it was created
+// - signed URLs: a single PUT to an HMAC-signed, expiring URL
+export function createLocalBackend({ rootDir, publicPath, signingSecret }) {
+  const metadataDir = path.join(rootDir, '.metadata');
+  const uploadsDir = path.join(rootDir, '.uploads');
+  const secret = signingSecret || crypto.randomBytes(32).toString('hex');
+
+  const objectPath = (name) => {
+    const segments = (name || '').split('/');
+    if (segments.some(segment => !segment || path.basename(segment) !== segment || segment.startsWith('.'))) {
+      throw Object.assign(new Error(`Invalid object name: ${name}`), { code: 400 });
+    }
+    return path.join(rootDir, ...segments);
+  };
+
+  const sidecarPath = (name) => path.join(metadataDir, `${name}.json`);
+
+  const readSidecar = async (name) => {
+    try {
+      return JSON.parse(await fs.readFile(sidecarPath(name), 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') return {};
+      throw error;
+    }
+  };
+
+  const writeSidecar = async (name, sidecar) => {
+    await fs.mkdir(path.dirname(sidecarPath(name)), { recursive: true });
+    await fs.writeFile(sidecarPath(name), JSON.stringify(sidecar, null, 2));
+  };
+
+  const fileCrc32c = async (filePath) => {
+    let crc = 0;
+    for await (const chunk of createReadStream(filePath)) {
+      crc = updateCrc32c(crc, chunk);
+    }
+    return crc32cToBase64(crc);
+  };
+
+  const getObject = async (name) => {
+    let stats;
+    try {
+      stats = await fs.stat(objectPath(name));
+    } catch (error) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+    if (!stats.isFile()) return null;
+
+    const sidecar = await readSidecar(name);
+    return {
+      name,
+      size: stats.size,
+      createdAt: sidecar.createdAt || stats.birthtime.toISOString(),
+      updatedAt: stats.mtime.toISOString(),
+      etag: crypto.createHash('md5').update(`${name}:${stats.size}:${stats.mtimeMs}`).digest('base64'),
+      crc32c: sidecar.crc32c || null,
+      metadata: sidecar.metadata || {}
+    };
+  };
+
+  // Move a fully received upload into place, as GCS does when the last byte arrives
+  const finalizeObject = async (name, partPath, { metadata = {}, ifGenerationMatch, expectedCrc32c } = {}) => {
+    const crc32c = await fileCrc32c(partPath);
+    if (expectedCrc32c && expectedCrc32c !== crc32c) {
+      await fs.rm(partPath, { force: true });
+      return { status: 400, error: `Provided CRC32C "${expectedCrc32c}" doesn't match calculated CRC32C "${crc32c}".` };
+    }
+    if (ifGenerationMatch === 0 && await getObject(name)) {
+      await fs.rm(partPath, { force: true });
+      return { status: 412, error: 'At least one of the pre-conditions you specified did not hold.' };
+    }
+
+    await fs.mkdir(path.dirname(objectPath(name)), { recursive: true });
+    await fs.rename(partPath, objectPath(name));
+    await writeSidecar(name, {
+      createdAt: new Date().toISOString(),
+      contentType: 'application/zip',
+      crc32c,
+      metadata
+    });
+    return { status: 200, object: await getObject(name) };
+  };
+
+  // ==========================================
+  // Resumable sessions
+  // ==========================================
+
+  const sessionPath = (sessionId) => {
+    if (!/^[a-f0-9]{32}$/.test(sessionId)) {
+      throw Object.assign(new Error('Invalid upload session'), { code: 404 });
+    }
+    return path.join(uploadsDir, sessionId);
+  };
+
+  const removeSession = async (sessionId) => {
+    await fs.rm(`${sessionPath(sessionId)}.json`, { force: true });
+    await fs.rm(`${sessionPath(sessionId)}.part`, { force: true });
+  };
+
+  // Expired sessions are removed when they are next read
+  const readSession = async (sessionId) => {
+    let session;
+    try {
+      session = JSON.parse(await fs.readFile(`${sessionPath(sessionId)}.json`, 'utf8'));
+    } catch (error) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+    if (Date.now() - Date.parse(session.createdAt) > SESSION_LIFETIME_MS) {
+      await removeSession(sessionId);
+      return null;
+    }
+    return session;
+  };
+
+  const removeExpiredSessions = async () => {
+    for (const entry of await fs.readdir(uploadsDir)) {
+      const sessionId = entry.replace(/\.json$/, '');
+      if (sessionId !== entry && /^[a-f0-9]{32}$/.test(sessionId)) await readSession(sessionId);
+    }
+  };
+
+  const writeSession = (sessionId, session) =>
+    fs.writeFile(`${sessionPath(sessionId)}.json`, JSON.stringify(session));
+
+  const setRangeHeader = (res, received) => {
+    if (received > 0) res.set('Range', `bytes=0-${received - 1}`);
+  };
+
+  // "bytes 0-8388607/20000000", "bytes */20000000" or "bytes 0-8388607/*"
+  const parseContentRange = (header) => {
+    const match = /^bytes (?:(\d+)-(\d+)|\*)\/(\d+|\*)$/.exec(header || '');
+    if (!match) return null;
+    return {
+      start: match[1] === undefined ? null : Number(match[1]),
+      end: match[2] === undefined ? null : Number(match[2]),
+      total: match[3] === '*' ? null : Number(match[3])
+    };
+  };
+
+  const parseCrc32cHeader = (header) => {
+    const match = /crc32c=([A-Za-z0-9+/=]+)/.exec(header || '');
+    return match ? match[1] : null;
+  };
+
+  // The final response of a session: the object, or why it was not created
+  const sendResult = (res, result) =>
+    result.error ? res.status(result.status).send(result.error) : res.status(200).json(result.object);
+
+  const router = express.Router();
+  const rawBody = express.raw({ type: () => true, limit: '64mb' });
+
+  router.put('/upload/:sessionId', rawBody, async (req, res) => {
+    try {
+      const { sessionId } = req.params;
+      const session = await readSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ error: 'Upload session not found' });
+      }
+      if (session.completed) {
+        return sendResult(res, session.result);
+      }
+
+      const range = parseContentRange(req.headers['content-range']);
+      if (!range) {
+        return res.status(400).json({ error: 'Missing or invalid Content-Range header' });
+      }
+
+      // Status query
+      if (range.start === null) {
+        setRangeHeader(res, session.received);
+        return res.status(308).end();
+      }
+
+      const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      if (range.start > session.received || range.end - range.start + 1 !== body.length) {
+        setRangeHeader(res, session.received);
+        return res.status(308).end();
+      }
+
+      // Overlapping bytes are rewritten in place, as a retried chunk may resend them
+      const handle = await fs.open(`${sessionPath(sessionId)}.part`, 'r+');
+      try {
+        await handle.write(body, 0, body.length, range.start);
+      } finally {
+        await handle.close();
+      }
+      session.received = Math.max(session.received, range.end + 1);
+      if (range.total !== null) session.total = range.total;
+
+      if (session.total !== null && session.received >= session.total) {
+        const result = await finalizeObject(session.name, `${sessionPath(sessionId)}.part`, {
+          metadata: session.metadata,
+          ifGenerationMatch: session.ifGenerationMatch,
+          expectedCrc32c: parseCrc32cHeader(req.headers['x-goog-hash'])
+        });
+        const completed = result.error ? { status: result.status, error: result.error } : { object: result.object };
+        // finalizeObject has moved or removed the part file
+        await writeSession(sessionId, { ...session, completed: true, result: completed });
+        if (!result.error) console.log(`✅ Local upload completed: ${session.name}`);
+        return sendResult(res, completed);
+      }
+
+      await writeSession(sessionId, session);
+      setRangeHeader(res, session.received);
+      res.status(308).end();
+
+    } catch (error) {
+      console.error('❌ Local upload session error:', error);
+      res.status(error.code === 404 ? 404 : 500).json({ error: error.message });
+    }
+  });
+
+  router.delete('/upload/:sessionId', async (req, res) => {
+    try {
+      await removeSession(req.params.sessionId);
+      res.status(499).end();
+    } catch (error) {
+      res.status(error.code === 404 ? 404 : 500).json({ error: error.message });
+    }
+  });
+
+  // ==========================================
+  // Signed URLs
+  // ==========================================
+
+  const sign = (name, expires, contentType) =>
+    crypto.createHmac('sha256', secret).update(`${name}\n${expires}\n${contentType}`).digest('hex');
+
+  router.put('/objects/:name', rawBody, async (req, res) => {
+    try {
+      const { name } = req.params;
+      const expires = Number(req.query.expires);
+      const contentType = req.headers['content-type'] || '';
+      const expected = sign(name, expires, contentType);
+      const provided = String(req.query.signature || '');
+
+      if (provided.length !== expected.length ||
+          !crypto.timingSafeEqual(Buffer.from(provided), Buffer.from(expected))) {
+        return res.status(403).send('SignatureDoesNotMatch');
+      }
+      if (!(expires > Date.now())) {
+        return res.status(400).send('Request has expired');
+      }
+
+      await fs.mkdir(uploadsDir, { recursive: true });
+      const partPath = path.join(uploadsDir, `${crypto.randomBytes(16).toString('hex')}.part`);
+      await fs.writeFile(partPath, Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0));
+
+      const result = await finalizeObject(name, partPath, {
+        expectedCrc32c: parseCrc32cHeader(req.headers['x-goog-hash'])
+      });
+      if (result.error) {
+        return res.status(result.status).send(result.error);
+      }
+      res.status(200).end();
+
+    } catch (error) {
+      console.error('❌ Local signed upload error:', error);
+      res.status(error.code === 400 ? 400 : 500).json({ error: error.message });
+    }
+  });
+
+  return {
+    type: 'local',
+    location: rootDir,
+    router,
+
+    // Names under the prefix; with delimiter "/", only those without a further "/"
+    async listObjects({ prefix = '', delimiter } = {}) {
+      await fs.mkdir(rootDir, { recursive: true });
+      const names = [];
+      const walk = async (dir, namePrefix) => {
+        for (const dirent of await fs.readdir(dir, { withFileTypes: true })) {
+          if (dirent.name.startsWith('.')) continue;
+          const name = `${namePrefix}${dirent.name}`;
+          if (dirent.isDirectory()) {
+            // Only descend where names under the prefix can be
+            if ((name.startsWith(prefix) && delimiter !== '/') || prefix.startsWith(`${name}/`)) {
+              await walk(path.join(dir, dirent.name), `${name}/`);
+            }
+          } else if (dirent.isFile() && name.startsWith(prefix)) {
+            names.push(name);
+          }
+        }
+      };
+      await walk(rootDir, '');
+
+      const objects = [];
+      for (const name of names.sort()) {
+        const object = await getObject(name);
+        if (object) objects.push(object);
+      }
+      return objects;
+    },
+
+    getObject,
+
+    async readRange(name, start, end) {
+      const handle = await fs.open(objectPath(name), 'r');
+      try {
+        const buffer = Buffer.alloc(end - start + 1);
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, start);
+        return buffer.subarray(0, bytesRead);
+      } finally {
+        await handle.close();
+      }
+    },
+
+    createReadStream(name) {
+      return createReadStream(objectPath(name));
+    },
+
+    async readObject(name) {
+      try {
+        return await fs.readFile(objectPath(name));
+      } catch (error) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    // Written beside the target and renamed into place, so readers never see a partial object
+    async writeObject(name, contents, { contentType = 'application/octet-stream', metadata = {} } = {}) {
+      const target = objectPath(name);
+      await fs.mkdir(uploadsDir, { recursive: true });
+      const partPath = path.join(uploadsDir, `${crypto.randomBytes(16).toString('hex')}.part`);
+      await fs.writeFile(partPath, contents);
+      const crc32c = await fileCrc32c(partPath);
+      const previous = await readSidecar(name);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.rename(partPath, target);
+      await writeSidecar(name, {
+        createdAt: previous.createdAt || new Date().toISOString(),
+        contentType,
+        crc32c,
+        metadata: Object.fromEntries(Object.entries(metadata).map(([key, value]) => [key, String(value)]))
+      });
+    },
+
+    // origin is ignored: the session is served by this server, so it is always same-origin
+    async createUploadSession(name, { metadata = {}, ifGenerationMatch } = {}) {
+      objectPath(name);
+      await fs.mkdir(uploadsDir, { recursive: true });
+      await removeExpiredSessions();
+      const sessionId = crypto.randomBytes(16).toString('hex');
+      await fs.writeFile(`${sessionPath(sessionId)}.part`, Buffer.alloc(0));
+      await writeSession(sessionId, {
+        name,
+        total: null,
+        received: 0,
+        metadata,
+        ifGenerationMatch,
+        createdAt: new Date().toISOString()
+      });
+      return `${publicPath}/upload/${sessionId}`;
+    },
+
+    async getSignedUploadUrl(name, { expiresAt, contentType = 'application/zip' }) {
+      objectPath(name);
+      const params = new URLSearchParams({
+        expires: String(expiresAt),
+        signature: sign(name, expiresAt, contentType)
+      });
+      return `${publicPath}/objects/${encodeURIComponent(name)}?${params.toString()}`;
+    },
+
+    async setMetadata(name, metadata) {
+      if (!await getObject(name)) {
+        throw Object.assign(new Error(`No such object: ${name}`), { code: 404 });
+      }
+      const sidecar = await readSidecar(name);
+      const merged = { ...sidecar.metadata };
+      for (const [key, value] of Object.entries(metadata || {})) {
+        if (value === null) delete merged[key];
+        else merged[key] = String(value);
+      }
+      await writeSidecar(name, { ...sidecar, metadata: merged });
+    },
+
+    async deleteObject(name) {
+      try {
+        await fs.rm(objectPath(name));
+      } catch (error) {
+        if (error.code === 'ENOENT') return false;
+        throw error;
+      }
+      await fs.rm(sidecarPath(name), { force: true });
+      return true;
+    }
+  };
+}
@@ -0,0 +1,63 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import express from 'express';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createLocalBackend } from './localBackend.js';
+
+describe('local resumable upload sessions', () => {
+  let rootDir;
+  let storage;
+  let server;
+  let baseUrl;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-backend-'));
+    storage = createLocalBackend({ rootDir, publicPath: '/api/local-storage' });
+    const app = express();
+    app.use('/api/local-storage', storage.router);
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  const contents = Buffer.from('zip contents');
+  const put = (sessionUrl, headers, body) => fetch(`${baseUrl}${sessionUrl}`, { method: 'PUT', headers, body });
+  const statusQuery = (sessionUrl) => put(sessionUrl, { 'Content-Range': `bytes */${contents.length}` });
+  const sessionFile = (sessionUrl) => path.join(rootDir, '.uploads', `${sessionUrl.split('/').pop()}.json`);
+
+  it('answers status queries on a finished session with the stored object', async () => {
+    const sessionUrl = await storage.createUploadSession('hazards_landslides.zip', { metadata: { domain: 'hazards' } });
+    const final = await put(sessionUrl, { 'Content-Range': `bytes 0-${contents.length - 1}/${contents.length}` }, contents);
+    expect(final.status).toBe(200);
+    const object = await final.json();
+    expect(object).toMatchObject({ name: 'hazards_landslides.zip', size: contents.length, metadata: { domain: 'hazards' } });
+
+    const status = await statusQuery(sessionUrl);
+    expect(status.status).toBe(200);
+    expect(await status.json()).toEqual(object);
+  });
+
+  it('repeats the refusal of a session that could not finish', async () => {
+    await storage.writeObject('hazards_landslides.zip', Buffer.from('existing'));
+    const sessionUrl = await storage.createUploadSession('hazards_landslides.zip', { ifGenerationMatch: 0 });
+    const final = await put(sessionUrl, { 'Content-Range': `bytes 0-${contents.length - 1}/${contents.length}` }, contents);
+    expect(final.status).toBe(412);
+
+    expect((await statusQuery(sessionUrl)).status).toBe(412);
+  });
+
+  it('forgets sessions a week after they were created', async () => {
+    const sessionUrl = await storage.createUploadSession('hazards_landslides.zip');
+    const session = JSON.parse(await fs.readFile(sessionFile(sessionUrl), 'utf8'));
+    await fs.writeFile(sessionFile(sessionUrl), JSON.stringify({ ...session, createdAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString() }));
+
+    expect((await statusQuery(sessionUrl)).status).toBe(404);
+    await expect(fs.readdir(path.join(rootDir, '.uploads'))).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,266 @@
+import express from 'express';
+import { readZipEntry } from './zipReader.js';
+import { TEMP_ANALYSIS_PREFIX } from './uploads.js';
+
+// Read API for past submissions.
+//
+// Records are normalized from two sources: the custom metadata written on the
+// object after upload (cheap to list) and the metadata.json inside the zip
+// (authoritative, but needs range reads). Objects uploaded before the custom
+// metadata existed are listed from their metadata.json, cached per etag;
+// scripts/backfill-submission-metadata.js copies those fields onto the objects
+// (backfill) so later listings need no range reads. Listing never writes.
+//
+// Only submissions that can be loaded are listed: objects flagged with a
+// checksum or manifest problem by /api/verify-upload, and uploads whose session
+// recorded a manifest that was never verified, are left out. They can still be
+// opened by name, where the record shows their status.
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+const METADATA_CACHE_LIMIT = 1000;
+
+// Parsed metadata.json keyed by object name and etag, so unchanged objects are read once
+const metadataJsonCache = new Map();
+
+// Submissions are the top-level objects; analysis staging zips sit beside them.
+// Anything under a prefix (e.g. mapping templates) is not a submission.
+export const isSubmissionObject = (object) =>
+  !object.name.startsWith(TEMP_ANALYSIS_PREFIX) && !object.name.includes('/');
+
+// Objects from before upload sessions recorded a manifest have no manifest-sha256
+// and were never verified; they are listed as they are
+const isListedSubmission = (object) => {
+  const custom = object.metadata || {};
+  if (custom['checksum-status'] === 'mismatch') return false;
+  if (custom['manifest-status']) return custom['manifest-status'] === 'verified';
+  return !custom['manifest-sha256'];
+};
+
+const getIapEmail = (req) => {
+  const email = req.headers['x-goog-authenticated-user-email'];
+  return email ? email.replace('accounts.google.com:', '') : null;
+};
+
+async function readMetadataJson(storage, object) {
+  const cacheKey = `${object.name}@${object.etag}`;
+  if (metadataJsonCache.has(cacheKey)) {
+    return metadataJsonCache.get(cacheKey);
+  }
+
+  let metadataJson = null;
+  try {
+    const bytes = await readZipEntry(
+      (start, end) => storage.readRange(object.name, start, end),
+      object.size,
+      'metadata.json'
+    );
+    metadataJson = bytes ? JSON.parse(bytes.toString('utf8')) : null;
+  } catch (error) {
+    console.warn(`⚠️ Could not read metadata.json from ${object.name}: ${error.message}`);
+  }
+
+  if (metadataJsonCache.size >= METADATA_CACHE_LIMIT) {
+    metadataJsonCache.delete(metadataJsonCache.keys().next().value);
+  }
+  metadataJsonCache.set(cacheKey, metadataJson);
+  return metadataJson;
+}
+
+// Fields of the listing kept in custom metadata, with where metadata.json has them
+const BACKFILLED_FIELDS = {
+  'uploaded-by': (json) => json.submittedBy,
+  'uploaded-at': (json) => json.submittedAt,
+  'domain': (json) => json.domain,
+  'data-topic': (json) => json.dataTopic,
+  'load-type': (json) => json.loadType,
+  'review-status': (json) => json.reviewStatus ?? json.review_status,
+  'project-name': (json) => json.projectName,
+  'dataset-name': (json) => json.datasetName,
+  'publication-type': (json) => json.publicationType,
+  'is-correction': (json) => (typeof json.isCorrection === 'boolean' ? String(json.isCorrection) : undefined)
+};
+
+// Uploads from the form set "domain"; backfilled objects are marked even when metadata.json was unreadable
+export const needsBackfill = (object) => !object.metadata?.['domain'] && !object.metadata?.['metadata-backfilled-at'];
+
+/**
+ * Copy the listing fields of a legacy object's metadata.json into its custom
+ * metadata, without overwriting what is already there. Returns the object as it
+ * is now stored, or as it would be if writing failed.
+ */
+export async function backfillSubmissionMetadata(storage, object) {
+  const json = await readMetadataJson(storage, object) || {};
+  const custom = object.metadata || {};
+
+  const backfill = { 'metadata-backfilled-at': new Date().toISOString() };
+  for (const [key, read] of Object.entries(BACKFILLED_FIELDS)) {
+    const value = read(json);
+    if (!custom[key] && value !== undefined && value !== null && value !== '') backfill[key] = String(value);
+  }
+
+  try {
+    await storage.setMetadata(object.name, backfill);
+    console.log(`🗂️ Backfilled submission metadata for ${object.name}`);
+  } catch (error) {
+    console.warn(`⚠️ Could not backfill metadata for ${object.name}: ${error.message}`);
+  }
+  return { ...object, metadata: { ...backfill, ...custom } };
+}
+
+const firstValue = (...values) => {
+  const value = values.find(candidate => candidate !== undefined && candidate !== null && candidate !== '');
+  return value === undefined ? null : value;
+};
+
+/**
+ * Build the normalized submission record. Custom metadata wins over metadata.json
+ * because it is what later review steps update.
+ */
+export function normalizeSubmission(object, metadataJson = null) {
+  const custom = object.metadata || {};
+  const json = metadataJson || {};
+
+  return {
+    filename: object.name,
+    uploadedBy: firstValue(custom['uploaded-by'], json.submittedBy),
+    uploadedAt: firstValue(custom['uploaded-at'], json.submittedAt, object.createdAt),
+    domain: firstValue(custom['domain'], json.domain),
+    dataTopic: firstValue(custom['data-topic'], json.dataTopic),
+    loadType: firstValue(custom['load-type'], json.loadType),
+    reviewStatus: firstValue(custom['review-status'], json.reviewStatus, json.review_status), // review_status: pre-v1 manifests
+    projectName: firstValue(custom['project-name'], json.projectName),
+    datasetName: firstValue(custom['dataset-name'], json.datasetName),
+    publicationType: firstValue(custom['publication-type'], json.publicationType),
+    isCorrection: custom['is-correction'] === 'true' || json.isCorrection === true,
+    sizeBytes: object.size,
+    sha256: firstValue(custom['sha256']),
+    checksumStatus: firstValue(custom['checksum-status']),
+    manifestStatus: firstValue(custom['manifest-status'])
+  };
+}
+
+// Missing or empty query values mean "no filter"
+function parseFilters(query, currentUser) {
+  const text = (value) => (typeof value === 'string' && value.trim() !== '' ? value.trim() : null);
+  const date = (value, endOfDay) => {
+    const raw = text(value);
+    if (!raw) return null;
+    // Plain dates cover the whole day
+    const parsed = new Date(/^\d{4}-\d{2}-\d{2}$/.test(raw) ? `${raw}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z` : raw);
+    if (Number.isNaN(parsed.getTime())) {
+      throw Object.assign(new Error(`Invalid date: ${raw}`), { status: 400 });
+    }
+    return parsed;
+  };
+
+  const user = text(query.user);
+  return {
+    user: user === 'me' ? currentUser : user,
+    domain: text(query.domain),
+    dataTopic: text(query.dataTopic),
+    loadType: text(query.loadType),
+    reviewStatus: text(query.reviewStatus),
+    from: date(query.from, false),
+    to: date(query.to, true)
+  };
+}
+
+function matchesFilters(record, filters) {
+  const uploadedAt = new Date(record.uploadedAt);
+  return (!filters.user || record.uploadedBy === filters.user) &&
+    (!filters.domain || record.domain === filters.domain) &&
+    (!filters.dataTopic || record.dataTopic === filters.dataTopic) &&
+    (!filters.loadType || record.loadType === filters.loadType) &&
+    (!filters.reviewStatus || record.reviewStatus === filters.reviewStatus) &&
+    (!filters.from || uploadedAt >= filters.from) &&
+    (!filters.to || uploadedAt <= filters.to);
+}
+
+function parsePagination(query) {
+  const page = Math.max(1, parseInt(query.page, 10) || 1);
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(query.pageSize, 10) || DEFAULT_PAGE_SIZE));
+  return { page, pageSize };
+}
+
+export function createSubmissionsRouter(storage) {
+  const router = express.Router();
+
+  router.use((req, res, next) => {
+    req.userEmail = getIapEmail(req);
+    if (!req.userEmail) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+    next();
+  });
+
+  // GET /api/submissions?user=me&domain=&dataTopic=&loadType=&reviewStatus=&from=&to=&page=&pageSize=
+  router.get('/', async (req, res) => {
+    try {
+      const filters = parseFilters(req.query, req.userEmail);
+      const { page, pageSize } = parsePagination(req.query);
+
+      const objects = (await storage.listObjects({ delimiter: '/' }))
+        .filter(object => isSubmissionObject(object) && isListedSubmission(object));
+
+      const records = [];
+      for (const object of objects) {
+        // Legacy objects carry no submission metadata on the object itself until backfilled
+        const metadataJson = needsBackfill(object) ? await readMetadataJson(storage, object) : null;
+        const record = normalizeSubmission(object, metadataJson);
+        if (matchesFilters(record, filters)) records.push(record);
+      }
+
+      records.sort((a, b) => String(b.uploadedAt).localeCompare(String(a.uploadedAt)));
+
+      const total = records.length;
+      const start = (page - 1) * pageSize;
+
+      console.log(`📋 Listed ${total} submissions (page ${page}) for ${req.userEmail}`);
+      res.json({
+        success: true,
+        submissions: records.slice(start, start + pageSize),
+        pagination: {
+          page,
+          pageSize,
+          total,
+          totalPages: Math.max(1, Math.ceil(total / pageSize))
+        }
+      });
+
+    } catch (error) {
+      console.error('❌ Error listing submissions:', error);
+      res.status(error.status || 500).json({
+        success: false,
+        error: error.status ? error.message : 'Failed to list submissions: ' + error.message
+      });
+    }
+  });
+
+  // GET /api/submissions/:filename - normalized record plus the full metadata.json
+  router.get('/:filename', async (req, res) => {
+    try {
+      const object = await storage.getObject(req.params.filename);
+      if (!object || !isSubmissionObject(object)) {
+        return res.status(404).json({ success: false, error: 'Submission not found' });
+      }
+
+      const metadataJson = await readMetadataJson(storage, object);
+
+      res.json({
+        success: true,
+        submission: normalizeSubmission(object, metadataJson),
+        metadata: metadataJson
+      });
+
+    } catch (error) {
+      console.error('❌ Error reading submission:', error);
+      res.status(error.code === 400 ? 400 : 500).json({
+        success: false,
+        error: 'Failed to read submission: ' + error.message
+      });
+    }
+  });
+
+  return router;
+}
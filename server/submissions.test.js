@@ -0,0 +1,142 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import express from 'express';
+import JSZip from 'jszip';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLocalBackend } from './storage/localBackend.js';
+import { backfillSubmissionMetadata, createSubmissionsRouter, needsBackfill } from './submissions.js';
+import { updateManifest } from './testing/manifestFixture.js';
+
+const zipWithMetadata = async (metadata) => {
+  const zip = new JSZip();
+  zip.file('metadata.json', JSON.stringify(metadata));
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+};
+
+describe('GET /api/submissions', () => {
+  let rootDir;
+  let storage;
+  let server;
+  let baseUrl;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'submissions-'));
+    storage = createLocalBackend({ rootDir, publicPath: '/api/local-storage' });
+    const app = express();
+    app.use('/api/submissions', createSubmissionsRouter(storage));
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(rootDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  const listSubmissions = async (query = '') => {
+    const response = await fetch(`${baseUrl}/api/submissions${query}`, {
+      headers: { 'x-goog-authenticated-user-email': 'accounts.google.com:someone@utah.gov' },
+    });
+    return response.json();
+  };
+
+  it('lists top-level submissions only', async () => {
+    await storage.writeObject('hazards_landslides.zip', Buffer.from('zip'), { metadata: { domain: 'hazards', 'uploaded-by': 'someone@utah.gov' } });
+    await storage.writeObject('temp-analysis-1.zip', Buffer.from('zip'));
+    await storage.writeObject(`content-sha256/${'a'.repeat(64)}`, Buffer.from('{}'));
+    await storage.writeObject('mapping-templates/0123456789abcdef01234567.json', Buffer.from('{}'));
+
+    const { submissions } = await listSubmissions();
+    expect(submissions.map(submission => submission.filename)).toEqual(['hazards_landslides.zip']);
+  });
+
+  it('leaves out objects that failed or never finished verification', async () => {
+    const write = (name, metadata) => storage.writeObject(name, Buffer.from('zip'), { metadata: { domain: 'hazards', ...metadata } });
+    await write('hazards_verified.zip', { 'manifest-sha256': 'f'.repeat(64), 'checksum-status': 'verified', 'manifest-status': 'verified' });
+    await write('hazards_corrupt.zip', { 'checksum-status': 'mismatch' });
+    await write('hazards_changed.zip', { 'manifest-sha256': 'f'.repeat(64), 'checksum-status': 'verified', 'manifest-status': 'mismatch' });
+    await write('hazards_unverified.zip', { 'manifest-sha256': 'f'.repeat(64) });
+    await write('hazards_legacy.zip', {});
+
+    const { submissions } = await listSubmissions();
+    expect(submissions.map(submission => submission.filename).sort()).toEqual(['hazards_legacy.zip', 'hazards_verified.zip']);
+
+    const response = await fetch(`${baseUrl}/api/submissions/hazards_changed.zip`, {
+      headers: { 'x-goog-authenticated-user-email': 'accounts.google.com:someone@utah.gov' },
+    });
+    expect((await response.json()).submission).toMatchObject({ checksumStatus: 'verified', manifestStatus: 'mismatch' });
+  });
+
+  it('lists a legacy object from its metadata.json without writing to it', async () => {
+    const legacy = updateManifest({ publicationType: 'Map', isCorrection: true, correctionReason: 'Typo' });
+    await storage.writeObject('hazards_landslides.zip', await zipWithMetadata(legacy));
+    const setMetadata = vi.spyOn(storage, 'setMetadata');
+    const readRange = vi.spyOn(storage, 'readRange');
+
+    const first = await listSubmissions('?domain=hazards');
+    expect(first.submissions).toEqual([expect.objectContaining({
+      filename: 'hazards_landslides.zip',
+      uploadedBy: 'someone@utah.gov',
+      domain: 'hazards',
+      dataTopic: 'landslides',
+      publicationType: 'Map',
+      isCorrection: true,
+    })]);
+    expect(setMetadata).not.toHaveBeenCalled();
+    expect((await storage.getObject('hazards_landslides.zip')).metadata).toEqual({});
+
+    // metadata.json is cached per etag
+    readRange.mockClear();
+    const second = await listSubmissions('?domain=hazards');
+    expect(second.submissions).toEqual(first.submissions);
+    expect(readRange).not.toHaveBeenCalled();
+  });
+});
+
+describe('backfillSubmissionMetadata', () => {
+  let rootDir;
+  let storage;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'submissions-'));
+    storage = createLocalBackend({ rootDir, publicPath: '/api/local-storage' });
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('copies the listing fields of metadata.json onto the object without overwriting', async () => {
+    await storage.writeObject('hazards_landslides.zip', await zipWithMetadata(updateManifest({ isCorrection: true, correctionReason: 'Typo' })), {
+      metadata: { 'review-status': 'approved' },
+    });
+    const object = await storage.getObject('hazards_landslides.zip');
+    expect(needsBackfill(object)).toBe(true);
+
+    await backfillSubmissionMetadata(storage, object);
+    const stored = await storage.getObject('hazards_landslides.zip');
+    expect(stored.metadata).toMatchObject({
+      'domain': 'hazards',
+      'data-topic': 'landslides',
+      'uploaded-by': 'someone@utah.gov',
+      'is-correction': 'true',
+      'review-status': 'approved',
+      'metadata-backfilled-at': expect.any(String),
+    });
+    expect(needsBackfill(stored)).toBe(false);
+  });
+
+  it('marks objects without a readable metadata.json so they are not read again', async () => {
+    await storage.writeObject('old_upload.zip', Buffer.from('not a zip'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await backfillSubmissionMetadata(storage, await storage.getObject('old_upload.zip'));
+    const stored = await storage.getObject('old_upload.zip');
+    expect(stored.metadata).toEqual({ 'metadata-backfilled-at': expect.any(String) });
+    expect(needsBackfill(stored)).toBe(false);
+  });
+});
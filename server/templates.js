@@ -0,0 +1,204 @@
+import crypto from 'crypto';
+import express from 'express';
+
+// Mapping templates: completed column mappings saved under a name and shared
+// by everyone using the form, so monthly updates to the same table do not
+// have to be mapped by hand again.
+//
+// A template is keyed by its target table, the signature of the source layer
+// it was made from (the source column names, ignoring order and case) and its
+// name; saving the same name for the same table and columns replaces it. Each
+// template is a JSON object in the storage backend named
+// MAPPING_TEMPLATE_PREFIX + id + '.json'; the prefix keeps them out of the
+// submission listing, which only covers the top level.
+
+export const MAPPING_TEMPLATE_PREFIX = 'mapping-templates/';
+
+const MAX_NAME_LENGTH = 100;
+const TEMPLATE_ID_PATTERN = /^[a-f0-9]{24}$/;
+
+const sha256 = (text) => crypto.createHash('sha256').update(text).digest('hex');
+
+// Same set of column names -> same signature
+export const sourceSignature = (sourceColumns) =>
+  sha256([...new Set(sourceColumns.map(column => column.toLowerCase()))].sort().join('\n')).slice(0, 16);
+
+const templateId = (targetTable, signature, name) =>
+  sha256(`${targetTable}\n${signature}\n${name.trim().toLowerCase()}`).slice(0, 24);
+
+const objectName = (id) => `${MAPPING_TEMPLATE_PREFIX}${id}.json`;
+
+const getIapEmail = (req) => {
+  const email = req.headers['x-goog-authenticated-user-email'];
+  return email ? email.replace('accounts.google.com:', '') : null;
+};
+
+const badRequest = (message) => Object.assign(new Error(message), { status: 400 });
+
+// Returns the template fields from a request body, or throws a 400 error
+function parseTemplateInput(body = {}) {
+  const { name, targetTable, sourceLayer = '', sourceColumns, columnMapping, targetColumnValues = {}, columnTransforms = {} } = body;
+
+  if (typeof name !== 'string' || !name.trim()) throw badRequest('Template name is required');
+  if (name.trim().length > MAX_NAME_LENGTH) throw badRequest(`Template name must be at most ${MAX_NAME_LENGTH} characters`);
+  if (typeof targetTable !== 'string' || !/^[^.\s]+\.[^.\s]+$/.test(targetTable)) {
+    throw badRequest('targetTable must be "schema.table"');
+  }
+  if (typeof sourceLayer !== 'string') throw badRequest('sourceLayer must be a string');
+  if (!Array.isArray(sourceColumns) || sourceColumns.length === 0 ||
+      sourceColumns.some(column => typeof column !== 'string' || !column)) {
+    throw badRequest('sourceColumns must be a non-empty list of column names');
+  }
+  if (!columnMapping || typeof columnMapping !== 'object' || Array.isArray(columnMapping)) {
+    throw badRequest('columnMapping must be an object');
+  }
+
+  const known = new Set(sourceColumns);
+  for (const [source, target] of Object.entries(columnMapping)) {
+    if (!known.has(source)) throw badRequest(`columnMapping has "${source}", which is not in sourceColumns`);
+    if (target !== null && (typeof target !== 'string' || !target)) {
+      throw badRequest(`columnMapping["${source}"] must be a target column name or null`);
+    }
+  }
+  if (Object.keys(columnMapping).length === 0) throw badRequest('columnMapping is empty');
+
+  for (const [target, value] of Object.entries(targetColumnValues || {})) {
+    if (!value || !['constant', 'expression'].includes(value.kind) || typeof value.value !== 'string' || !value.value) {
+      throw badRequest(`targetColumnValues["${target}"] must be { kind: "constant" | "expression", value }`);
+    }
+  }
+
+  for (const [source, expression] of Object.entries(columnTransforms || {})) {
+    if (!known.has(source)) throw badRequest(`columnTransforms has "${source}", which is not in sourceColumns`);
+    if (typeof expression !== 'string' || !expression.trim()) {
+      throw badRequest(`columnTransforms["${source}"] must be a non-empty expression`);
+    }
+  }
+
+  return {
+    name: name.trim(),
+    targetTable,
+    sourceLayer,
+    sourceColumns,
+    columnMapping,
+    targetColumnValues: targetColumnValues || {},
+    columnTransforms: columnTransforms || {}
+  };
+}
+
+export function createTemplateStore(storage) {
+  // Parsed templates keyed by object name and etag
+  const cache = new Map();
+
+  const read = async (object) => {
+    const cacheKey = `${object.name}@${object.etag}`;
+    if (!cache.has(cacheKey)) {
+      const contents = await storage.readObject(object.name);
+      if (!contents) return null;
+      cache.set(cacheKey, JSON.parse(contents.toString('utf8')));
+    }
+    return cache.get(cacheKey);
+  };
+
+  return {
+    async list(targetTable) {
+      const objects = await storage.listObjects({ prefix: MAPPING_TEMPLATE_PREFIX });
+
+      const templates = [];
+      for (const object of objects) {
+        try {
+          const template = await read(object);
+          if (template && (!targetTable || template.targetTable === targetTable)) templates.push(template);
+        } catch (error) {
+          console.warn(`⚠️ Skipping unreadable mapping template ${object.name}:`, error.message);
+        }
+      }
+      return templates.sort((a, b) => String(b.updatedAt).localeCompare(String(a.updatedAt)));
+    },
+
+    async save(input, userEmail) {
+      const signature = sourceSignature(input.sourceColumns);
+      const id = templateId(input.targetTable, signature, input.name);
+      const existingObject = await storage.getObject(objectName(id));
+      const existing = existingObject ? await read(existingObject) : null;
+      const now = new Date().toISOString();
+
+      const template = {
+        id,
+        ...input,
+        sourceSignature: signature,
+        createdBy: existing?.createdBy || userEmail,
+        createdAt: existing?.createdAt || now,
+        updatedBy: userEmail,
+        updatedAt: now
+      };
+
+      await storage.writeObject(objectName(id), Buffer.from(JSON.stringify(template, null, 2)), {
+        contentType: 'application/json',
+        metadata: { 'target-table': input.targetTable, 'source-signature': signature }
+      });
+      return { template, replaced: Boolean(existing) };
+    },
+
+    remove(id) {
+      return storage.deleteObject(objectName(id));
+    }
+  };
+}
+
+export function createTemplatesRouter(store) {
+  const router = express.Router();
+
+  router.use((req, res, next) => {
+    req.userEmail = getIapEmail(req);
+    if (!req.userEmail) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
+    next();
+  });
+
+  // GET /api/mapping-templates?targetTable=schema.table
+  router.get('/', async (req, res) => {
+    try {
+      const targetTable = typeof req.query.targetTable === 'string' ? req.query.targetTable : '';
+      const templates = await store.list(targetTable);
+      res.json({ success: true, templates });
+    } catch (error) {
+      console.error('❌ Error listing mapping templates:', error);
+      res.status(500).json({ success: false, error: 'Failed to list mapping templates: ' + error.message });
+    }
+  });
+
+  router.post('/', async (req, res) => {
+    try {
+      const input = parseTemplateInput(req.body);
+      const { template, replaced } = await store.save(input, req.userEmail);
+      console.log(`💾 ${replaced ? 'Updated' : 'Saved'} mapping template "${template.name}" for ${template.targetTable} (${req.userEmail})`);
+      res.status(replaced ? 200 : 201).json({ success: true, template, replaced });
+    } catch (error) {
+      if (error.status === 400) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+      console.error('❌ Error saving mapping template:', error);
+      res.status(500).json({ success: false, error: 'Failed to save mapping template: ' + error.message });
+    }
+  });
+
+  router.delete('/:id', async (req, res) => {
+    try {
+      if (!TEMPLATE_ID_PATTERN.test(req.params.id)) {
+        return res.status(400).json({ success: false, error: 'Invalid template id' });
+      }
+      if (!await store.remove(req.params.id)) {
+        return res.status(404).json({ success: false, error: 'Mapping template not found' });
+      }
+      console.log(`🗑️ Deleted mapping template ${req.params.id} (${req.userEmail})`);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('❌ Error deleting mapping template:', error);
+      res.status(500).json({ success: false, error: 'Failed to delete mapping template: ' + error.message });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,56 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createLocalBackend } from './storage/localBackend.js';
+import { createTemplateStore, MAPPING_TEMPLATE_PREFIX } from './templates.js';
+
+const templateInput = (overrides = {}) => ({
+  name: 'Monthly wells',
+  targetTable: 'groundwater.wells',
+  sourceLayer: 'wells',
+  sourceColumns: ['WELL_ID', 'DEPTH'],
+  columnMapping: { WELL_ID: 'well_id', DEPTH: 'depth_ft' },
+  targetColumnValues: {},
+  columnTransforms: {},
+  ...overrides,
+});
+
+describe('template store', () => {
+  let rootDir;
+  let storage;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'templates-'));
+    storage = createLocalBackend({ rootDir, publicPath: '/api/local-storage' });
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('stores templates under their prefix, outside the top-level submission listing', async () => {
+    const store = createTemplateStore(storage);
+    await storage.writeObject('hazards_landslides.zip', Buffer.from('zip'));
+    const { template } = await store.save(templateInput(), 'someone@utah.gov');
+
+    expect((await storage.listObjects({ prefix: MAPPING_TEMPLATE_PREFIX })).map(object => object.name))
+      .toEqual([`mapping-templates/${template.id}.json`]);
+    expect((await storage.listObjects({ delimiter: '/' })).map(object => object.name)).toEqual(['hazards_landslides.zip']);
+  });
+
+  it('lists, replaces and removes templates by table', async () => {
+    const store = createTemplateStore(storage);
+    const first = await store.save(templateInput(), 'someone@utah.gov');
+    const replaced = await store.save(templateInput({ columnMapping: { WELL_ID: 'well_id', DEPTH: null } }), 'other@utah.gov');
+    await store.save(templateInput({ targetTable: 'hazards.landslides' }), 'someone@utah.gov');
+
+    expect(replaced).toMatchObject({ replaced: true, template: { id: first.template.id, createdBy: 'someone@utah.gov', updatedBy: 'other@utah.gov' } });
+    const templates = await store.list('groundwater.wells');
+    expect(templates.map(template => template.columnMapping)).toEqual([{ WELL_ID: 'well_id', DEPTH: null }]);
+    expect(await store.list('')).toHaveLength(2);
+
+    expect(await store.remove(first.template.id)).toBe(true);
+    expect(await store.list('groundwater.wells')).toEqual([]);
+  });
+});
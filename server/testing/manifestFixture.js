@@ -0,0 +1,44 @@
+// A valid update-load submission manifest for tests; overrides replace top-level properties
+export const updateManifest = (overrides = {}) => ({
+  manifestVersion: 1,
+  generator: { name: 'ugs-ingest-web', version: '1.0.0', userAgent: null },
+  projectName: 'Hazards',
+  datasetName: 'Landslides',
+  authorName: 'A. Geologist',
+  publicationType: 'Digital Map',
+  publicationDate: '2024-03-01',
+  description: '',
+  domain: 'hazards',
+  dataTopic: 'landslides',
+  scale: null,
+  quadName: null,
+  pubId: null,
+  loadType: 'update',
+  isCorrection: false,
+  correctionReason: null,
+  reviewStatus: 'N',
+  tableSchemaVersion: 'v1',
+  tableType: null,
+  uniqueKey: null,
+  unifiedViewName: null,
+  submittedBy: 'someone@utah.gov',
+  submittedAt: '2024-03-02T10:00:00.000Z',
+  zipFilename: 'hazards_landslides.zip',
+  originalFiles: [{ name: 'landslides.csv', size: 10, type: 'text/csv', lastModified: 0, sha256: null }],
+  checksumAlgorithm: 'SHA-256',
+  totalFileCount: 1,
+  totalFileSize: 10,
+  containsGeodatabase: false,
+  schemaValidation: {
+    validationState: 'completed',
+    targetTable: 'landslides',
+    sourceLayer: '',
+    sourceColumns: ['ID'],
+    columnMapping: { ID: 'id' },
+    validationCompleted: true,
+    gdalAnalysis: null,
+    mappingTimestamp: '2024-03-02T09:59:00.000Z',
+    postgrestUrl: 'https://example.test',
+  },
+  ...overrides,
+});
@@ -0,0 +1,388 @@
+import crypto from 'crypto';
+import express from 'express';
+import { validateManifest, formatManifestErrors, manifestFingerprint } from './manifest.js';
+import { readZipEntry } from './zipReader.js';
+import { checkDomainRules } from './domains.js';
+
+// Starts uploads of submission zips against the configured storage backend.
+//
+// Before anything is issued, the submission manifest (the metadata.json the
+// client packed into the zip) must validate against the manifest JSON Schema
+// and follow its domain's registry entry (publication types, naming rules);
+// otherwise the answer is 422 with the validation errors.
+//
+// The request is then checked for duplicates: when contentHash (SHA-256
+// fingerprint of the data files) matches an existing submission, or the
+// filename is taken, the answer is 409 with the conflicts and a free
+// versioned filename. Resend with onConflict=new-version (identical
+// data accepted under an unused name) or onConflict=replace to go ahead.
+//
+// Content hashes are indexed by marker objects, CONTENT_HASH_PREFIX + hash,
+// naming the submission that holds that data; they are written once the
+// upload is verified, so looking up a hash never lists the bucket.
+// scripts/index-content-hashes.js writes markers for older submissions.
+//
+// After the upload, /api/verify-upload checks the stored object against the
+// size, CRC32C and SHA-256 the browser computed: size and CRC32C from the
+// object's metadata, the SHA-256 by streaming the object through a hash here.
+// Only values computed from the stored bytes are recorded as verified. For
+// submissions it then reads metadata.json from the zip, validates it again and
+// compares its fingerprint with the manifest accepted for the session; a zip
+// whose manifest is invalid or differs is flagged with manifest-status and
+// never marked verified.
+//
+// /api/update-file-metadata then lets the browser add descriptive fields to the
+// object. Only CLIENT_METADATA_KEYS are accepted: identity, checksum and
+// manifest fields are written by the server alone.
+
+// Objects created for GDAL analysis are temporary and never count as submissions
+export const TEMP_ANALYSIS_PREFIX = 'temp-analysis-';
+
+export const CONTENT_HASH_PREFIX = 'content-sha256/';
+
+const CONTENT_HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+const contentMarkerName = (contentHash) => `${CONTENT_HASH_PREFIX}${contentHash}`;
+
+const SIGNED_URL_LIFETIME_MS = 2 * 60 * 60 * 1000;
+
+// What the upload form records after an upload, shown on the submissions page
+export const CLIENT_METADATA_KEYS = new Set([
+  'uploaded-at',
+  'source',
+  'original-filename',
+  'file-size-bytes',
+  'file-size-mb',
+  'upload-duration-seconds',
+  'resumed-from-byte',
+  'domain',
+  'data-topic',
+  'load-type',
+  'review-status',
+  'project-name',
+  'dataset-name'
+]);
+
+const describeObject = (object) => ({
+  filename: object.name,
+  uploadedBy: object.metadata?.['uploaded-by'] || 'unknown',
+  uploadedAt: object.metadata?.['uploaded-at'] || object.createdAt || null
+});
+
+/**
+ * Point the marker for a stored submission's content hash at it. Objects without
+ * a content hash (analysis uploads, old clients) are skipped.
+ */
+export async function recordContentHash(storage, object) {
+  const contentHash = object.metadata?.['content-sha256'];
+  if (!contentHash || !CONTENT_HASH_PATTERN.test(contentHash) || object.name.startsWith(TEMP_ANALYSIS_PREFIX)) return false;
+
+  await storage.writeObject(contentMarkerName(contentHash), Buffer.from(JSON.stringify({ filename: object.name })), {
+    contentType: 'application/json',
+    metadata: { filename: object.name }
+  });
+  return true;
+}
+
+async function hashObject(storage, name) {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of storage.createReadStream(name)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+// Problems with the metadata.json in a stored submission zip, as { status, errors }, or null
+async function checkStoredManifest(storage, object) {
+  let manifest;
+  try {
+    const bytes = await readZipEntry((start, end) => storage.readRange(object.name, start, end), object.size, 'metadata.json');
+    if (!bytes) return { status: 'missing', errors: [{ path: '/', message: 'metadata.json is missing from the zip' }] };
+    manifest = JSON.parse(bytes.toString('utf8'));
+  } catch (error) {
+    return { status: 'invalid', errors: [{ path: '/', message: `metadata.json could not be read: ${error.message}` }] };
+  }
+
+  const errors = validateManifest(manifest);
+  if (errors.length === 0 && manifest.zipFilename !== object.name) {
+    errors.push({ path: '/zipFilename', message: `must match the uploaded filename ${object.name}` });
+  }
+  if (errors.length > 0) return { status: 'invalid', errors };
+
+  if (manifestFingerprint(manifest) !== object.metadata?.['manifest-sha256']) {
+    return { status: 'mismatch', errors: [{ path: '/', message: 'differs from the manifest accepted when the upload started' }] };
+  }
+  return null;
+}
+
+async function findConflicts(storage, filename, contentHash) {
+  const conflicts = { identical: null, nameConflict: null };
+
+  if (contentHash) {
+    const marker = await storage.getObject(contentMarkerName(contentHash));
+    // The submission may have been deleted or replaced since the marker was written
+    const match = marker?.metadata?.filename ? await storage.getObject(marker.metadata.filename) : null;
+    if (match && match.metadata?.['content-sha256'] === contentHash) conflicts.identical = describeObject(match);
+  }
+
+  const existing = await storage.getObject(filename);
+  if (existing) conflicts.nameConflict = describeObject(existing);
+
+  return conflicts;
+}
+
+// name.zip -> name_v2.zip, name_v3.zip, ... (first one not already stored)
+async function nextVersionedFilename(storage, filename) {
+  const match = /^(.*?)(?:_v(\d+))?(\.zip)$/i.exec(filename);
+  const base = match ? match[1] : filename;
+  const extension = match ? match[3] : '';
+  let version = match && match[2] ? parseInt(match[2], 10) + 1 : 2;
+
+  for (;;) {
+    const candidate = `${base}_v${version}${extension}`;
+    if (!await storage.getObject(candidate)) return candidate;
+    version++;
+  }
+}
+
+export function createUploadsRouter(storage, domainRegistry) {
+  const router = express.Router();
+
+  // POST /api/upload-session { filename, fileSize, uploadType, contentHash, onConflict, manifest }
+  router.post('/upload-session', async (req, res) => {
+    try {
+      const userEmail = req.headers['x-goog-authenticated-user-email']?.replace('accounts.google.com:', '') || 'unknown';
+      const { filename, fileSize, contentHash = null, manifest } = req.body;
+      const uploadType = req.body.uploadType || 'resumable';
+      const onConflict = req.body.onConflict || 'reject';
+
+      if (!filename) {
+        return res.status(400).json({ success: false, error: 'Filename is required' });
+      }
+      if (contentHash !== null && !CONTENT_HASH_PATTERN.test(contentHash)) {
+        return res.status(400).json({ success: false, error: 'contentHash must be a lowercase hex SHA-256' });
+      }
+
+      console.log(`🔐 Upload requested by ${userEmail}: ${filename} (${fileSize} bytes, ${uploadType})`);
+
+      // Analysis uploads are throwaway copies of the data and carry no manifest
+      const isSubmission = !filename.startsWith(TEMP_ANALYSIS_PREFIX);
+
+      // Only a session records the accepted manifest's fingerprint on the object;
+      // an object PUT to a signed URL could not be checked by /api/verify-upload
+      if (isSubmission && uploadType === 'signed-url') {
+        return res.status(400).json({ success: false, error: 'Submissions must be uploaded through a resumable session' });
+      }
+
+      if (isSubmission) {
+        const validationErrors = manifest === undefined
+          ? [{ path: '/', message: 'manifest is required' }]
+          : validateManifest(manifest);
+        if (validationErrors.length === 0 && manifest.zipFilename !== filename) {
+          validationErrors.push({ path: '/zipFilename', message: `must match the uploaded filename ${filename}` });
+        }
+        if (validationErrors.length === 0) {
+          validationErrors.push(...checkDomainRules(await domainRegistry.get(), manifest, filename));
+        }
+        if (validationErrors.length > 0) {
+          console.log(`⚠️ Invalid manifest for ${filename}: ${formatManifestErrors(validationErrors)}`);
+          return res.status(422).json({
+            success: false,
+            error: 'Submission manifest is invalid',
+            validationErrors
+          });
+        }
+      }
+
+      // Duplicate detection (analysis uploads skip it too)
+      if (onConflict !== 'replace' && isSubmission) {
+        const conflicts = await findConflicts(storage, filename, onConflict === 'new-version' ? null : contentHash);
+
+        if (conflicts.identical || conflicts.nameConflict) {
+          console.log(`⚠️ Duplicate submission detected for ${filename}:`, conflicts);
+          return res.status(409).json({
+            success: false,
+            error: conflicts.identical
+              ? `Identical to submission ${conflicts.identical.filename}`
+              : `A file named ${filename} already exists`,
+            conflicts,
+            suggestedFilename: conflicts.nameConflict ? await nextVersionedFilename(storage, filename) : filename
+          });
+        }
+      }
+
+      if (uploadType === 'signed-url') {
+        const expiresAt = Date.now() + SIGNED_URL_LIFETIME_MS;
+        const signedUrl = await storage.getSignedUploadUrl(filename, { expiresAt, contentType: 'application/zip' });
+        return res.json({
+          success: true,
+          uploadType: 'signed-url',
+          signedUrl,
+          filename,
+          location: storage.location,
+          uploadedBy: userEmail,
+          expiresAt: new Date(expiresAt).toISOString()
+        });
+      }
+
+      // Recorded on the object so later submissions can be compared against it.
+      // Unless replacing, the upload only finalizes if no object was created meanwhile.
+      const sessionUrl = await storage.createUploadSession(filename, {
+        origin: req.headers.origin,
+        metadata: {
+          'uploaded-by': userEmail,
+          ...(contentHash ? { 'content-sha256': contentHash } : {}),
+          ...(isSubmission ? {
+            'manifest-version': String(manifest.manifestVersion),
+            'manifest-sha256': manifestFingerprint(manifest)
+          } : {})
+        },
+        ...(onConflict === 'replace' ? {} : { ifGenerationMatch: 0 })
+      });
+
+      console.log(`✅ Upload session started for ${filename} on ${storage.type} storage`);
+      res.json({
+        success: true,
+        uploadType: 'resumable',
+        sessionUrl,
+        filename,
+        location: storage.location,
+        uploadedBy: userEmail
+      });
+
+    } catch (error) {
+      console.error('❌ Error starting upload:', error);
+      res.status(error.code === 400 ? 400 : 500).json({
+        success: false,
+        error: 'Failed to start upload: ' + error.message
+      });
+    }
+  });
+
+  // POST /api/verify-upload { filename, size, crc32c, sha256 }
+  router.post('/verify-upload', async (req, res) => {
+    try {
+      const { filename, size, crc32c, sha256 } = req.body;
+
+      if (!filename || !crc32c || !sha256 || size === undefined) {
+        return res.status(400).json({ success: false, error: 'filename, size, crc32c and sha256 are required' });
+      }
+
+      console.log(`🔎 Verifying checksum for file: ${filename}`);
+
+      const object = await storage.getObject(filename);
+      if (!object) {
+        return res.status(404).json({ success: false, error: 'Uploaded file not found in storage' });
+      }
+
+      const mismatches = [];
+      if (String(object.size) !== String(size)) {
+        mismatches.push(`size is ${object.size} bytes, expected ${size}`);
+      }
+      if (object.crc32c !== crc32c) {
+        mismatches.push(`CRC32C is ${object.crc32c}, expected ${crc32c}`);
+      }
+      // Reading the whole object is only worth it once the cheap checks pass
+      const storedSha256 = mismatches.length === 0 ? await hashObject(storage, filename) : null;
+      if (storedSha256 !== null && storedSha256 !== String(sha256).toLowerCase()) {
+        mismatches.push(`SHA-256 is ${storedSha256}, expected ${sha256}`);
+      }
+
+      if (mismatches.length > 0) {
+        console.error(`❌ Checksum mismatch for ${filename}: ${mismatches.join('; ')}`);
+        // Flag the object so the loader never picks up a corrupted submission
+        await storage.setMetadata(filename, { 'checksum-status': 'mismatch' });
+        return res.status(409).json({
+          success: false,
+          verified: false,
+          mismatches,
+          error: `Stored file does not match the uploaded zip (${mismatches.join('; ')})`
+        });
+      }
+
+      const manifestProblem = filename.startsWith(TEMP_ANALYSIS_PREFIX) ? null : await checkStoredManifest(storage, object);
+      if (manifestProblem) {
+        console.error(`❌ Manifest ${manifestProblem.status} in ${filename}: ${formatManifestErrors(manifestProblem.errors)}`);
+        // Flag the object so the loader never picks up a submission the session did not accept
+        await storage.setMetadata(filename, { 'manifest-status': manifestProblem.status });
+        return res.status(422).json({
+          success: false,
+          verified: false,
+          error: `The metadata.json in the stored zip is not the accepted manifest (${formatManifestErrors(manifestProblem.errors)})`,
+          validationErrors: manifestProblem.errors
+        });
+      }
+
+      await storage.setMetadata(filename, {
+        'sha256': storedSha256,
+        'crc32c': object.crc32c,
+        'checksum-status': 'verified',
+        'checksum-verified-at': new Date().toISOString(),
+        ...(filename.startsWith(TEMP_ANALYSIS_PREFIX) ? {} : { 'manifest-status': 'verified' })
+      });
+
+      // Index the verified data so later uploads of the same files are found as duplicates
+      await recordContentHash(storage, object);
+
+      console.log(`✅ Checksum verified for: ${filename}`);
+
+      res.json({
+        success: true,
+        verified: true,
+        filename,
+        sha256: storedSha256,
+        crc32c: object.crc32c
+      });
+
+    } catch (error) {
+      console.error('❌ Error verifying upload:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to verify upload: ' + error.message
+      });
+    }
+  });
+
+  // POST /api/update-file-metadata { filename, metadata }
+  router.post('/update-file-metadata', async (req, res) => {
+    try {
+      const { filename, metadata } = req.body;
+
+      if (!filename) {
+        return res.status(400).json({ success: false, error: 'Filename is required' });
+      }
+      if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+        return res.status(400).json({ success: false, error: 'metadata must be an object' });
+      }
+
+      const rejected = Object.entries(metadata)
+        .filter(([key, value]) => !CLIENT_METADATA_KEYS.has(key) || typeof value !== 'string')
+        .map(([key]) => key);
+      if (rejected.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: `Metadata cannot be set by the client: ${rejected.join(', ')}`
+        });
+      }
+
+      console.log(`📝 Updating metadata for file: ${filename}`);
+      await storage.setMetadata(filename, metadata);
+      console.log(`✅ Metadata updated for: ${filename}`);
+
+      res.json({
+        success: true,
+        filename,
+        message: 'Metadata updated successfully'
+      });
+
+    } catch (error) {
+      console.error('❌ Error updating file metadata:', error);
+      res.status(error.code === 404 ? 404 : 500).json({
+        success: false,
+        error: 'Failed to update metadata: ' + error.message
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,238 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import express from 'express';
+import JSZip from 'jszip';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createLocalBackend } from './storage/localBackend.js';
+import { createDomainRegistry } from './domains.js';
+import { crc32cToBase64, updateCrc32c } from './storage/crc32c.js';
+import { manifestFingerprint } from './manifest.js';
+import { createUploadsRouter, recordContentHash } from './uploads.js';
+import { updateManifest } from './testing/manifestFixture.js';
+
+const HASH = 'a'.repeat(64);
+
+describe('upload routes', () => {
+  let rootDir;
+  let storage;
+  let server;
+  let baseUrl;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'uploads-'));
+    storage = createLocalBackend({ rootDir, publicPath: '/api/local-storage' });
+    const app = express();
+    app.use(express.json());
+    app.use('/api/local-storage', storage.router);
+    app.use('/api', createUploadsRouter(storage, createDomainRegistry()));
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  const post = (route, body) => fetch(`${baseUrl}/api${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-goog-authenticated-user-email': 'accounts.google.com:someone@utah.gov' },
+    body: JSON.stringify(body),
+  });
+
+  const requestSession = (body) => post('/upload-session', body);
+
+  const storeSubmission = async (name, contentHash) => {
+    await storage.writeObject(name, Buffer.from('zip'), { metadata: { 'uploaded-by': 'other@utah.gov', 'content-sha256': contentHash } });
+    return storage.getObject(name);
+  };
+
+  it('finds identical data through the content hash marker', async () => {
+    await recordContentHash(storage, await storeSubmission('hazards_landslides_2023.zip', HASH));
+
+    const response = await requestSession({ filename: 'hazards_landslides.zip', fileSize: 3, contentHash: HASH, manifest: updateManifest() });
+    expect(response.status).toBe(409);
+    expect((await response.json()).conflicts).toMatchObject({
+      identical: { filename: 'hazards_landslides_2023.zip', uploadedBy: 'other@utah.gov' },
+      nameConflict: null,
+    });
+  });
+
+  it('ignores a marker whose submission was deleted or replaced', async () => {
+    await recordContentHash(storage, await storeSubmission('hazards_landslides_2023.zip', HASH));
+    await storeSubmission('hazards_landslides_2023.zip', 'b'.repeat(64));
+
+    const response = await requestSession({ filename: 'hazards_landslides.zip', fileSize: 3, contentHash: HASH, manifest: updateManifest() });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ success: true, uploadType: 'resumable', filename: 'hazards_landslides.zip' });
+  });
+
+  it('rejects a content hash that is not a SHA-256', async () => {
+    const response = await requestSession({ filename: 'hazards_landslides.zip', fileSize: 3, contentHash: '../x', manifest: updateManifest() });
+    expect(response.status).toBe(400);
+  });
+
+  it('does not index analysis uploads', async () => {
+    expect(await recordContentHash(storage, await storeSubmission('temp-analysis-1.zip', HASH))).toBe(false);
+    expect(await storage.getObject(`content-sha256/${HASH}`)).toBeNull();
+  });
+
+  it('checks the manifest against its domain in the registry', async () => {
+    const response = await requestSession({
+      filename: 'geologic_maps_landslides.zip',
+      fileSize: 3,
+      manifest: updateManifest({ domain: 'geologic_maps', publicationType: 'Special Study', dataTopic: 'land slides', zipFilename: 'geologic_maps_landslides.zip' }),
+    });
+    expect(response.status).toBe(422);
+    expect((await response.json()).validationErrors.map(error => error.path)).toEqual(['/dataTopic']);
+
+    const unknown = await requestSession({ filename: 'hazards_landslides.zip', fileSize: 3, manifest: updateManifest({ publicationType: 'Poster' }) });
+    expect((await unknown.json()).validationErrors).toEqual([{ path: '/publicationType', message: '"Poster" is not accepted for this domain' }]);
+  });
+
+  it('refuses signed URLs for submissions', async () => {
+    const response = await requestSession({ filename: 'hazards_landslides.zip', uploadType: 'signed-url', manifest: updateManifest() });
+    expect(response.status).toBe(400);
+  });
+
+  describe('POST /api/update-file-metadata', () => {
+    it('adds the descriptive fields the upload form sends', async () => {
+      await storeSubmission('hazards_landslides.zip', HASH);
+
+      const response = await post('/update-file-metadata', {
+        filename: 'hazards_landslides.zip',
+        metadata: { 'source': 'UGS-Ingest-Web-Application', 'domain': 'hazards', 'resumed-from-byte': '0' },
+      });
+      expect(response.status).toBe(200);
+      expect((await storage.getObject('hazards_landslides.zip')).metadata).toEqual({
+        'uploaded-by': 'other@utah.gov',
+        'content-sha256': HASH,
+        'source': 'UGS-Ingest-Web-Application',
+        'domain': 'hazards',
+        'resumed-from-byte': '0',
+      });
+    });
+
+    it('refuses fields only the server writes', async () => {
+      await storeSubmission('hazards_landslides.zip', HASH);
+
+      const response = await post('/update-file-metadata', {
+        filename: 'hazards_landslides.zip',
+        metadata: { 'domain': 'hazards', 'checksum-status': 'verified', 'uploaded-by': 'someone@utah.gov', 'manifest-status': null },
+      });
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe('Metadata cannot be set by the client: checksum-status, uploaded-by, manifest-status');
+      expect((await storage.getObject('hazards_landslides.zip')).metadata).toEqual({ 'uploaded-by': 'other@utah.gov', 'content-sha256': HASH });
+    });
+  });
+
+  describe('POST /api/verify-upload', () => {
+    const zipWithManifest = async (manifest) => {
+      const zip = new JSZip();
+      zip.file('data/landslides.csv', 'id\n1\n');
+      zip.file('metadata.json', JSON.stringify(manifest, null, 2));
+      return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+    };
+
+    const checksumsOf = (contents) => ({
+      size: contents.length,
+      crc32c: crc32cToBase64(updateCrc32c(0, contents)),
+      sha256: crypto.createHash('sha256').update(contents).digest('hex'),
+    });
+
+    // Stores the zip the way a session accepted for `accepted` would have
+    const storeUpload = async (zipManifest, accepted = zipManifest) => {
+      const contents = await zipWithManifest(zipManifest);
+      await storage.writeObject('hazards_landslides.zip', contents, {
+        metadata: { 'content-sha256': HASH, 'manifest-sha256': manifestFingerprint(accepted) },
+      });
+      return checksumsOf(contents);
+    };
+
+    it('records the SHA-256 computed from the stored object and indexes its content hash', async () => {
+      const checksums = await storeUpload(updateManifest());
+
+      const response = await post('/verify-upload', { filename: 'hazards_landslides.zip', ...checksums });
+      expect(response.status).toBe(200);
+      expect((await storage.getObject('hazards_landslides.zip')).metadata).toMatchObject({
+        'sha256': checksums.sha256,
+        'crc32c': checksums.crc32c,
+        'checksum-status': 'verified',
+        'manifest-status': 'verified',
+      });
+      expect((await storage.getObject(`content-sha256/${HASH}`)).metadata).toEqual({ filename: 'hazards_landslides.zip' });
+    });
+
+    it('flags an object whose SHA-256 differs from the one the browser computed', async () => {
+      const checksums = await storeUpload(updateManifest());
+
+      const response = await post('/verify-upload', { filename: 'hazards_landslides.zip', ...checksums, sha256: 'b'.repeat(64) });
+      expect(response.status).toBe(409);
+      expect((await response.json()).mismatches).toEqual([`SHA-256 is ${checksums.sha256}, expected ${'b'.repeat(64)}`]);
+      expect((await storage.getObject('hazards_landslides.zip')).metadata).toMatchObject({ 'checksum-status': 'mismatch' });
+    });
+
+    it('flags a zip whose metadata.json is not the manifest accepted for the session', async () => {
+      const checksums = await storeUpload(updateManifest({ reviewStatus: 'Y' }), updateManifest());
+
+      const response = await post('/verify-upload', { filename: 'hazards_landslides.zip', ...checksums });
+      expect(response.status).toBe(422);
+      const metadata = (await storage.getObject('hazards_landslides.zip')).metadata;
+      expect(metadata).toMatchObject({ 'manifest-status': 'mismatch' });
+      expect(metadata['checksum-status']).toBeUndefined();
+      expect(await storage.getObject(`content-sha256/${HASH}`)).toBeNull();
+    });
+
+    // Sends the zip through a session the way the browser does after a reload:
+    // part of it, a status query, then the rest from the committed offset
+    const uploadInTwoAttempts = async (sessionUrl, contents) => {
+      const put = (headers, body) => fetch(`${baseUrl}${sessionUrl}`, { method: 'PUT', headers, body });
+      const half = Math.floor(contents.length / 2);
+      expect((await put({ 'Content-Range': `bytes 0-${half - 1}/*` }, contents.subarray(0, half))).status).toBe(308);
+
+      const status = await put({ 'Content-Range': `bytes */${contents.length}` });
+      expect(status.headers.get('Range')).toBe(`bytes=0-${half - 1}`);
+
+      const final = await put({
+        'Content-Range': `bytes ${half}-${contents.length - 1}/${contents.length}`,
+        'X-Goog-Hash': `crc32c=${checksumsOf(contents).crc32c}`,
+      }, contents.subarray(half));
+      expect(final.status).toBe(200);
+    };
+
+    it('verifies a resumed upload that packs the metadata.json its session was started with', async () => {
+      const manifest = updateManifest();
+      const contents = await zipWithManifest(manifest);
+      const session = await requestSession({ filename: 'hazards_landslides.zip', fileSize: contents.length, contentHash: HASH, manifest });
+      await uploadInTwoAttempts((await session.json()).sessionUrl, contents);
+
+      const response = await post('/verify-upload', { filename: 'hazards_landslides.zip', ...checksumsOf(contents) });
+      expect(response.status).toBe(200);
+      expect((await storage.getObject('hazards_landslides.zip')).metadata).toMatchObject({ 'manifest-status': 'verified' });
+    });
+
+    it('flags a resumed upload whose metadata.json was rebuilt with new timestamps', async () => {
+      const manifest = updateManifest();
+      const rebuilt = await zipWithManifest({ ...manifest, submittedAt: '2024-03-03T08:00:00.000Z' });
+      const session = await requestSession({ filename: 'hazards_landslides.zip', fileSize: rebuilt.length, contentHash: HASH, manifest });
+      await uploadInTwoAttempts((await session.json()).sessionUrl, rebuilt);
+
+      const response = await post('/verify-upload', { filename: 'hazards_landslides.zip', ...checksumsOf(rebuilt) });
+      expect(response.status).toBe(422);
+      expect((await storage.getObject('hazards_landslides.zip')).metadata).toMatchObject({ 'manifest-status': 'mismatch' });
+    });
+
+    it('flags a zip whose metadata.json does not validate', async () => {
+      const invalid = updateManifest({ loadType: 'append' });
+      const checksums = await storeUpload(invalid);
+
+      const response = await post('/verify-upload', { filename: 'hazards_landslides.zip', ...checksums });
+      expect(response.status).toBe(422);
+      expect((await response.json()).validationErrors.map(error => error.path)).toContain('/loadType');
+      expect((await storage.getObject('hazards_landslides.zip')).metadata).toMatchObject({ 'manifest-status': 'invalid' });
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import zlib from 'zlib';
+
+// Reads a single entry out of a zip stored remotely, using only range reads:
+// the end-of-central-directory record, the central directory, then the one
+// entry's local header and data. Submission zips can be several GB, but
+// metadata.json is only a few KB, so we never download the whole archive.
+//
+// readRange(start, end) must resolve to a Buffer with bytes [start, end] (inclusive).
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xFFFF;
+const ZIP64_LOCATOR_SIZE = 20;
+const MAX_ENTRY_SIZE = 10 * 1024 * 1024;
+
+async function readEndOfCentralDirectory(readRange, size) {
+  const tailLength = Math.min(size, EOCD_MIN_SIZE + MAX_COMMENT_SIZE + ZIP64_LOCATOR_SIZE);
+  const tailStart = size - tailLength;
+  const tail = await readRange(tailStart, size - 1);
+
+  let eocdPos = -1;
+  for (let i = tail.length - EOCD_MIN_SIZE; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocdPos = i;
+      break;
+    }
+  }
+  if (eocdPos < 0) {
+    throw new Error('Not a zip file (end of central directory not found)');
+  }
+
+  let entryCount = tail.readUInt16LE(eocdPos + 10);
+  let cdSize = tail.readUInt32LE(eocdPos + 12);
+  let cdOffset = tail.readUInt32LE(eocdPos + 16);
+
+  const needsZip64 = entryCount === 0xFFFF || cdSize === 0xFFFFFFFF || cdOffset === 0xFFFFFFFF;
+  const locatorPos = eocdPos - ZIP64_LOCATOR_SIZE;
+  if (needsZip64 && locatorPos >= 0 && tail.readUInt32LE(locatorPos) === ZIP64_LOCATOR_SIGNATURE) {
+    const zip64EocdOffset = Number(tail.readBigUInt64LE(locatorPos + 8));
+    const zip64Eocd = await readRange(zip64EocdOffset, zip64EocdOffset + 55);
+    if (zip64Eocd.readUInt32LE(0) !== ZIP64_EOCD_SIGNATURE) {
+      throw new Error('Corrupt ZIP64 end of central directory record');
+    }
+    entryCount = Number(zip64Eocd.readBigUInt64LE(32));
+    cdSize = Number(zip64Eocd.readBigUInt64LE(40));
+    cdOffset = Number(zip64Eocd.readBigUInt64LE(48));
+  }
+
+  return { entryCount, cdSize, cdOffset };
+}
+
+// Values saturated at 0xFFFFFFFF in the header are stored in the ZIP64 extra field, in this order
+function applyZip64Extra(extra, entry) {
+  let pos = 0;
+  while (pos + 4 <= extra.length) {
+    const headerId = extra.readUInt16LE(pos);
+    const dataSize = extra.readUInt16LE(pos + 2);
+    if (headerId === 0x0001) {
+      let fieldPos = pos + 4;
+      for (const field of ['uncompressedSize', 'compressedSize', 'localHeaderOffset']) {
+        if (entry[field] === 0xFFFFFFFF) {
+          entry[field] = Number(extra.readBigUInt64LE(fieldPos));
+          fieldPos += 8;
+        }
+      }
+      return;
+    }
+    pos += 4 + dataSize;
+  }
+}
+
+/**
+ * List the entries of a remote zip from its central directory
+ */
+export async function listZipEntries(readRange, size) {
+  const { entryCount, cdSize, cdOffset } = await readEndOfCentralDirectory(readRange, size);
+  if (cdSize === 0) return [];
+
+  const cd = await readRange(cdOffset, cdOffset + cdSize - 1);
+  const entries = [];
+  let pos = 0;
+
+  for (let i = 0; i < entryCount && pos + 46 <= cd.length; i++) {
+    if (cd.readUInt32LE(pos) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt central directory');
+    }
+    const nameLength = cd.readUInt16LE(pos + 28);
+    const extraLength = cd.readUInt16LE(pos + 30);
+    const commentLength = cd.readUInt16LE(pos + 32);
+
+    const entry = {
+      name: cd.toString('utf8', pos + 46, pos + 46 + nameLength),
+      method: cd.readUInt16LE(pos + 10),
+      compressedSize: cd.readUInt32LE(pos + 20),
+      uncompressedSize: cd.readUInt32LE(pos + 24),
+      localHeaderOffset: cd.readUInt32LE(pos + 42)
+    };
+    applyZip64Extra(cd.subarray(pos + 46 + nameLength, pos + 46 + nameLength + extraLength), entry);
+
+    entries.push(entry);
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Read and decompress one entry from a remote zip. Resolves to null if the entry is missing.
+ */
+export async function readZipEntry(readRange, size, entryName) {
+  const entries = await listZipEntries(readRange, size);
+  const entry = entries.find(candidate => candidate.name === entryName);
+  if (!entry) return null;
+
+  if (entry.uncompressedSize > MAX_ENTRY_SIZE) {
+    throw new Error(`${entryName} is too large to read (${entry.uncompressedSize} bytes)`);
+  }
+
+  const localHeader = await readRange(entry.localHeaderOffset, entry.localHeaderOffset + 29);
+  if (localHeader.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt local header for ${entryName}`);
+  }
+  const dataStart = entry.localHeaderOffset + 30 + localHeader.readUInt16LE(26) + localHeader.readUInt16LE(28);
+  if (entry.compressedSize === 0) return Buffer.alloc(0);
+
+  const data = await readRange(dataStart, dataStart + entry.compressedSize - 1);
+
+  if (entry.method === 0) return data;
+  if (entry.method === 8) return zlib.inflateRawSync(data);
+  throw new Error(`Unsupported compression method ${entry.method} for ${entryName}`);
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { listZipEntries, readZipEntry } from './zipReader.js';
+import { BlobSink, buildCentralDirectory, writeDeflatedEntry } from '../src/lib/zipWriter.ts';
+
+const text = (value) => new TextEncoder().encode(value);
+
+// readRange over an in-memory archive
+const rangeReader = (bytes) => async (start, end) => Buffer.from(bytes.subarray(start, end + 1));
+
+// Writes the entries the way the zip worker and assembleSubmissionZip do:
+// deflated entries into a sink, then the central directory
+const writeArchive = async (files, { sizeHint } = {}) => {
+  const sink = new BlobSink();
+  const entries = [];
+  for (const [path, content] of files) {
+    const data = text(content);
+    entries.push(await writeDeflatedEntry(new Blob([data]).stream(), path, Date.UTC(2024, 0, 2), sizeHint ?? data.length, sink.length, sink));
+  }
+  const section = sink.toBlob();
+  const archive = new Blob([section, buildCentralDirectory(entries, section.size)]);
+  return { bytes: new Uint8Array(await archive.arrayBuffer()), entries };
+};
+
+describe('zip writer and reader', () => {
+  it('reads back every entry of a classic archive', async () => {
+    const { bytes } = await writeArchive([
+      ['data/roads.csv', 'id,name\n1,Main St\n'],
+      ['metadata.json', JSON.stringify({ manifestVersion: 1 })],
+    ]);
+
+    const entries = await listZipEntries(rangeReader(bytes), bytes.length);
+    expect(entries.map(entry => entry.name)).toEqual(['data/roads.csv', 'metadata.json']);
+    expect(entries.every(entry => entry.method === 8)).toBe(true);
+
+    const metadata = await readZipEntry(rangeReader(bytes), bytes.length, 'metadata.json');
+    expect(JSON.parse(metadata.toString('utf8'))).toEqual({ manifestVersion: 1 });
+    expect(await readZipEntry(rangeReader(bytes), bytes.length, 'missing.json')).toBeNull();
+  });
+
+  it('round-trips ZIP64 entries (sizes in the extra field)', async () => {
+    // A size hint past the ZIP64 threshold makes the writer use ZIP64 headers for small data
+    const { bytes, entries: written } = await writeArchive([['data/big.txt', 'x'.repeat(1000)]], { sizeHint: 0xF0000000 });
+    expect(written[0].zip64).toBe(true);
+
+    const [entry] = await listZipEntries(rangeReader(bytes), bytes.length);
+    expect(entry.uncompressedSize).toBe(1000);
+    expect(entry.compressedSize).toBe(written[0].compressedSize);
+
+    const data = await readZipEntry(rangeReader(bytes), bytes.length, 'data/big.txt');
+    expect(data.toString('utf8')).toBe('x'.repeat(1000));
+  });
+
+  it('finds a central directory past 4 GiB through the ZIP64 end records', async () => {
+    // Only the central directory exists, at a virtual offset beyond 32 bits; the
+    // bytes before it (entry data) read as zeros
+    const offset = 5 * 1024 ** 3;
+    const entries = [
+      { path: 'data/a.gdb/a00000001.gdbtable', offset: 0, crc32: 1, compressedSize: 4.5 * 1024 ** 3, uncompressedSize: 6 * 1024 ** 3, dosTime: 0, dosDate: 0, zip64: true },
+      { path: 'metadata.json', offset: offset - 100, crc32: 2, compressedSize: 60, uncompressedSize: 80, dosTime: 0, dosDate: 0, zip64: false },
+    ];
+    const directory = new Uint8Array(await buildCentralDirectory(entries, offset).arrayBuffer());
+    const size = offset + directory.length;
+    const readRange = async (start, end) => {
+      const padding = Buffer.alloc(Math.max(0, Math.min(offset, end + 1) - start));
+      return Buffer.concat([padding, Buffer.from(directory.subarray(Math.max(0, start - offset), Math.max(0, end - offset + 1)))]);
+    };
+
+    const listed = await listZipEntries(readRange, size);
+    expect(listed).toEqual([
+      { name: 'data/a.gdb/a00000001.gdbtable', method: 8, compressedSize: 4.5 * 1024 ** 3, uncompressedSize: 6 * 1024 ** 3, localHeaderOffset: 0 },
+      { name: 'metadata.json', method: 8, compressedSize: 60, uncompressedSize: 80, localHeaderOffset: offset - 100 },
+    ]);
+  });
+
+  it('rejects data that is not a zip', async () => {
+    const bytes = text('not a zip file at all, just some text');
+    await expect(listZipEntries(rangeReader(bytes), bytes.length)).rejects.toThrow(/Not a zip file/);
+  });
+});
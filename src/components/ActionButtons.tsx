@@ -1,6 +1,7 @@
 // components/ActionButtons.tsx
 import React from 'react';
-import type { SchemaValidationState } from '../types/uploadTypes';
+import type { SchemaValidationState, UploadProgress } from '../types/uploadTypes';
+import { UploadProgressBar } from './UploadProgressBar';
 
 interface ActionButtonsProps {
   loadType: string;
@@ -11,8 +12,11 @@ interface ActionButtonsProps {
   selectedFilesCount: number;
   domain: string;
   uploadMessage: string;
+  uploadProgress: UploadProgress | null;
+  isCancellingUpload: boolean;
   onSchemaValidation: () => void;
   onSubmit: (e: React.FormEvent) => void;
+  onCancelUpload: () => void;
 }
 
 export const ActionButtons: React.FC<ActionButtonsProps> = ({
@@ -24,17 +28,21 @@ export const ActionButtons: React.FC<ActionButtonsProps> = ({
   selectedFilesCount,
   domain,
   uploadMessage,
+  uploadProgress,
+  isCancellingUpload,
   onSchemaValidation,
   onSubmit,
+  onCancelUpload,
 }) => {
-  // Schema validation is only required for "update" load type
-  const isSchemaValidationRequired = loadType === 'update';
+  // Update loads map columns to a table; new_table loads review the proposed table
+  const isNewTable = loadType === 'new_table';
+  const isSchemaValidationRequired = loadType === 'update' || isNewTable;
   const isSchemaValidationDisabled = isValidatingSchema || selectedFilesCount === 0 || !domain || !loadType;
   const isUploadDisabled = isSubmitting || isProcessingFolders || (isSchemaValidationRequired && schemaValidationState !== 'completed');
 
   return (
     <div className="flex flex-col gap-4 mt-8">
-      {/* Schema Validation Button - Only show for "update" load type */}
+      {/* Schema Validation Button - Only show for "update" and "new_table" load types */}
       {isSchemaValidationRequired && (
         <div className="flex items-center justify-between">
           <button
@@ -46,8 +54,10 @@ export const ActionButtons: React.FC<ActionButtonsProps> = ({
             {isValidatingSchema ? (
               <div className="flex items-center">
                 <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                Validating Schema...
+                {isNewTable ? 'Analyzing Source...' : 'Validating Schema...'}
               </div>
+            ) : isNewTable ? (
+              '🧱 Analyze Source & Propose Table'
             ) : (
               '🔍 Validate Schema & Map Columns'
             )}
@@ -72,8 +82,10 @@ export const ActionButtons: React.FC<ActionButtonsProps> = ({
           {isSubmitting ? (
             <div className="flex items-center">
               <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-              {uploadMessage.includes('Creating') ? 'Creating Zip...' : 
-               uploadMessage.includes('Uploading') ? 'Uploading...' : 
+              {uploadProgress?.phase === 'zipping' ? 'Creating Zip...' :
+               uploadProgress?.phase === 'hashing' ? 'Computing Checksums...' :
+               uploadProgress?.phase === 'uploading' ? 'Uploading...' :
+               uploadProgress?.phase === 'verifying' ? 'Verifying...' :
                'Processing...'}
             </div>
           ) : (
@@ -95,14 +107,25 @@ export const ActionButtons: React.FC<ActionButtonsProps> = ({
         )}
       </div>
 
+      {/* Byte-level progress while zipping and uploading */}
+      {isSubmitting && uploadProgress && (
+        <UploadProgressBar
+          progress={uploadProgress}
+          onCancel={onCancelUpload}
+          isCancelling={isCancellingUpload}
+        />
+      )}
+
       {/* Upload Requirements Info */}
       {isSchemaValidationRequired && schemaValidationState !== 'completed' && (
         <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
           <p className="text-yellow-800 text-sm font-medium">
-            ⚠️ Schema validation required before upload
+            ⚠️ {isNewTable ? 'Table definition review' : 'Schema validation'} required before upload
           </p>
           <p className="text-yellow-700 text-xs mt-1">
-            Please validate the schema and complete column mapping before uploading.
+            {isNewTable
+              ? 'Please analyze the source data and review the proposed table before uploading.'
+              : 'Please validate the schema and complete column mapping before uploading.'}
           </p>
         </div>
       )}
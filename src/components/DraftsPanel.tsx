@@ -0,0 +1,130 @@
+// components/DraftsPanel.tsx
+import React from 'react';
+import type { UploadDraft, DraftFileDescriptor } from '../types/draftTypes';
+
+interface DraftsPanelProps {
+  drafts: UploadDraft[];
+  // The draft the form is autosaving into (null until something is entered)
+  currentDraft: { id: string; name: string } | null;
+  savedAt: string | null;
+  missingFiles: DraftFileDescriptor[];
+  onRename: (name: string) => void;
+  onResume: (id: string) => void;
+  onDiscard: (id: string) => void;
+  onStartNew: () => void;
+  disabled: boolean;
+}
+
+export const DraftsPanel: React.FC<DraftsPanelProps> = ({
+  drafts,
+  currentDraft,
+  savedAt,
+  missingFiles,
+  onRename,
+  onResume,
+  onDiscard,
+  onStartNew,
+  disabled,
+}) => {
+  const otherDrafts = drafts.filter(draft => draft.id !== currentDraft?.id);
+
+  if (!currentDraft && otherDrafts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 p-4 bg-indigo-50 rounded-lg border border-indigo-200">
+      {currentDraft && (
+        <div className="mb-3">
+          <div className="flex items-center gap-2">
+            <label htmlFor="draft-name" className="text-sm font-semibold text-indigo-800 whitespace-nowrap">
+              💾 Draft:
+            </label>
+            <input
+              id="draft-name"
+              type="text"
+              value={currentDraft.name}
+              onChange={(e) => onRename(e.target.value)}
+              className="flex-1 min-w-0 px-2 py-1 text-sm border border-indigo-200 rounded focus:outline-none focus:ring-2 focus:ring-indigo-400"
+            />
+            <button
+              type="button"
+              onClick={onStartNew}
+              disabled={disabled}
+              className="px-3 py-1 text-xs bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+            >
+              Start New Draft
+            </button>
+            <button
+              type="button"
+              onClick={() => onDiscard(currentDraft.id)}
+              disabled={disabled}
+              className="px-3 py-1 text-xs bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50 transition-colors"
+            >
+              Discard
+            </button>
+          </div>
+          <p className="text-xs text-indigo-700 mt-1">
+            {savedAt ? `Saved automatically at ${new Date(savedAt).toLocaleTimeString()}` : 'Not saved yet'}
+          </p>
+          {missingFiles.length > 0 && (
+            <div className="mt-2 p-2 bg-yellow-50 rounded border border-yellow-200">
+              <p className="text-xs font-semibold text-yellow-800">
+                Add {missingFiles.length === 1 ? 'this file' : `these ${missingFiles.length} files`} again to continue:
+              </p>
+              <ul className="mt-1 text-xs font-mono text-yellow-800 max-h-24 overflow-y-auto">
+                {missingFiles.map(file => (
+                  <li key={file.name} className="truncate">
+                    {file.name} ({(file.size / 1024 / 1024).toFixed(1)} MB)
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {otherDrafts.length > 0 && (
+        <>
+          <h4 className="text-sm font-semibold text-indigo-800 mb-2">
+            📝 Resume Draft
+          </h4>
+          <div className="space-y-2">
+            {otherDrafts.map(draft => (
+              <div key={draft.id} className="flex items-center justify-between p-2 bg-white rounded border border-indigo-200">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-800 truncate">{draft.name}</p>
+                  <p className="text-xs text-gray-600 truncate">
+                    {[draft.formData.datasetName || draft.formData.projectName, `${draft.files.length} file${draft.files.length !== 1 ? 's' : ''}`]
+                      .filter(Boolean)
+                      .join(' · ')}
+                    {draft.schema.schemaValidationState === 'completed' && ' · columns mapped'}
+                    {' '}· edited {new Date(draft.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+                <div className="ml-3 flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => onResume(draft.id)}
+                    disabled={disabled}
+                    className="px-3 py-1 text-xs bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+                  >
+                    Resume
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onDiscard(draft.id)}
+                    disabled={disabled}
+                    className="px-3 py-1 text-xs bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50 transition-colors"
+                  >
+                    Discard
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
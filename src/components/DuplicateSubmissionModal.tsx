@@ -0,0 +1,95 @@
+// components/DuplicateSubmissionModal.tsx
+import React from 'react';
+import type { ExistingSubmission, SubmissionConflict } from '../types/uploadTypes';
+
+interface DuplicateSubmissionModalProps {
+  conflict: SubmissionConflict | null;
+  filename: string;
+  onCancel: () => void;
+  onSaveAsNewVersion: () => void;
+  onReplace: () => void;
+}
+
+const formatUploadDate = (submission: ExistingSubmission) =>
+  submission.uploadedAt ? new Date(submission.uploadedAt).toLocaleString() : 'an unknown date';
+
+export const DuplicateSubmissionModal: React.FC<DuplicateSubmissionModalProps> = ({
+  conflict,
+  filename,
+  onCancel,
+  onSaveAsNewVersion,
+  onReplace,
+}) => {
+  if (!conflict) return null;
+
+  const { identical, nameConflict, suggestedFilename } = conflict;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold text-gray-800 mb-4">Possible Duplicate Submission</h2>
+
+        {identical && (
+          <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+            <p className="text-yellow-800 font-semibold mb-1">
+              ⚠️ Identical data already submitted
+            </p>
+            <p className="text-yellow-700 text-sm">
+              These files are identical to submission <strong>{identical.filename}</strong> by{' '}
+              <strong>{identical.uploadedBy}</strong> on {formatUploadDate(identical)}.
+            </p>
+          </div>
+        )}
+
+        {nameConflict && (
+          <div className="mb-4 p-3 bg-orange-50 border border-orange-200 rounded-md">
+            <p className="text-orange-800 font-semibold mb-1">
+              📄 A file with this name already exists
+            </p>
+            <p className="text-orange-700 text-sm">
+              <strong>{nameConflict.filename}</strong> was uploaded by <strong>{nameConflict.uploadedBy}</strong> on{' '}
+              {formatUploadDate(nameConflict)}. Uploading again under the same name would overwrite it.
+            </p>
+          </div>
+        )}
+
+        <div className="text-sm text-gray-600 space-y-1">
+          <p>
+            <span className="font-medium">Save as new version</span> uploads as{' '}
+            <code className="bg-gray-100 px-1 rounded">{suggestedFilename}</code> and keeps the existing submission.
+          </p>
+          {nameConflict && (
+            <p>
+              <span className="font-medium">Replace</span> overwrites{' '}
+              <code className="bg-gray-100 px-1 rounded">{filename}</code>.
+            </p>
+          )}
+        </div>
+
+        {/* Modal Actions */}
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onSaveAsNewVersion}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+          >
+            Save as New Version
+          </button>
+          {nameConflict && (
+            <button
+              onClick={onReplace}
+              className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors"
+            >
+              Replace Existing
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
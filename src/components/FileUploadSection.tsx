@@ -100,7 +100,7 @@ export const FileUploadSection: React.FC<FileUploadSectionProps> = ({
             </button>
             <p className="text-xs text-gray-500 mt-2">
               ✅ Supports File Geodatabases (.gdb folders)<br/>
-              ✅ Shapefiles, CSVs, and other individual files<br/>
+              ✅ Shapefiles, GeoPackages (.gpkg), GeoJSON, KML/KMZ, GPX, CSVs, Excel workbooks (.xlsx), and other individual files<br/>
               ✅ Multiple selection with Ctrl/Cmd<br/>
               💡 Button will ask whether you want files or folders
             </p>
@@ -5,6 +5,7 @@ import type { LayerInfo } from '../types/uploadTypes';
 interface LayerSelectionModalProps {
   isOpen: boolean;
   layers: LayerInfo[];
+  sourceFormat: string; // what the layers came from, e.g. "File Geodatabase"
   selectedLayer: string;
   onLayerSelect: (layerName: string) => void;
   onConfirm: () => void;
@@ -14,6 +15,7 @@ interface LayerSelectionModalProps {
 export const LayerSelectionModal: React.FC<LayerSelectionModalProps> = ({
   isOpen,
   layers,
+  sourceFormat,
   selectedLayer,
   onLayerSelect,
   onConfirm,
@@ -28,10 +30,10 @@ export const LayerSelectionModal: React.FC<LayerSelectionModalProps> = ({
         
         <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-md">
           <p className="text-blue-800 font-semibold mb-2">
-            📁 Multiple Layers Found in Geodatabase
+            📁 Multiple Layers Found in {sourceFormat}
           </p>
           <p className="text-blue-700 text-sm">
-            Your file geodatabase contains {layers.length} layers. Please select which layer you want to import and map to the target schema.
+            This {sourceFormat} contains {layers.length} layers. Please select which layer you want to import and map to the target schema.
           </p>
         </div>
         
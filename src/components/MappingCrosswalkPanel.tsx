@@ -0,0 +1,104 @@
+// components/MappingCrosswalkPanel.tsx
+import React, { useRef, useState } from 'react';
+import { crosswalkFilename, exportCrosswalk, importCrosswalk } from '../lib/mappingCrosswalk';
+import type { CrosswalkContext, CrosswalkError, CrosswalkFormat, CrosswalkImport } from '../lib/mappingCrosswalk';
+
+interface MappingCrosswalkPanelProps {
+  // Current mapping and columns; exported as-is and used to check imported rows
+  context: CrosswalkContext;
+  // Called with the valid entries of an imported file (errors are shown here)
+  onImport: (result: CrosswalkImport) => void;
+}
+
+const downloadText = (text: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const MappingCrosswalkPanel: React.FC<MappingCrosswalkPanelProps> = ({ context, onImport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [errors, setErrors] = useState<CrosswalkError[]>([]);
+
+  const handleExport = (format: CrosswalkFormat) => {
+    downloadText(
+      exportCrosswalk(context, format),
+      crosswalkFilename(context.targetTable, format),
+      format === 'json' ? 'application/json' : 'text/csv'
+    );
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const format: CrosswalkFormat = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+    const result = importCrosswalk(await file.text(), format, context.sourceColumns, context.targetColumns);
+    const applied = Object.keys(result.columnMapping).length + Object.keys(result.targetColumnValues).length;
+    console.log(`📥 Imported crosswalk ${file.name}: ${applied} entries, ${result.errors.length} errors`);
+
+    if (applied > 0) onImport(result);
+    setErrors(result.errors);
+    setSummary(`${file.name}: applied ${applied} entr${applied !== 1 ? 'ies' : 'y'}` +
+      (result.errors.length > 0 ? `, skipped ${result.errors.length} with errors:` : '.'));
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-md">
+      <h3 className="text-lg font-semibold text-gray-800 mb-1">Crosswalk File</h3>
+      <p className="text-sm text-gray-600 mb-3">
+        Export the mapping to edit it in a spreadsheet, then import it back. Rows are matched by column name.
+      </p>
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => handleExport('csv')}
+          className="px-3 py-1 text-sm bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-100 transition-colors"
+        >
+          Export CSV
+        </button>
+        <button
+          type="button"
+          onClick={() => handleExport('json')}
+          className="px-3 py-1 text-sm bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-100 transition-colors"
+        >
+          Export JSON
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-1 text-sm bg-gray-700 text-white rounded-md hover:bg-gray-800 transition-colors"
+        >
+          Import CSV or JSON...
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.json"
+          onChange={handleFile}
+          className="hidden"
+        />
+      </div>
+
+      {summary && (
+        <p className={`text-xs mt-3 ${errors.length > 0 ? 'text-yellow-800' : 'text-green-700'}`}>{summary}</p>
+      )}
+      {errors.length > 0 && (
+        <ul className="mt-1 text-xs text-red-700 list-disc list-inside max-h-40 overflow-y-auto">
+          {errors.map((error, index) => (
+            <li key={index}>
+              <span className="font-medium">{error.location}:</span> {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
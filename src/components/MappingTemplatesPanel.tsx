@@ -0,0 +1,151 @@
+// components/MappingTemplatesPanel.tsx
+import React, { useState } from 'react';
+import type { MappingTemplateMatch, StaleTemplateEntry } from '../types/mappingTemplateTypes';
+
+interface MappingTemplatesPanelProps {
+  // Saved templates for the selected table that fit the current columns, best first
+  matches: MappingTemplateMatch[];
+  loading: boolean;
+  error: string | null;
+  canSave: boolean;
+  onApply: (match: MappingTemplateMatch) => void;
+  // Resolves to true when a template with the same name, table and columns was replaced
+  onSave: (name: string) => Promise<boolean>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+const describeStaleEntry = (entry: StaleTemplateEntry): string => {
+  if (entry.reason === 'missing_source') {
+    return `"${entry.sourceColumn}" is not in this upload`;
+  }
+  return entry.sourceColumn
+    ? `"${entry.sourceColumn}" → "${entry.targetColumn}": target column no longer exists`
+    : `value for "${entry.targetColumn}": target column no longer exists`;
+};
+
+export const MappingTemplatesPanel: React.FC<MappingTemplatesPanelProps> = ({
+  matches,
+  loading,
+  error,
+  canSave,
+  onApply,
+  onSave,
+  onDelete,
+}) => {
+  const [templateName, setTemplateName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const handleSave = async () => {
+    const name = templateName.trim();
+    if (!name) return;
+    setSaving(true);
+    setStatus(null);
+    try {
+      const replaced = await onSave(name);
+      setStatus({ type: 'success', message: `${replaced ? 'Updated' : 'Saved'} template "${name}".` });
+      setTemplateName('');
+    } catch (saveError) {
+      setStatus({ type: 'error', message: saveError instanceof Error ? saveError.message : 'Failed to save template' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (match: MappingTemplateMatch) => {
+    if (!window.confirm(`Delete the mapping template "${match.template.name}" for everyone?`)) return;
+    setStatus(null);
+    try {
+      await onDelete(match.template.id);
+      setStatus({ type: 'success', message: `Deleted template "${match.template.name}".` });
+    } catch (deleteError) {
+      setStatus({ type: 'error', message: deleteError instanceof Error ? deleteError.message : 'Failed to delete template' });
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-purple-50 border border-purple-200 rounded-md">
+      <h3 className="text-lg font-semibold text-gray-800 mb-3">Saved Mapping Templates</h3>
+
+      {loading && <p className="text-sm text-gray-600 mb-3">Loading templates...</p>}
+      {error && <p className="text-sm text-red-600 mb-3">Could not load templates: {error}</p>}
+      {!loading && !error && matches.length === 0 && (
+        <p className="text-sm text-gray-600 mb-3">No saved template fits these columns.</p>
+      )}
+
+      {matches.length > 0 && (
+        <div className="space-y-2 mb-4">
+          {matches.map(match => (
+            <div key={match.template.id} className="p-3 bg-white border border-purple-100 rounded">
+              <div className="flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-800">
+                    {match.template.name}
+                    {match.sameColumns && (
+                      <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded bg-green-100 text-green-800">
+                        same columns
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Applies to {match.appliedCount} column{match.appliedCount !== 1 ? 's' : ''}
+                    {match.unmatchedSources.length > 0 && `, ${match.unmatchedSources.length} left to map`}
+                    {' · '}updated by {match.template.updatedBy} on {new Date(match.template.updatedAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => onApply(match)}
+                  className="px-3 py-1 text-sm bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors"
+                >
+                  Apply
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(match)}
+                  className="px-3 py-1 text-xs bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+              {match.staleEntries.length > 0 && (
+                <div className="mt-2 text-xs text-yellow-800">
+                  <p className="font-medium">
+                    ⚠️ {match.staleEntries.length} template entr{match.staleEntries.length !== 1 ? 'ies' : 'y'} no longer apply:
+                  </p>
+                  <ul className="list-disc list-inside">
+                    {match.staleEntries.map(entry => (
+                      <li key={`${entry.reason}:${entry.sourceColumn}:${entry.targetColumn}`}>{describeStaleEntry(entry)}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <input
+          type="text"
+          value={templateName}
+          onChange={(e) => setTemplateName(e.target.value)}
+          placeholder="Template name, e.g. Monthly geologic units"
+          maxLength={100}
+          className="flex-1 px-3 py-1 border border-gray-300 rounded-md text-sm"
+        />
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!canSave || saving || !templateName.trim()}
+          className="px-3 py-1 text-sm bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Save Current Mapping'}
+        </button>
+      </div>
+      {status && (
+        <p className={`text-xs mt-2 ${status.type === 'error' ? 'text-red-600' : 'text-green-700'}`}>{status.message}</p>
+      )}
+    </div>
+  );
+};
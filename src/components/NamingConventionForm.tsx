@@ -1,7 +1,8 @@
 // components/NamingConventionForm.tsx
 import React from 'react';
 import type { FormData, FormErrors, HandleChangeType } from '../types/uploadTypes';
-import { domainOptions, loadTypeOptions } from '../types/uploadTypes';
+import { loadTypeOptions } from '../types/uploadTypes';
+import type { DomainOption } from '../lib/domainRegistry';
 
 interface NamingConventionFormProps {
   formData: FormData;
@@ -9,6 +10,8 @@ interface NamingConventionFormProps {
   handleChange: HandleChangeType;
   availableDataTopics: string[];
   isLoadingTopics: boolean;
+  domainOptions: DomainOption[];
+  domainRegistryError: string | null;
 }
 
 export const NamingConventionForm: React.FC<NamingConventionFormProps> = ({
@@ -17,6 +20,8 @@ export const NamingConventionForm: React.FC<NamingConventionFormProps> = ({
   handleChange,
   availableDataTopics,
   isLoadingTopics,
+  domainOptions,
+  domainRegistryError,
 }) => {
   return (
     <div className="mb-8">
@@ -46,6 +51,9 @@ export const NamingConventionForm: React.FC<NamingConventionFormProps> = ({
             ))}
           </select>
           {errors.domain && <p className="text-red-500 text-sm mt-1">{errors.domain}</p>}
+          {domainRegistryError && (
+            <p className="text-red-500 text-sm mt-1">Could not load domains: {domainRegistryError}</p>
+          )}
         </div>
 
         {/* Custom Domain (conditional) */}
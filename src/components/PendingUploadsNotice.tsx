@@ -0,0 +1,55 @@
+// components/PendingUploadsNotice.tsx
+import React from 'react';
+import type { ResumableUploadRecord } from '../lib/resumableUpload';
+
+interface PendingUploadsNoticeProps {
+  pendingUploads: ResumableUploadRecord[];
+  onDiscard: (filename: string) => void;
+}
+
+export const PendingUploadsNotice: React.FC<PendingUploadsNoticeProps> = ({
+  pendingUploads,
+  onDiscard,
+}) => {
+  if (pendingUploads.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 p-4 bg-yellow-50 rounded-lg border border-yellow-200">
+      <h4 className="text-sm font-semibold text-yellow-800 mb-2">
+        ⏸️ Interrupted Upload{pendingUploads.length !== 1 ? 's' : ''} Found
+      </h4>
+      <p className="text-xs text-yellow-700 mb-3">
+        Select the same files and fill in the same naming fields, then submit again to continue from where the upload stopped.
+        If the rebuilt zip differs from what was already sent, the upload starts over automatically.
+      </p>
+      <div className="space-y-2">
+        {pendingUploads.map(upload => {
+          const percent = upload.totalBytes > 0
+            ? Math.floor((upload.bytesUploaded / upload.totalBytes) * 100)
+            : 0;
+
+          return (
+            <div key={upload.filename} className="flex items-center justify-between p-2 bg-white rounded border border-yellow-200">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-mono text-gray-800 truncate">{upload.filename}</p>
+                <p className="text-xs text-gray-600">
+                  {(upload.bytesUploaded / 1024 / 1024).toFixed(1)} MB of {(upload.totalBytes / 1024 / 1024).toFixed(1)} MB ({percent}%)
+                  {' '}· last activity {new Date(upload.updatedAt).toLocaleString()}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => onDiscard(upload.filename)}
+                className="ml-3 px-3 py-1 text-xs bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+              >
+                Discard
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
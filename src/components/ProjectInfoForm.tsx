@@ -1,18 +1,20 @@
 // components/ProjectInfoForm.tsx
 import React from 'react';
 import type { FormData, FormErrors, HandleChangeType } from '../types/uploadTypes';
-import { publicationTypeOptions } from '../types/uploadTypes';
+import type { PublicationTypeOption } from '../types/domainTypes';
 
 interface ProjectInfoFormProps {
   formData: FormData;
   errors: FormErrors;
   handleChange: HandleChangeType;
+  publicationTypeOptions: PublicationTypeOption[];
 }
 
 export const ProjectInfoForm: React.FC<ProjectInfoFormProps> = ({
   formData,
   errors,
   handleChange,
+  publicationTypeOptions,
 }) => {
   return (
     <div className="mb-8">
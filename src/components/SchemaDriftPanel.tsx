@@ -0,0 +1,96 @@
+// components/SchemaDriftPanel.tsx
+import React from 'react';
+import type { SchemaDriftReport } from '../types/schemaDriftTypes';
+
+interface SchemaDriftPanelProps {
+  report: SchemaDriftReport | null;
+  schemaVersion: string;
+}
+
+const levelIcons = { error: '❌', warning: '⚠️', info: 'ℹ️' };
+
+const Section: React.FC<{ title: string; count: number; children: React.ReactNode }> = ({ title, count, children }) => {
+  if (count === 0) return null;
+  return (
+    <div className="mt-3">
+      <p className="text-sm font-semibold text-gray-800">{title} ({count})</p>
+      <ul className="mt-1 text-xs text-gray-700 space-y-0.5">{children}</ul>
+    </div>
+  );
+};
+
+export const SchemaDriftPanel: React.FC<SchemaDriftPanelProps> = ({ report, schemaVersion }) => {
+  if (!report) return null;
+
+  if (!report.hasDrift) {
+    return (
+      <div className="mb-6 p-4 bg-green-50 rounded-lg border border-green-200">
+        <p className="text-sm text-green-800">
+          ✅ No schema drift: the source layer matches {report.targetTable} column for column (schema version {schemaVersion}).
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-6 p-4 bg-yellow-50 rounded-lg border border-yellow-200">
+      <h4 className="text-sm font-semibold text-gray-800">Schema Drift Report</h4>
+      <p className="text-xs text-gray-600 mt-1">
+        The source {report.sourceLayer ? `layer "${report.sourceLayer}"` : 'data'} differs from {report.targetTable}, so
+        this submission is recorded as schema version {schemaVersion}. The report is included in metadata.json for reviewers.
+      </p>
+
+      <Section title="Added columns (in the source only)" count={report.addedColumns.length}>
+        {report.addedColumns.map(column => (
+          <li key={column.name}>
+            <span className="font-mono">{column.name}</span>
+            {column.sourceType && <span className="text-gray-500"> ({column.sourceType})</span>}
+            {column.dropped && <span className="text-gray-500 italic"> (ignored, not loaded)</span>}
+          </li>
+        ))}
+      </Section>
+
+      <Section title="Removed columns (in the table only)" count={report.removedColumns.length}>
+        {report.removedColumns.map(column => (
+          <li key={column.name}>
+            <span className="font-mono">{column.name}</span>
+            <span className="text-gray-500"> ({column.targetType})</span>
+            {column.required && <span className="text-red-600"> required</span>}
+          </li>
+        ))}
+      </Section>
+
+      <Section title="Renamed columns" count={report.renamedColumns.length}>
+        {report.renamedColumns.map(rename => (
+          <li key={`${rename.sourceColumn}:${rename.targetColumn}`}>
+            <span className="font-mono">{rename.sourceColumn}</span> → <span className="font-mono">{rename.targetColumn}</span>
+            <span className="text-gray-500">
+              {rename.confirmed
+                ? ' (mapped)'
+                : ` (candidate: ${rename.reason}, ${Math.round((rename.confidence ?? 0) * 100)}%)`}
+            </span>
+          </li>
+        ))}
+      </Section>
+
+      <Section title="Type changes" count={report.typeChanges.length}>
+        {report.typeChanges.map(change => (
+          <li key={change.sourceColumn}>
+            {levelIcons[change.level]} <span className="font-mono">{change.sourceColumn}</span> {change.sourceType} →{' '}
+            <span className="font-mono">{change.targetColumn}</span> {change.targetType}
+            <span className="text-gray-500">: {change.message}</span>
+          </li>
+        ))}
+      </Section>
+
+      <Section title="Nullability changes" count={report.nullabilityChanges.length}>
+        {report.nullabilityChanges.map(change => (
+          <li key={change.sourceColumn}>
+            <span className="font-mono">{change.sourceColumn}</span> → <span className="font-mono">{change.targetColumn}</span>
+            <span className="text-gray-500">: {change.message}</span>
+          </li>
+        ))}
+      </Section>
+    </div>
+  );
+};
@@ -1,30 +1,101 @@
 // components/SchemaMappingModal.tsx
 import React from 'react';
-import type { TableInfo, ColumnInfo } from '../types/uploadTypes';
+import type { TableInfo, ColumnInfo, ColumnMapping, ColumnTransforms, SourceField, TargetColumnValue } from '../types/uploadTypes';
+import type { ColumnSuggestion, MatchReason } from '../lib/columnMatcher';
+import { checkTypeCompatibility, inferFieldFromValues } from '../lib/typeCompatibility';
+import type { TypeCompatibilityIssue } from '../lib/typeCompatibility';
+import { isRequiredTargetColumn, isColumnDropped, isSourceColumnResolved } from '../lib/columnCoverage';
+import type { MappingTemplateMatch } from '../types/mappingTemplateTypes';
+import { MappingTemplatesPanel } from './MappingTemplatesPanel';
+import { MappingCrosswalkPanel } from './MappingCrosswalkPanel';
+import { TransformPreview } from './TransformPreview';
+import { sampleRowsFromFields, TRANSFORM_FUNCTIONS } from '../lib/transformExpression';
+import type { CrosswalkImport } from '../lib/mappingCrosswalk';
 
 interface SchemaMappingModalProps {
   isOpen: boolean;
   selectedSourceLayer?: string;
   sourceColumns: string[];
+  // Source column types, where known (may be empty, e.g. for typed-in columns)
+  sourceFields: SourceField[];
   selectedTable: string;
   availableTables: TableInfo[];
   targetColumns: ColumnInfo[];
-  columnMapping: {[key: string]: string};
+  // null marks a source column the user chose to ignore
+  columnMapping: ColumnMapping;
+  // Suggested matches for unmapped source columns (see lib/columnMatcher.ts)
+  suggestions: ColumnSuggestion[];
+  onAcceptSuggestions: (suggestions: ColumnSuggestion[]) => void;
+  // Data type problems of mapped pairs, keyed by source column (see lib/typeCompatibility.ts)
+  typeIssues: Record<string, TypeCompatibilityIssue>;
+  // Values supplied for target columns instead of a source column (see lib/columnCoverage.ts)
+  targetColumnValues: Record<string, TargetColumnValue>;
+  uncoveredRequiredColumns: string[];
+  onTargetValueChange: (targetCol: string, value: TargetColumnValue | null) => void;
+  // Expressions applied to mapped source columns (see lib/transformExpression.ts)
+  columnTransforms: ColumnTransforms;
+  // Source columns and target values whose expression does not compile
+  invalidTransforms: string[];
+  // '' opens an empty transform for editing, null removes it
+  onTransformChange: (sourceCol: string, expression: string | null) => void;
+  // Saved mapping templates for the selected table (see lib/mappingTemplates.ts)
+  templateMatches: MappingTemplateMatch[];
+  templatesLoading: boolean;
+  templatesError: string | null;
+  onApplyTemplate: (match: MappingTemplateMatch) => void;
+  onSaveTemplate: (name: string) => Promise<boolean>;
+  onDeleteTemplate: (id: string) => Promise<void>;
+  // Valid entries of an imported crosswalk file (see lib/mappingCrosswalk.ts)
+  onImportCrosswalk: (result: CrosswalkImport) => void;
   onTableSelect: (tableFullName: string) => void;
-  onColumnMap: (sourceCol: string, targetCol: string) => void;
+  onColumnMap: (sourceCol: string, targetCol: string | null) => void;
   onComplete: () => void;
   onCancel: () => void;
   isComplete: boolean;
 }
 
+const matchReasonLabels: Record<MatchReason, string> = {
+  exact: 'same name',
+  normalized: 'same name ignoring case and separators',
+  truncated: 'shapefile-truncated name',
+  synonym: 'known synonym',
+  similar: 'similar spelling',
+};
+
+// Select value for "ignore this column"; the mapping itself stores null
+const DROP_OPTION = '__drop__';
+
+const confidenceClass = (confidence: number): string => {
+  if (confidence >= 0.9) return 'bg-green-100 text-green-800';
+  if (confidence >= 0.75) return 'bg-blue-100 text-blue-800';
+  return 'bg-yellow-100 text-yellow-800';
+};
+
 export const SchemaMappingModal: React.FC<SchemaMappingModalProps> = ({
   isOpen,
   selectedSourceLayer,
   sourceColumns,
+  sourceFields,
   selectedTable,
   availableTables,
   targetColumns,
   columnMapping,
+  suggestions,
+  onAcceptSuggestions,
+  typeIssues,
+  targetColumnValues,
+  uncoveredRequiredColumns,
+  onTargetValueChange,
+  columnTransforms,
+  invalidTransforms,
+  onTransformChange,
+  templateMatches,
+  templatesLoading,
+  templatesError,
+  onApplyTemplate,
+  onSaveTemplate,
+  onDeleteTemplate,
+  onImportCrosswalk,
   onTableSelect,
   onColumnMap,
   onComplete,
@@ -33,7 +104,22 @@ export const SchemaMappingModal: React.FC<SchemaMappingModalProps> = ({
 }) => {
   if (!isOpen) return null;
 
-  const unmappedColumns = sourceColumns.filter(col => !columnMapping[col]);
+  const unmappedColumns = sourceColumns.filter(col => !isSourceColumnResolved(columnMapping, col));
+  const droppedCount = sourceColumns.filter(col => isColumnDropped(columnMapping, col)).length;
+  const typeErrorColumns = sourceColumns.filter(col => typeIssues[col]?.level === 'error');
+  const describeSourceType = (column: string): string | null => {
+    const field = sourceFields.find(f => f.name === column);
+    if (!field || field.kind === 'unknown') return null;
+    const type = field.nativeType === 'inferred' ? `${field.kind}, inferred` : field.nativeType;
+    return field.coordinate ? `${type}, 📍 ${field.coordinate}` : type;
+  };
+
+  // Required target columns no source column fills; each can take a constant or an expression instead
+  const mappedTargets = new Set(Object.values(columnMapping).filter(Boolean));
+  const valueColumns = targetColumns.filter(column => isRequiredTargetColumn(column) && !mappedTargets.has(column.name));
+  const sampleRows = sampleRowsFromFields(sourceFields);
+  const constantIssue = (column: ColumnInfo, value: string): TypeCompatibilityIssue | null =>
+    value.trim() ? checkTypeCompatibility(inferFieldFromValues(column.name, [value]), column) : null;
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -87,16 +173,21 @@ export const SchemaMappingModal: React.FC<SchemaMappingModalProps> = ({
                   {sourceColumns.map(column => (
                     <div key={column} className="mb-2">
                       <div className={`p-2 rounded border ${
-                        columnMapping[column] 
+                        isColumnDropped(columnMapping, column)
+                          ? 'bg-gray-100 border-gray-300'
+                          : columnMapping[column] 
                           ? 'bg-green-100 border-green-300' 
                           : 'bg-yellow-100 border-yellow-300'
                       }`}>
-                        <span className="font-medium">{column}</span>
+                        <span className={`font-medium ${isColumnDropped(columnMapping, column) ? 'line-through text-gray-500' : ''}`}>{column}</span>
                         {columnMapping[column] && (
                           <span className="text-sm text-green-600 ml-2">
                             → {columnMapping[column]}
                           </span>
                         )}
+                        {isColumnDropped(columnMapping, column) && (
+                          <span className="text-sm text-gray-500 ml-2">ignored</span>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -119,6 +210,9 @@ export const SchemaMappingModal: React.FC<SchemaMappingModalProps> = ({
                         {!column.isNullable && (
                           <span className="text-xs text-red-500 ml-2">Required</span>
                         )}
+                        {uncoveredRequiredColumns.includes(column.name) && (
+                          <span className="text-xs text-red-700 font-semibold ml-2">No data</span>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -126,35 +220,221 @@ export const SchemaMappingModal: React.FC<SchemaMappingModalProps> = ({
               </div>
             </div>
 
+            <MappingTemplatesPanel
+              matches={templateMatches}
+              loading={templatesLoading}
+              error={templatesError}
+              canSave={Object.values(columnMapping).some(target => target !== '')}
+              onApply={onApplyTemplate}
+              onSave={onSaveTemplate}
+              onDelete={onDeleteTemplate}
+            />
+
+            <MappingCrosswalkPanel
+              context={{
+                targetTable: selectedTable,
+                sourceLayer: selectedSourceLayer || '',
+                sourceColumns,
+                sourceFields,
+                targetColumns,
+                columnMapping,
+                columnTransforms,
+                targetColumnValues,
+              }}
+              onImport={onImportCrosswalk}
+            />
+
+            {/* Suggested matches */}
+            {suggestions.length > 0 && (
+              <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-md">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-lg font-semibold text-gray-800">
+                    Suggested Matches ({suggestions.length})
+                  </h3>
+                  <button
+                    type="button"
+                    onClick={() => onAcceptSuggestions(suggestions)}
+                    className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+                  >
+                    Accept All
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {suggestions.map(suggestion => (
+                    <div
+                      key={suggestion.sourceColumn}
+                      className="flex items-center gap-3 p-2 bg-white border border-blue-100 rounded"
+                    >
+                      <span className={`px-2 py-0.5 text-xs font-semibold rounded ${confidenceClass(suggestion.confidence)}`}>
+                        {Math.round(suggestion.confidence * 100)}%
+                      </span>
+                      <div className="flex-1 min-w-0 text-sm">
+                        <span className="font-medium text-gray-800">{suggestion.sourceColumn}</span>
+                        <span className="text-gray-500"> → </span>
+                        <span className="font-medium text-gray-800">{suggestion.targetColumn}</span>
+                        <span className="text-xs text-gray-500 ml-2">({matchReasonLabels[suggestion.reason]})</span>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => onAcceptSuggestions([suggestion])}
+                        className="px-3 py-1 text-xs bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+                      >
+                        Accept
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Manual Mapping Interface */}
             <div className="mb-6">
-              <h3 className="text-lg font-semibold text-gray-800 mb-3">Column Mapping</h3>
-              {sourceColumns.map(sourceCol => (
-                <div key={sourceCol} className="mb-3 p-3 border border-gray-200 rounded-md">
-                  <div className="flex items-center gap-4">
-                    <div className="flex-1">
-                      <span className="font-medium text-gray-800">{sourceCol}</span>
+              <h3 className="text-lg font-semibold text-gray-800 mb-1">Column Mapping</h3>
+              <details className="mb-3 text-xs text-gray-600">
+                <summary className="cursor-pointer text-blue-600">ƒx Transform expressions</summary>
+                <p className="mt-1">
+                  <code>value</code> is the mapped column's value, <code>[Other Column]</code> another column of the same row.
+                  Operators: <code>+ - * / %</code>, <code>||</code> (join text), <code>= != &lt; &lt;= &gt; &gt;=</code>, <code>and or not</code>.
+                  Empty values are <code>null</code>.
+                </p>
+                <ul className="mt-1 list-disc list-inside font-mono">
+                  {TRANSFORM_FUNCTIONS.map(description => <li key={description}>{description}</li>)}
+                </ul>
+              </details>
+              {sourceColumns.map(sourceCol => {
+                const sourceType = describeSourceType(sourceCol);
+                const issue = typeIssues[sourceCol];
+                const dropped = isColumnDropped(columnMapping, sourceCol);
+                return (
+                  <div
+                    key={sourceCol}
+                    className={`mb-3 p-3 border rounded-md ${
+                      dropped ? 'border-gray-200 bg-gray-50'
+                        : issue?.level === 'error' ? 'border-red-300 bg-red-50'
+                        : issue?.level === 'warning' ? 'border-yellow-300 bg-yellow-50'
+                        : 'border-gray-200'
+                    }`}
+                  >
+                    <div className="flex items-center gap-4">
+                      <div className="flex-1">
+                        <span className={`font-medium ${dropped ? 'line-through text-gray-500' : 'text-gray-800'}`}>{sourceCol}</span>
+                        {sourceType && (
+                          <span className="text-xs text-gray-500 ml-2">({sourceType})</span>
+                        )}
+                      </div>
+                      <div className="text-gray-500">→</div>
+                      <div className="flex-1">
+                        <select
+                          value={dropped ? DROP_OPTION : columnMapping[sourceCol] || ''}
+                          onChange={(e) => onColumnMap(sourceCol, e.target.value === DROP_OPTION ? null : e.target.value)}
+                          className="w-full px-3 py-1 border border-gray-300 rounded-md text-sm"
+                        >
+                          <option value="">Select target column...</option>
+                          <option value={DROP_OPTION}>Ignore (drop this column)</option>
+                          {targetColumns.map(targetCol => (
+                            <option key={targetCol.name} value={targetCol.name}>
+                              {targetCol.name} ({targetCol.dataType})
+                            </option>
+                          ))}
+                        </select>
+                      </div>
                     </div>
-                    <div className="text-gray-500">→</div>
-                    <div className="flex-1">
-                      <select
-                        value={columnMapping[sourceCol] || ''}
-                        onChange={(e) => onColumnMap(sourceCol, e.target.value)}
-                        className="w-full px-3 py-1 border border-gray-300 rounded-md text-sm"
+                    {issue && (
+                      <p className={`text-xs mt-2 ${issue.level === 'error' ? 'text-red-700' : 'text-yellow-800'}`}>
+                        {issue.level === 'error' ? '❌' : '⚠️'} {issue.message}
+                      </p>
+                    )}
+                    {columnMapping[sourceCol] && (columnTransforms[sourceCol] === undefined ? (
+                      <button
+                        type="button"
+                        onClick={() => onTransformChange(sourceCol, '')}
+                        className="mt-2 text-xs text-blue-600 hover:underline"
                       >
-                        <option value="">Select target column...</option>
-                        {targetColumns.map(targetCol => (
-                          <option key={targetCol.name} value={targetCol.name}>
-                            {targetCol.name} ({targetCol.dataType})
-                          </option>
-                        ))}
-                      </select>
-                    </div>
+                        ƒx Add transform
+                      </button>
+                    ) : (
+                      <div className="mt-2">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm text-gray-500">ƒx</span>
+                          <input
+                            type="text"
+                            value={columnTransforms[sourceCol]}
+                            onChange={(e) => onTransformChange(sourceCol, e.target.value)}
+                            placeholder="Transform, e.g. upper(trim(value))"
+                            className="flex-1 px-3 py-1 border border-gray-300 rounded-md text-sm font-mono"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => onTransformChange(sourceCol, null)}
+                            className="text-xs text-gray-600 hover:underline"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                        <TransformPreview
+                          expression={columnTransforms[sourceCol]}
+                          sourceColumns={sourceColumns}
+                          column={sourceCol}
+                          sampleRows={sampleRows}
+                        />
+                      </div>
+                    ))}
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
 
+            {/* Values for required target columns without a source */}
+            {valueColumns.length > 0 && (
+              <div className="mb-6">
+                <h3 className="text-lg font-semibold text-gray-800 mb-1">Required Target Columns</h3>
+                <p className="text-sm text-gray-600 mb-3">
+                  These columns cannot be empty and have no default. Map a source column to them above, or supply a value.
+                </p>
+                {valueColumns.map(column => {
+                  const value = targetColumnValues[column.name] || { kind: 'constant', value: '' };
+                  const issue = value.kind === 'constant' ? constantIssue(column, value.value) : null;
+                  const uncovered = uncoveredRequiredColumns.includes(column.name);
+                  return (
+                    <div
+                      key={column.name}
+                      className={`mb-3 p-3 border rounded-md ${uncovered ? 'border-red-300 bg-red-50' : 'border-gray-200'}`}
+                    >
+                      <div className="flex items-center gap-4">
+                        <div className="flex-1">
+                          <span className="font-medium text-gray-800">{column.name}</span>
+                          <span className="text-xs text-gray-500 ml-2">({column.dataType})</span>
+                        </div>
+                        <select
+                          value={value.kind}
+                          onChange={(e) => onTargetValueChange(column.name, { ...value, kind: e.target.value as TargetColumnValue['kind'] })}
+                          className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        >
+                          <option value="constant">Constant</option>
+                          <option value="expression">Expression</option>
+                        </select>
+                        <input
+                          type="text"
+                          value={value.value}
+                          onChange={(e) => onTargetValueChange(column.name, e.target.value ? { ...value, value: e.target.value } : null)}
+                          placeholder={value.kind === 'constant' ? 'Value for every row' : 'Expression, e.g. upper([SITE_NAME])'}
+                          className={`flex-1 px-3 py-1 border border-gray-300 rounded-md text-sm ${value.kind === 'expression' ? 'font-mono' : ''}`}
+                        />
+                      </div>
+                      {value.kind === 'expression' && (
+                        <TransformPreview expression={value.value} sourceColumns={sourceColumns} sampleRows={sampleRows} />
+                      )}
+                      {issue && (
+                        <p className={`text-xs mt-2 ${issue.level === 'error' ? 'text-red-700' : 'text-yellow-800'}`}>
+                          {issue.level === 'error' ? '❌' : '⚠️'} {issue.message}
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
             {/* Validation Status */}
             <div className="mb-6">
               {unmappedColumns.length > 0 ? (
@@ -166,7 +446,43 @@ export const SchemaMappingModal: React.FC<SchemaMappingModalProps> = ({
                     {unmappedColumns.join(', ')}
                   </p>
                   <p className="text-yellow-600 text-xs mt-2">
-                    All source columns must be mapped before proceeding.
+                    Map each source column to a target column, or choose "Ignore" to leave it out of the load, before proceeding.
+                  </p>
+                </div>
+              ) : typeErrorColumns.length > 0 ? (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+                  <p className="text-red-800 font-medium">
+                    ❌ Incompatible data types ({typeErrorColumns.length}):
+                  </p>
+                  <p className="text-red-700 text-sm mt-1">
+                    {typeErrorColumns.join(', ')}
+                  </p>
+                  <p className="text-red-600 text-xs mt-2">
+                    Map these columns to target columns of a compatible type before proceeding.
+                  </p>
+                </div>
+              ) : invalidTransforms.length > 0 ? (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+                  <p className="text-red-800 font-medium">
+                    ❌ Invalid transform expressions ({invalidTransforms.length}):
+                  </p>
+                  <p className="text-red-700 text-sm mt-1">
+                    {invalidTransforms.join(', ')}
+                  </p>
+                  <p className="text-red-600 text-xs mt-2">
+                    Fix or remove these expressions before proceeding.
+                  </p>
+                </div>
+              ) : uncoveredRequiredColumns.length > 0 ? (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+                  <p className="text-red-800 font-medium">
+                    ❌ Required target columns without data ({uncoveredRequiredColumns.length}):
+                  </p>
+                  <p className="text-red-700 text-sm mt-1">
+                    {uncoveredRequiredColumns.join(', ')}
+                  </p>
+                  <p className="text-red-600 text-xs mt-2">
+                    Map a source column to each of these or supply a constant or expression.
                   </p>
                 </div>
               ) : (
@@ -177,6 +493,11 @@ export const SchemaMappingModal: React.FC<SchemaMappingModalProps> = ({
                   <p className="text-green-600 text-sm mt-1">
                     Schema validation is complete. You can now close this dialog and proceed with upload.
                   </p>
+                  {droppedCount > 0 && (
+                    <p className="text-green-600 text-xs mt-1">
+                      {droppedCount} ignored column{droppedCount !== 1 ? 's' : ''} will be dropped by the loader.
+                    </p>
+                  )}
                 </div>
               )}
             </div>
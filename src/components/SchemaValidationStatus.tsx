@@ -1,12 +1,15 @@
 // components/SchemaValidationStatus.tsx
 import React from 'react';
-import type { SchemaValidationState } from '../types/uploadTypes';
+import type { SchemaValidationState, UploadProgress } from '../types/uploadTypes';
+import { UploadProgressBar } from './UploadProgressBar';
 
 interface SchemaValidationStatusProps {
   loadType: string;
   schemaValidationState: SchemaValidationState;
   selectedSourceLayer?: string;
   selectedTable?: string;
+  analysisProgress?: UploadProgress | null; // Staging upload of large geodatabases for GDAL analysis
+  onReviewMapping?: () => void; // Reopens a completed column mapping
 }
 
 export const SchemaValidationStatus: React.FC<SchemaValidationStatusProps> = ({
@@ -14,6 +17,8 @@ export const SchemaValidationStatus: React.FC<SchemaValidationStatusProps> = ({
   schemaValidationState,
   selectedSourceLayer,
   selectedTable,
+  analysisProgress,
+  onReviewMapping,
 }) => {
   // Only show for "update" load type
   if (loadType !== 'update') {
@@ -77,13 +82,28 @@ export const SchemaValidationStatus: React.FC<SchemaValidationStatusProps> = ({
           )}
         </div>
         {schemaValidationState === 'completed' && (
-          <div className="text-green-600">
-            <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 20 20">
+          <div className="flex items-center gap-3">
+            {onReviewMapping && (
+              <button
+                type="button"
+                onClick={onReviewMapping}
+                className="px-3 py-1 text-sm bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-100 transition-colors"
+              >
+                Review Mapping
+              </button>
+            )}
+            <svg className="w-6 h-6 text-green-600" fill="currentColor" viewBox="0 0 20 20">
               <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
             </svg>
           </div>
         )}
       </div>
+      {schemaValidationState === 'validating' && analysisProgress && (
+        <div className="mt-3">
+          <p className="text-xs text-gray-600 mb-1">Staging geodatabase for analysis:</p>
+          <UploadProgressBar progress={analysisProgress} />
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
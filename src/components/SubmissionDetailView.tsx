@@ -0,0 +1,72 @@
+// components/SubmissionDetailView.tsx
+import React from 'react';
+import { Link } from '@tanstack/react-router';
+import { useSubmissionDetail } from '../hooks/useSubmissions';
+import { loadTypeOptions, reviewStatusOptions, getOptionLabel } from '../types/uploadTypes';
+import { useDomainRegistry } from '../hooks/useDomainRegistry';
+import { getDomainLabel } from '../lib/domainRegistry';
+import { formatBytes } from '../lib/uploadProgress';
+
+interface SubmissionDetailViewProps {
+  filename: string;
+}
+
+const DetailRow: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div>
+    <dt className="text-xs font-medium text-gray-500 uppercase">{label}</dt>
+    <dd className="text-sm text-gray-800 break-words">{value ?? '—'}</dd>
+  </div>
+);
+
+export const SubmissionDetailView: React.FC<SubmissionDetailViewProps> = ({ filename }) => {
+  const { detail, loading, error } = useSubmissionDetail(filename);
+  const { registry } = useDomainRegistry();
+
+  return (
+    <div className="max-w-6xl mx-auto p-8 bg-white rounded-lg shadow-lg">
+      <Link to="/submissions" className="text-sm text-blue-600 hover:underline">
+        ← Back to my submissions
+      </Link>
+      <h1 className="text-2xl font-bold text-gray-800 mt-2 mb-6 font-mono break-all">{filename}</h1>
+
+      {loading && (
+        <div className="flex items-center text-gray-600">
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600 mr-3"></div>
+          Loading submission...
+        </div>
+      )}
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-700">
+          ❌ {error}
+        </div>
+      )}
+
+      {detail && (
+        <>
+          <dl className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6 p-4 bg-gray-50 border border-gray-200 rounded-md">
+            <DetailRow label="Project" value={detail.submission.projectName} />
+            <DetailRow label="Dataset" value={detail.submission.datasetName} />
+            <DetailRow label="Domain" value={getDomainLabel(registry, detail.submission.domain)} />
+            <DetailRow label="Data Topic" value={detail.submission.dataTopic} />
+            <DetailRow label="Load Type" value={getOptionLabel(loadTypeOptions, detail.submission.loadType)} />
+            <DetailRow label="Review Status" value={getOptionLabel(reviewStatusOptions, detail.submission.reviewStatus)} />
+            <DetailRow label="Size" value={formatBytes(detail.submission.sizeBytes)} />
+            <DetailRow label="Submitted" value={new Date(detail.submission.uploadedAt).toLocaleString()} />
+            <DetailRow label="Checksum" value={detail.submission.checksumStatus} />
+            <DetailRow label="Manifest" value={detail.submission.manifestStatus} />
+          </dl>
+
+          <h2 className="text-lg font-semibold text-gray-800 mb-2">metadata.json</h2>
+          {detail.metadata ? (
+            <pre className="p-4 bg-gray-900 text-gray-100 text-xs rounded-md overflow-x-auto max-h-[60vh]">
+              {JSON.stringify(detail.metadata, null, 2)}
+            </pre>
+          ) : (
+            <p className="text-sm text-gray-600">This submission does not contain a metadata.json file.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+// components/SubmissionHistory.tsx
+import React, { useState } from 'react';
+import { Link } from '@tanstack/react-router';
+import { useSubmissions } from '../hooks/useSubmissions';
+import { loadTypeOptions, reviewStatusOptions, getOptionLabel } from '../types/uploadTypes';
+import { useDomainRegistry } from '../hooks/useDomainRegistry';
+import { getDomainLabel } from '../lib/domainRegistry';
+import { formatBytes } from '../lib/uploadProgress';
+
+export const SubmissionHistory: React.FC = () => {
+  const [page, setPage] = useState(1);
+  const { submissions, pagination, loading, error } = useSubmissions(page);
+  const { registry } = useDomainRegistry();
+
+  return (
+    <div className="max-w-6xl mx-auto p-8 bg-white rounded-lg shadow-lg">
+      <h1 className="text-3xl font-bold text-gray-800 mb-2">My Submissions</h1>
+      <p className="text-gray-600 mb-6">Datasets you have uploaded to cloud storage, newest first.</p>
+
+      {loading && (
+        <div className="flex items-center text-gray-600">
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600 mr-3"></div>
+          Loading submissions...
+        </div>
+      )}
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md text-red-700">
+          ❌ {error}
+        </div>
+      )}
+
+      {!loading && !error && submissions.length === 0 && (
+        <div className="p-4 bg-gray-50 border border-gray-200 rounded-md text-gray-600">
+          You have not submitted any datasets yet. <Link to="/" className="text-blue-600 hover:underline">Upload one</Link>.
+        </div>
+      )}
+
+      {submissions.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-left text-gray-700">
+                <th className="py-2 pr-4 font-semibold">Filename</th>
+                <th className="py-2 pr-4 font-semibold">Domain</th>
+                <th className="py-2 pr-4 font-semibold">Data Topic</th>
+                <th className="py-2 pr-4 font-semibold">Load Type</th>
+                <th className="py-2 pr-4 font-semibold">Size</th>
+                <th className="py-2 pr-4 font-semibold">Submitted</th>
+                <th className="py-2 pr-4 font-semibold">Review Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {submissions.map((submission) => (
+                <tr key={submission.filename} className="border-b border-gray-100 hover:bg-gray-50">
+                  <td className="py-2 pr-4 font-mono">
+                    <Link
+                      to="/submissions/$filename"
+                      params={{ filename: submission.filename }}
+                      className="text-blue-600 hover:underline"
+                    >
+                      {submission.filename}
+                    </Link>
+                  </td>
+                  <td className="py-2 pr-4">{getDomainLabel(registry, submission.domain)}</td>
+                  <td className="py-2 pr-4">{submission.dataTopic || '—'}</td>
+                  <td className="py-2 pr-4">{getOptionLabel(loadTypeOptions, submission.loadType)}</td>
+                  <td className="py-2 pr-4 whitespace-nowrap">{formatBytes(submission.sizeBytes)}</td>
+                  <td className="py-2 pr-4 whitespace-nowrap">{new Date(submission.uploadedAt).toLocaleString()}</td>
+                  <td className="py-2 pr-4">{getOptionLabel(reviewStatusOptions, submission.reviewStatus)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+          <span>
+            Page {pagination.page} of {pagination.totalPages} ({pagination.total} submissions)
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={loading || page <= 1}
+              className="px-3 py-1 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={loading || page >= pagination.totalPages}
+              className="px-3 py-1 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+// components/TableDefinitionPanel.tsx
+import React from 'react';
+import type {
+  GeometryColumnDefinition,
+  TableColumnDefinition,
+  TableDefinition,
+  TableDefinitionIssue,
+} from '../types/tableDefinitionTypes';
+import { GEOMETRY_TYPES, parseUniqueKey } from '../lib/tableDdl';
+
+interface TableDefinitionPanelProps {
+  definition: TableDefinition;
+  schema: string;
+  uniqueKey: string; // from the form; comma-separated for a composite key
+  ddl: string;
+  issues: TableDefinitionIssue[];
+  onChange: (definition: TableDefinition) => void;
+}
+
+// Offered in the type inputs; any PostgreSQL type can be typed in
+const COMMON_TYPES = [
+  'integer', 'bigint', 'smallint', 'numeric', 'double precision', 'real', 'text', 'varchar(255)',
+  'boolean', 'date', 'timestamp', 'timestamptz', 'time', 'bytea', 'uuid', 'jsonb',
+];
+
+const inputClass = 'px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export const TableDefinitionPanel: React.FC<TableDefinitionPanelProps> = ({
+  definition,
+  schema,
+  uniqueKey,
+  ddl,
+  issues,
+  onChange,
+}) => {
+  const { geometry } = definition;
+  const keyColumns = parseUniqueKey(uniqueKey);
+  const errorCount = issues.filter(issue => issue.level === 'error').length;
+  const tableIssues = issues.filter(issue => !issue.column);
+
+  const updateColumn = (sourceColumn: string, changes: Partial<TableColumnDefinition>) => {
+    onChange({
+      ...definition,
+      columns: definition.columns.map(column => (column.sourceColumn === sourceColumn ? { ...column, ...changes } : column)),
+    });
+  };
+
+  const updateGeometry = (changes: Partial<GeometryColumnDefinition>) => {
+    if (geometry) onChange({ ...definition, geometry: { ...geometry, ...changes } });
+  };
+
+  return (
+    <div className={`mb-6 p-4 rounded-lg border ${errorCount > 0 ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'}`}>
+      <h4 className="text-sm font-semibold text-gray-800">New Table Definition</h4>
+      <p className="text-xs text-gray-600 mt-1">
+        Proposed from the source fields. Adjust names and types as needed; the CREATE TABLE below is included in
+        metadata.json for the database team. The unique key comes from the form
+        {keyColumns.length > 0 ? ` (${keyColumns.join(', ')})` : ''} and must name columns of this table.
+      </p>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+        <label htmlFor="newTableName" className="font-medium text-gray-700">Table name</label>
+        <span className="font-mono text-gray-500">{schema}.</span>
+        <input
+          id="newTableName"
+          type="text"
+          value={definition.tableName}
+          onChange={(e) => onChange({ ...definition, tableName: e.target.value })}
+          className={`${inputClass} font-mono w-72`}
+        />
+      </div>
+
+      <datalist id="postgresColumnTypes">
+        {COMMON_TYPES.map(type => <option key={type} value={type} />)}
+      </datalist>
+
+      <div className="mt-3 overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500">
+              <th className="pr-3 py-1 font-medium">Include</th>
+              <th className="pr-3 py-1 font-medium">Source field</th>
+              <th className="pr-3 py-1 font-medium">Column name</th>
+              <th className="pr-3 py-1 font-medium">Type</th>
+              <th className="pr-3 py-1 font-medium">NOT NULL</th>
+            </tr>
+          </thead>
+          <tbody>
+            {definition.columns.map(column => {
+              const columnIssues = issues.filter(issue => issue.column === column.sourceColumn);
+              const isKey = keyColumns.includes(column.name);
+              return (
+                <React.Fragment key={column.sourceColumn}>
+                  <tr className={column.include ? '' : 'opacity-50'}>
+                    <td className="pr-3 py-1">
+                      <input
+                        type="checkbox"
+                        checked={column.include}
+                        onChange={(e) => updateColumn(column.sourceColumn, { include: e.target.checked })}
+                        aria-label={`Include ${column.sourceColumn}`}
+                      />
+                    </td>
+                    <td className="pr-3 py-1 font-mono text-gray-600">{column.sourceColumn}</td>
+                    <td className="pr-3 py-1">
+                      <input
+                        type="text"
+                        value={column.name}
+                        disabled={!column.include}
+                        onChange={(e) => updateColumn(column.sourceColumn, { name: e.target.value })}
+                        className={`${inputClass} font-mono w-56`}
+                      />
+                    </td>
+                    <td className="pr-3 py-1">
+                      <input
+                        type="text"
+                        list="postgresColumnTypes"
+                        value={column.type}
+                        disabled={!column.include}
+                        onChange={(e) => updateColumn(column.sourceColumn, { type: e.target.value })}
+                        className={`${inputClass} font-mono w-44`}
+                      />
+                    </td>
+                    <td className="pr-3 py-1">
+                      <input
+                        type="checkbox"
+                        checked={column.notNull || isKey}
+                        disabled={!column.include || isKey}
+                        onChange={(e) => updateColumn(column.sourceColumn, { notNull: e.target.checked })}
+                        aria-label={`${column.name} NOT NULL`}
+                        title={isKey ? 'Unique key columns are always NOT NULL' : undefined}
+                      />
+                    </td>
+                  </tr>
+                  {column.include && columnIssues.map((issue, index) => (
+                    <tr key={index}>
+                      <td />
+                      <td colSpan={4} className={`pb-1 text-xs ${issue.level === 'error' ? 'text-red-600' : 'text-yellow-700'}`}>
+                        {issue.level === 'error' ? '❌' : '⚠️'} {issue.message}
+                      </td>
+                    </tr>
+                  ))}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {geometry && (
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+          <span className="font-medium text-gray-700">Geometry</span>
+          <span className="text-xs text-gray-500">from {geometry.sourceColumn || 'the layer geometry'}</span>
+          <input
+            type="text"
+            value={geometry.name}
+            onChange={(e) => updateGeometry({ name: e.target.value })}
+            className={`${inputClass} font-mono w-32`}
+            aria-label="Geometry column name"
+          />
+          <select
+            value={geometry.geometryType.replace(/Z$/, '')}
+            onChange={(e) => updateGeometry({ geometryType: `${e.target.value}${geometry.geometryType.endsWith('Z') ? 'Z' : ''}` })}
+            className={inputClass}
+            aria-label="Geometry type"
+          >
+            {GEOMETRY_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+          <label htmlFor="newTableSrid" className="text-gray-700">SRID</label>
+          <input
+            id="newTableSrid"
+            type="number"
+            min={1}
+            value={geometry.srid ?? ''}
+            onChange={(e) => updateGeometry({ srid: e.target.value ? Number(e.target.value) : null })}
+            className={`${inputClass} w-28`}
+            placeholder="e.g. 26912"
+          />
+        </div>
+      )}
+
+      {tableIssues.length > 0 && (
+        <ul className="mt-3 text-xs space-y-0.5">
+          {tableIssues.map((issue, index) => (
+            <li key={index} className={issue.level === 'error' ? 'text-red-600' : 'text-yellow-700'}>
+              {issue.level === 'error' ? '❌' : '⚠️'} {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="mt-4 text-xs font-semibold text-gray-700">Generated DDL</p>
+      <pre className="mt-1 p-3 bg-white border border-gray-200 rounded-md text-xs font-mono text-gray-800 overflow-x-auto">{ddl}</pre>
+      {errorCount > 0 && (
+        <p className="mt-2 text-xs text-red-700">
+          {errorCount} error{errorCount !== 1 ? 's' : ''} must be fixed before uploading.
+        </p>
+      )}
+    </div>
+  );
+};
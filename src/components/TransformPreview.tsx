@@ -0,0 +1,68 @@
+// components/TransformPreview.tsx
+import React, { useState } from 'react';
+import { compileTransform, previewTransform } from '../lib/transformExpression';
+import type { TransformRow } from '../lib/transformExpression';
+
+interface TransformPreviewProps {
+  expression: string;
+  sourceColumns: string[];
+  // The mapped source column `value` refers to; absent for target column expressions
+  column?: string;
+  // Sample rows of the source (see sampleRowsFromFields); may be empty
+  sampleRows: TransformRow[];
+}
+
+const PREVIEW_ROWS = 5;
+
+const formatPreviewValue = (value: string | null) =>
+  value === null ? <span className="italic text-gray-400">null</span> : <span className="font-mono">"{value}"</span>;
+
+export const TransformPreview: React.FC<TransformPreviewProps> = ({
+  expression,
+  sourceColumns,
+  column,
+  sampleRows,
+}) => {
+  // Typed-in value for `value` when the analysis read no rows
+  const [testValue, setTestValue] = useState('');
+
+  if (!expression.trim()) return null;
+
+  let transform;
+  try {
+    transform = compileTransform(expression, sourceColumns, column);
+  } catch (error) {
+    return <p className="text-xs mt-1 text-red-700">❌ {error instanceof Error ? error.message : String(error)}</p>;
+  }
+
+  const rows = sampleRows.length > 0
+    ? sampleRows.slice(0, PREVIEW_ROWS)
+    : [column ? { [column]: testValue } : {}];
+  const previews = previewTransform(transform, rows, column);
+
+  return (
+    <div className="mt-1 text-xs text-gray-700">
+      {sampleRows.length === 0 && column && (
+        <label className="flex items-center gap-2 mb-1">
+          <span className="text-gray-500">Try a value:</span>
+          <input
+            type="text"
+            value={testValue}
+            onChange={(e) => setTestValue(e.target.value)}
+            className="px-2 py-0.5 border border-gray-300 rounded text-xs font-mono"
+          />
+        </label>
+      )}
+      <ul className="space-y-0.5">
+        {previews.map((preview, index) => (
+          <li key={index}>
+            {column && <>{formatPreviewValue(preview.input)} → </>}
+            {preview.error
+              ? <span className="text-red-700">❌ {preview.error}</span>
+              : formatPreviewValue(preview.output)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 //Updated PostgREST URL Logic
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import type { ChangeEvent, FormEvent, DragEvent } from 'react';
 import { useIAPUser } from '../hooks/useIAPUsers';
 
@@ -12,34 +12,127 @@ import type {
   ColumnInfo,
   LayerInfo,
   GDALAnalysisResult,
+  UploadProgress,
+  ConflictResolution,
+  SubmissionConflict,
   FileSystemDirectoryHandle,
   FileSystemFileHandle,
   FileSystemDirectoryEntry,
+  SourceField,
+  TargetColumnValue,
+  ColumnMapping,
+  ColumnTransforms,
   //FileSystemFileEntry,
 } from '../types/uploadTypes';
 
-import { getSchemaFromDomain } from '../types/uploadTypes';
+import { useDomainRegistry } from '../hooks/useDomainRegistry';
+import {
+  getPostgrestUrl,
+  hasDedicatedPostgrest,
+  getDomainLabel,
+  getSchemaFromDomain,
+  getColumnSynonyms,
+  getDomainOptions,
+  getPublicationTypeOptions,
+  buildFilename,
+  validateDomainRules,
+  CUSTOM_DOMAIN,
+} from '../lib/domainRegistry';
 
 // Import components
 import { ProjectInfoForm } from './ProjectInfoForm';
 import { NamingConventionForm } from './NamingConventionForm';
 import { FileUploadSection } from './FileUploadSection';
 import { SchemaValidationStatus } from './SchemaValidationStatus';
+import { SchemaDriftPanel } from './SchemaDriftPanel';
+import { TableDefinitionPanel } from './TableDefinitionPanel';
 import { LayerSelectionModal } from './LayerSelectionModal';
 import { ManualColumnModal } from './ManualColumnModal';
 import { SchemaMappingModal } from './SchemaMappingModal';
 import { ActionButtons } from './ActionButtons';
 import { CorrectionFields } from './CorrectionFields';
 import { MetadataFields } from './MetadataFields';
+import { PendingUploadsNotice } from './PendingUploadsNotice';
+import { DraftsPanel } from './DraftsPanel';
+import { DuplicateSubmissionModal } from './DuplicateSubmissionModal';
+
+import { uploadResumable, getPendingUpload, getPendingUploads, clearPendingUpload, isAbortError, ChecksumMismatchError } from '../lib/resumableUpload';
+import type { ResumableUploadRecord } from '../lib/resumableUpload';
+import { createProgressTracker } from '../lib/uploadProgress';
+import { buildDataArchive, assembleAnalysisZip, assembleSubmissionZip, computeChecksums, getFileChecksums, getContentHash, DATA_PREFIX } from '../lib/zipArchive';
+import type { BlobChecksums } from '../lib/zipArchive';
+import { MANIFEST_VERSION, MANIFEST_GENERATOR } from '../types/manifestTypes';
+import type { SubmissionManifest, ManifestConvertedSheet, ManifestValidationError } from '../types/manifestTypes';
+import { useDrafts } from '../hooks/useDrafts';
+import { useMappingTemplates } from '../hooks/useMappingTemplates';
+import { rankMappingTemplates, saveMappingTemplate, deleteMappingTemplate } from '../lib/mappingTemplates';
+import type { MappingTemplateMatch } from '../types/mappingTemplateTypes';
+import type { CrosswalkImport } from '../lib/mappingCrosswalk';
+import { suggestColumnMappings } from '../lib/columnMatcher';
+import type { ColumnSuggestion } from '../lib/columnMatcher';
+import { readDirectoryHandle } from '../lib/fileHandles';
+import { analyzeDbf } from '../lib/dbfReader';
+import { analyzeCsv } from '../lib/csvSniffer';
+import { analyzeXlsx, sheetToCsv, sheetCsvFilename, XLSX_SOURCE_FORMAT } from '../lib/xlsxReader';
+import { layerInfoFromOgr, layersFromOgrinfo, withoutEmptyLayers, LAYERED_DATASET_FORMATS, isDatasetOfFormat, findKmzDocument } from '../lib/ogrLayers';
+import { geometryField, inferFieldFromValues, checkTypeCompatibility, unknownField } from '../lib/typeCompatibility';
+import type { TypeCompatibilityIssue } from '../lib/typeCompatibility';
+import { findUncoveredRequiredColumns, activeTargetValues, activeTransforms, isSourceColumnResolved, findDroppedColumns } from '../lib/columnCoverage';
+import { buildSchemaDriftReport, schemaVersionFor } from '../lib/schemaDrift';
+import type { SchemaDriftReport } from '../types/schemaDriftTypes';
+import { proposeTableDefinition, validateTableDefinition, buildCreateTableDdl } from '../lib/tableDdl';
+import type { TableDefinition } from '../types/tableDefinitionTypes';
+import { compileTransform, previewTransform, sampleRowsFromFields, validateTransform, TRANSFORM_LANGUAGE } from '../lib/transformExpression';
+import {
+  createDraftId,
+  loadDraft,
+  saveDraft,
+  deleteDraft,
+  describeFile,
+  matchesDescriptor,
+  removeFromSources,
+  restoreDraftFiles,
+} from '../lib/draftStore';
+import type { UploadDraft, DraftFileDescriptor, DraftFileSource } from '../types/draftTypes';
 
 declare global {
   interface Window {
     showDirectoryPicker(): Promise<FileSystemDirectoryHandle>;
+    showOpenFilePicker(options?: { multiple?: boolean }): Promise<FileSystemFileHandle[]>;
+  }
+}
+
+const DRAFT_AUTOSAVE_DELAY_MS = 1000;
+// CSV rows read to infer each column's type (DBF records, to find empty values)
+const CSV_TYPE_SAMPLE_ROWS = 200;
+// Rows kept per column to preview transforms
+const TRANSFORM_SAMPLE_ROWS = 5;
+
+// A manifest with the fields that change on every build cleared, to tell whether
+// a rebuilt metadata.json still describes the same submission
+const manifestWithoutTimestamps = (metadataJson: string): string => {
+  const manifest = JSON.parse(metadataJson) as SubmissionManifest;
+  return JSON.stringify({
+    ...manifest,
+    submittedAt: null,
+    schemaValidation: manifest.schemaValidation && { ...manifest.schemaValidation, mappingTimestamp: null },
+  });
+};
+
+// The upload function found an existing submission with the same data or filename
+class DuplicateSubmissionError extends Error {
+  readonly conflict: SubmissionConflict;
+
+  constructor(message: string, conflict: SubmissionConflict) {
+    super(message);
+    this.name = 'DuplicateSubmissionError';
+    this.conflict = conflict;
   }
 }
 
 export const UploadForm: React.FC = () => {
   const { email, authenticated, loading, error } = useIAPUser();
+  const { registry: domainRegistry, error: domainRegistryError } = useDomainRegistry();
 
   // State to hold all form data
   const [formData, setFormData] = useState<UploadFormData>({
@@ -68,8 +161,16 @@ export const UploadForm: React.FC = () => {
   const [schemaValidationState, setSchemaValidationState] = useState<SchemaValidationState>('not_started');
   const [selectedTable, setSelectedTable] = useState<string>('');
   const [sourceColumns, setSourceColumns] = useState<string[]>([]);
+  // Types of the source columns, where the analysis could tell them
+  const [sourceFields, setSourceFields] = useState<SourceField[]>([]);
   const [targetColumns, setTargetColumns] = useState<ColumnInfo[]>([]);
-  const [columnMapping, setColumnMapping] = useState<{[key: string]: string}>({});
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+  // Constants or expressions for target columns no source column is mapped to
+  const [targetColumnValues, setTargetColumnValues] = useState<Record<string, TargetColumnValue>>({});
+  // Expressions applied to mapped source columns' values
+  const [columnTransforms, setColumnTransforms] = useState<ColumnTransforms>({});
+  // Reviewed CREATE TABLE for new_table loads, proposed from the source fields
+  const [tableDefinition, setTableDefinition] = useState<TableDefinition | null>(null);
   const [availableTables, setAvailableTables] = useState<TableInfo[]>([]);
   const [showManualColumnInput, setShowManualColumnInput] = useState<boolean>(false);
   const [manualColumnInput, setManualColumnInput] = useState<string>('');
@@ -78,6 +179,8 @@ export const UploadForm: React.FC = () => {
   const [sourceLayerInfo, setSourceLayerInfo] = useState<LayerInfo[]>([]);
   const [selectedSourceLayer, setSelectedSourceLayer] = useState<string>('');
   const [gdalAnalysisResult, setGdalAnalysisResult] = useState<GDALAnalysisResult | null>(null);
+  // Add the selected workbook sheet to the zip as CSV
+  const [convertSheetToCsv, setConvertSheetToCsv] = useState<boolean>(true);
 
   // State for validation errors and UI
   const [errors, setErrors] = useState<FormErrors>({});
@@ -88,27 +191,37 @@ export const UploadForm: React.FC = () => {
   const [generatedFilename, setGeneratedFilename] = useState<string>('');
   const [isProcessingFolders, setIsProcessingFolders] = useState<boolean>(false);
 
+  // State for byte-level progress and cancellation
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<UploadProgress | null>(null);
+  const [isCancellingUpload, setIsCancellingUpload] = useState<boolean>(false);
+  const uploadAbortControllerRef = useRef<AbortController | null>(null);
+  const [duplicateConflict, setDuplicateConflict] = useState<SubmissionConflict | null>(null);
+
   const [availableDataTopics, setAvailableDataTopics] = useState<string[]>([]);
   const [isLoadingTopics, setIsLoadingTopics] = useState<boolean>(false);
 
-  // ==========================================
-  // NEW: Domain-specific PostgREST URL logic
-  // ==========================================
-  
-  /**
-   * Get the appropriate PostgREST URL based on the domain
-   * @param domain - The domain value from the form
-   * @returns The PostgREST URL to use for this domain
-   */
-  const getPostgrestUrl = (domain: string): string => {
-    // Groundwater domain uses a different PostgREST service
-    if (domain === 'groundwater') {
-      return 'https://ugs-koop-umfdxaxiyq-wm.a.run.app';
-    }
-    
-    // All other domains use the default PostgREST service
-    return 'https://postgrest-seamlessgeolmap-734948684426.us-central1.run.app';
-  };
+  // Interrupted uploads found in localStorage (temp analysis uploads are not worth resuming)
+  const [pendingUploads, setPendingUploads] = useState<ResumableUploadRecord[]>(() =>
+    getPendingUploads().filter(upload => !upload.filename.startsWith('temp-analysis-'))
+  );
+
+  // Drafts autosaved to IndexedDB
+  const { drafts, refresh: refreshDrafts } = useDrafts();
+  const [currentDraft, setCurrentDraft] = useState<Pick<UploadDraft, 'id' | 'name' | 'createdAt'> | null>(null);
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null);
+  // File System Access handles behind the selected files, so a resumed draft can reopen them
+  const [fileSources, setFileSources] = useState<DraftFileSource[]>([]);
+  // Files of a resumed draft that could not be reopened and must be added again
+  const [missingDraftFiles, setMissingDraftFiles] = useState<DraftFileDescriptor[]>([]);
+
+  // Saved mappings for the chosen target table, offered while mapping
+  const {
+    templates: mappingTemplates,
+    loading: mappingTemplatesLoading,
+    error: mappingTemplatesError,
+    refresh: refreshMappingTemplates,
+  } = useMappingTemplates(schemaValidationState === 'mapping' ? selectedTable : '');
 
   useEffect(() => {
   if (formData.loadType === 'new_table' && formData.domain && formData.dataTopic) {
@@ -134,102 +247,195 @@ export const UploadForm: React.FC = () => {
     }
   }, [email, formData.authorName]);
 
-  // Generate filename whenever relevant fields change
+  // Generate filename whenever relevant fields change, following the domain's naming rules
   useEffect(() => {
-    const generateFilename = () => {
-      const {
-        domain,
-        customDomain,
-        dataTopic,
-        scale,
-        quadName,
-        pubId,
-        loadType,
-        selectedFiles
-      } = formData;
-
-      const effectiveDomain = domain === 'custom' ? customDomain : domain;
-
-      if (effectiveDomain && dataTopic && loadType && selectedFiles.length > 0) {
-        const today = new Date();
-        const dateStr = today.getFullYear().toString() +
-                       (today.getMonth() + 1).toString().padStart(2, '0') +
-                       today.getDate().toString().padStart(2, '0');
-
-        const parts = [
-          effectiveDomain,
-          dataTopic,
-          scale,
-          quadName,
-          pubId,
-          loadType,
-          dateStr
-        ].filter(part => part && part.trim() !== '');
-
-        const filename = parts.join('_') + '.zip';
-        setGeneratedFilename(filename);
-      } else {
-        setGeneratedFilename('');
-      }
-    };
+    setGeneratedFilename(buildFilename(domainRegistry, formData));
+  }, [formData, domainRegistry]);
 
-    generateFilename();
-  }, [formData]);
+const [unifiedViewName, setUnifiedViewName] = useState<string>('');
+  // ==========================================
+  // DRAFTS
+  // ==========================================
 
-  // Add this useEffect after the existing useEffects
-useEffect(() => {
-  const loadDataTopics = async () => {
-    if (formData.domain && formData.domain !== 'custom') {
-      setIsLoadingTopics(true);
-      try {
-        const topics = await fetchDataTopicsFromDomain(formData.domain);
-        setAvailableDataTopics(topics);
-      } catch (error) {
-        console.error('Failed to load data topics:', error);
-        setAvailableDataTopics([]);
-      } finally {
-        setIsLoadingTopics(false);
-      }
-    } else {
-      setAvailableDataTopics([]);
+  const resetForm = () => {
+    setFormData({
+      projectName: '',
+      datasetName: '',
+      authorName: email || '',
+      publicationType: '',
+      description: '',
+      selectedFiles: [],
+      domain: '',
+      customDomain: '',
+      dataTopic: '',
+      scale: '',
+      quadName: '',
+      pubId: '',
+      loadType: '',
+      isCorrection: false,
+      correctionReason: '',
+      tableType: '',
+      uniqueKey: '',
+      reviewStatus: '',
+      publicationDate: '',
+    });
+    setErrors({});
+    setGeneratedFilename('');
+    setColumnMapping({});
+    setTargetColumnValues({});
+    setColumnTransforms({});
+    setTableDefinition(null);
+    setSelectedTable('');
+    setTargetColumns([]);
+    setSelectedSourceLayer('');
+    setSourceLayerInfo([]);
+    setSchemaValidationState('not_started');
+    setGdalAnalysisResult(null);
+    setFileSources([]);
+    setMissingDraftFiles([]);
+    setCurrentDraft(null);
+    setDraftSavedAt(null);
+
+    const fileInput = document.getElementById('file-input') as HTMLInputElement;
+    if (fileInput) {
+      fileInput.value = '';
     }
   };
 
-  loadDataTopics();
-}, [formData.domain]);
+  // Anything worth keeping beyond the author name, which is prefilled from the login
+  const hasDraftContent = formData.selectedFiles.length > 0 || missingDraftFiles.length > 0 ||
+    [formData.projectName, formData.datasetName, formData.description, formData.domain, formData.dataTopic,
+      formData.loadType, formData.publicationType].some(value => value.trim() !== '');
+
+  // Everything a draft saves apart from its identity; memoized so autosave runs only when it changes
+  const draftContent = useMemo((): Pick<UploadDraft, 'formData' | 'files' | 'fileSources' | 'schema'> => {
+    const { selectedFiles, ...fields } = formData;
+    return {
+      formData: fields,
+      files: [...selectedFiles.map(describeFile), ...missingDraftFiles],
+      fileSources,
+      schema: {
+        // An analysis interrupted by the reload has to be started again
+        schemaValidationState: schemaValidationState === 'validating' ? 'not_started' : schemaValidationState,
+        availableTables,
+        selectedTable,
+        sourceColumns,
+        sourceFields,
+        targetColumns,
+        columnMapping,
+        targetColumnValues,
+        columnTransforms,
+        tableDefinition,
+        sourceLayerInfo,
+        selectedSourceLayer,
+        gdalAnalysisResult,
+        convertSheetToCsv,
+      },
+    };
+  }, [formData, missingDraftFiles, fileSources, schemaValidationState, availableTables, selectedTable, sourceColumns, sourceFields,
+    targetColumns, columnMapping, targetColumnValues, columnTransforms, tableDefinition, sourceLayerInfo, selectedSourceLayer,
+    gdalAnalysisResult, convertSheetToCsv]);
+
+  const buildDraft = useCallback((identity: Pick<UploadDraft, 'id' | 'name' | 'createdAt'>): UploadDraft => ({
+    ...identity,
+    name: identity.name.trim() || 'Untitled draft',
+    updatedAt: new Date().toISOString(),
+    ...draftContent,
+  }), [draftContent]);
+
+  const persistDraft = useCallback(async (draft: UploadDraft) => {
+    try {
+      await saveDraft(draft);
+      setDraftSavedAt(draft.updatedAt);
+      refreshDrafts();
+    } catch (error) {
+      // Quota or private-mode errors must not interrupt form entry
+      console.warn('Unable to save draft:', error);
+    }
+  }, [refreshDrafts]);
 
-const [unifiedViewName, setUnifiedViewName] = useState<string>('');
-const [schemaVersion, setSchemaVersion] = useState<string>('v1');
+  // Autosave a second after the last change; the first change creates the draft
+  useEffect(() => {
+    if (isSubmitting || (!currentDraft && !hasDraftContent)) return;
 
-const checkTableAndSchemaVersion = async (targetTable: string): Promise<string> => {
-  try {
-    // For update operations, check if source columns match target table schema
-    if (formData.loadType === 'update' && targetTable && sourceColumns.length > 0) {
-      const [schema, tableName] = targetTable.split('.');
-      const targetTableColumns = await fetchTableSchema(schema, tableName);
-      
-      // Compare source columns with target table schema
-      const targetColumnNames = targetTableColumns.map(col => col.name.toLowerCase());
-      const sourceColumnNames = sourceColumns.map(col => col.toLowerCase());
-      
-      // Check if columns have changed
-      const hasNewColumns = sourceColumnNames.some(col => !targetColumnNames.includes(col));
-      const hasRemovedColumns = targetColumnNames.some(col => !sourceColumnNames.includes(col));
-      
-      if (hasNewColumns || hasRemovedColumns) {
-        // Schema has changed, increment version
-        // In a real implementation, you'd fetch the current version from the database
-        // For now, we'll return v2 if schema changed
-        return 'v2';
-      }
+    const timer = window.setTimeout(() => {
+      const identity = currentDraft || {
+        id: createDraftId(),
+        name: `Draft ${new Date().toLocaleString()}`,
+        createdAt: new Date().toISOString(),
+      };
+      if (!currentDraft) setCurrentDraft(identity);
+      persistDraft(buildDraft(identity));
+    }, DRAFT_AUTOSAVE_DELAY_MS);
+
+    return () => window.clearTimeout(timer);
+  }, [buildDraft, persistDraft, hasDraftContent, currentDraft, isSubmitting]);
+
+  const resumeDraft = async (id: string) => {
+    // Save pending edits first so switching drafts never loses them
+    if (currentDraft) await persistDraft(buildDraft(currentDraft));
+
+    const draft = await loadDraft(id);
+    if (!draft) {
+      setUploadMessage('That draft no longer exists.');
+      refreshDrafts();
+      return;
     }
-    
-    return 'v1'; // Default version for new tables or unchanged schemas
-  } catch (error) {
-    console.error('Error checking schema version:', error);
-    return 'v1';
-  }
-};
+
+    setUploadMessage(`📂 Restoring draft "${draft.name}"...`);
+    const restored = await restoreDraftFiles(draft);
+
+    setFormData({ ...draft.formData, selectedFiles: restored.files });
+    setSchemaValidationState(draft.schema.schemaValidationState);
+    setAvailableTables(draft.schema.availableTables);
+    setSelectedTable(draft.schema.selectedTable);
+    setSourceColumns(draft.schema.sourceColumns);
+    setSourceFields(draft.schema.sourceFields || []);
+    setTargetColumns(draft.schema.targetColumns);
+    setColumnMapping(draft.schema.columnMapping);
+    setTargetColumnValues(draft.schema.targetColumnValues || {});
+    setColumnTransforms(draft.schema.columnTransforms || {});
+    setTableDefinition(draft.schema.tableDefinition || null);
+    setSourceLayerInfo(draft.schema.sourceLayerInfo);
+    setSelectedSourceLayer(draft.schema.selectedSourceLayer);
+    setGdalAnalysisResult(draft.schema.gdalAnalysisResult);
+    setConvertSheetToCsv(draft.schema.convertSheetToCsv ?? true);
+    setFileSources(draft.fileSources);
+    setMissingDraftFiles(restored.missing);
+    setCurrentDraft({ id: draft.id, name: draft.name, createdAt: draft.createdAt });
+    setDraftSavedAt(draft.updatedAt);
+    setErrors({});
+
+    const notes = [`✅ Resumed draft "${draft.name}".`];
+    if (restored.missing.length > 0) {
+      notes.push(`${restored.missing.length} file${restored.missing.length !== 1 ? 's' : ''} could not be reopened and must be added again.`);
+    }
+    if (restored.changed.length > 0) {
+      notes.push(`⚠️ ${restored.changed.join(', ')} changed since the draft was saved; check the column mapping before uploading.`);
+    }
+    setUploadMessage(notes.join(' '));
+    console.log(`📂 Resumed draft ${draft.id}: ${restored.files.length} files restored, ${restored.missing.length} missing`);
+  };
+
+  const discardDraft = async (id: string) => {
+    try {
+      await deleteDraft(id);
+    } catch (error) {
+      console.warn('Unable to delete draft:', error);
+    }
+    if (currentDraft?.id === id) {
+      resetForm();
+      setUploadMessage('Draft discarded.');
+    }
+    refreshDrafts();
+  };
+
+  // The current draft stays saved and can be resumed from the list
+  const startNewDraft = async () => {
+    if (currentDraft) await persistDraft(buildDraft(currentDraft));
+    resetForm();
+    setUploadMessage('');
+  };
 
   // Handle changes for text and select inputs
   const handleChange = (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
@@ -241,6 +447,12 @@ const checkTableAndSchemaVersion = async (targetTable: string): Promise<string>
     if (errors[name as keyof FormErrors]) {
       setErrors((prevErrors) => ({ ...prevErrors, [name]: undefined }));
     }
+    // Update loads are mapped to a table and new_table loads propose one, so
+    // an analysis done for the other load type has to be redone
+    if (name === 'loadType' && value !== formData.loadType && schemaValidationState !== 'not_started') {
+      setSchemaValidationState('not_started');
+      setTableDefinition(null);
+    }
   };
 
   // File handling functions
@@ -354,28 +566,6 @@ const checkTableAndSchemaVersion = async (targetTable: string): Promise<string>
     });
   };
 
-  const readDirectoryHandle = async (dirHandle: FileSystemDirectoryHandle, path = ''): Promise<File[]> => {
-    const files: File[] = [];
-    
-    for await (const [name, handle] of dirHandle.entries()) {
-      const fullPath = path ? `${path}/${name}` : name;
-      
-      if (handle.kind === 'file') {
-        const file = await (handle as FileSystemFileHandle).getFile();
-        const fileWithPath = new File([file], fullPath, {
-          type: file.type,
-          lastModified: file.lastModified
-        });
-        files.push(fileWithPath);
-      } else if (handle.kind === 'directory') {
-        const subFiles = await readDirectoryHandle(handle as FileSystemDirectoryHandle, fullPath);
-        files.push(...subFiles);
-      }
-    }
-    
-    return files;
-  };
-
   const addFiles = (newFiles: File[]) => {
     setFormData((prevData) => ({
       ...prevData,
@@ -384,12 +574,28 @@ const checkTableAndSchemaVersion = async (targetTable: string): Promise<string>
     if (errors.selectedFiles) {
       setErrors((prevErrors) => ({ ...prevErrors, selectedFiles: undefined }));
     }
+
+    // Re-adding the unchanged files a resumed draft asked for keeps its layer choice and column mapping
+    const restoresDraftFiles = missingDraftFiles.length > 0 &&
+      newFiles.every(file => missingDraftFiles.some(descriptor => matchesDescriptor(file, descriptor)));
+    if (restoresDraftFiles) {
+      setMissingDraftFiles(prev => prev.filter(descriptor => !newFiles.some(file => matchesDescriptor(file, descriptor))));
+      return;
+    }
+
     setSchemaValidationState('not_started');
     setGdalAnalysisResult(null);
     setColumnMapping({});
+    setTargetColumnValues({});
+    setColumnTransforms({});
+    setTableDefinition(null);
   };
 
   const removeFile = (indexToRemove: number) => {
+    const removed = formData.selectedFiles[indexToRemove];
+    if (removed) {
+      setFileSources(prev => removeFromSources(prev, removed.name));
+    }
     setFormData((prevData) => ({
       ...prevData,
       selectedFiles: prevData.selectedFiles.filter((_, index) => index !== indexToRemove),
@@ -397,6 +603,9 @@ const checkTableAndSchemaVersion = async (targetTable: string): Promise<string>
     setSchemaValidationState('not_started');
     setGdalAnalysisResult(null);
     setColumnMapping({});
+    setTargetColumnValues({});
+    setColumnTransforms({});
+    setTableDefinition(null);
   };
 
   const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
@@ -472,10 +681,17 @@ const checkTableAndSchemaVersion = async (targetTable: string): Promise<string>
           const files = await readDirectoryHandle(dirHandle);
           if (files.length > 0) {
             addFiles(files);
+            setFileSources(prev => [...prev, { handle: dirHandle, paths: files.map(file => file.name) }]);
           }
           setIsProcessingFolders(false);
         } else if (choice === 'files') {
-          document.getElementById('file-input')?.click();
+          // The file picker (unlike <input type="file">) gives handles that drafts can reopen later
+          const fileHandles = await window.showOpenFilePicker({ multiple: true });
+          const files = await Promise.all(fileHandles.map(handle => handle.getFile()));
+          if (files.length > 0) {
+            addFiles(files);
+            setFileSources(prev => [...prev, ...fileHandles.map((handle, index) => ({ handle, paths: [files[index].name] }))]);
+          }
         }
         
       } catch (error) {
@@ -525,78 +741,172 @@ const checkTableAndSchemaVersion = async (targetTable: string): Promise<string>
   };
 
   // ==========================================
-  // UPDATED UPLOAD FUNCTION WITH SIGNED URLS
+  // RESUMABLE UPLOAD TO CLOUD STORAGE
   // ==========================================
- const uploadZipToGCS = async (zipBlob: Blob, filename: string): Promise<boolean> => {
+ const uploadZipToGCS = async (
+  zipBlob: Blob,
+  filename: string,
+  options: {
+    signal?: AbortSignal;
+    onProgress?: (progress: UploadProgress) => void;
+    // When given, GCS validates the CRC32C on the final chunk and the stored object is verified afterwards
+    checksums?: BlobChecksums;
+    // Data fingerprint used by the upload function to detect duplicate submissions
+    contentHash?: string;
+    onConflict?: ConflictResolution;
+    // Extra object metadata describing the submission, shown on the submissions page
+    submissionMetadata?: Record<string, string>;
+    // The metadata.json packed into the zip; the server validates it before starting the upload
+    manifest?: SubmissionManifest;
+  } = {}
+): Promise<boolean> => {
   try {
     const fileSizeMB = (zipBlob.size / 1024 / 1024).toFixed(2);
     console.log('Starting upload process...');
     console.log(`File: ${filename}`);
     console.log(`Size: ${zipBlob.size} bytes (${fileSizeMB}MB)`);
 
-    // Phase 1: Get Signed URL
-    console.log('Phase 1: Requesting signed URL from Cloud Function...');
-    
-    const functionUrl = `https://us-central1-${process.env.REACT_APP_PROJECT_ID || 'ut-dnr-ugs-backend-tools'}.cloudfunctions.net/ugs-zip-upload`;
-    
-    const signedUrlResponse = await fetch(`${functionUrl}?filename=${encodeURIComponent(filename)}&fileSize=${zipBlob.size}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Filename': filename,
-        'X-File-Size': zipBlob.size.toString(),
-      },
-    });
+    let storageLocation = 'cloud storage';
 
-    if (!signedUrlResponse.ok) {
-      let errorData;
-      try {
-        errorData = await signedUrlResponse.json();
-      } catch {
-        errorData = { error: `HTTP ${signedUrlResponse.status}: ${signedUrlResponse.statusText}` };
+    // Phase 1: Start a resumable session (only called when no stored session can be reused)
+    const createSession = async (): Promise<string> => {
+      console.log('Phase 1: Requesting resumable upload session...');
+
+      const sessionResponse = await fetch('/api/upload-session', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          filename,
+          fileSize: zipBlob.size,
+          uploadType: 'resumable',
+          contentHash: options.contentHash,
+          onConflict: options.onConflict || 'reject',
+          manifest: options.manifest,
+        }),
+      });
+
+      if (!sessionResponse.ok) {
+        let errorData;
+        try {
+          errorData = await sessionResponse.json();
+        } catch {
+          errorData = { error: `HTTP ${sessionResponse.status}: ${sessionResponse.statusText}` };
+        }
+        if (sessionResponse.status === 409 && errorData.conflicts) {
+          throw new DuplicateSubmissionError(errorData.error, {
+            identical: errorData.conflicts.identical,
+            nameConflict: errorData.conflicts.nameConflict,
+            suggestedFilename: errorData.suggestedFilename,
+          });
+        }
+        if (sessionResponse.status === 422 && errorData.validationErrors) {
+          const problems = (errorData.validationErrors as ManifestValidationError[])
+            .map(problem => `${problem.path} ${problem.message}`);
+          console.error('❌ Submission manifest rejected:', problems);
+          throw new Error(`Submission metadata is incomplete or invalid: ${problems.join('; ')}`);
+        }
+        throw new Error(`Failed to start upload session: ${errorData.error || sessionResponse.statusText}`);
       }
-      throw new Error(`Failed to get signed URL: ${errorData.error || signedUrlResponse.statusText}`);
-    }
 
-    const signedUrlData = await signedUrlResponse.json();
-    console.log('Phase 1 Complete: Signed URL received');
+      const sessionData = await sessionResponse.json();
+      storageLocation = sessionData.location || storageLocation;
+      console.log('Phase 1 Complete: Upload session started');
+      return sessionData.sessionUrl;
+    };
 
-    const { signedUrl, uploadedBy } = signedUrlData;
+    // Phase 2: Chunked upload directly to GCS
+    console.log('Phase 2: Uploading chunks directly to Cloud Storage...');
 
-    // Phase 2: Direct Upload to GCS (minimal headers)
-    console.log('Phase 2: Uploading directly to Cloud Storage...');
-    
     const uploadStartTime = Date.now();
-    
-    const uploadResponse = await fetch(signedUrl, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/zip',
+    let tracker: ReturnType<typeof createProgressTracker> | null = null;
+
+    const { resumed, resumedFromByte } = await uploadResumable({
+      blob: zipBlob,
+      filename,
+      createSession,
+      // Serialized as createZipFile packs it, so a stored session is only reused for the same file
+      metadataJson: options.manifest && JSON.stringify(options.manifest, null, 2),
+      signal: options.signal,
+      finalChunkHeaders: options.checksums ? { 'X-Goog-Hash': `crc32c=${options.checksums.crc32c}` } : {},
+      onProgress: (bytesUploaded, totalBytes) => {
+        if (!options.onProgress) return;
+        // The first report carries the resume offset so it isn't counted as throughput
+        if (!tracker) {
+          tracker = createProgressTracker('uploading', totalBytes, options.onProgress, bytesUploaded);
+        }
+        tracker.update(bytesUploaded);
       },
-      body: zipBlob,
     });
 
     const uploadDuration = ((Date.now() - uploadStartTime) / 1000).toFixed(1);
 
-    if (!uploadResponse.ok) {
-      console.error('GCS upload error');
-      console.error('Response status:', uploadResponse.status);
-      throw new Error(`Upload to Cloud Storage failed: ${uploadResponse.status} ${uploadResponse.statusText}`);
+    if (resumed) {
+      console.log(`Phase 2 Complete: Resumed previous session from byte ${resumedFromByte}`);
+    } else {
+      console.log('Phase 2 Complete: File uploaded to Cloud Storage');
     }
 
-    console.log('Phase 2 Complete: File uploaded to Cloud Storage');
+    // Verify the stored object against the checksums computed before upload
+    if (options.checksums) {
+      console.log('Verifying stored object checksum...');
+      options.onProgress?.({
+        phase: 'verifying',
+        bytesProcessed: zipBlob.size,
+        totalBytes: zipBlob.size,
+        bytesPerSecond: 0,
+        etaSeconds: null,
+      });
+
+      const verifyResponse = await fetch('/api/verify-upload', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          filename,
+          size: zipBlob.size,
+          crc32c: options.checksums.crc32c,
+          sha256: options.checksums.sha256,
+        })
+      });
+
+      if (!verifyResponse.ok) {
+        let errorData;
+        try {
+          errorData = await verifyResponse.json();
+        } catch {
+          errorData = { error: `HTTP ${verifyResponse.status}: ${verifyResponse.statusText}` };
+        }
+        if (verifyResponse.status === 409) {
+          throw new ChecksumMismatchError(`Checksum verification failed: ${errorData.error}`);
+        }
+        throw new Error(`Could not verify the uploaded file: ${errorData.error || verifyResponse.statusText}`);
+      }
+      console.log(`Checksum verified (SHA-256 ${options.checksums.sha256})`);
+    }
 
     // Phase 3: Update file metadata
     console.log('Phase 3: Adding metadata to uploaded file...');
+    options.onProgress?.({
+      phase: 'finalizing',
+      bytesProcessed: zipBlob.size,
+      totalBytes: zipBlob.size,
+      bytesPerSecond: 0,
+      etaSeconds: null,
+    });
     
+    // Descriptive fields only; the server sets uploaded-by, checksums and the manifest status itself
     const metadata = {
-      'uploaded-by': uploadedBy,
       'uploaded-at': new Date().toISOString(),
       'source': 'UGS-Ingest-Web-Application',
       'original-filename': filename,
       'file-size-bytes': zipBlob.size.toString(),
       'file-size-mb': fileSizeMB,
-      'upload-duration-seconds': uploadDuration
+      'upload-duration-seconds': uploadDuration,
+      'resumed-from-byte': resumedFromByte.toString(),
+      ...options.submissionMetadata
     };
 
     const metadataResponse = await fetch('/api/update-file-metadata', {
@@ -618,8 +928,8 @@ const checkTableAndSchemaVersion = async (targetTable: string): Promise<string>
 
     // Success!
     console.log(`Upload completed in ${uploadDuration} seconds`);
-    console.log(`File location: gs://${signedUrlData.bucket}/${filename}`);
-    console.log(`Upload speed: ${(zipBlob.size / 1024 / 1024 / parseFloat(uploadDuration)).toFixed(2)} MB/s`);
+    console.log(`File location: ${storageLocation}/${filename}`);
+    console.log(`Upload speed: ${((zipBlob.size - resumedFromByte) / 1024 / 1024 / Math.max(parseFloat(uploadDuration), 0.1)).toFixed(2)} MB/s`);
     
     return true;
 
@@ -638,7 +948,7 @@ const checkTableAndSchemaVersion = async (targetTable: string): Promise<string>
       const schema = schemaName || 'mapping';
       
       // Get the appropriate PostgREST URL based on the current domain
-      const POSTGREST_URL = getPostgrestUrl(formData.domain);
+      const POSTGREST_URL = getPostgrestUrl(domainRegistry, formData.domain);
       
       console.log(`🔍 Discovering tables in schema: ${schema}`);
       console.log(`🌐 Using PostgREST URL: ${POSTGREST_URL}`);
@@ -691,10 +1001,10 @@ const checkTableAndSchemaVersion = async (targetTable: string): Promise<string>
   };
 
   // Add this function in UploadForm.tsx, near the other fetch functions
-const fetchDataTopicsFromDomain = async (domain: string): Promise<string[]> => {
+const fetchDataTopicsFromDomain = useCallback(async (domain: string): Promise<string[]> => {
   try {
-    const schema = getSchemaFromDomain(domain);
-    const POSTGREST_URL = getPostgrestUrl(domain);
+    const schema = getSchemaFromDomain(domainRegistry, domain);
+    const POSTGREST_URL = getPostgrestUrl(domainRegistry, domain);
     
     console.log(`🔍 Fetching data topics from domain: ${domain} (schema: ${schema})`);
 
@@ -747,7 +1057,34 @@ const fetchDataTopicsFromDomain = async (domain: string): Promise<string[]> => {
     console.error(`Error fetching data topics from domain ${domain}:`, error);
     return [];
   }
-};
+}, [domainRegistry]);
+
+// A response for a domain the user has since changed is ignored
+useEffect(() => {
+  let ignore = false;
+  const loadDataTopics = async () => {
+    if (formData.domain && formData.domain !== CUSTOM_DOMAIN && domainRegistry) {
+      setIsLoadingTopics(true);
+      try {
+        const topics = await fetchDataTopicsFromDomain(formData.domain);
+        if (!ignore) setAvailableDataTopics(topics);
+      } catch (error) {
+        console.error('Failed to load data topics:', error);
+        if (!ignore) setAvailableDataTopics([]);
+      } finally {
+        if (!ignore) setIsLoadingTopics(false);
+      }
+    } else {
+      setIsLoadingTopics(false);
+      setAvailableDataTopics([]);
+    }
+  };
+
+  loadDataTopics();
+  return () => {
+    ignore = true;
+  };
+}, [formData.domain, domainRegistry, fetchDataTopicsFromDomain]);
 
   // ==========================================
   // UPDATED GDAL ANALYSIS FUNCTIONS
@@ -756,9 +1093,6 @@ const fetchDataTopicsFromDomain = async (domain: string): Promise<string[]> => {
     try {
       console.log('🔍 Using GDAL microservice to analyze geodatabase...');
       
-      const JSZip = (await import('jszip')).default;
-      const zip = new JSZip();
-      
       const gdbFiles = files.filter(f => f.name.includes('.gdb/'));
       if (gdbFiles.length === 0) {
         console.log('No .gdb files found');
@@ -768,12 +1102,11 @@ const fetchDataTopicsFromDomain = async (domain: string): Promise<string[]> => {
       const gdbFolderName = gdbFiles[0].name.split('/')[0];
       console.log(`📁 Processing geodatabase: ${gdbFolderName}`);
       
-      for (const file of gdbFiles) {
-        zip.file(file.name, file);
-      }
-      
-      const zipBlob = await zip.generateAsync({ type: 'blob' });
+      // Zip the whole selection once in the worker; the submission reuses this archive
+      const archive = await buildDataArchive(files, { onProgress: setAnalysisProgress });
+      const zipBlob = assembleAnalysisZip(archive);
       const tempFilename = `temp-analysis-${Date.now()}-${gdbFolderName}.zip`;
+      const gdbPathInZip = `${DATA_PREFIX}${gdbFolderName}`;
       
       console.log(`📦 Created analysis zip: ${tempFilename} (${(zipBlob.size / 1024 / 1024).toFixed(2)}MB)`);
 
@@ -782,10 +1115,10 @@ const fetchDataTopicsFromDomain = async (domain: string): Promise<string[]> => {
       
       if (zipBlob.size > MAX_DIRECT_SIZE) {
         console.log(`⚠️ File too large for direct upload (${(zipBlob.size / 1024 / 1024).toFixed(2)}MB), using Cloud Storage staging...`);
-        return await analyzeGdbViaCloudStorage(zipBlob, tempFilename, gdbFolderName);
+        return await analyzeGdbViaCloudStorage(zipBlob, tempFilename, gdbFolderName, gdbPathInZip);
       } else {
         console.log(`✅ File size OK for direct upload (${(zipBlob.size / 1024 / 1024).toFixed(2)}MB), using direct method...`);
-        return await analyzeGdbDirect(zipBlob, tempFilename, gdbFolderName);
+        return await analyzeGdbDirect(zipBlob, tempFilename, gdbFolderName, gdbPathInZip);
       }
       
     } catch (error) {
@@ -795,13 +1128,13 @@ const fetchDataTopicsFromDomain = async (domain: string): Promise<string[]> => {
   };
 
   // Direct analysis for smaller files
-  const analyzeGdbDirect = async (zipBlob: Blob, tempFilename: string, gdbFolderName: string): Promise<{ layers: LayerInfo[], columns: string[], gdalResult: GDALAnalysisResult | null }> => {
+  const analyzeGdbDirect = async (zipBlob: Blob, tempFilename: string, gdbFolderName: string, gdbPathInZip: string): Promise<{ layers: LayerInfo[], columns: string[], gdalResult: GDALAnalysisResult | null }> => {
     console.log('Step 1: Discovering layers in geodatabase (direct upload)...');
     
     const formData = new FormData();
     formData.append('file', new File([zipBlob], tempFilename));
     formData.append('command', 'ogrinfo');
-    formData.append('args', JSON.stringify(['-json', `/vsizip/${tempFilename}/${gdbFolderName}`]));
+    formData.append('args', JSON.stringify(['-json', `/vsizip/${tempFilename}/${gdbPathInZip}`]));
     
     const response = await fetch('/api/gdal-proxy/upload-and-execute', {
       method: 'POST',
@@ -817,13 +1150,14 @@ const fetchDataTopicsFromDomain = async (domain: string): Promise<string[]> => {
   };
 
   // Cloud Storage analysis for larger files
-  const analyzeGdbViaCloudStorage = async (zipBlob: Blob, tempFilename: string, gdbFolderName: string): Promise<{ layers: LayerInfo[], columns: string[], gdalResult: GDALAnalysisResult | null }> => {
+  const analyzeGdbViaCloudStorage = async (zipBlob: Blob, tempFilename: string, gdbFolderName: string, gdbPathInZip: string): Promise<{ layers: LayerInfo[], columns: string[], gdalResult: GDALAnalysisResult | null }> => {
     try {
       console.log('🔄 Using Cloud Storage staging for large geodatabase analysis...');
       
-      // Step 1: Upload to Cloud Storage using signed URLs
+      // Step 1: Upload to Cloud Storage through a resumable session
       console.log('Step 1: Uploading to Cloud Storage for analysis...');
-      const uploaded = await uploadZipToGCS(zipBlob, tempFilename);
+      const uploaded = await uploadZipToGCS(zipBlob, tempFilename, { onProgress: setAnalysisProgress });
+      setAnalysisProgress(null);
       
       if (!uploaded) {
         throw new Error('Failed to upload file to Cloud Storage for analysis');
@@ -837,11 +1171,9 @@ const fetchDataTopicsFromDomain = async (domain: string): Promise<string[]> => {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          bucket: 'stagedzips',
           filename: tempFilename,
-          gdbFolderName: gdbFolderName,
           command: 'ogrinfo',
-          args: ['-json', `/vsizip/${tempFilename}/${gdbFolderName}`]
+          args: ['-json', `/vsizip/${tempFilename}/${gdbPathInZip}`]
         })
       });
       
@@ -857,7 +1189,7 @@ const fetchDataTopicsFromDomain = async (domain: string): Promise<string[]> => {
         await fetch('/api/gdal-proxy/cleanup-temp-file', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ bucket: 'stagedzips', filename: tempFilename })
+          body: JSON.stringify({ filename: tempFilename })
         });
       } catch (cleanupError) {
         console.warn('Failed to cleanup temp file:', cleanupError);
@@ -888,45 +1220,22 @@ const fetchDataTopicsFromDomain = async (domain: string): Promise<string[]> => {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       console.log(`Found ${layers.length} layers:`, layers.map((l: any) => l.name));
       
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
       for (const layer of layers) {
-        const layerFields = new Set<string>();
+        // Geodatabase system columns ogrinfo does not always list as fields
+        const layerInfo = layerInfoFromOgr(layer, [
+          { name: 'OBJECTID', kind: 'integer', nativeType: 'Integer', width: null, precision: null },
+          geometryField('Shape', layer.geometryFields?.[0]?.type),
+          { name: 'Shape_Length', kind: 'real', nativeType: 'Real', width: null, precision: null },
+          { name: 'Shape_Area', kind: 'real', nativeType: 'Real', width: null, precision: null }
+        ]);
+        layersWithFields.push(layerInfo);
         
-        const fields = layer.fields || [];
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        for (const field of fields) {
-          if (field.name) {
-            layerFields.add(field.name);
-          }
-        }
-        
-        const geometryFields = layer.geometryFields || [];
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        for (const geomField of geometryFields) {
-          if (geomField.name) {
-            layerFields.add(geomField.name);
-          }
-        }
-        
-        const commonFields = ['OBJECTID', 'Shape', 'Shape_Length', 'Shape_Area'];
-        for (const field of commonFields) {
-          if (!Array.from(layerFields).some(col => col.toUpperCase() === field.toUpperCase())) {
-            layerFields.add(field);
-          }
-        }
-        
-        layersWithFields.push({
-          name: layer.name,
-          fields: Array.from(layerFields),
-          featureCount: layer.featureCount || 'Unknown',
-          geometryType: layer.geometryFields?.[0]?.type || 'Unknown'
-        });
-        
-        console.log(`Layer "${layer.name}": ${layerFields.size} fields, ${layer.featureCount || '?'} features`);
+        console.log(`Layer "${layer.name}": ${layerInfo.fields.length} fields, ${layer.featureCount ?? '?'} features`);
       }
 
       const gdalResult: GDALAnalysisResult = {
         layers: layersWithFields,
+        sourceFormat: 'File Geodatabase',
         gdbFolderName: gdbFolderName,
         totalLayers: layersWithFields.length,
         analysisTimestamp: new Date().toISOString()
@@ -959,13 +1268,109 @@ const fetchDataTopicsFromDomain = async (domain: string): Promise<string[]> => {
     }
   };
 
+  // Runs ogrinfo on an analysis zip: posted with the request when small enough,
+  // otherwise staged in Cloud Storage and removed afterwards
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const runOgrinfo = async (zipBlob: Blob, tempFilename: string, args: string[]): Promise<any> => {
+    const MAX_DIRECT_SIZE = 50 * 1024 * 1024;
+    
+    if (zipBlob.size <= MAX_DIRECT_SIZE) {
+      console.log(`✅ File size OK for direct upload, using direct method...`);
+      const formData = new FormData();
+      formData.append('file', new File([zipBlob], tempFilename));
+      formData.append('command', 'ogrinfo');
+      formData.append('args', JSON.stringify(args));
+      
+      const response = await fetch('/api/gdal-proxy/upload-and-execute', {
+        method: 'POST',
+        body: formData
+      });
+      
+      if (!response.ok) {
+        throw new Error(`GDAL service returned ${response.status}`);
+      }
+      return response.json();
+    }
+    
+    console.log(`⚠️ File too large for direct upload, using Cloud Storage staging...`);
+    const uploaded = await uploadZipToGCS(zipBlob, tempFilename, { onProgress: setAnalysisProgress });
+    setAnalysisProgress(null);
+    if (!uploaded) {
+      throw new Error('Failed to upload file to Cloud Storage for analysis');
+    }
+    
+    const analysisResponse = await fetch('/api/gdal-proxy/analyze-from-storage', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        filename: tempFilename,
+        command: 'ogrinfo',
+        args
+      })
+    });
+    
+    if (!analysisResponse.ok) {
+      throw new Error(`GDAL analysis failed: ${analysisResponse.status}`);
+    }
+    
+    const result = await analysisResponse.json();
+    
+    // Cleanup
+    try {
+      await fetch('/api/gdal-proxy/cleanup-temp-file', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ filename: tempFilename })
+      });
+    } catch (cleanupError) {
+      console.warn('Failed to cleanup temp file:', cleanupError);
+    }
+    return result;
+  };
+
+  // Single-file datasets with layers, such as GeoPackages: every layer is
+  // listed, and a dataset with several goes through the layer selection
+  // innerPath names a file inside the dataset when it is itself an archive (the KML in a KMZ)
+  const analyzeDatasetWithGDAL = async (files: File[], datasetFile: File, sourceFormat: string, innerPath?: string): Promise<{ layers: LayerInfo[], columns: string[], gdalResult: GDALAnalysisResult | null }> => {
+    try {
+      console.log(`🔍 Using GDAL microservice to analyze ${sourceFormat} ${datasetFile.name}...`);
+      
+      // Zip the whole selection once in the worker; the submission reuses this archive
+      const archive = await buildDataArchive(files, { onProgress: setAnalysisProgress });
+      const zipBlob = assembleAnalysisZip(archive);
+      const baseName = datasetFile.name.split('/').pop()?.replace(/\.[^.]+$/, '') || 'dataset';
+      const tempFilename = `temp-analysis-${Date.now()}-${baseName}.zip`;
+      
+      const datasetPath = `/vsizip/${tempFilename}/${DATA_PREFIX}${datasetFile.name}`;
+      const result = await runOgrinfo(zipBlob, tempFilename, ['-json', '-al', innerPath ? `/vsizip/{${datasetPath}}/${innerPath}` : datasetPath]);
+      if (!result.success || !result.stdout) {
+        console.error(`Failed to analyze ${sourceFormat}:`, result.stderr);
+        return { layers: [], columns: [], gdalResult: null };
+      }
+      
+      const layers = withoutEmptyLayers(layersFromOgrinfo(result.stdout));
+      layers.forEach(layer => console.log(`Layer "${layer.name}": ${layer.fields.length} fields, ${layer.featureCount} features`));
+      
+      const gdalResult: GDALAnalysisResult = {
+        layers,
+        ...(layers.length === 1 ? { selectedLayer: layers[0] } : {}),
+        sourceFormat,
+        datasetPath: datasetFile.name,
+        totalLayers: layers.length,
+        analysisTimestamp: new Date().toISOString()
+      };
+      return { layers, columns: layers.length === 1 ? layers[0].fields : [], gdalResult };
+      
+    } catch (error) {
+      console.error(`Error using GDAL microservice for ${sourceFormat}:`, error);
+      return { layers: [], columns: [], gdalResult: null };
+    }
+  };
+
   const analyzeShapefileWithGDAL = async (files: File[]): Promise<{ layers: LayerInfo[], columns: string[], gdalResult: GDALAnalysisResult | null }> => {
   try {
     console.log('🔍 Using GDAL microservice to analyze shapefile...');
     
-    const JSZip = (await import('jszip')).default;
-    const zip = new JSZip();
-    
     // Find all shapefile components (.shp, .shx, .dbf, .prj, etc.)
     const shpFiles = files.filter(f => {
       const ext = f.name.toLowerCase().split('.').pop();
@@ -981,72 +1386,15 @@ const fetchDataTopicsFromDomain = async (domain: string): Promise<string[]> => {
     const shpBaseName = shpFiles.find(f => f.name.toLowerCase().endsWith('.shp'))?.name.replace('.shp', '') || 'shapefile';
     console.log(`📁 Processing shapefile: ${shpBaseName}`);
     
-    // Add all shapefile components to zip
-    for (const file of shpFiles) {
-      zip.file(file.name, file);
-    }
-    
-    const zipBlob = await zip.generateAsync({ type: 'blob' });
+    // Zip the whole selection once in the worker; the submission reuses this archive
+    const archive = await buildDataArchive(files, { onProgress: setAnalysisProgress });
+    const zipBlob = assembleAnalysisZip(archive);
+    const shpPathInZip = `${DATA_PREFIX}${shpBaseName}.shp`;
     const tempFilename = `temp-analysis-${Date.now()}-${shpBaseName}.zip`;
     
     console.log(`📦 Created analysis zip: ${tempFilename} (${(zipBlob.size / 1024 / 1024).toFixed(2)}MB)`);
 
-    // Use direct or cloud storage method based on size
-    const MAX_DIRECT_SIZE = 50 * 1024 * 1024;
-    
-    let result;
-    if (zipBlob.size > MAX_DIRECT_SIZE) {
-      console.log(`⚠️ File too large for direct upload, using Cloud Storage staging...`);
-      const uploaded = await uploadZipToGCS(zipBlob, tempFilename);
-      if (!uploaded) {
-        throw new Error('Failed to upload file to Cloud Storage for analysis');
-      }
-      
-      const analysisResponse = await fetch('/api/gdal-proxy/analyze-from-storage', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          bucket: 'stagedzips',
-          filename: tempFilename,
-          command: 'ogrinfo',
-          args: ['-json', '-al', `/vsizip/${tempFilename}/${shpBaseName}.shp`]
-        })
-      });
-      
-      if (!analysisResponse.ok) {
-        throw new Error(`GDAL analysis failed: ${analysisResponse.status}`);
-      }
-      
-      result = await analysisResponse.json();
-      
-      // Cleanup
-      try {
-        await fetch('/api/gdal-proxy/cleanup-temp-file', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ bucket: 'stagedzips', filename: tempFilename })
-        });
-      } catch (cleanupError) {
-        console.warn('Failed to cleanup temp file:', cleanupError);
-      }
-    } else {
-      console.log(`✅ File size OK for direct upload, using direct method...`);
-      const formData = new FormData();
-      formData.append('file', new File([zipBlob], tempFilename));
-      formData.append('command', 'ogrinfo');
-      formData.append('args', JSON.stringify(['-json', '-al', `/vsizip/${tempFilename}/${shpBaseName}.shp`]));
-      
-      const response = await fetch('/api/gdal-proxy/upload-and-execute', {
-        method: 'POST',
-        body: formData
-      });
-      
-      if (!response.ok) {
-        throw new Error(`GDAL service returned ${response.status}`);
-      }
-      
-      result = await response.json();
-    }
+    const result = await runOgrinfo(zipBlob, tempFilename, ['-json', '-al', `/vsizip/${tempFilename}/${shpPathInZip}`]);
     
     // Process the result
     if (!result.success || !result.stdout) {
@@ -1062,34 +1410,11 @@ const fetchDataTopicsFromDomain = async (domain: string): Promise<string[]> => {
       
       console.log(`Found ${layers.length} layers in shapefile`);
       
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
       for (const layer of layers) {
-        const layerFields = new Set<string>();
-        
-        const fields = layer.fields || [];
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        for (const field of fields) {
-          if (field.name) {
-            layerFields.add(field.name);
-          }
-        }
-        
-        const geometryFields = layer.geometryFields || [];
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        for (const geomField of geometryFields) {
-          if (geomField.name) {
-            layerFields.add(geomField.name);
-          }
-        }
-        
-        layersWithFields.push({
-          name: layer.name,
-          fields: Array.from(layerFields),
-          featureCount: layer.featureCount || 'Unknown',
-          geometryType: layer.geometryFields?.[0]?.type || 'Unknown'
-        });
+        const layerInfo = layerInfoFromOgr(layer);
+        layersWithFields.push(layerInfo);
         
-        console.log(`Layer "${layer.name}": ${layerFields.size} fields, ${layer.featureCount || '?'} features`);
+        console.log(`Layer "${layer.name}": ${layerInfo.fields.length} fields, ${layer.featureCount ?? '?'} features`);
       }
 
       const gdalResult: GDALAnalysisResult = {
@@ -1132,8 +1457,9 @@ const fetchDataTopicsFromDomain = async (domain: string): Promise<string[]> => {
   }
 };
 
-const analyzeFileColumns = async (files: File[]): Promise<{ needsLayerSelection: boolean, columns: string[], layers?: LayerInfo[], gdalResult?: GDALAnalysisResult | null }> => {
+const analyzeFileColumns = async (files: File[]): Promise<{ needsLayerSelection: boolean, columns: string[], fields: SourceField[], layers?: LayerInfo[], gdalResult?: GDALAnalysisResult | null }> => {
   const allColumns = new Set<string>();
+  const allFields: SourceField[] = [];
 
   // Check for geodatabase
   const hasGDB = files.some(f => f.name.includes('.gdb/'));
@@ -1148,6 +1474,7 @@ const analyzeFileColumns = async (files: File[]): Promise<{ needsLayerSelection:
         return { 
           needsLayerSelection: true, 
           columns: [], 
+          fields: [],
           layers,
           gdalResult
         };
@@ -1158,6 +1485,7 @@ const analyzeFileColumns = async (files: File[]): Promise<{ needsLayerSelection:
           return { 
             needsLayerSelection: false, 
             columns: Array.from(allColumns),
+            fields: layers[0].fieldDetails || [],
             gdalResult
           };
         }
@@ -1172,7 +1500,7 @@ const analyzeFileColumns = async (files: File[]): Promise<{ needsLayerSelection:
   
   if (hasShapefile) {
     try {
-      const { columns, gdalResult } = await analyzeShapefileWithGDAL(files);
+      const { layers, columns, gdalResult } = await analyzeShapefileWithGDAL(files);
       
       if (columns.length > 0) {
         columns.forEach(col => allColumns.add(col));
@@ -1180,6 +1508,7 @@ const analyzeFileColumns = async (files: File[]): Promise<{ needsLayerSelection:
         return { 
           needsLayerSelection: false, 
           columns: Array.from(allColumns),
+          fields: layers[0]?.fieldDetails || [],
           gdalResult
         };
       }
@@ -1189,16 +1518,94 @@ const analyzeFileColumns = async (files: File[]): Promise<{ needsLayerSelection:
     }
   }
 
-  // Fallback: Process other file types (CSV, DBF without shapefile)
+  // GeoPackage, GeoJSON, KML/KMZ and GPX files list their layers like a geodatabase
+  const datasetFormat = LAYERED_DATASET_FORMATS.find(format => files.some(f => isDatasetOfFormat(f.name, format)));
+  
+  if (datasetFormat) {
+    const datasetFiles = files.filter(f => isDatasetOfFormat(f.name, datasetFormat));
+    if (datasetFiles.length > 1) {
+      console.warn(`${datasetFiles.length} ${datasetFormat.sourceFormat} files selected; analyzing ${datasetFiles[0].name} only`);
+    }
+    const datasetFile = datasetFiles[0];
+    // ogrinfo reads the KML document inside a KMZ through a nested /vsizip/ path
+    const isKmz = datasetFile.name.toLowerCase().endsWith('.kmz');
+    const kmlDocument = isKmz ? await findKmzDocument(datasetFile).catch(() => null) : null;
+    if (isKmz && !kmlDocument) {
+      console.warn(`No KML document found in ${datasetFile.name}`);
+    }
+    const { layers, columns, gdalResult } = isKmz && !kmlDocument
+      ? { layers: [] as LayerInfo[], columns: [] as string[], gdalResult: null }
+      : await analyzeDatasetWithGDAL(files, datasetFile, isKmz ? 'KMZ' : datasetFormat.sourceFormat, kmlDocument || undefined);
+    
+    if (layers.length > 1) {
+      setSourceLayerInfo(layers);
+      setGdalAnalysisResult(gdalResult);
+      return { 
+        needsLayerSelection: true, 
+        columns: [], 
+        fields: [],
+        layers,
+        gdalResult
+      };
+    } else if (columns.length > 0) {
+      setGdalAnalysisResult(gdalResult);
+      return { 
+        needsLayerSelection: false, 
+        columns,
+        fields: layers[0].fieldDetails || [],
+        gdalResult
+      };
+    }
+  }
+
+  // Excel workbooks are read in the browser; each sheet is a layer
+  const workbookFiles = files.filter(f => f.name.toLowerCase().endsWith('.xlsx'));
+  
+  if (workbookFiles.length > 0) {
+    if (workbookFiles.length > 1) {
+      console.warn(`${workbookFiles.length} workbooks selected; analyzing ${workbookFiles[0].name} only`);
+    }
+    const { layers, columns, gdalResult } = await analyzeWorkbook(workbookFiles[0]);
+    
+    if (layers.length > 1) {
+      setSourceLayerInfo(layers);
+      setGdalAnalysisResult(gdalResult);
+      return { 
+        needsLayerSelection: true, 
+        columns: [], 
+        fields: [],
+        layers,
+        gdalResult
+      };
+    } else if (columns.length > 0) {
+      setGdalAnalysisResult(gdalResult);
+      return { 
+        needsLayerSelection: false, 
+        columns,
+        fields: layers[0].fieldDetails || [],
+        gdalResult
+      };
+    }
+  }
+
+  // Fallback: Process other file types (CSV, and DBF when GDAL gave no answer)
+  const addFields = (fields: SourceField[]) => {
+    for (const field of fields) {
+      if (allColumns.has(field.name)) continue;
+      allColumns.add(field.name);
+      allFields.push(field);
+    }
+  };
+
   for (const file of files) {
     try {
       if (file.name.toLowerCase().endsWith('.csv')) {
-        const columns = await analyzeCsvColumns(file);
-        columns.forEach(col => allColumns.add(col));
-      } else if (file.name.toLowerCase().endsWith('.dbf') && !hasShapefile) {
-        console.log('DBF file detected (no shapefile):', file.name);
-        const columns = await analyzeDbfColumns(file);
-        columns.forEach(col => allColumns.add(col));
+        addFields(await analyzeCsvColumns(file));
+      } else if (file.name.toLowerCase().endsWith('.dbf')) {
+        // Standalone tables, and shapefiles the GDAL service could not read
+        console.log('DBF file detected:', file.name);
+        const cpgFile = files.find(f => f.name.toLowerCase() === file.name.toLowerCase().replace(/\.dbf$/, '.cpg'));
+        addFields(await analyzeDbfColumns(file, cpgFile));
       }
     } catch (error) {
       console.error('Error analyzing file:', file.name, error);
@@ -1208,87 +1615,78 @@ const analyzeFileColumns = async (files: File[]): Promise<{ needsLayerSelection:
   return { 
     needsLayerSelection: false, 
     columns: Array.from(allColumns),
+    fields: allFields,
     gdalResult: null
   };
 };
 
-  const analyzeDbfColumns = async (file: File): Promise<string[]> => {
+  const analyzeWorkbook = async (file: File): Promise<{ layers: LayerInfo[], columns: string[], gdalResult: GDALAnalysisResult | null }> => {
     try {
-      const buffer = await readFileAsArrayBuffer(file, 512);
-      const view = new DataView(buffer);
-      
-      const columns: string[] = [];
-      let offset = 32;
-      
-      while (offset < buffer.byteLength - 32 && view.getUint8(offset) !== 0x0D) {
-        const nameBytes = new Uint8Array(buffer, offset, 11);
-        const decoder = new TextDecoder('ascii');
-        const fieldName = decoder.decode(nameBytes).replace(/\0+$/, '');
-        
-        if (fieldName.length > 0) {
-          columns.push(fieldName);
-        }
-        
-        offset += 32;
-      }
+      const sheets = await analyzeXlsx(file, {
+        sampleRows: CSV_TYPE_SAMPLE_ROWS,
+        samplesKept: TRANSFORM_SAMPLE_ROWS,
+      });
+      const layers: LayerInfo[] = sheets.map(sheet => ({
+        name: sheet.name,
+        fields: sheet.fields.map(field => field.name),
+        fieldDetails: sheet.fields,
+        featureCount: sheet.rowCount,
+        geometryType: 'None',
+        srid: null,
+      }));
+      sheets.forEach(sheet => console.log(
+        `📋 Sheet "${sheet.name}"${sheet.hidden ? ' (hidden)' : ''}: ${sheet.fields.length} columns, ${sheet.rowCount} rows, header rows [${sheet.headerRows.join(', ')}]`
+      ));
+      if (layers.length === 0) return { layers, columns: [], gdalResult: null };
       
-      return columns;
+      const gdalResult: GDALAnalysisResult = {
+        layers,
+        ...(layers.length === 1 ? { selectedLayer: layers[0] } : {}),
+        sourceFormat: XLSX_SOURCE_FORMAT,
+        datasetPath: file.name,
+        totalLayers: layers.length,
+        analysisTimestamp: new Date().toISOString()
+      };
+      return { layers, columns: layers.length === 1 ? layers[0].fields : [], gdalResult };
       
     } catch (error) {
-      console.error('Error analyzing DBF columns:', error);
-      return [];
+      console.error('Error analyzing workbook:', file.name, error);
+      return { layers: [], columns: [], gdalResult: null };
     }
   };
 
-  const readFileAsArrayBuffer = async (file: File, maxBytes?: number): Promise<ArrayBuffer> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => resolve(e.target?.result as ArrayBuffer);
-      reader.onerror = () => reject(new Error('Failed to read file'));
+  const analyzeDbfColumns = async (file: File, cpgFile?: File): Promise<SourceField[]> => {
+    try {
+      const { header, encoding, fields } = await analyzeDbf(file, {
+        cpg: cpgFile ? await cpgFile.text() : null,
+        sampleRows: CSV_TYPE_SAMPLE_ROWS,
+        samplesKept: TRANSFORM_SAMPLE_ROWS,
+      });
+      console.log(`📋 DBF ${file.name}: ${fields.length} fields, ${header.recordCount} records (${encoding})`);
+      return fields;
       
-      if (maxBytes) {
-        reader.readAsArrayBuffer(file.slice(0, maxBytes));
-      } else {
-        reader.readAsArrayBuffer(file);
-      }
-    });
+    } catch (error) {
+      console.error('Error analyzing DBF columns:', error);
+      return [];
+    }
   };
 
-  const analyzeCsvColumns = async (file: File): Promise<string[]> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const text = e.target?.result as string;
-          const firstLine = text.split('\n')[0];
-          const delimiters = [',', '\t', ';', '|'];
-          let columns: string[] = [];
-          
-          for (const delimiter of delimiters) {
-            const testColumns = firstLine.split(delimiter);
-            if (testColumns.length > columns.length) {
-              columns = testColumns;
-            }
-          }
-          
-          const cleanColumns = columns.map(col => 
-            col.trim().replace(/^["']|["']$/g, '')
-          ).filter(col => col.length > 0);
-          
-          resolve(cleanColumns);
-        } catch (error) {
-          reject(error);
-        }
-      };
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsText(file);
+  const analyzeCsvColumns = async (file: File): Promise<SourceField[]> => {
+    const { dialect, fields, rowsSampled, coordinates } = await analyzeCsv(file, {
+      sampleRows: CSV_TYPE_SAMPLE_ROWS,
+      samplesKept: TRANSFORM_SAMPLE_ROWS,
     });
+    console.log(`📋 CSV ${file.name}: ${fields.length} columns, ${rowsSampled} rows sampled`, dialect);
+    if (coordinates) {
+      console.log(`📍 Possible point geometry in ${file.name}: ${coordinates.longitude}, ${coordinates.latitude}`);
+    }
+    return fields;
   };
 
   const fetchTableSchema = async (schema: string, tableName: string): Promise<ColumnInfo[]> => {
     try {
       // Get the appropriate PostgREST URL based on the current domain
-      const POSTGREST_URL = getPostgrestUrl(formData.domain);
+      const POSTGREST_URL = getPostgrestUrl(domainRegistry, formData.domain);
       
       console.log(`🔍 Fetching schema for ${schema}.${tableName}`);
       console.log(`🌐 Using PostgREST URL: ${POSTGREST_URL}`);
@@ -1331,8 +1729,10 @@ const analyzeFileColumns = async (files: File[]): Promise<{ needsLayerSelection:
           name: columnName,
           dataType: dataType,
           isNullable: !isRequired,
-          defaultValue: columnDef.default || null,
-          position: index + 1
+          defaultValue: columnDef.default ?? null,
+          position: index + 1,
+          format: columnDef.format,
+          maxLength: columnDef.maxLength ?? null
         };
       });
       
@@ -1346,6 +1746,28 @@ const analyzeFileColumns = async (files: File[]): Promise<{ needsLayerSelection:
   };
 
   // Schema validation and metadata functions
+  const isNewTableLoad = formData.loadType === 'new_table';
+
+  // A new table has nothing to map to: the source fields are proposed as its
+  // columns instead, for review in the table definition panel
+  const proposeNewTable = (columns: string[], fields: SourceField[], layer?: LayerInfo) => {
+    setTableDefinition(proposeTableDefinition({
+      tableName: formData.dataTopic || layer?.name || 'new_table',
+      fields: columns.map(column => fields.find(field => field.name === column) || unknownField(column)),
+      geometryType: layer?.geometryType,
+      srid: layer?.srid ?? null,
+    }));
+    setSchemaValidationState('completed');
+    setUploadMessage(`✅ Proposed a new table with ${columns.length} columns. Review its definition below before uploading.` +
+      coordinateNote(fields));
+  };
+
+  // CSV latitude/longitude columns, which a loader could turn into point geometry
+  const coordinateNote = (fields: SourceField[]): string => {
+    const coordinateColumns = fields.filter(field => field.coordinate).map(field => field.name);
+    return coordinateColumns.length === 2 ? ` ${coordinateColumns.join(' and ')} look like point coordinates (📍).` : '';
+  };
+
   const handleSchemaValidation = async () => {
     if (formData.selectedFiles.length === 0) {
       setUploadMessage('Please select files before validating schema.');
@@ -1356,13 +1778,14 @@ const analyzeFileColumns = async (files: File[]): Promise<{ needsLayerSelection:
     setSchemaValidationState('validating');
     
     try {
-      const schemaToUse = getSchemaFromDomain(formData.domain);
+      const schemaToUse = getSchemaFromDomain(domainRegistry, formData.domain);
       console.log(`🎯 Using schema "${schemaToUse}" for domain "${formData.domain}"`);
       
       const tables = await fetchAvailableTables(schemaToUse);
       setAvailableTables(tables);
       
-      if (tables.length === 0) {
+      // A new table needs no existing one; the list only catches name clashes
+      if (tables.length === 0 && !isNewTableLoad) {
         setUploadMessage(`No accessible tables found in the ${schemaToUse} schema. Please check the schema configuration.`);
         setSchemaValidationState('not_started');
         return;
@@ -1395,10 +1818,16 @@ const analyzeFileColumns = async (files: File[]): Promise<{ needsLayerSelection:
       }
       
       setSourceColumns(analysisResult.columns);
+      setSourceFields(analysisResult.fields);
+      if (isNewTableLoad) {
+        proposeNewTable(analysisResult.columns, analysisResult.fields, analysisResult.gdalResult?.selectedLayer);
+        return;
+      }
       setSchemaValidationState('mapping');
       
       if (analysisResult.columns.length > 0) {
-        setUploadMessage(`✅ Successfully extracted ${analysisResult.columns.length} columns from files. Please select a target table and map columns.`);
+        setUploadMessage(`✅ Successfully extracted ${analysisResult.columns.length} columns from files. Please select a target table and map columns.` +
+          coordinateNote(analysisResult.fields));
       }
       
     } catch (error) {
@@ -1407,6 +1836,7 @@ const analyzeFileColumns = async (files: File[]): Promise<{ needsLayerSelection:
       setSchemaValidationState('not_started');
     } finally {
       setIsValidatingSchema(false);
+      setAnalysisProgress(null);
     }
   };
 
@@ -1423,6 +1853,11 @@ const analyzeFileColumns = async (files: File[]): Promise<{ needsLayerSelection:
       }
       
       setSourceColumns(selectedLayer.fields);
+      setSourceFields(selectedLayer.fieldDetails || []);
+      if (isNewTableLoad) {
+        proposeNewTable(selectedLayer.fields, selectedLayer.fieldDetails || [], selectedLayer);
+        return;
+      }
       setSchemaValidationState('mapping');
       setUploadMessage(`✅ Selected layer "${layerName}" with ${selectedLayer.fields.length} columns. Please select a target table and map columns.`);
     }
@@ -1435,53 +1870,242 @@ const analyzeFileColumns = async (files: File[]): Promise<{ needsLayerSelection:
     const [schema, tableName] = tableFullName.split('.');
     const columns = await fetchTableSchema(schema, tableName);
     setTargetColumns(columns);
-    
-    // Check schema version
-    const version = await checkTableAndSchemaVersion(tableFullName);
-    setSchemaVersion(version);
-      
-      const newMapping: {[key: string]: string} = {};
-      sourceColumns.forEach(sourceCol => {
-        const matchingTarget = columns.find((targetCol: ColumnInfo) => 
-          targetCol.name.toLowerCase() === sourceCol.toLowerCase()
-        );
-        if (matchingTarget) {
-          newMapping[sourceCol] = matchingTarget.name;
-        }
-      });
+      
+      // Identical names (ignoring case) are mapped straight away; weaker matches are offered as suggestions
+      const newMapping: ColumnMapping = {};
+      const suggestions = suggestColumnMappings(
+        sourceColumns,
+        columns.map((targetCol: ColumnInfo) => targetCol.name),
+        getColumnSynonyms(domainRegistry, formData.domain)
+      );
+      suggestions
+        .filter(suggestion => suggestion.reason === 'exact')
+        .forEach(suggestion => {
+          newMapping[suggestion.sourceColumn] = suggestion.targetColumn;
+        });
       setColumnMapping(newMapping);
+      setTargetColumnValues({});
+      setColumnTransforms({});
       
       const unmappedColumns = sourceColumns.filter(col => !newMapping[col]);
-      if (unmappedColumns.length === 0) {
+      const suggestedCount = suggestions.length - Object.keys(newMapping).length;
+      const typeErrorCount = Object.values(getTypeIssues(newMapping, columns)).filter(issue => issue.level === 'error').length;
+      const uncoveredColumns = findUncoveredRequiredColumns(columns, newMapping, {});
+      if (unmappedColumns.length === 0 && typeErrorCount > 0) {
+        setUploadMessage(`All columns are mapped, but ${typeErrorCount} mapping${typeErrorCount !== 1 ? 's have' : ' has'} incompatible data types. Please review them.`);
+      } else if (unmappedColumns.length === 0 && uncoveredColumns.length > 0) {
+        setUploadMessage(`All columns are mapped, but required target columns have no data: ${uncoveredColumns.map(column => column.name).join(', ')}. Map a source column or supply a value for each.`);
+      } else if (unmappedColumns.length === 0) {
         setSchemaValidationState('completed');
         setUploadMessage('✅ Schema validation completed! All columns mapped successfully. You can now upload.');
+      } else if (suggestedCount > 0) {
+        setUploadMessage(`Please map or ignore the remaining ${unmappedColumns.length} columns to complete validation (${suggestedCount} suggested matches are ready to review).`);
       } else {
-        setUploadMessage(`Please map the remaining ${unmappedColumns.length} columns to complete validation.`);
+        setUploadMessage(`Please map or ignore the remaining ${unmappedColumns.length} columns to complete validation.`);
       }
     }
   };
 
+// Suggestions for the columns still unmapped while the mapping dialog is open
+const columnSuggestions: ColumnSuggestion[] = schemaValidationState === 'mapping' && targetColumns.length > 0
+  ? suggestColumnMappings(
+      sourceColumns,
+      targetColumns.map(column => column.name),
+      getColumnSynonyms(domainRegistry, formData.domain),
+      columnMapping
+    )
+  : [];
+
+const acceptColumnSuggestions = (accepted: ColumnSuggestion[]) => {
+  setColumnMapping(prev => {
+    const next = { ...prev };
+    for (const suggestion of accepted) {
+      next[suggestion.sourceColumn] = suggestion.targetColumn;
+    }
+    return next;
+  });
+};
+
+// Saved templates that fit the current columns
+const templateMatches: MappingTemplateMatch[] = schemaValidationState === 'mapping' && targetColumns.length > 0
+  ? rankMappingTemplates(mappingTemplates, sourceColumns, targetColumns)
+  : [];
+
+const applyMappingTemplate = (match: MappingTemplateMatch) => {
+  setColumnMapping(prev => ({ ...prev, ...match.columnMapping }));
+  setTargetColumnValues(prev => ({ ...prev, ...match.targetColumnValues }));
+  setColumnTransforms(prev => ({ ...prev, ...match.columnTransforms }));
+  console.log(`📐 Applied mapping template "${match.template.name}": ${match.appliedCount} columns, ${match.staleEntries.length} stale entries`);
+};
+
+const saveCurrentMappingAsTemplate = async (name: string): Promise<boolean> => {
+  const { replaced } = await saveMappingTemplate({
+    name,
+    targetTable: selectedTable,
+    sourceLayer: selectedSourceLayer,
+    sourceColumns,
+    // Cleared selections are not part of the mapping
+    columnMapping: Object.fromEntries(Object.entries(columnMapping).filter(([, target]) => target !== '')),
+    targetColumnValues: activeTargetValues(columnMapping, targetColumnValues),
+    columnTransforms: activeTransforms(columnMapping, columnTransforms),
+  });
+  refreshMappingTemplates();
+  return replaced;
+};
+
+const removeMappingTemplate = async (id: string) => {
+  await deleteMappingTemplate(id);
+  refreshMappingTemplates();
+};
+
+// Valid rows of an imported crosswalk file; a blank target clears that column's mapping
+const applyImportedCrosswalk = (result: CrosswalkImport) => {
+  setColumnMapping(prev => ({ ...prev, ...result.columnMapping }));
+  setTargetColumnValues(prev => ({ ...prev, ...result.targetColumnValues }));
+  setColumnTransforms(prev => {
+    const next = { ...prev };
+    for (const [sourceCol, expression] of Object.entries(result.columnTransforms)) {
+      if (expression) next[sourceCol] = expression;
+      else delete next[sourceCol];
+    }
+    return next;
+  });
+};
+
+// What a transformed column produces, inferred from the transform's output on
+// the sample rows; unknown without samples or when the expression is invalid
+const transformedField = (sourceCol: string, expression: string): SourceField | undefined => {
+  const rows = sampleRowsFromFields(sourceFields);
+  if (rows.length === 0) return undefined;
+  try {
+    const outputs = previewTransform(compileTransform(expression, sourceColumns, sourceCol), rows, sourceCol)
+      .filter(preview => !preview.error)
+      .map(preview => preview.output ?? '');
+    return { ...inferFieldFromValues(sourceCol, outputs), nativeType: 'transformed' };
+  } catch {
+    return undefined;
+  }
+};
+
+// Type problems of each mapped pair, keyed by source column
+const getTypeIssues = (mapping: ColumnMapping, targets: ColumnInfo[]): Record<string, TypeCompatibilityIssue> => {
+  const issues: Record<string, TypeCompatibilityIssue> = {};
+  for (const [sourceCol, targetCol] of Object.entries(mapping)) {
+    const target = targets.find(column => column.name === targetCol);
+    if (!target) continue;
+    const expression = columnTransforms[sourceCol]?.trim();
+    const source = expression
+      ? transformedField(sourceCol, expression)
+      : sourceFields.find(field => field.name === sourceCol);
+    const issue = checkTypeCompatibility(source, target);
+    if (issue) issues[sourceCol] = issue;
+  }
+  return issues;
+};
+
+const columnTypeIssues = getTypeIssues(columnMapping, targetColumns);
+const hasColumnTypeErrors = Object.values(columnTypeIssues).some(issue => issue.level === 'error');
+const uncoveredRequiredColumns = findUncoveredRequiredColumns(targetColumns, columnMapping, targetColumnValues);
+
+const setTargetColumnValue = (targetCol: string, value: TargetColumnValue | null) => {
+  setTargetColumnValues(prev => {
+    const next = { ...prev };
+    if (value) next[targetCol] = value;
+    else delete next[targetCol];
+    return next;
+  });
+};
+
+const setColumnTransform = (sourceCol: string, expression: string | null) => {
+  setColumnTransforms(prev => {
+    const next = { ...prev };
+    if (expression !== null) next[sourceCol] = expression;
+    else delete next[sourceCol];
+    return next;
+  });
+};
+
+// Mapped columns and supplied target values whose expression does not compile
+const invalidTransforms = [
+  ...Object.entries(activeTransforms(columnMapping, columnTransforms))
+    .filter(([sourceCol, expression]) => validateTransform(expression, sourceColumns, sourceCol))
+    .map(([sourceCol]) => sourceCol),
+  ...Object.entries(activeTargetValues(columnMapping, targetColumnValues))
+    .filter(([, value]) => value.kind === 'expression' && validateTransform(value.value, sourceColumns))
+    .map(([targetCol]) => `${targetCol} (value)`),
+];
+
+// How the source layer differs from the target table; shown before upload and
+// embedded in the manifest
+const schemaDriftReport: SchemaDriftReport | null =
+  formData.loadType === 'update' && selectedTable && targetColumns.length > 0 && sourceColumns.length > 0
+    ? buildSchemaDriftReport({
+        targetTable: selectedTable,
+        sourceLayer: selectedSourceLayer,
+        sourceColumns,
+        sourceFields,
+        targetColumns,
+        columnMapping,
+        synonyms: getColumnSynonyms(domainRegistry, formData.domain),
+      })
+    : null;
+const schemaVersion = schemaVersionFor(schemaDriftReport);
+
+// Proposed table for new_table loads; analysis falls back to the same schema.
+// Only tables PostgREST exposes can be checked for name clashes.
+const newTableSchema = getSchemaFromDomain(domainRegistry, formData.domain) || 'mapping';
+const newTableDefinition = formData.loadType === 'new_table' ? tableDefinition : null;
+const tableDefinitionIssues = newTableDefinition
+  ? validateTableDefinition(newTableDefinition, formData.uniqueKey, availableTables.map(table => table.name))
+  : [];
+const newTableDdl = newTableDefinition ? buildCreateTableDdl(newTableSchema, newTableDefinition, formData.uniqueKey) : null;
+const hasTableDefinitionErrors = tableDefinitionIssues.some(issue => issue.level === 'error');
+
+// The sheet chosen from an analyzed workbook, which can go into the zip as CSV
+const workbookSheet = gdalAnalysisResult?.sourceFormat === XLSX_SOURCE_FORMAT && gdalAnalysisResult.datasetPath && gdalAnalysisResult.selectedLayer
+  ? {
+      workbook: gdalAnalysisResult.datasetPath,
+      sheet: gdalAnalysisResult.selectedLayer.name,
+      csvFile: sheetCsvFilename(gdalAnalysisResult.datasetPath, gdalAnalysisResult.selectedLayer.name),
+    }
+  : null;
+
 const isColumnMappingComplete = (): boolean => {
   // Changed from 'full' to 'new_table'
   if (formData.loadType === 'new_table') return true;
   if (schemaValidationState !== 'mapping' && schemaValidationState !== 'completed') return false;
   if (sourceColumns.length === 0) return false;
   if (!selectedTable) return false;
+  if (hasColumnTypeErrors) return false;
+  if (uncoveredRequiredColumns.length > 0) return false;
+  if (invalidTransforms.length > 0) return false;
   
-  return sourceColumns.every(col => columnMapping[col]);
+  return sourceColumns.every(col => isSourceColumnResolved(columnMapping, col));
 };
 
+  // Close the dialog when the mapping becomes complete, but not when a complete
+  // mapping is reopened for review
+  const wasMappingComplete = useRef(false);
   useEffect(() => {
-    if (schemaValidationState === 'mapping' && isColumnMappingComplete()) {
+    const complete = isColumnMappingComplete();
+    if (schemaValidationState === 'mapping' && complete && !wasMappingComplete.current) {
       setSchemaValidationState('completed');
       setUploadMessage('✅ Schema validation completed! All columns mapped successfully. You can now upload.');
     }
-  }, [columnMapping, sourceColumns, selectedTable, schemaValidationState]);
-
-const generateMetadata = () => {
+    wasMappingComplete.current = complete;
+  }, [columnMapping, targetColumnValues, columnTransforms, sourceColumns, selectedTable, schemaValidationState]);
+
+const generateMetadata = (
+  zipFilename: string,
+  fileChecksums: Record<string, string> = {},
+  convertedSheet: ManifestConvertedSheet | null = null
+): SubmissionManifest => {
   const effectiveDomain = formData.domain === 'custom' ? formData.customDomain : formData.domain;
+  const isNewTable = formData.loadType === 'new_table';
   
   return {
+    manifestVersion: MANIFEST_VERSION,
+    generator: { ...MANIFEST_GENERATOR, userAgent: navigator.userAgent },
     projectName: formData.projectName,
     datasetName: formData.datasetName,
     authorName: formData.authorName,
@@ -1493,41 +2117,54 @@ const generateMetadata = () => {
     scale: formData.scale || null,
     quadName: formData.quadName || null,
     pubId: formData.pubId || null,
-    loadType: formData.loadType,
+    loadType: formData.loadType as SubmissionManifest['loadType'],
     isCorrection: formData.isCorrection,
     correctionReason: formData.isCorrection ? formData.correctionReason : null,
-    schema_version: schemaVersion,
-    table_type: formData.loadType === 'new_table' ? formData.tableType : null,
-    unique_key: formData.loadType === 'new_table' ? formData.uniqueKey : null,
-    review_status: formData.reviewStatus,
-    unified_view_name: formData.loadType === 'new_table' ? unifiedViewName : null,
-    submittedBy: email,
+    reviewStatus: formData.reviewStatus as SubmissionManifest['reviewStatus'],
+    tableSchemaVersion: schemaVersion,
+    schemaDrift: schemaDriftReport,
+    tableType: isNewTable ? formData.tableType as SubmissionManifest['tableType'] : null,
+    uniqueKey: isNewTable ? formData.uniqueKey : null,
+    unifiedViewName: isNewTable ? unifiedViewName : null,
+    newTable: newTableDefinition && newTableDdl ? {
+      schema: newTableSchema,
+      tableName: newTableDefinition.tableName,
+      ddl: newTableDdl,
+      definition: newTableDefinition,
+      warnings: tableDefinitionIssues.map(issue => issue.message),
+    } : null,
+    submittedBy: email || 'unknown',
     submittedAt: new Date().toISOString(),
+    zipFilename: zipFilename,
     originalFiles: formData.selectedFiles.map(file => ({
       name: file.name,
       size: file.size,
       type: file.type,
-      lastModified: file.lastModified
+      lastModified: file.lastModified,
+      sha256: fileChecksums[file.name] || null
     })),
+    checksumAlgorithm: 'SHA-256',
     totalFileCount: formData.selectedFiles.length,
     totalFileSize: formData.selectedFiles.reduce((total, file) => total + file.size, 0),
-    zipFilename: generatedFilename,
+    containsGeodatabase: formData.selectedFiles.some(file => 
+      file.name.includes('.gdb/') || file.name.endsWith('.gdb')
+    ),
+    convertedSheet,
     schemaValidation: formData.loadType === 'update' ? {
       validationState: schemaValidationState,
       targetTable: selectedTable,
       sourceLayer: selectedSourceLayer,
       sourceColumns: sourceColumns,
       columnMapping: columnMapping,
+      droppedColumns: findDroppedColumns(sourceColumns, columnMapping),
+      targetColumnValues: activeTargetValues(columnMapping, targetColumnValues),
+      columnTransforms: activeTransforms(columnMapping, columnTransforms),
+      transformLanguage: TRANSFORM_LANGUAGE,
       validationCompleted: schemaValidationState === 'completed',
       gdalAnalysis: gdalAnalysisResult,
       mappingTimestamp: new Date().toISOString(),
-      postgreRestUrl: getPostgrestUrl(formData.domain)
+      postgrestUrl: getPostgrestUrl(domainRegistry, formData.domain)
     } : null,
-    containsGeodatabase: formData.selectedFiles.some(file => 
-      file.name.includes('.gdb/') || file.name.endsWith('.gdb')
-    ),
-    userAgent: navigator.userAgent,
-    uploadSource: 'UGS Ingest Web Application v2.1 (Enhanced Schema Validation with Domain-Specific PostgREST URLs)',
   };
 };
 
@@ -1567,31 +2204,59 @@ const validateForm = (): boolean => {
     newErrors.correctionReason = 'Correction reason is required when marking as a data correction.';
   }
 
+  // Naming rules and publication types configured for the domain; "required" messages take precedence
+  const domainErrors = validateDomainRules(domainRegistry, formData, generatedFilename);
+  for (const [field, message] of Object.entries(domainErrors) as [keyof FormErrors, string][]) {
+    if (!newErrors[field]) newErrors[field] = message;
+  }
+
   setErrors(newErrors);
   return Object.keys(newErrors).length === 0;
 };
 
 
-  const createZipFile = async (): Promise<Blob> => {
-    const JSZip = (await import('jszip')).default;
-    
-    const metadata = generateMetadata();
-    const metadataJson = JSON.stringify(metadata, null, 2);
-    
-    const zip = new JSZip();
-    zip.file('metadata.json', metadataJson);
-    
-    formData.selectedFiles.forEach((file) => {
-      zip.file(`data/${file.name}`, file);
-    });
-    
-    return await zip.generateAsync({ 
-      type: 'blob',
-      compression: 'DEFLATE',
-      compressionOptions: {
-        level: 6
-      }
-    });
+  const createZipFile = async (
+    zipFilename: string,
+    onProgress?: (progress: UploadProgress) => void,
+    signal?: AbortSignal
+  ): Promise<{ zipBlob: Blob; contentHash: string; manifest: SubmissionManifest }> => {
+    // The CSV takes the workbook's timestamp, so a retried upload rebuilds the
+    // same bytes (and reuses the cached archive)
+    const workbook = convertSheetToCsv && workbookSheet
+      ? formData.selectedFiles.find(file => file.name === workbookSheet.workbook)
+      : undefined;
+    const sheetCsv = workbook && workbookSheet ? await sheetToCsv(workbook, workbookSheet.sheet) : null;
+    const csvFile = sheetCsv && workbook && workbookSheet
+      ? new File([sheetCsv.csv], workbookSheet.csvFile, { type: 'text/csv', lastModified: workbook.lastModified })
+      : null;
+
+    // Compression runs in the zip worker; if the files were already zipped for
+    // geodatabase analysis, the cached archive is reused instead of zipping again
+    const archive = await buildDataArchive(csvFile ? [...formData.selectedFiles, csvFile] : formData.selectedFiles, { onProgress, signal });
+
+    const fileChecksums = getFileChecksums(archive);
+    const manifest = generateMetadata(zipFilename, fileChecksums, sheetCsv && csvFile && workbookSheet ? {
+      workbook: workbookSheet.workbook,
+      sheet: workbookSheet.sheet,
+      csvFile: `${DATA_PREFIX}${csvFile.name}`,
+      headerRows: sheetCsv.table.headerRows,
+      rowCount: sheetCsv.table.rows.length,
+      sha256: fileChecksums[csvFile.name] || null,
+    } : null);
+    // An interrupted session was accepted for the metadata.json it started with;
+    // if only the timestamps differ, pack that file again so the resumed upload
+    // still matches the manifest the server recorded for the session
+    const freshJson = JSON.stringify(manifest, null, 2);
+    const storedJson = getPendingUpload(zipFilename)?.metadataJson;
+    const metadataJson = storedJson && manifestWithoutTimestamps(storedJson) === manifestWithoutTimestamps(freshJson)
+      ? storedJson
+      : freshJson;
+
+    return {
+      zipBlob: await assembleSubmissionZip(archive, metadataJson),
+      contentHash: await getContentHash(archive),
+      manifest: JSON.parse(metadataJson) as SubmissionManifest,
+    };
   };
 
 const handleSubmit = async (e: FormEvent) => {
@@ -1609,73 +2274,102 @@ const handleSubmit = async (e: FormEvent) => {
     return;
   }
 
+  if (formData.loadType === 'new_table' && (!newTableDefinition || hasTableDefinitionErrors)) {
+    setUploadMessage(newTableDefinition
+      ? 'Please fix the errors in the new table definition before uploading.'
+      : 'Please analyze the source data and review the proposed table before uploading.');
+    return;
+  }
+
+  await submitDataset(generatedFilename, 'reject');
+};
+
+// Runs the zip, checksum and upload steps. onConflict tells the upload function
+// how to treat an existing submission with the same data or filename.
+const submitDataset = async (targetFilename: string, onConflict: ConflictResolution) => {
+  setDuplicateConflict(null);
   setIsSubmitting(true);
+  const abortController = new AbortController();
+  uploadAbortControllerRef.current = abortController;
 
     try {
       // Step 1: Create zip file
       setUploadMessage('📦 Creating zip file...');
-      const zipBlob = await createZipFile();
+      const { zipBlob, contentHash, manifest } = await createZipFile(targetFilename, setUploadProgress, abortController.signal);
       
       const fileSizeMB = (zipBlob.size / 1024 / 1024).toFixed(2);
-      console.log(`📦 Zip file created: ${generatedFilename} (${fileSizeMB}MB)`);
-
-      // Step 2: Show appropriate message based on file size
-      if (zipBlob.size > 100 * 1024 * 1024) { // 100MB+
-        setUploadMessage(`📤 Uploading large file (${fileSizeMB}MB) - this may take several minutes...`);
-      } else if (zipBlob.size > 10 * 1024 * 1024) { // 10MB+
-        setUploadMessage(`📤 Uploading file (${fileSizeMB}MB) - please wait...`);
-      } else {
-        setUploadMessage('📤 Uploading to cloud storage...');
-      }
-
-      // Step 3: Upload using signed URLs
-      await uploadZipToGCS(zipBlob, generatedFilename);
+      console.log(`📦 Zip file created: ${targetFilename} (${fileSizeMB}MB)`);
+
+      // Step 2: Checksum the finished zip so the upload can be verified end to end
+      setUploadMessage('🔐 Computing checksums...');
+      const checksums = await computeChecksums(zipBlob, { onProgress: setUploadProgress, signal: abortController.signal });
+      console.log(`🔐 Zip SHA-256: ${checksums.sha256}, CRC32C: ${checksums.crc32c}`);
+
+      // Step 3: Upload through a resumable session, reporting byte-level progress
+      setUploadMessage(`📤 Uploading to cloud storage (${fileSizeMB}MB)...`);
+      await uploadZipToGCS(zipBlob, targetFilename, {
+        signal: abortController.signal,
+        onProgress: setUploadProgress,
+        checksums,
+        contentHash,
+        onConflict,
+        manifest,
+        submissionMetadata: {
+          'domain': formData.domain === 'custom' ? formData.customDomain : formData.domain,
+          'data-topic': formData.dataTopic,
+          'load-type': formData.loadType,
+          'review-status': formData.reviewStatus,
+          'project-name': formData.projectName,
+          'dataset-name': formData.datasetName,
+        },
+      });
 
       // Step 4: Success message
-      setUploadMessage(`✅ Upload successful! File "${generatedFilename}" (${fileSizeMB}MB) has been uploaded to cloud storage.`);
-      
-      // Reset form
-      setFormData({
-        projectName: '',
-        datasetName: '',
-        authorName: email || '',
-        publicationType: '',
-        description: '',
-        selectedFiles: [],
-        domain: '',
-        customDomain: '',
-        dataTopic: '',
-        scale: '',
-        quadName: '',
-        pubId: '',
-        loadType: '',
-        isCorrection: false,
-        correctionReason: '',
-        tableType: '',
-        uniqueKey: '',
-        reviewStatus: '',
-        publicationDate: '',
-      });
-      setErrors({});
-      setGeneratedFilename('');
-      setColumnMapping({});
-      setSelectedTable('');
-      setSelectedSourceLayer('');
-      setSourceLayerInfo([]);
-      setSchemaValidationState('not_started');
-      setGdalAnalysisResult(null);
+      setUploadMessage(`✅ Upload successful! File "${targetFilename}" (${fileSizeMB}MB) has been uploaded to cloud storage and its checksum verified.`);
       
-      const fileInput = document.getElementById('file-input') as HTMLInputElement;
-      if (fileInput) {
-        fileInput.value = '';
+      // The submitted draft is no longer needed
+      if (currentDraft) {
+        await deleteDraft(currentDraft.id).catch(error => console.warn('Unable to delete draft:', error));
+        refreshDrafts();
       }
 
+      // Reset form
+      resetForm();
+
     } catch (error) {
+      if (isAbortError(error)) {
+        console.log('Upload cancelled by user');
+        setUploadMessage('Upload cancelled. Nothing was saved to cloud storage.');
+        return;
+      }
+      if (error instanceof DuplicateSubmissionError) {
+        console.log('Duplicate submission detected:', error.conflict);
+        setDuplicateConflict(error.conflict);
+        setUploadMessage(`⚠️ ${error.message}. Choose how to continue.`);
+        return;
+      }
       console.error('Upload process failed:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      setUploadMessage(`❌ Upload failed: ${errorMessage}. Please try again.`);
+      if (error instanceof ChecksumMismatchError) {
+        setUploadMessage(`❌ Upload failed: ${errorMessage}. Please submit again to upload a fresh copy.`);
+        return;
+      }
+      setUploadMessage(`❌ Upload failed: ${errorMessage}. Submit again to resume where the upload stopped.`);
     } finally {
       setIsSubmitting(false);
+      setIsCancellingUpload(false);
+      setUploadProgress(null);
+      uploadAbortControllerRef.current = null;
+      setPendingUploads(getPendingUploads().filter(upload => !upload.filename.startsWith('temp-analysis-')));
+    }
+  };
+
+  const handleCancelUpload = () => {
+    // Verification and metadata run after the object is stored; aborting them would leave it behind
+    if (uploadProgress?.phase === 'verifying' || uploadProgress?.phase === 'finalizing') return;
+    if (uploadAbortControllerRef.current) {
+      setIsCancellingUpload(true);
+      uploadAbortControllerRef.current.abort();
     }
   };
 
@@ -1687,8 +2381,13 @@ const handleSubmit = async (e: FormEvent) => {
       .filter(col => col.length > 0);
     
     setSourceColumns(columns);
+    setSourceFields([]);
     setShowManualColumnInput(false);
     setManualColumnInput('');
+    if (isNewTableLoad) {
+      proposeNewTable(columns, []);
+      return;
+    }
     setSchemaValidationState('mapping');
   };
 
@@ -1764,6 +2463,7 @@ const handleSubmit = async (e: FormEvent) => {
       <LayerSelectionModal
         isOpen={schemaValidationState === 'layer_selection'}
         layers={sourceLayerInfo}
+        sourceFormat={gdalAnalysisResult?.sourceFormat || 'File Geodatabase'}
         selectedLayer={selectedSourceLayer}
         onLayerSelect={(layerName: string) => setSelectedSourceLayer(layerName)}
         onConfirm={() => handleLayerSelection(selectedSourceLayer)}
@@ -1773,6 +2473,19 @@ const handleSubmit = async (e: FormEvent) => {
         }}
       />
 
+      <DuplicateSubmissionModal
+        conflict={duplicateConflict}
+        filename={generatedFilename}
+        onCancel={() => {
+          setDuplicateConflict(null);
+          setUploadMessage('Upload cancelled. The existing submission was left unchanged.');
+        }}
+        onSaveAsNewVersion={() => {
+          if (duplicateConflict) submitDataset(duplicateConflict.suggestedFilename, 'new-version');
+        }}
+        onReplace={() => submitDataset(generatedFilename, 'replace')}
+      />
+
       <ManualColumnModal
         isOpen={showManualColumnInput}
         columnInput={manualColumnInput}
@@ -1785,10 +2498,27 @@ const handleSubmit = async (e: FormEvent) => {
         isOpen={schemaValidationState === 'mapping'}
         selectedSourceLayer={selectedSourceLayer}
         sourceColumns={sourceColumns}
+        sourceFields={sourceFields}
         selectedTable={selectedTable}
         availableTables={availableTables}
         targetColumns={targetColumns}
         columnMapping={columnMapping}
+        suggestions={columnSuggestions}
+        typeIssues={columnTypeIssues}
+        targetColumnValues={targetColumnValues}
+        uncoveredRequiredColumns={uncoveredRequiredColumns.map(column => column.name)}
+        onTargetValueChange={setTargetColumnValue}
+        columnTransforms={columnTransforms}
+        invalidTransforms={invalidTransforms}
+        onTransformChange={setColumnTransform}
+        templateMatches={templateMatches}
+        templatesLoading={mappingTemplatesLoading}
+        templatesError={mappingTemplatesError}
+        onApplyTemplate={applyMappingTemplate}
+        onSaveTemplate={saveCurrentMappingAsTemplate}
+        onDeleteTemplate={removeMappingTemplate}
+        onImportCrosswalk={applyImportedCrosswalk}
+        onAcceptSuggestions={acceptColumnSuggestions}
         onTableSelect={handleTableSelection}
         onColumnMap={(sourceCol, targetCol) => setColumnMapping(prev => ({
           ...prev,
@@ -1814,14 +2544,36 @@ const handleSubmit = async (e: FormEvent) => {
         </div>
       </div>
 
+      {/* Interrupted uploads that can be resumed */}
+      <PendingUploadsNotice
+        pendingUploads={pendingUploads}
+        onDiscard={(filename: string) => {
+          clearPendingUpload(filename);
+          setPendingUploads(prev => prev.filter(upload => upload.filename !== filename));
+        }}
+      />
+
+      {/* Autosaved drafts */}
+      <DraftsPanel
+        drafts={drafts}
+        currentDraft={currentDraft}
+        savedAt={draftSavedAt}
+        missingFiles={missingDraftFiles}
+        onRename={(name: string) => setCurrentDraft(prev => (prev ? { ...prev, name } : prev))}
+        onResume={resumeDraft}
+        onDiscard={discardDraft}
+        onStartNew={startNewDraft}
+        disabled={isSubmitting || isValidatingSchema}
+      />
+
       {/* Domain-specific PostgREST URL indicator */}
       {formData.domain && (
         <div className="mb-6 p-3 bg-gray-50 rounded-lg border border-gray-200">
           <p className="text-xs text-gray-700">
-            <strong>PostgREST Service:</strong> {getPostgrestUrl(formData.domain)}
-            {formData.domain === 'groundwater' && (
+            <strong>PostgREST Service:</strong> {getPostgrestUrl(domainRegistry, formData.domain)}
+            {hasDedicatedPostgrest(domainRegistry, formData.domain) && (
               <span className="ml-2 px-2 py-1 bg-blue-100 text-blue-700 text-xs rounded">
-                Using Groundwater-specific service
+                Using {formData.domain === CUSTOM_DOMAIN ? 'a domain' : getDomainLabel(domainRegistry, formData.domain)}-specific service
               </span>
             )}
           </p>
@@ -1834,8 +2586,43 @@ const handleSubmit = async (e: FormEvent) => {
         schemaValidationState={schemaValidationState}
         selectedSourceLayer={selectedSourceLayer}
         selectedTable={selectedTable}
+        analysisProgress={analysisProgress}
+        onReviewMapping={() => setSchemaValidationState('mapping')}
       />
 
+      {(schemaValidationState === 'mapping' || schemaValidationState === 'completed') && (
+        <SchemaDriftPanel report={schemaDriftReport} schemaVersion={schemaVersion} />
+      )}
+
+      {newTableDefinition && newTableDdl && (
+        <TableDefinitionPanel
+          definition={newTableDefinition}
+          schema={newTableSchema}
+          uniqueKey={formData.uniqueKey}
+          ddl={newTableDdl}
+          issues={tableDefinitionIssues}
+          onChange={setTableDefinition}
+        />
+      )}
+
+      {workbookSheet && (
+        <div className="mb-6 p-3 bg-gray-50 rounded-lg border border-gray-200">
+          <label className="flex items-start gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={convertSheetToCsv}
+              onChange={(e) => setConvertSheetToCsv(e.target.checked)}
+              className="mt-1"
+            />
+            <span>
+              Add sheet <strong>{workbookSheet.sheet}</strong> to the zip as{' '}
+              <span className="font-mono">{workbookSheet.csvFile}</span> (UTF-8, header row first), so the loader
+              reads a CSV instead of the workbook. The workbook is included either way.
+            </span>
+          </label>
+        </div>
+      )}
+
       {/* Generated filename preview */}
       {generatedFilename && (
         <div className="mb-6 p-4 bg-green-50 rounded-lg border border-green-200">
@@ -1852,6 +2639,7 @@ const handleSubmit = async (e: FormEvent) => {
           formData={formData}
           errors={errors}
           handleChange={handleChange}
+          publicationTypeOptions={getPublicationTypeOptions(domainRegistry, formData.domain)}
         />
 
         <NamingConventionForm
@@ -1860,6 +2648,8 @@ const handleSubmit = async (e: FormEvent) => {
           handleChange={handleChange}
           availableDataTopics={availableDataTopics}
           isLoadingTopics={isLoadingTopics}
+          domainOptions={getDomainOptions(domainRegistry)}
+          domainRegistryError={domainRegistryError}
         />
 
         {/* Correction Fields Section - Only shows for "update" loadType */}
@@ -1903,8 +2693,11 @@ const handleSubmit = async (e: FormEvent) => {
           selectedFilesCount={formData.selectedFiles.length}
           domain={formData.domain}
           uploadMessage={uploadMessage}
+          uploadProgress={uploadProgress}
+          isCancellingUpload={isCancellingUpload}
           onSchemaValidation={handleSchemaValidation}
           onSubmit={handleSubmit}
+          onCancelUpload={handleCancelUpload}
         />
 
         {/* Info sections */}
@@ -1921,7 +2714,8 @@ const handleSubmit = async (e: FormEvent) => {
 
         <div className="mt-4 p-3 bg-blue-50 rounded-md border border-blue-200">
           <p className="text-xs text-blue-700">
-            <strong>Enhanced Upload System:</strong> This application now supports unlimited file sizes using Cloud Storage signed URLs! 
+            <strong>Enhanced Upload System:</strong> Zips of any size are sent in chunks through resumable upload sessions (/api/upload-session);
+            an interrupted upload continues from the last stored chunk when you upload the same files again.
             Large geodatabases are automatically handled through Cloud Storage staging for both schema validation and final upload.
             The system automatically selects the appropriate PostgREST service based on your chosen domain.
           </p>
@@ -0,0 +1,70 @@
+// components/UploadProgressBar.tsx
+import React from 'react';
+import type { UploadProgress } from '../types/uploadTypes';
+import { formatBytes, formatDuration } from '../lib/uploadProgress';
+
+interface UploadProgressBarProps {
+  progress: UploadProgress;
+  onCancel?: () => void;
+  isCancelling?: boolean;
+}
+
+const phaseLabels: Record<UploadProgress['phase'], string> = {
+  zipping: '📦 Creating zip',
+  hashing: '🔐 Computing checksums',
+  uploading: '📤 Uploading',
+  verifying: '🔎 Verifying checksum',
+  finalizing: '📝 Finalizing',
+};
+
+export const UploadProgressBar: React.FC<UploadProgressBarProps> = ({
+  progress,
+  onCancel,
+  isCancelling = false,
+}) => {
+  // Once the PUT has finished the object is stored, so there is nothing left to abort
+  const isStored = progress.phase === 'verifying' || progress.phase === 'finalizing';
+  const percent = progress.totalBytes > 0
+    ? Math.min(100, (progress.bytesProcessed / progress.totalBytes) * 100)
+    : 0;
+
+  return (
+    <div className="p-3 bg-blue-50 border border-blue-200 rounded-md">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-blue-800">
+          {phaseLabels[progress.phase]}… {percent.toFixed(1)}%
+        </span>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isCancelling || isStored}
+            title={isStored ? 'The file is already uploaded and can no longer be cancelled' : undefined}
+            className="px-3 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
+          >
+            {isCancelling ? 'Cancelling...' : 'Cancel'}
+          </button>
+        )}
+      </div>
+
+      <div className="w-full h-3 bg-blue-100 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-blue-600 transition-all duration-200"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+
+      <div className="flex justify-between mt-2 text-xs text-blue-700">
+        <span>
+          {formatBytes(progress.bytesProcessed)} of {formatBytes(progress.totalBytes)}
+        </span>
+        {!isStored && (
+          <span>
+            {progress.bytesPerSecond > 0 ? `${formatBytes(progress.bytesPerSecond)}/s` : 'Measuring speed...'}
+            {progress.etaSeconds !== null && ` · ${formatDuration(progress.etaSeconds)} remaining`}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import { useState, useEffect } from 'react';
+import type { DomainRegistry } from '../types/domainTypes';
+
+interface DomainRegistryState {
+  registry: DomainRegistry | null;
+  loading: boolean;
+  error: string | null;
+}
+
+// One request per page load, shared by every component using the hook
+let registryPromise: Promise<DomainRegistry> | null = null;
+
+const loadRegistry = (): Promise<DomainRegistry> => {
+  if (!registryPromise) {
+    registryPromise = fetch('/api/domains')
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        return (await response.json()) as DomainRegistry;
+      })
+      .catch((error) => {
+        // Allow a retry on the next mount
+        registryPromise = null;
+        throw error;
+      });
+  }
+  return registryPromise;
+};
+
+export const useDomainRegistry = (): DomainRegistryState => {
+  const [state, setState] = useState<DomainRegistryState>({
+    registry: null,
+    loading: true,
+    error: null,
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadRegistry()
+      .then((registry) => {
+        if (!cancelled) setState({ registry, loading: false, error: null });
+      })
+      .catch((error) => {
+        if (!cancelled) {
+          setState({
+            registry: null,
+            loading: false,
+            error: error instanceof Error ? error.message : 'Failed to load domain registry',
+          });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return state;
+};
@@ -0,0 +1,39 @@
+import { useState, useEffect, useCallback } from 'react';
+import { listDrafts } from '../lib/draftStore';
+import type { UploadDraft } from '../types/draftTypes';
+
+interface DraftsState {
+  drafts: UploadDraft[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Saved upload drafts, most recently edited first. Call refresh after saving or deleting one.
+ */
+export const useDrafts = (): DraftsState & { refresh: () => void } => {
+  const [state, setState] = useState<DraftsState>({
+    drafts: [],
+    loading: true,
+    error: null,
+  });
+
+  const refresh = useCallback(() => {
+    listDrafts()
+      .then(drafts => setState({ drafts, loading: false, error: null }))
+      .catch((error) => {
+        console.warn('Unable to load drafts:', error);
+        setState({
+          drafts: [],
+          loading: false,
+          error: error instanceof Error ? error.message : 'Failed to load drafts',
+        });
+      });
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { ...state, refresh };
+};
@@ -0,0 +1,46 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchMappingTemplates } from '../lib/mappingTemplates';
+import type { MappingTemplate } from '../types/mappingTemplateTypes';
+
+interface MappingTemplatesState {
+  templates: MappingTemplate[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Saved mapping templates for a target table ("schema.table"); none while targetTable is empty.
+ * Call refresh after saving or deleting one.
+ */
+export const useMappingTemplates = (targetTable: string): MappingTemplatesState & { refresh: () => void } => {
+  const [state, setState] = useState<MappingTemplatesState>({
+    templates: [],
+    loading: false,
+    error: null,
+  });
+
+  const refresh = useCallback(() => {
+    if (!targetTable) {
+      setState({ templates: [], loading: false, error: null });
+      return;
+    }
+
+    setState(prev => ({ ...prev, loading: true, error: null }));
+    fetchMappingTemplates(targetTable)
+      .then(templates => setState({ templates, loading: false, error: null }))
+      .catch((error) => {
+        console.warn('Unable to load mapping templates:', error);
+        setState({
+          templates: [],
+          loading: false,
+          error: error instanceof Error ? error.message : 'Failed to load mapping templates',
+        });
+      });
+  }, [targetTable]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { ...state, refresh };
+};
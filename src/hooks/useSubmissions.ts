@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react';
+import type { SubmissionSummary, SubmissionDetail, SubmissionPagination } from '../types/submissionTypes';
+
+interface SubmissionsState {
+  submissions: SubmissionSummary[];
+  pagination: SubmissionPagination | null;
+  loading: boolean;
+  error: string | null;
+}
+
+interface SubmissionDetailState {
+  detail: SubmissionDetail | null;
+  loading: boolean;
+  error: string | null;
+}
+
+const readError = async (response: Response): Promise<string> => {
+  try {
+    const data = await response.json();
+    return data.error || `HTTP ${response.status}`;
+  } catch {
+    return `HTTP ${response.status}`;
+  }
+};
+
+/**
+ * One page of the signed-in user's submissions, newest first
+ */
+export const useSubmissions = (page: number): SubmissionsState => {
+  const [state, setState] = useState<SubmissionsState>({
+    submissions: [],
+    pagination: null,
+    loading: true,
+    error: null,
+  });
+
+  useEffect(() => {
+    const fetchSubmissions = async () => {
+      setState(prev => ({ ...prev, loading: true, error: null }));
+      try {
+        const params = new URLSearchParams({ user: 'me', page: page.toString() });
+        const response = await fetch(`/api/submissions?${params.toString()}`);
+        if (!response.ok) {
+          throw new Error(await readError(response));
+        }
+        const data = await response.json();
+        setState({ submissions: data.submissions, pagination: data.pagination, loading: false, error: null });
+      } catch (error) {
+        setState({
+          submissions: [],
+          pagination: null,
+          loading: false,
+          error: error instanceof Error ? error.message : 'Failed to load submissions',
+        });
+      }
+    };
+
+    fetchSubmissions();
+  }, [page]);
+
+  return state;
+};
+
+/**
+ * A single submission together with the metadata.json stored in its zip
+ */
+export const useSubmissionDetail = (filename: string): SubmissionDetailState => {
+  const [state, setState] = useState<SubmissionDetailState>({
+    detail: null,
+    loading: true,
+    error: null,
+  });
+
+  useEffect(() => {
+    const fetchDetail = async () => {
+      setState({ detail: null, loading: true, error: null });
+      try {
+        const response = await fetch(`/api/submissions/${encodeURIComponent(filename)}`);
+        if (!response.ok) {
+          throw new Error(await readError(response));
+        }
+        const data = await response.json();
+        setState({ detail: { submission: data.submission, metadata: data.metadata }, loading: false, error: null });
+      } catch (error) {
+        setState({
+          detail: null,
+          loading: false,
+          error: error instanceof Error ? error.message : 'Failed to load submission',
+        });
+      }
+    };
+
+    fetchDetail();
+  }, [filename]);
+
+  return state;
+};
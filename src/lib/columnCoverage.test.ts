@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { ColumnInfo } from '../types/uploadTypes';
+import {
+  activeTargetValues,
+  activeTransforms,
+  findDroppedColumns,
+  findUncoveredRequiredColumns,
+  isRequiredTargetColumn,
+  isSourceColumnResolved,
+} from './columnCoverage';
+
+const column = (name: string, isNullable: boolean, defaultValue: string | null = null): ColumnInfo => ({
+  name,
+  dataType: 'string',
+  isNullable,
+  defaultValue,
+  position: 1,
+});
+
+describe('source column coverage', () => {
+  it('treats mapped and dropped columns as resolved', () => {
+    const mapping = { UNIT: 'unit', NOTES: null, AGE: '' };
+    expect(['UNIT', 'NOTES', 'AGE', 'OTHER'].map(source => isSourceColumnResolved(mapping, source))).toEqual([true, true, false, false]);
+    expect(findDroppedColumns(['UNIT', 'NOTES', 'AGE'], mapping)).toEqual(['NOTES']);
+  });
+});
+
+describe('required target columns', () => {
+  it('requires NOT NULL columns without a default, including falsy defaults', () => {
+    expect(isRequiredTargetColumn(column('id', false))).toBe(true);
+    expect(isRequiredTargetColumn(column('notes', true))).toBe(false);
+    expect(isRequiredTargetColumn(column('created_at', false, 'now()'))).toBe(false);
+    // An empty-string default still fills the column
+    expect(isRequiredTargetColumn(column('label', false, ''))).toBe(false);
+  });
+
+  it('lists required columns that neither a mapping nor a supplied value covers', () => {
+    const targets = [column('id', false), column('unit', false), column('source', false), column('notes', true)];
+
+    expect(findUncoveredRequiredColumns(targets, { UNIT: 'unit' }, {}).map(c => c.name)).toEqual(['id', 'source']);
+    expect(findUncoveredRequiredColumns(targets, { UNIT: 'unit' }, {
+      id: { kind: 'expression', value: 'row_number()' },
+      source: { kind: 'constant', value: '  ' },
+    }).map(c => c.name)).toEqual(['source']);
+  });
+});
+
+describe('active values and transforms', () => {
+  it('drops supplied values for targets a source column now fills, and blank ones', () => {
+    expect(activeTargetValues({ UNIT: 'unit' }, {
+      unit: { kind: 'constant', value: 'Qal' },
+      source: { kind: 'constant', value: 'UGS' },
+      notes: { kind: 'constant', value: '' },
+    })).toEqual({ source: { kind: 'constant', value: 'UGS' } });
+  });
+
+  it('keeps transforms of mapped source columns only', () => {
+    expect(activeTransforms({ UNIT: 'unit', NOTES: null }, {
+      UNIT: 'upper(value)',
+      NOTES: 'trim(value)',
+      AGE: 'value * 1000',
+      NAME: ' ',
+    })).toEqual({ UNIT: 'upper(value)' });
+  });
+});
@@ -0,0 +1,70 @@
+// lib/columnCoverage.ts
+// Which source and target columns the mapping leaves unresolved.
+//
+// Every source column must be mapped to a target column or explicitly dropped
+// (mapped to null). A target column is required when it is NOT NULL and has no
+// default. Every required column must be filled by a mapped source column or
+// by a value the user supplies instead: a constant written to every row, or an
+// expression.
+import type { ColumnInfo, ColumnMapping, ColumnTransforms, TargetColumnValue } from '../types/uploadTypes';
+
+export const isColumnDropped = (columnMapping: ColumnMapping, sourceColumn: string): boolean =>
+  columnMapping[sourceColumn] === null;
+
+// Mapped to a target column or dropped
+export const isSourceColumnResolved = (columnMapping: ColumnMapping, sourceColumn: string): boolean =>
+  isColumnDropped(columnMapping, sourceColumn) || Boolean(columnMapping[sourceColumn]);
+
+export const findDroppedColumns = (sourceColumns: string[], columnMapping: ColumnMapping): string[] =>
+  sourceColumns.filter(column => isColumnDropped(columnMapping, column));
+
+const mappedTargetColumns = (columnMapping: ColumnMapping): Set<string> =>
+  new Set(Object.values(columnMapping).filter((target): target is string => Boolean(target)));
+
+export const isRequiredTargetColumn = (column: ColumnInfo): boolean =>
+  !column.isNullable && column.defaultValue === null;
+
+export const hasTargetValue = (value: TargetColumnValue | undefined): boolean =>
+  Boolean(value && value.value.trim() !== '');
+
+/**
+ * Required target columns that no source column is mapped to and that have no supplied value
+ */
+export const findUncoveredRequiredColumns = (
+  targetColumns: ColumnInfo[],
+  columnMapping: ColumnMapping,
+  targetValues: Record<string, TargetColumnValue>
+): ColumnInfo[] => {
+  const mappedTargets = mappedTargetColumns(columnMapping);
+  return targetColumns.filter(column =>
+    isRequiredTargetColumn(column) &&
+    !mappedTargets.has(column.name) &&
+    !hasTargetValue(targetValues[column.name])
+  );
+};
+
+/**
+ * Supplied values for target columns that are still unmapped; values left over
+ * from before a source column was mapped are dropped
+ */
+export const activeTargetValues = (
+  columnMapping: ColumnMapping,
+  targetValues: Record<string, TargetColumnValue>
+): Record<string, TargetColumnValue> => {
+  const mappedTargets = mappedTargetColumns(columnMapping);
+  return Object.fromEntries(
+    Object.entries(targetValues).filter(([column, value]) => !mappedTargets.has(column) && hasTargetValue(value))
+  );
+};
+
+/**
+ * Transforms of source columns that are mapped to a target column; ones left
+ * on dropped or unmapped columns are not part of the load
+ */
+export const activeTransforms = (
+  columnMapping: ColumnMapping,
+  transforms: ColumnTransforms
+): ColumnTransforms =>
+  Object.fromEntries(
+    Object.entries(transforms).filter(([column, expression]) => Boolean(columnMapping[column]) && expression.trim() !== '')
+  );
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeColumnName, suggestColumnMappings } from './columnMatcher';
+
+const suggestion = (sourceColumn: string, targetColumn: string) =>
+  suggestColumnMappings([sourceColumn], [targetColumn])[0] ?? null;
+
+describe('suggestColumnMappings', () => {
+  it('matches names exactly, ignoring case', () => {
+    expect(suggestion('unit_name', 'unit_name')).toEqual({ sourceColumn: 'unit_name', targetColumn: 'unit_name', confidence: 1, reason: 'exact' });
+    expect(suggestion('UNIT_NAME', 'unit_name')).toMatchObject({ confidence: 1, reason: 'exact' });
+  });
+
+  it('matches names that differ only in separators', () => {
+    expect(normalizeColumnName('Unit Name-2.0')).toBe('unitname20');
+    expect(suggestion('Unit Name', 'unit_name')).toMatchObject({ confidence: 0.95, reason: 'normalized' });
+  });
+
+  it('matches abbreviations: DBF-truncated names and domain synonyms', () => {
+    expect(suggestion('GEOLOGIC_U', 'geologic_unit_name')).toMatchObject({ confidence: 0.9, reason: 'truncated' });
+    // Only a cut at exactly 10 characters is a DBF truncation
+    expect(suggestion('GEOLOGIC', 'geologic_unit_name')).toBeNull();
+
+    const synonyms = [['elev', 'elevation', 'elev_ft'], ['lat', 'latitude']];
+    expect(suggestColumnMappings(['ELEV_FT', 'LAT'], ['elevation', 'latitude'], synonyms)).toEqual([
+      { sourceColumn: 'ELEV_FT', targetColumn: 'elevation', confidence: 0.85, reason: 'synonym' },
+      { sourceColumn: 'LAT', targetColumn: 'latitude', confidence: 0.85, reason: 'synonym' },
+    ]);
+  });
+
+  it('scores near misses by edit distance and drops unrelated names', () => {
+    // One edit in nine characters: (1 - 1/9) * 0.85
+    expect(suggestion('elevaton', 'elevation')).toEqual({ sourceColumn: 'elevaton', targetColumn: 'elevation', confidence: 0.76, reason: 'similar' });
+    expect(suggestion('OBJECTID', 'unit_name')).toBeNull();
+    expect(suggestion('___', 'unit_name')).toBeNull();
+  });
+
+  it('assigns each target once, to the most confident pair', () => {
+    // "unit" is exact for UNIT and only similar for UNITS
+    expect(suggestColumnMappings(['UNITS', 'UNIT'], ['unit'])).toEqual([
+      { sourceColumn: 'UNIT', targetColumn: 'unit', confidence: 1, reason: 'exact' },
+    ]);
+  });
+
+  it('breaks ties in source and then target column order', () => {
+    expect(suggestColumnMappings(['Name', 'NAME'], ['name'])).toEqual([
+      { sourceColumn: 'Name', targetColumn: 'name', confidence: 1, reason: 'exact' },
+    ]);
+    expect(suggestColumnMappings(['name'], ['Name', 'NAME'])).toEqual([
+      { sourceColumn: 'name', targetColumn: 'Name', confidence: 1, reason: 'exact' },
+    ]);
+  });
+
+  it('leaves out source columns and targets the mapping already uses', () => {
+    const suggestions = suggestColumnMappings(['unit', 'age', 'notes'], ['unit', 'age', 'notes'], [], { unit: 'age', notes: null });
+    expect(suggestions).toEqual([]);
+
+    expect(suggestColumnMappings(['unit', 'age'], ['unit', 'age'], [], { unit: 'unit' })).toEqual([
+      { sourceColumn: 'age', targetColumn: 'age', confidence: 1, reason: 'exact' },
+    ]);
+  });
+});
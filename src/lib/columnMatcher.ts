@@ -0,0 +1,131 @@
+// lib/columnMatcher.ts
+// Suggests source -> target column mappings when a target table is chosen.
+//
+// Each source/target pair is scored, and the best pairs are assigned one to
+// one (a target column is suggested at most once):
+// - exact:      same name ignoring case                                  1.00
+// - normalized: same once case, underscores, spaces and dashes are gone   0.95
+// - truncated:  one side is the other cut to 10 characters, as shapefile
+//               (DBF) field names are                                     0.90
+// - synonym:    both names are in one synonym group of the domain         0.85
+// - similar:    edit distance over the normalized names, scaled to < 0.85
+// Pairs below MIN_CONFIDENCE are not suggested.
+
+export type MatchReason = 'exact' | 'normalized' | 'truncated' | 'synonym' | 'similar';
+
+export interface ColumnSuggestion {
+  sourceColumn: string;
+  targetColumn: string;
+  confidence: number; // 0-1
+  reason: MatchReason;
+}
+
+export const MIN_CONFIDENCE = 0.6;
+
+// Longest field name a DBF header can hold
+const DBF_FIELD_NAME_LENGTH = 10;
+
+export const normalizeColumnName = (name: string): string =>
+  name.toLowerCase().replace(/[\s_\-.]+/g, '');
+
+const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Shapefiles cut names to 10 characters: "geologic_unit_name" is stored as "geologic_u"
+const isDbfTruncation = (a: string, b: string): boolean => {
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+  return short.length === DBF_FIELD_NAME_LENGTH && long.length > short.length &&
+    long.toLowerCase().startsWith(short.toLowerCase());
+};
+
+/**
+ * Look up table from a normalized column name to the ids of the synonym groups containing it
+ */
+const buildSynonymIndex = (synonyms: string[][]): Map<string, Set<number>> => {
+  const index = new Map<string, Set<number>>();
+  synonyms.forEach((group, groupId) => {
+    for (const name of group) {
+      const key = normalizeColumnName(name);
+      if (!index.has(key)) index.set(key, new Set());
+      index.get(key)!.add(groupId);
+    }
+  });
+  return index;
+};
+
+const scorePair = (
+  source: string,
+  target: string,
+  synonymIndex: Map<string, Set<number>>
+): { confidence: number; reason: MatchReason } | null => {
+  if (source.toLowerCase() === target.toLowerCase()) return { confidence: 1, reason: 'exact' };
+
+  const a = normalizeColumnName(source);
+  const b = normalizeColumnName(target);
+  if (!a || !b) return null;
+  if (a === b) return { confidence: 0.95, reason: 'normalized' };
+  if (isDbfTruncation(source, target)) return { confidence: 0.9, reason: 'truncated' };
+
+  const groupsA = synonymIndex.get(a);
+  const groupsB = synonymIndex.get(b);
+  if (groupsA && groupsB && [...groupsA].some(group => groupsB.has(group))) {
+    return { confidence: 0.85, reason: 'synonym' };
+  }
+
+  const similarity = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+  const confidence = Math.round(similarity * 0.85 * 100) / 100;
+  return confidence >= MIN_CONFIDENCE ? { confidence, reason: 'similar' } : null;
+};
+
+/**
+ * Suggest a target column for each source column that has a plausible match.
+ * Source columns in existingMapping (mapped or dropped), and the targets they
+ * use, are left out.
+ */
+export const suggestColumnMappings = (
+  sourceColumns: string[],
+  targetColumns: string[],
+  synonyms: string[][] = [],
+  existingMapping: Record<string, string | null> = {}
+): ColumnSuggestion[] => {
+  const synonymIndex = buildSynonymIndex(synonyms);
+  const usedTargets = new Set(Object.values(existingMapping).filter((target): target is string => Boolean(target)));
+
+  const candidates: ColumnSuggestion[] = [];
+  for (const sourceColumn of sourceColumns) {
+    if (existingMapping[sourceColumn] || existingMapping[sourceColumn] === null) continue;
+    for (const targetColumn of targetColumns) {
+      if (usedTargets.has(targetColumn)) continue;
+      const score = scorePair(sourceColumn, targetColumn, synonymIndex);
+      if (score) candidates.push({ sourceColumn, targetColumn, ...score });
+    }
+  }
+
+  // Greedy one-to-one assignment, most confident pairs first
+  candidates.sort((a, b) => b.confidence - a.confidence);
+  const assignedSources = new Set<string>();
+  const suggestions: ColumnSuggestion[] = [];
+  for (const candidate of candidates) {
+    if (assignedSources.has(candidate.sourceColumn) || usedTargets.has(candidate.targetColumn)) continue;
+    assignedSources.add(candidate.sourceColumn);
+    usedTargets.add(candidate.targetColumn);
+    suggestions.push(candidate);
+  }
+
+  // Back in source column order for display
+  return suggestions.sort((a, b) => sourceColumns.indexOf(a.sourceColumn) - sourceColumns.indexOf(b.sourceColumn));
+};
@@ -0,0 +1,26 @@
+// lib/crc32.ts
+// CRC-32 (IEEE 802.3 polynomial) as used in zip local and central headers
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Fold `data` into a running CRC. Start with 0 and pass the previous
+ * return value for each subsequent chunk.
+ */
+export const updateCrc32 = (crc: number, data: Uint8Array): number => {
+  let c = (crc ^ 0xFFFFFFFF) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xFF] ^ (c >>> 8);
+  }
+  return (c ^ 0xFFFFFFFF) >>> 0;
+};
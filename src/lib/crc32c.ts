@@ -0,0 +1,33 @@
+// lib/crc32c.ts
+// CRC-32C (Castagnoli), the checksum Cloud Storage computes for every object.
+// Used to let GCS reject a corrupted upload and to compare against the stored
+// object hash afterwards.
+
+const CRC32C_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0x82F63B78 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const updateCrc32c = (crc: number, data: Uint8Array): number => {
+  let c = (crc ^ 0xFFFFFFFF) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC32C_TABLE[(c ^ data[i]) & 0xFF] ^ (c >>> 8);
+  }
+  return (c ^ 0xFFFFFFFF) >>> 0;
+};
+
+/**
+ * Encode a CRC-32C the way GCS reports it: base64 of the big-endian 32-bit value
+ */
+export const crc32cToBase64 = (crc: number): string => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, crc, false);
+  return btoa(String.fromCharCode(...bytes));
+};
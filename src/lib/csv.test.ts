@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { formatCsv, formatCsvField, parseCsv } from './csv';
+
+describe('csv', () => {
+  it('quotes only fields that need it', () => {
+    expect(formatCsvField('plain')).toBe('plain');
+    expect(formatCsvField('a,b')).toBe('"a,b"');
+    expect(formatCsvField('say "hi"')).toBe('"say ""hi"""');
+    expect(formatCsvField(' padded')).toBe('" padded"');
+    expect(formatCsvField('a;b', ';')).toBe('"a;b"');
+  });
+
+  it('round-trips quoted and multiline fields', () => {
+    const rows = [
+      ['source_column', 'transform'],
+      ['NAME', "concat([FIRST], ', ', [LAST])"],
+      ['NOTES', 'line one\nline "two"\r\nline three'],
+      ['EMPTY', ''],
+    ];
+    const text = formatCsv(rows);
+    expect(text).toBe([
+      'source_column,transform',
+      'NAME,"concat([FIRST], \', \', [LAST])"',
+      'NOTES,"line one\nline ""two""\r\nline three"',
+      'EMPTY,',
+      '',
+    ].join('\r\n'));
+    expect(parseCsv(text)).toEqual(rows);
+    expect(parseCsv(formatCsv(rows, ';'), ';')).toEqual(rows);
+  });
+
+  it('drops a byte order mark and reads LF line endings without a trailing break', () => {
+    expect(parseCsv('﻿a,b\n1,"2"')).toEqual([['a', 'b'], ['1', '2']]);
+    expect(parseCsv('')).toEqual([]);
+  });
+});
@@ -0,0 +1,63 @@
+// lib/csv.ts
+// Minimal RFC 4180 reading and writing: quoted fields may contain the
+// delimiter, doubled quotes and line breaks; rows end with LF or CRLF.
+
+const needsQuoting = (value: string, delimiter: string): boolean =>
+  value.includes(delimiter) || value.includes('"') || value.includes('\n') || value.includes('\r') ||
+  value !== value.trim();
+
+export const formatCsvField = (value: string, delimiter = ','): string =>
+  needsQuoting(value, delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Rows to CSV text with CRLF line endings, as spreadsheets expect
+ */
+export const formatCsv = (rows: string[][], delimiter = ','): string =>
+  rows.map(row => row.map(value => formatCsvField(value, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+
+/**
+ * CSV text to rows of fields. A leading byte order mark is dropped and a
+ * trailing line break does not produce an empty last row.
+ */
+export const parseCsv = (text: string, delimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
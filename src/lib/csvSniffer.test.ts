@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeCsv, decodeCsvBytes, detectDelimiter, detectHeader, findCoordinateColumns } from './csvSniffer';
+import { inferFieldFromValues } from './typeCompatibility';
+
+describe('decodeCsvBytes', () => {
+  it('uses a byte order mark when there is one', () => {
+    const bytes = new Uint8Array([0xef, 0xbb, 0xbf, ...new TextEncoder().encode('a,b')]);
+    expect(decodeCsvBytes(bytes)).toEqual({ text: 'a,b', encoding: 'utf-8', hasBom: true });
+  });
+
+  it('falls back to Windows-1252 for bytes that are not UTF-8', () => {
+    expect(decodeCsvBytes(new Uint8Array([0x4d, 0xfc, 0x6c, 0x6c, 0x65, 0x72]))).toEqual({ text: 'Müller', encoding: 'windows-1252', hasBom: false });
+  });
+
+  it('does not fail on a UTF-8 character cut off by the sample', () => {
+    const bytes = new TextEncoder().encode('name\nMü').subarray(0, 7);
+    expect(decodeCsvBytes(bytes).encoding).toBe('utf-8');
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter that splits rows consistently', () => {
+    expect(detectDelimiter('a;b;c\n1;2,5;3\n4;5,5;6\n')).toBe(';');
+    expect(detectDelimiter('a\tb\n1\t2\n')).toBe('\t');
+    expect(detectDelimiter('"x, y"|z\n1|2\n')).toBe('|');
+  });
+
+  it('defaults to a comma for single-column files', () => {
+    expect(detectDelimiter('name\nAda\nGrace\n')).toBe(',');
+  });
+});
+
+describe('detectHeader', () => {
+  it('finds a header over typed columns', () => {
+    expect(detectHeader([['id', 'depth'], ['1', '2.5'], ['2', '3.5']])).toBe(true);
+  });
+
+  it('treats a first row of data as data', () => {
+    expect(detectHeader([['1', '2.5'], ['2', '3.5'], ['3', '4']])).toBe(false);
+    expect(detectHeader([['UT01', 'North'], ['UT02', 'South']])).toBe(false);
+  });
+});
+
+describe('findCoordinateColumns', () => {
+  it('pairs latitude and longitude columns whose values are in range', () => {
+    const values = [['40.7', '41.2'], ['-111.9', '-112.0']];
+    const fields = [inferFieldFromValues('Lat', values[0]), inferFieldFromValues('LONG_DD', values[1])];
+    expect(findCoordinateColumns(fields, values)).toEqual({ latitude: 'Lat', longitude: 'LONG_DD' });
+  });
+
+  it('ignores projected coordinates', () => {
+    const values = [['4512345', '4512400'], ['425000', '425100']];
+    const fields = [inferFieldFromValues('y', values[0]), inferFieldFromValues('x', values[1])];
+    expect(findCoordinateColumns(fields, values)).toBeNull();
+  });
+});
+
+describe('analyzeCsv', () => {
+  it('reports the dialect and typed, flagged fields', async () => {
+    const file = new Blob(['﻿site;lat;lon;note\r\n1;40.5;-111.8;"a; b"\r\n2;40.6;-111.7;\r\n']);
+    const { dialect, fields, rowsSampled, coordinates } = await analyzeCsv(file, { samplesKept: 1 });
+
+    expect(dialect).toEqual({ encoding: 'utf-8', hasBom: true, delimiter: ';', quoted: true, hasHeader: true, lineEnding: 'CRLF' });
+    expect(rowsSampled).toBe(2);
+    expect(coordinates).toEqual({ latitude: 'lat', longitude: 'lon' });
+    expect(fields.map(field => [field.name, field.kind, field.coordinate ?? null, field.samples])).toEqual([
+      ['site', 'integer', null, ['1']],
+      ['lat', 'real', 'latitude', ['40.5']],
+      ['lon', 'real', 'longitude', ['-111.8']],
+      ['note', 'text', null, ['a; b']],
+    ]);
+    expect(fields[3].nullable).toBe(true);
+  });
+
+  it('names the columns of a file without a header', async () => {
+    const { dialect, fields } = await analyzeCsv(new Blob(['1,2.5\n2,3.5\n3,4\n']));
+    expect(dialect.hasHeader).toBe(false);
+    expect(fields.map(field => field.name)).toEqual(['field_1', 'field_2']);
+  });
+});
@@ -0,0 +1,195 @@
+// lib/csvSniffer.ts
+// Works out how a CSV file is written and what its columns hold, from the
+// first megabyte only:
+//
+//   encoding   byte order mark, else UTF-8 if the bytes decode as UTF-8, else
+//              Windows-1252 (which also covers Latin-1 exports)
+//   delimiter  the candidate that splits the most rows into the same number
+//              of fields, parsed with RFC 4180 quoting (lib/csv.ts)
+//   header     the first row is a header unless it looks like data: its cells
+//              have the column's type (numbers over numbers) or the column's
+//              fixed width; tables of free text are assumed to have one
+//   types      inferred from the sampled rows (inferFieldFromValues)
+//
+// Numeric columns named like latitude/longitude (lat, y, point_x, ...) whose
+// values are in range are flagged as a possible point geometry.
+import type { SourceField } from '../types/uploadTypes';
+import { parseCsv } from './csv';
+import { inferFieldFromValues } from './typeCompatibility';
+
+export type CsvLineEnding = 'CRLF' | 'LF' | 'CR';
+
+export interface CsvDialect {
+  encoding: string; // TextDecoder label
+  hasBom: boolean;
+  delimiter: string;
+  quoted: boolean; // some fields are enclosed in double quotes
+  hasHeader: boolean;
+  lineEnding: CsvLineEnding;
+}
+
+export interface CoordinateColumns {
+  latitude: string;
+  longitude: string;
+}
+
+export interface CsvAnalysis {
+  dialect: CsvDialect;
+  fields: SourceField[];
+  rowsSampled: number;
+  coordinates: CoordinateColumns | null;
+}
+
+export interface CsvAnalysisOptions {
+  sampleRows?: number; // data rows used to infer types
+  samplesKept?: number; // values kept per field as SourceField.samples
+}
+
+export const CSV_DELIMITERS = [',', '\t', ';', '|'];
+// Bytes read from the start of the file
+const SNIFF_BYTES = 1024 * 1024;
+// Rows, and at most how much text, compared when choosing the delimiter
+const DELIMITER_SAMPLE_ROWS = 50;
+const DELIMITER_SAMPLE_CHARS = 64 * 1024;
+
+const BOMS: { bytes: number[]; encoding: string }[] = [
+  { bytes: [0xef, 0xbb, 0xbf], encoding: 'utf-8' },
+  { bytes: [0xff, 0xfe], encoding: 'utf-16le' },
+  { bytes: [0xfe, 0xff], encoding: 'utf-16be' },
+];
+
+const LATITUDE_NAME = /^(lat|latitude|lat_?dd|lat_?deg|lat_?wgs_?84|dec_?lat|y|point_?y|y_?coord(inate)?)$/;
+const LONGITUDE_NAME = /^(lon|long|lng|longitude|long?_?dd|long?_?deg|long?_?wgs_?84|dec_?long?|x|point_?x|x_?coord(inate)?)$/;
+
+/**
+ * Text of the sampled bytes and the encoding that produced it
+ */
+export const decodeCsvBytes = (bytes: Uint8Array): { text: string; encoding: string; hasBom: boolean } => {
+  const bom = BOMS.find(candidate => candidate.bytes.every((byte, index) => bytes[index] === byte));
+  if (bom) {
+    return { text: new TextDecoder(bom.encoding).decode(bytes.subarray(bom.bytes.length)), encoding: bom.encoding, hasBom: true };
+  }
+  try {
+    // stream: a multi-byte character cut off at the end of the sample is not an error
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true }), encoding: 'utf-8', hasBom: false };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'windows-1252', hasBom: false };
+  }
+};
+
+const detectLineEnding = (text: string): CsvLineEnding => {
+  const lineBreak = /\r\n|\n|\r/.exec(text)?.[0];
+  return lineBreak === '\r\n' ? 'CRLF' : lineBreak === '\r' ? 'CR' : 'LF';
+};
+
+/**
+ * The delimiter that gives the most rows the same field count (more than one)
+ */
+export const detectDelimiter = (text: string): string => {
+  let best = { delimiter: CSV_DELIMITERS[0], consistency: 0, fieldCount: 1 };
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = parseCsv(text.slice(0, DELIMITER_SAMPLE_CHARS), delimiter).slice(0, DELIMITER_SAMPLE_ROWS).map(row => row.length);
+    const frequency = new Map<number, number>();
+    counts.forEach(count => frequency.set(count, (frequency.get(count) || 0) + 1));
+    const [fieldCount, rows] = [...frequency].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0] || [1, 0];
+    if (fieldCount < 2) continue;
+
+    const consistency = rows / counts.length;
+    if (consistency > best.consistency || (consistency === best.consistency && fieldCount > best.fieldCount)) {
+      best = { delimiter, consistency, fieldCount };
+    }
+  }
+  return best.delimiter;
+};
+
+/**
+ * Whether the first row names the columns rather than holding data
+ */
+export const detectHeader = (rows: string[][]): boolean => {
+  if (rows.length < 2) return true;
+  const [first, ...data] = rows;
+
+  let votes = 0;
+  first.forEach((cell, index) => {
+    const values = data.map(row => (row[index] ?? '').trim()).filter(value => value !== '');
+    if (values.length === 0) return;
+    const kind = inferFieldFromValues('', values).kind;
+    const cellKind = inferFieldFromValues('', [cell]).kind;
+
+    if (kind !== 'text') {
+      const fits = cellKind === kind || (kind === 'real' && cellKind === 'integer');
+      votes += fits ? -1 : 1;
+    } else {
+      // Codes of one width under a name of another
+      const widths = new Set(values.map(value => value.length));
+      if (widths.size === 1) votes += widths.has(cell.trim().length) ? -1 : 1;
+    }
+  });
+  return votes >= 0;
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+const inRange = (field: SourceField, values: string[], limit: number): boolean =>
+  (field.kind === 'real' || field.kind === 'integer') &&
+  values.some(value => value.trim() !== '') &&
+  values.every(value => value.trim() === '' || Math.abs(Number(value)) <= limit);
+
+/**
+ * A latitude and a longitude column, by name and value range
+ */
+export const findCoordinateColumns = (fields: SourceField[], columnValues: string[][]): CoordinateColumns | null => {
+  const latitude = fields.find((field, index) => LATITUDE_NAME.test(normalizeName(field.name)) && inRange(field, columnValues[index], 90));
+  const longitude = fields.find((field, index) => LONGITUDE_NAME.test(normalizeName(field.name)) && inRange(field, columnValues[index], 180));
+  return latitude && longitude ? { latitude: latitude.name, longitude: longitude.name } : null;
+};
+
+export const analyzeCsv = async (
+  file: Blob,
+  { sampleRows = 200, samplesKept = 0 }: CsvAnalysisOptions = {}
+): Promise<CsvAnalysis> => {
+  const bytes = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  const { text, encoding, hasBom } = decodeCsvBytes(bytes);
+
+  const delimiter = detectDelimiter(text);
+  const rows = parseCsv(text, delimiter).filter(row => row.some(value => value.trim() !== ''));
+  // The last row may be cut off by the end of the sample
+  if (file.size > SNIFF_BYTES) rows.pop();
+
+  const hasHeader = detectHeader(rows.slice(0, sampleRows + 1));
+  const header = hasHeader ? rows[0] || [] : [];
+  const dataRows = rows.slice(hasHeader ? 1 : 0, (hasHeader ? 1 : 0) + sampleRows);
+  const columnCount = Math.max(header.length, ...dataRows.map(row => row.length), 0);
+
+  const columnValues: string[][] = [];
+  const fields: SourceField[] = [];
+  for (let index = 0; index < columnCount; index++) {
+    const values = dataRows.map(row => row[index] ?? '');
+    // GDAL's CSV driver names unnamed columns field_1, field_2, ...
+    const name = header[index]?.trim() || `field_${index + 1}`;
+    fields.push({ ...inferFieldFromValues(name, values), samples: values.slice(0, samplesKept) });
+    columnValues.push(values);
+  }
+
+  const coordinates = findCoordinateColumns(fields, columnValues);
+  const flagged = coordinates
+    ? fields.map(field =>
+        field.name === coordinates.latitude ? { ...field, coordinate: 'latitude' as const }
+          : field.name === coordinates.longitude ? { ...field, coordinate: 'longitude' as const }
+            : field)
+    : fields;
+
+  return {
+    dialect: {
+      encoding,
+      hasBom,
+      delimiter,
+      quoted: text.startsWith('"') || text.includes(`${delimiter}"`) || /[\r\n]"/.test(text),
+      hasHeader,
+      lineEnding: detectLineEnding(text),
+    },
+    fields: flagged,
+    rowsSampled: dataRows.length,
+    coordinates,
+  };
+};
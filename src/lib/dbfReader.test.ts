@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeDbf, DbfFormatError, encodingFromCpg, readDbfHeader, readDbfRecords } from './dbfReader';
+
+interface TestField {
+  name: string;
+  type: string;
+  length: number;
+  decimals?: number;
+}
+
+// A dBase III table: 32-byte header, 32-byte descriptors, 0x0D, then records
+// of a deletion flag and fixed-width fields
+const buildDbf = (fields: TestField[], records: { deleted?: boolean; values: (string | Uint8Array)[] }[], languageDriver = 0): Blob => {
+  const headerLength = 32 + fields.length * 32 + 1;
+  const recordLength = 1 + fields.reduce((total, field) => total + field.length, 0);
+  const bytes = new Uint8Array(headerLength + records.length * recordLength + 1);
+  const view = new DataView(bytes.buffer);
+
+  bytes[0] = 0x03;
+  bytes.set([124, 3, 15], 1); // 2024-03-15
+  view.setUint32(4, records.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+  bytes[29] = languageDriver;
+
+  fields.forEach((field, index) => {
+    const offset = 32 + index * 32;
+    bytes.set(new TextEncoder().encode(field.name), offset);
+    bytes[offset + 11] = field.type.charCodeAt(0);
+    bytes[offset + 16] = field.length;
+    bytes[offset + 17] = field.decimals ?? 0;
+  });
+  bytes[headerLength - 1] = 0x0d;
+
+  records.forEach((record, index) => {
+    let offset = headerLength + index * recordLength;
+    bytes[offset++] = record.deleted ? 0x2a : 0x20;
+    fields.forEach((field, fieldIndex) => {
+      const value = record.values[fieldIndex];
+      const encoded = typeof value === 'string' ? new TextEncoder().encode(value.padEnd(field.length)) : value;
+      bytes.set(encoded.subarray(0, field.length), offset);
+      offset += field.length;
+    });
+  });
+  bytes[bytes.length - 1] = 0x1a;
+  return new Blob([bytes]);
+};
+
+const FIELDS: TestField[] = [
+  { name: 'NAME', type: 'C', length: 10 },
+  { name: 'DEPTH', type: 'N', length: 8, decimals: 2 },
+  { name: 'SAMPLED', type: 'D', length: 8 },
+  { name: 'ACTIVE', type: 'L', length: 1 },
+];
+
+const TABLE = buildDbf(FIELDS, [
+  { values: ['Well A', '   12.50', '20240301', 'T'] },
+  { deleted: true, values: ['Gone', '1', '20240101', 'F'] },
+  { values: ['Well B', '********', '        ', '?'] },
+]);
+
+describe('readDbfHeader', () => {
+  it('reads the header and field descriptors', async () => {
+    const header = await readDbfHeader(TABLE);
+    expect(header).toMatchObject({ version: 3, lastUpdate: '2024-03-15', recordCount: 3, recordLength: 28, languageDriverId: 0 });
+    expect(header.fields).toEqual([
+      { name: 'NAME', type: 'C', length: 10, decimalCount: 0, offset: 1 },
+      { name: 'DEPTH', type: 'N', length: 8, decimalCount: 2, offset: 11 },
+      { name: 'SAMPLED', type: 'D', length: 8, decimalCount: 0, offset: 19 },
+      { name: 'ACTIVE', type: 'L', length: 1, decimalCount: 0, offset: 27 },
+    ]);
+  });
+
+  it('rejects files that are not DBF tables', async () => {
+    await expect(readDbfHeader(new Blob(['short']))).rejects.toBeInstanceOf(DbfFormatError);
+    await expect(readDbfHeader(new Blob([new Uint8Array(64).fill(0xff)]))).rejects.toThrow(/Invalid DBF header/);
+  });
+});
+
+describe('readDbfRecords', () => {
+  it('decodes values and skips deleted records', async () => {
+    const header = await readDbfHeader(TABLE);
+    const records = [];
+    for await (const record of readDbfRecords(TABLE, header)) records.push(record);
+    expect(records).toEqual([
+      { NAME: 'Well A', DEPTH: '12.50', SAMPLED: '2024-03-01', ACTIVE: 'true' },
+      { NAME: 'Well B', DEPTH: '', SAMPLED: '', ACTIVE: '' },
+    ]);
+  });
+
+  it('includes deleted records on request and stops at the limit', async () => {
+    const header = await readDbfHeader(TABLE);
+    const names = [];
+    for await (const record of readDbfRecords(TABLE, header, { includeDeleted: true, limit: 2 })) names.push(record.NAME);
+    expect(names).toEqual(['Well A', 'Gone']);
+  });
+});
+
+describe('analyzeDbf', () => {
+  it('types fields and marks those with empty values nullable', async () => {
+    const { fields } = await analyzeDbf(TABLE, { sampleRows: 10, samplesKept: 1 });
+    expect(fields.map(field => [field.name, field.kind, field.nullable ?? false, field.samples])).toEqual([
+      ['NAME', 'text', false, ['Well A']],
+      ['DEPTH', 'real', true, ['12.50']],
+      ['SAMPLED', 'date', true, ['2024-03-01']],
+      ['ACTIVE', 'boolean', true, ['true']],
+    ]);
+  });
+
+  it('decodes text with the .cpg encoding before the language driver', async () => {
+    const latin1 = buildDbf([{ name: 'NAME', type: 'C', length: 6 }], [{ values: [new Uint8Array([0x4d, 0xfc, 0x6c, 0x6c, 0x65, 0x72])] }], 0x57);
+    const utf8 = buildDbf([{ name: 'NAME', type: 'C', length: 10 }], [{ values: ['Müller'] }], 0x57);
+
+    expect((await analyzeDbf(latin1, { sampleRows: 1, samplesKept: 1 })).encoding).toBe('windows-1252');
+    expect((await analyzeDbf(latin1, { sampleRows: 1, samplesKept: 1 })).fields[0].samples).toEqual(['Müller']);
+    const fromCpg = await analyzeDbf(utf8, { cpg: 'UTF-8', sampleRows: 1, samplesKept: 1 });
+    expect(fromCpg.encoding).toBe('utf-8');
+    expect(fromCpg.fields[0].samples).toEqual(['Müller']);
+  });
+});
+
+describe('encodingFromCpg', () => {
+  it('understands the usual .cpg spellings', () => {
+    expect(encodingFromCpg('UTF-8\r\n')).toBe('utf-8');
+    expect(encodingFromCpg('1252')).toBe('windows-1252');
+    expect(encodingFromCpg('ANSI 1251')).toBe('windows-1251');
+    expect(encodingFromCpg('8859_1')).toBe('iso-8859-1');
+    expect(encodingFromCpg('936')).toBe('gbk');
+    expect(encodingFromCpg('')).toBeNull();
+  });
+});
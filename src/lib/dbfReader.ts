@@ -0,0 +1,300 @@
+// lib/dbfReader.ts
+// Reads dBase (.dbf) tables in the browser: the header with every field
+// descriptor, and records streamed in slices so large tables can be sampled
+// without loading the whole file.
+//
+// File layout (dBase III/IV; level 7 differs only in the descriptor size):
+//   0      version byte (low 3 bits are the dBase level)
+//   4-7    record count (uint32 LE)
+//   8-9    header length in bytes, descriptors and terminator included (uint16 LE)
+//   10-11  record length in bytes, deletion flag included (uint16 LE)
+//   29     language driver id (code page)
+//   32...  32-byte field descriptors (48 bytes at 68... for level 7), ended by 0x0D
+// Records follow the header: a deletion flag ("*" = deleted) then the fields
+// as fixed-width text, except the binary Visual FoxPro / dBase 7 types.
+//
+// Text is decoded with the code page from the shapefile's .cpg file when there
+// is one, otherwise from the language driver id, otherwise ISO-8859-1 (GDAL's
+// default for shapefiles).
+import type { SourceField } from '../types/uploadTypes';
+import { fromDbfDescriptor } from './typeCompatibility';
+
+export class DbfFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DbfFormatError';
+  }
+}
+
+export interface DbfFieldDescriptor {
+  name: string;
+  type: string; // dBase type code: C, N, F, D, L, M, I, ...
+  length: number;
+  decimalCount: number;
+  offset: number; // byte offset within a record, after the deletion flag
+}
+
+export interface DbfHeader {
+  version: number;
+  lastUpdate: string | null; // YYYY-MM-DD
+  recordCount: number;
+  headerLength: number;
+  recordLength: number;
+  languageDriverId: number;
+  fields: DbfFieldDescriptor[];
+}
+
+const DEFAULT_ENCODING = 'iso-8859-1';
+// Records read per slice while streaming
+const RECORDS_PER_SLICE = 1000;
+
+// Language driver ids with an encoding TextDecoder supports; DOS code pages
+// other than 866 are not available and fall back to the default
+const LANGUAGE_DRIVER_ENCODINGS: Record<number, string> = {
+  0x03: 'windows-1252',
+  0x13: 'shift_jis',
+  0x26: 'ibm866',
+  0x4d: 'gbk',
+  0x4e: 'euc-kr',
+  0x4f: 'big5',
+  0x57: 'windows-1252', // "ANSI": the writer's Windows code page, 1252 in practice
+  0x58: 'windows-1252',
+  0x59: 'windows-1252',
+  0x65: 'ibm866',
+  0x7b: 'shift_jis',
+  0x7c: 'windows-874',
+  0x7d: 'windows-1255',
+  0x7e: 'windows-1256',
+  0x87: 'windows-1250',
+  0xc8: 'windows-1250',
+  0xc9: 'windows-1251',
+  0xca: 'windows-1254',
+  0xcb: 'windows-1253',
+  0xcc: 'windows-1257',
+};
+
+// Windows and CJK code page numbers as written in .cpg files
+const CODE_PAGE_ENCODINGS: Record<string, string> = {
+  '65001': 'utf-8',
+  '932': 'shift_jis',
+  '936': 'gbk',
+  '949': 'euc-kr',
+  '950': 'big5',
+  '866': 'ibm866',
+  '874': 'windows-874',
+};
+
+const isSupportedEncoding = (label: string): boolean => {
+  try {
+    new TextDecoder(label);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * TextDecoder label for the contents of a .cpg file ("UTF-8", "1252",
+ * "ANSI 1252", "8859_1", "ISO-8859-1", ...); null when it names nothing usable
+ */
+export const encodingFromCpg = (cpg: string): string | null => {
+  const value = cpg.trim().toLowerCase();
+  if (!value) return null;
+  if (value === 'utf8' || value === 'utf-8') return 'utf-8';
+
+  const iso = /^(?:iso[-_ ]?)?8859[-_ ]?(\d{1,2})$/.exec(value);
+  if (iso) return isSupportedEncoding(`iso-8859-${iso[1]}`) ? `iso-8859-${iso[1]}` : null;
+
+  const codePage = /^(?:ansi |cp|oem |windows-)?(\d+)$/.exec(value)?.[1];
+  if (codePage) {
+    if (CODE_PAGE_ENCODINGS[codePage]) return CODE_PAGE_ENCODINGS[codePage];
+    if (/^125\d$/.test(codePage)) return `windows-${codePage}`;
+    return null;
+  }
+  return isSupportedEncoding(value) ? value : null;
+};
+
+export const encodingFromLanguageDriver = (languageDriverId: number): string | null =>
+  LANGUAGE_DRIVER_ENCODINGS[languageDriverId] || null;
+
+// ==========================================
+// Header
+// ==========================================
+
+export const readDbfHeader = async (file: Blob, encoding = DEFAULT_ENCODING): Promise<DbfHeader> => {
+  if (file.size < 32) throw new DbfFormatError('File is too small to be a DBF table.');
+  const prefix = new DataView(await file.slice(0, 32).arrayBuffer());
+
+  const version = prefix.getUint8(0);
+  const recordCount = prefix.getUint32(4, true);
+  const headerLength = prefix.getUint16(8, true);
+  const recordLength = prefix.getUint16(10, true);
+  const isLevel7 = (version & 0x07) === 4;
+  const descriptorSize = isLevel7 ? 48 : 32;
+  const firstDescriptor = isLevel7 ? 68 : 32;
+  if (headerLength < firstDescriptor + 1 || headerLength > file.size || recordLength < 1) {
+    throw new DbfFormatError(`Invalid DBF header (header length ${headerLength}, record length ${recordLength}).`);
+  }
+
+  const month = prefix.getUint8(2);
+  const day = prefix.getUint8(3);
+  const lastUpdate = month >= 1 && month <= 12 && day >= 1 && day <= 31
+    ? `${1900 + prefix.getUint8(1)}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+    : null;
+
+  const header = new Uint8Array(await file.slice(0, headerLength).arrayBuffer());
+  const view = new DataView(header.buffer);
+  const decoder = new TextDecoder(encoding);
+  const nameLength = isLevel7 ? 32 : 11;
+  const fields: DbfFieldDescriptor[] = [];
+  let recordOffset = 1;
+
+  for (let offset = firstDescriptor; offset + descriptorSize <= headerLength && header[offset] !== 0x0d; offset += descriptorSize) {
+    const nameBytes = header.subarray(offset, offset + nameLength);
+    const nameEnd = nameBytes.indexOf(0);
+    const name = decoder.decode(nameEnd === -1 ? nameBytes : nameBytes.subarray(0, nameEnd)).trim();
+    const type = String.fromCharCode(header[offset + nameLength]);
+    const length = view.getUint8(offset + (isLevel7 ? 33 : 16));
+    const decimalCount = view.getUint8(offset + (isLevel7 ? 34 : 17));
+
+    if (name) fields.push({ name, type, length, decimalCount, offset: recordOffset });
+    recordOffset += length;
+  }
+
+  if (recordOffset > recordLength) {
+    throw new DbfFormatError(`Field widths (${recordOffset} bytes) exceed the record length (${recordLength} bytes).`);
+  }
+  return { version, lastUpdate, recordCount, headerLength, recordLength, languageDriverId: prefix.getUint8(29), fields };
+};
+
+// ==========================================
+// Records
+// ==========================================
+
+// Raw field bytes as text: dates become YYYY-MM-DD, logicals true/false,
+// I and O are read in the Visual FoxPro layout, and memo and binary date/time
+// fields (stored in a .dbt/.fpt file or encoded) are left empty
+const decodeValue = (field: DbfFieldDescriptor, bytes: Uint8Array, decoder: TextDecoder): string => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  switch (field.type) {
+    case 'I':
+      return bytes.length === 4 ? String(view.getInt32(0, true)) : '';
+    case 'O':
+      return bytes.length === 8 ? String(view.getFloat64(0, true)) : '';
+    case 'M':
+    case 'G':
+    case 'P':
+    case 'B':
+    case 'T':
+    case '@':
+    case '+':
+      return '';
+  }
+
+  const text = decoder.decode(bytes).replace(/\0+$/, '');
+  switch (field.type) {
+    case 'C':
+      return text.trimEnd();
+    case 'D': {
+      const date = /^(\d{4})(\d{2})(\d{2})$/.exec(text.trim());
+      return date ? `${date[1]}-${date[2]}-${date[3]}` : '';
+    }
+    case 'L': {
+      const flag = text.trim().toUpperCase();
+      if (flag === 'T' || flag === 'Y') return 'true';
+      if (flag === 'F' || flag === 'N') return 'false';
+      return ''; // "?" is unset
+    }
+    default: {
+      // Numbers overflowed by the writer are filled with asterisks
+      const number = text.trim();
+      return /^\*+$/.test(number) ? '' : number;
+    }
+  }
+};
+
+export interface DbfRecordOptions {
+  encoding?: string;
+  limit?: number; // stop after this many records
+  includeDeleted?: boolean;
+}
+
+/**
+ * Records as { field name: value } objects, read a slice at a time
+ */
+export async function* readDbfRecords(
+  file: Blob,
+  header: DbfHeader,
+  { encoding = DEFAULT_ENCODING, limit = Infinity, includeDeleted = false }: DbfRecordOptions = {}
+): AsyncGenerator<Record<string, string>> {
+  const decoder = new TextDecoder(encoding);
+  // The record count can overstate what was written; never read past the file
+  const available = Math.floor((file.size - header.headerLength) / header.recordLength);
+  const total = Math.min(header.recordCount, Math.max(available, 0));
+  let yielded = 0;
+
+  for (let first = 0; first < total && yielded < limit; first += RECORDS_PER_SLICE) {
+    const count = Math.min(RECORDS_PER_SLICE, total - first);
+    const start = header.headerLength + first * header.recordLength;
+    const slice = new Uint8Array(await file.slice(start, start + count * header.recordLength).arrayBuffer());
+
+    for (let index = 0; index < count && yielded < limit; index++) {
+      const record = slice.subarray(index * header.recordLength, (index + 1) * header.recordLength);
+      if (record[0] === 0x2a && !includeDeleted) continue; // "*"
+      if (record[0] === 0x1a) return; // end-of-file marker
+
+      const values: Record<string, string> = {};
+      for (const field of header.fields) {
+        values[field.name] = decodeValue(field, record.subarray(field.offset, field.offset + field.length), decoder);
+      }
+      yielded++;
+      yield values;
+    }
+  }
+}
+
+// ==========================================
+// Fields for the mapping step
+// ==========================================
+
+export interface DbfAnalysis {
+  header: DbfHeader;
+  encoding: string;
+  fields: SourceField[];
+}
+
+export interface DbfAnalysisOptions {
+  cpg?: string | null; // text of the accompanying .cpg file
+  sampleRows?: number; // records read to find fields with empty values
+  samplesKept?: number; // values kept per field as SourceField.samples
+}
+
+/**
+ * Typed fields of a DBF, checked against its first records
+ */
+export const analyzeDbf = async (
+  file: Blob,
+  { cpg = null, sampleRows = 0, samplesKept = 0 }: DbfAnalysisOptions = {}
+): Promise<DbfAnalysis> => {
+  const prefix = new Uint8Array(await file.slice(29, 30).arrayBuffer());
+  const encoding = (cpg !== null ? encodingFromCpg(cpg) : null) ||
+    encodingFromLanguageDriver(prefix[0] ?? 0) ||
+    DEFAULT_ENCODING;
+  const header = await readDbfHeader(file, encoding);
+
+  const rows: Record<string, string>[] = [];
+  if (sampleRows > 0) {
+    for await (const record of readDbfRecords(file, header, { encoding, limit: sampleRows })) rows.push(record);
+  }
+
+  const fields = header.fields.map(descriptor => {
+    const field = fromDbfDescriptor(descriptor.name, descriptor.type, descriptor.length, descriptor.decimalCount);
+    if (rows.length === 0) return field;
+    const values = rows.map(row => row[descriptor.name] ?? '');
+    const samples = values.slice(0, samplesKept);
+    // DBF has no NOT NULL; empty values among the sampled records are the only hint
+    return values.some(value => value === '') ? { ...field, samples, nullable: true } : { ...field, samples };
+  });
+
+  return { header, encoding, fields };
+};
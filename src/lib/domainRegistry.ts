@@ -0,0 +1,139 @@
+// lib/domainRegistry.ts
+// Lookups over the server-provided domain registry (GET /api/domains).
+// Every domain-specific setting - schema, PostgREST service, filename rules,
+// publication types - is resolved here instead of being hardcoded in the form.
+import type { DomainRegistry, CustomDomainConfig, PublicationTypeOption } from '../types/domainTypes';
+import type { FormData, FormErrors } from '../types/uploadTypes';
+
+// Form value for a free-text domain
+export const CUSTOM_DOMAIN = 'custom';
+
+export interface DomainOption {
+  value: string;
+  label: string;
+}
+
+/**
+ * Settings for a form domain value, or null when the registry has no such domain
+ */
+export const resolveDomain = (registry: DomainRegistry | null, domain: string): CustomDomainConfig | null => {
+  if (!registry || !domain) return null;
+  if (domain === CUSTOM_DOMAIN) return registry.customDomain;
+  return registry.domains.find(entry => entry.id === domain) || null;
+};
+
+export const getPostgrestUrl = (registry: DomainRegistry | null, domain: string): string =>
+  resolveDomain(registry, domain)?.postgrestUrl || '';
+
+// True when the domain is served by its own PostgREST service rather than the default one
+export const hasDedicatedPostgrest = (registry: DomainRegistry | null, domain: string): boolean => {
+  const url = getPostgrestUrl(registry, domain);
+  return Boolean(url && registry?.defaultPostgrestUrl && url !== registry.defaultPostgrestUrl);
+};
+
+export const getSchemaFromDomain = (registry: DomainRegistry | null, domain: string): string =>
+  resolveDomain(registry, domain)?.schema || '';
+
+export const getColumnSynonyms = (registry: DomainRegistry | null, domain: string): string[][] =>
+  resolveDomain(registry, domain)?.columnSynonyms || [];
+
+/**
+ * Options for the domain dropdown, including the placeholder and "custom" entries
+ */
+export const getDomainOptions = (registry: DomainRegistry | null): DomainOption[] => {
+  if (!registry) return [{ value: '', label: 'Loading domains...' }];
+  return [
+    { value: '', label: 'Select Domain' },
+    ...registry.domains.map(domain => ({ value: domain.id, label: domain.label })),
+    ...(registry.customDomain ? [{ value: CUSTOM_DOMAIN, label: registry.customDomain.label }] : []),
+  ];
+};
+
+/**
+ * Label for a stored domain value; unknown values (custom domains) are shown as-is
+ */
+export const getDomainLabel = (registry: DomainRegistry | null, domain: string | null): string =>
+  registry?.domains.find(entry => entry.id === domain)?.label || domain || '—';
+
+/**
+ * Publication types the selected domain accepts (all types until a domain is chosen)
+ */
+export const getPublicationTypeOptions = (registry: DomainRegistry | null, domain: string): PublicationTypeOption[] => {
+  if (!registry) return [{ value: '', label: 'Loading publication types...' }];
+  const allowed = resolveDomain(registry, domain)?.allowedPublicationTypes;
+  return [
+    { value: '', label: 'Select Publication Type' },
+    ...registry.publicationTypes.filter(type => !allowed || allowed.includes(type.value)),
+  ];
+};
+
+/**
+ * Generated zip filename: prefix_dataTopic[_scale][_quadName][_pubId]_loadType_YYYYMMDD.zip
+ * Returns '' until the parts the filename needs are filled in.
+ */
+export const buildFilename = (registry: DomainRegistry | null, formData: FormData, date: Date = new Date()): string => {
+  const { domain, customDomain, dataTopic, scale, quadName, pubId, loadType, selectedFiles } = formData;
+  const config = resolveDomain(registry, domain);
+  const effectiveDomain = domain === CUSTOM_DOMAIN ? customDomain : domain;
+
+  if (!config || !effectiveDomain || !dataTopic || !loadType || selectedFiles.length === 0) {
+    return '';
+  }
+
+  const dateStr = date.getFullYear().toString() +
+    (date.getMonth() + 1).toString().padStart(2, '0') +
+    date.getDate().toString().padStart(2, '0');
+
+  const parts = [
+    domain === CUSTOM_DOMAIN ? effectiveDomain : config.namingRules.prefix || effectiveDomain,
+    dataTopic,
+    scale,
+    quadName,
+    pubId,
+    loadType,
+    dateStr,
+  ].filter(part => part && part.trim() !== '');
+
+  return parts.join('_') + '.zip';
+};
+
+const namingPartLabels = {
+  scale: 'Scale',
+  quadName: 'Quad name',
+  pubId: 'Publication ID',
+};
+
+/**
+ * Check the naming fields and publication type against the selected domain's rules
+ */
+export const validateDomainRules = (registry: DomainRegistry | null, formData: FormData, filename: string): FormErrors => {
+  const errors: FormErrors = {};
+  const config = resolveDomain(registry, formData.domain);
+  if (!config) {
+    if (formData.domain) errors.domain = 'This domain is not in the domain registry.';
+    return errors;
+  }
+
+  const { namingRules, allowedPublicationTypes } = config;
+
+  if (formData.dataTopic && namingRules.dataTopicPattern && !new RegExp(namingRules.dataTopicPattern).test(formData.dataTopic)) {
+    errors.dataTopic = `Data topic must match ${namingRules.dataTopicPattern}.`;
+  }
+
+  for (const part of namingRules.requiredParts) {
+    if (!formData[part].trim()) {
+      errors[part] = `${namingPartLabels[part]} is required for this domain.`;
+    }
+  }
+
+  if (filename && namingRules.maxLength && filename.length > namingRules.maxLength) {
+    errors.dataTopic = errors.dataTopic ||
+      `Generated filename is ${filename.length} characters; this domain allows ${namingRules.maxLength}.`;
+  }
+
+  if (formData.publicationType && !allowedPublicationTypes.includes(formData.publicationType)) {
+    errors.publicationType = 'This publication type is not accepted for the selected domain.';
+  }
+
+  return errors;
+};
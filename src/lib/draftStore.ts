@@ -0,0 +1,136 @@
+// lib/draftStore.ts
+// Upload form drafts persisted in IndexedDB, so a refresh or an accidental
+// navigation does not lose the form or a finished column mapping.
+//
+// IndexedDB rather than localStorage because drafts hold File System Access
+// handles, which can be structured-cloned into IndexedDB but not serialized to
+// JSON. Files picked through a handle are read again when the draft is resumed
+// (after the browser re-grants permission). Files picked with a plain <input> or
+// drag and drop cannot be reopened; the draft keeps their name, size and date so
+// the user can be asked to add them again.
+import { ensureReadPermission, readDirectoryHandle } from './fileHandles';
+import type { FileSystemDirectoryHandle, FileSystemFileHandle } from '../types/uploadTypes';
+import type { UploadDraft, DraftFileDescriptor, DraftFileSource, RestoredDraftFiles } from '../types/draftTypes';
+
+const DB_NAME = 'ugs-ingest';
+const DB_VERSION = 1;
+const DRAFTS_STORE = 'drafts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+          db.createObjectStore(DRAFTS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(DRAFTS_STORE, mode);
+    const request = operation(transaction.objectStore(DRAFTS_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// ==========================================
+// Draft records
+// ==========================================
+
+export const createDraftId = (): string => crypto.randomUUID();
+
+/**
+ * All saved drafts, most recently edited first
+ */
+export const listDrafts = async (): Promise<UploadDraft[]> => {
+  const drafts = await runRequest('readonly', store => store.getAll() as IDBRequest<UploadDraft[]>);
+  return drafts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const loadDraft = async (id: string): Promise<UploadDraft | null> =>
+  (await runRequest('readonly', store => store.get(id) as IDBRequest<UploadDraft | undefined>)) || null;
+
+export const saveDraft = async (draft: UploadDraft): Promise<void> => {
+  await runRequest('readwrite', store => store.put(draft));
+};
+
+export const deleteDraft = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+// ==========================================
+// Files
+// ==========================================
+
+export const describeFile = (file: File): DraftFileDescriptor => ({
+  name: file.name,
+  size: file.size,
+  type: file.type,
+  lastModified: file.lastModified,
+});
+
+export const matchesDescriptor = (file: File, descriptor: DraftFileDescriptor): boolean =>
+  file.name === descriptor.name && file.size === descriptor.size && file.lastModified === descriptor.lastModified;
+
+/**
+ * Drop a removed file from the handle sources; sources left without files are dropped too
+ */
+export const removeFromSources = (sources: DraftFileSource[], filename: string): DraftFileSource[] =>
+  sources
+    .map(source => ({ ...source, paths: source.paths.filter(path => path !== filename) }))
+    .filter(source => source.paths.length > 0);
+
+/**
+ * Re-read a draft's files through its stored handles. Must run from a user
+ * gesture (e.g. the Resume button) because the browser may ask for permission.
+ */
+export const restoreDraftFiles = async (draft: UploadDraft): Promise<RestoredDraftFiles> => {
+  const found = new Map<string, File>();
+
+  for (const source of draft.fileSources) {
+    try {
+      if (!await ensureReadPermission(source.handle)) {
+        console.warn(`⚠️ Permission to read ${source.handle.name} was not granted`);
+        continue;
+      }
+      const wanted = new Set(source.paths);
+      const files = source.handle.kind === 'directory'
+        ? await readDirectoryHandle(source.handle as FileSystemDirectoryHandle)
+        : [await (source.handle as FileSystemFileHandle).getFile()];
+      for (const file of files) {
+        if (wanted.has(file.name)) found.set(file.name, file);
+      }
+    } catch (error) {
+      // Moved or deleted since the draft was saved
+      console.warn(`⚠️ Could not read ${source.handle.name} from draft:`, error);
+    }
+  }
+
+  const result: RestoredDraftFiles = { files: [], missing: [], changed: [] };
+  for (const descriptor of draft.files) {
+    const file = found.get(descriptor.name);
+    if (!file) {
+      result.missing.push(descriptor);
+      continue;
+    }
+    result.files.push(file);
+    if (!matchesDescriptor(file, descriptor)) result.changed.push(descriptor.name);
+  }
+  return result;
+};
@@ -0,0 +1,40 @@
+// lib/fileHandles.ts
+// Reading files through File System Access API handles (Chromium).
+import type { FileSystemHandle, FileSystemDirectoryHandle, FileSystemFileHandle } from '../types/uploadTypes';
+
+/**
+ * Read every file below a directory handle. Names are paths relative to the
+ * directory, e.g. "a00000001.gdbtable" or "sub/notes.txt".
+ */
+export const readDirectoryHandle = async (dirHandle: FileSystemDirectoryHandle, path = ''): Promise<File[]> => {
+  const files: File[] = [];
+
+  for await (const [name, handle] of dirHandle.entries()) {
+    const fullPath = path ? `${path}/${name}` : name;
+
+    if (handle.kind === 'file') {
+      const file = await (handle as FileSystemFileHandle).getFile();
+      const fileWithPath = new File([file], fullPath, {
+        type: file.type,
+        lastModified: file.lastModified
+      });
+      files.push(fileWithPath);
+    } else if (handle.kind === 'directory') {
+      const subFiles = await readDirectoryHandle(handle as FileSystemDirectoryHandle, fullPath);
+      files.push(...subFiles);
+    }
+  }
+
+  return files;
+};
+
+/**
+ * Make sure a stored handle may be read again. Asking for permission needs a
+ * user gesture, so call this from a click handler.
+ */
+export const ensureReadPermission = async (handle: FileSystemHandle): Promise<boolean> => {
+  // Browsers without the permission methods grant access for the handle's lifetime
+  if (!handle.queryPermission || !handle.requestPermission) return true;
+  if (await handle.queryPermission({ mode: 'read' }) === 'granted') return true;
+  return await handle.requestPermission({ mode: 'read' }) === 'granted';
+};
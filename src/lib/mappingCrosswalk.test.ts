@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import type { ColumnInfo } from '../types/uploadTypes';
+import { crosswalkFilename, exportCrosswalk, importCrosswalk, type CrosswalkContext } from './mappingCrosswalk';
+import { fromDbfDescriptor } from './typeCompatibility';
+
+const column = (name: string, dataType: string, isNullable = true): ColumnInfo => ({
+  name,
+  dataType,
+  isNullable,
+  defaultValue: null,
+  position: 1,
+});
+
+const SOURCES = ['UNIT_NAME', 'DEPTH_FT', 'NOTES', 'OBJECTID'];
+const TARGETS = [column('unit_name', 'text', false), column('depth_m', 'numeric'), column('source', 'text', false)];
+
+const context = (overrides: Partial<CrosswalkContext> = {}): CrosswalkContext => ({
+  targetTable: 'hazards.landslides',
+  sourceLayer: 'landslides',
+  sourceColumns: SOURCES,
+  sourceFields: [fromDbfDescriptor('UNIT_NAME', 'C', 40, 0), fromDbfDescriptor('DEPTH_FT', 'N', 8, 2)],
+  targetColumns: TARGETS,
+  columnMapping: { UNIT_NAME: 'unit_name', DEPTH_FT: 'depth_m', OBJECTID: null },
+  columnTransforms: { DEPTH_FT: 'round(value * 0.3048, 2)' },
+  targetColumnValues: { source: { kind: 'constant', value: 'UGS, 2024 "field" survey' } },
+  ...overrides,
+});
+
+const importCsv = (lines: string[]) => importCrosswalk(lines.join('\n'), 'csv', SOURCES, TARGETS);
+
+describe('exportCrosswalk', () => {
+  it('writes a CSV row per source column, then the unmapped target columns', () => {
+    expect(exportCrosswalk(context(), 'csv').split('\r\n')).toEqual([
+      'source_column,target_column,ignore,transform,source_type,target_type,target_required',
+      'UNIT_NAME,unit_name,,,C(40),text,yes',
+      'DEPTH_FT,depth_m,,"round(value * 0.3048, 2)","N(8,2)",numeric,no',
+      'NOTES,,,,,,',
+      'OBJECTID,,yes,,,,',
+      ',source,,,,text,yes',
+      '',
+    ]);
+    expect(crosswalkFilename('hazards.landslides', 'csv')).toBe('hazards.landslides_crosswalk.csv');
+  });
+
+  it('reads its own CSV and JSON exports back', () => {
+    const fromCsv = importCrosswalk(exportCrosswalk(context(), 'csv'), 'csv', SOURCES, TARGETS);
+    expect(fromCsv).toEqual({
+      columnMapping: { UNIT_NAME: 'unit_name', DEPTH_FT: 'depth_m', NOTES: '', OBJECTID: null },
+      columnTransforms: { UNIT_NAME: '', DEPTH_FT: 'round(value * 0.3048, 2)' },
+      targetColumnValues: {},
+      errors: [],
+    });
+
+    const fromJson = importCrosswalk(exportCrosswalk(context(), 'json'), 'json', SOURCES, TARGETS);
+    expect(fromJson).toEqual({
+      columnMapping: { UNIT_NAME: 'unit_name', DEPTH_FT: 'depth_m', NOTES: '', OBJECTID: null },
+      columnTransforms: { DEPTH_FT: 'round(value * 0.3048, 2)' },
+      targetColumnValues: { source: { kind: 'constant', value: 'UGS, 2024 "field" survey' } },
+      errors: [],
+    });
+  });
+});
+
+describe('importCrosswalk', () => {
+  it('matches column names ignoring case and reads a multiline quoted transform', () => {
+    const result = importCsv([
+      'Source_Column,TARGET_COLUMN,transform',
+      'unit_name,UNIT_NAME,"coalesce(value,',
+      '  \'unknown\')"',
+    ]);
+    expect(result.errors).toEqual([]);
+    expect(result.columnMapping).toEqual({ UNIT_NAME: 'unit_name' });
+    expect(result.columnTransforms).toEqual({ UNIT_NAME: "coalesce(value,\n  'unknown')" });
+  });
+
+  it('reports unknown columns, duplicates and ignored columns with a target, and applies the other rows', () => {
+    const result = importCsv([
+      'source_column,target_column,ignore',
+      'UNIT_NAME,unit_name,',
+      'SHAPE_LEN,depth_m,',
+      'DEPTH_FT,depth_feet,',
+      'unit_name,source,',
+      'NOTES,source,yes',
+      'OBJECTID,,yes',
+    ]);
+    expect(result.errors).toEqual([
+      { location: 'Row 3', message: 'Unknown source column "SHAPE_LEN".' },
+      { location: 'Row 4', message: 'Unknown target column "depth_feet".' },
+      { location: 'Row 5', message: '"unit_name" is listed more than once (first in Row 2).' },
+      { location: 'Row 6', message: '"NOTES" is marked ignore but also has target column "source".' },
+    ]);
+    expect(result.columnMapping).toEqual({ UNIT_NAME: 'unit_name', OBJECTID: null });
+  });
+
+  it('refuses a transform without a target and an invalid transform', () => {
+    const result = importCsv([
+      'source_column,target_column,ignore,transform',
+      'NOTES,,yes,upper(value)',
+      'DEPTH_FT,depth_m,,value *',
+    ]);
+    expect(result.errors.map(error => error.location)).toEqual(['Row 2', 'Row 3']);
+    expect(result.errors[0].message).toBe('"NOTES" has a transform but no target column.');
+    expect(result.errors[1].message).toMatch(/^Transform: /);
+    expect(result.columnMapping).toEqual({});
+  });
+
+  it('rejects files without the required columns or structure', () => {
+    expect(importCsv(['source,target', 'A,b']).errors).toEqual([
+      { location: 'Row 1', message: 'The header must include source_column and target_column.' },
+    ]);
+    expect(importCrosswalk('{"mapping": {}}', 'json', SOURCES, TARGETS).errors).toEqual([
+      { location: 'File', message: 'Expected an object with a "columnMapping" object.' },
+    ]);
+    expect(importCrosswalk('{', 'json', SOURCES, TARGETS).errors[0]).toMatchObject({ location: 'File', message: expect.stringMatching(/^Not valid JSON/) });
+  });
+
+  it('checks JSON mapping entries and target column values', () => {
+    const result = importCrosswalk(JSON.stringify({
+      columnMapping: { UNIT_NAME: 'unit_name', DEPTH_FT: 42 },
+      targetColumnValues: {
+        source: { kind: 'expression', value: "'UGS'" },
+        depth_feet: { kind: 'constant', value: '1' },
+        unit_name: { kind: 'lookup', value: 'x' },
+      },
+    }), 'json', SOURCES, TARGETS);
+
+    expect(result.errors).toEqual([
+      { location: 'columnMapping["DEPTH_FT"]', message: 'Must be a target column name, "" or null (ignore).' },
+      { location: 'targetColumnValues["depth_feet"]', message: 'Unknown target column "depth_feet".' },
+      { location: 'targetColumnValues["unit_name"]', message: 'Must be { "kind": "constant" | "expression", "value": "..." }.' },
+    ]);
+    expect(result.columnMapping).toEqual({ UNIT_NAME: 'unit_name' });
+    expect(result.targetColumnValues).toEqual({ source: { kind: 'expression', value: "'UGS'" } });
+  });
+});
@@ -0,0 +1,270 @@
+// lib/mappingCrosswalk.ts
+// Export the column mapping to a crosswalk file (CSV or JSON) and import one
+// back, so large mappings can be prepared in a spreadsheet.
+//
+// CSV: one row per source column, then one per target column nothing is
+// mapped to (source_column left blank, for reference; ignored on import).
+//   source_column,target_column,ignore,transform,source_type,target_type,target_required
+// "ignore" is yes for source columns dropped from the load; "transform" is an
+// expression (lib/transformExpression.ts). Only source_column and
+// target_column are required on import.
+//
+// JSON: { format, version, targetTable, sourceLayer, sourceColumns,
+// targetColumns, columnMapping, columnTransforms, targetColumnValues }; only
+// columnMapping is required on import.
+//
+// Column names are matched ignoring case. Rows naming a source or target
+// column that does not exist are reported and skipped; the other rows apply.
+import type { ColumnInfo, ColumnMapping, ColumnTransforms, SourceField, TargetColumnValue } from '../types/uploadTypes';
+import { formatCsv, parseCsv } from './csv';
+import { validateTransform } from './transformExpression';
+
+export type CrosswalkFormat = 'csv' | 'json';
+
+export const CROSSWALK_FORMAT_ID = 'ugs-ingest-column-mapping';
+const CROSSWALK_VERSION = 1;
+
+const CSV_HEADER = ['source_column', 'target_column', 'ignore', 'transform', 'source_type', 'target_type', 'target_required'];
+const IGNORE_VALUES = new Set(['yes', 'y', 'true', '1', 'x', 'ignore', 'drop']);
+
+export interface CrosswalkContext {
+  targetTable: string;
+  sourceLayer: string;
+  sourceColumns: string[];
+  sourceFields: SourceField[];
+  targetColumns: ColumnInfo[];
+  columnMapping: ColumnMapping;
+  columnTransforms: ColumnTransforms;
+  targetColumnValues: Record<string, TargetColumnValue>;
+}
+
+export interface CrosswalkError {
+  location: string; // "Row 4" for CSV, 'columnMapping["name"]' for JSON
+  message: string;
+}
+
+export interface CrosswalkImport {
+  // Entries to merge into the mapping; '' clears a source column's mapping
+  columnMapping: Record<string, string | null>;
+  // Transforms of the imported entries; '' removes one (a blank transform cell)
+  columnTransforms: ColumnTransforms;
+  targetColumnValues: Record<string, TargetColumnValue>;
+  errors: CrosswalkError[];
+}
+
+interface CrosswalkEntry {
+  location: string;
+  source: string;
+  target: string;
+  ignore: boolean;
+  transform?: string; // absent when the file has no transform for the entry
+}
+
+// ==========================================
+// Export
+// ==========================================
+
+export const exportCrosswalk = (context: CrosswalkContext, format: CrosswalkFormat): string => {
+  const { sourceColumns, sourceFields, targetColumns, columnMapping, columnTransforms, targetColumnValues } = context;
+
+  if (format === 'json') {
+    return JSON.stringify({
+      format: CROSSWALK_FORMAT_ID,
+      version: CROSSWALK_VERSION,
+      targetTable: context.targetTable,
+      sourceLayer: context.sourceLayer,
+      sourceColumns,
+      targetColumns: targetColumns.map(({ name, dataType, isNullable }) => ({ name, dataType, isNullable })),
+      columnMapping: Object.fromEntries(sourceColumns.map(column =>
+        [column, columnMapping[column] === null ? null : columnMapping[column] || ''])),
+      columnTransforms,
+      targetColumnValues,
+    }, null, 2);
+  }
+
+  const targetsByName = new Map(targetColumns.map(column => [column.name, column]));
+  const rows = [CSV_HEADER];
+  for (const source of sourceColumns) {
+    const target = columnMapping[source];
+    const targetInfo = target ? targetsByName.get(target) : undefined;
+    rows.push([
+      source,
+      target || '',
+      target === null ? 'yes' : '',
+      columnTransforms[source] || '',
+      sourceFields.find(field => field.name === source)?.nativeType || '',
+      targetInfo?.dataType || '',
+      targetInfo ? (targetInfo.isNullable ? 'no' : 'yes') : '',
+    ]);
+  }
+  const mappedTargets = new Set(Object.values(columnMapping));
+  for (const column of targetColumns) {
+    if (mappedTargets.has(column.name)) continue;
+    rows.push(['', column.name, '', '', '', column.dataType, column.isNullable ? 'no' : 'yes']);
+  }
+  return formatCsv(rows);
+};
+
+export const crosswalkFilename = (targetTable: string, format: CrosswalkFormat): string =>
+  `${(targetTable || 'mapping').replace(/[^A-Za-z0-9_.-]+/g, '_')}_crosswalk.${format}`;
+
+// ==========================================
+// Import
+// ==========================================
+
+const readCsvEntries = (text: string): { entries: CrosswalkEntry[]; errors: CrosswalkError[] } => {
+  const rows = parseCsv(text);
+  const header = (rows[0] || []).map(name => name.trim().toLowerCase());
+  const sourceIndex = header.indexOf('source_column');
+  const targetIndex = header.indexOf('target_column');
+  const ignoreIndex = header.indexOf('ignore');
+  const transformIndex = header.indexOf('transform');
+  if (sourceIndex === -1 || targetIndex === -1) {
+    return { entries: [], errors: [{ location: 'Row 1', message: 'The header must include source_column and target_column.' }] };
+  }
+
+  const entries: CrosswalkEntry[] = [];
+  rows.slice(1).forEach((row, index) => {
+    const source = (row[sourceIndex] || '').trim();
+    if (!source) return; // blank rows and target-only reference rows
+    entries.push({
+      location: `Row ${index + 2}`,
+      source,
+      target: (row[targetIndex] || '').trim(),
+      ignore: ignoreIndex !== -1 && IGNORE_VALUES.has((row[ignoreIndex] || '').trim().toLowerCase()),
+      transform: transformIndex !== -1 ? (row[transformIndex] || '').trim() : undefined,
+    });
+  });
+  return { entries, errors: [] };
+};
+
+const readJsonEntries = (text: string): {
+  entries: CrosswalkEntry[];
+  targetColumnValues: Record<string, unknown>;
+  errors: CrosswalkError[];
+} => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { entries: [], targetColumnValues: {}, errors: [{ location: 'File', message: `Not valid JSON: ${error instanceof Error ? error.message : error}` }] };
+  }
+
+  const mapping = (data as { columnMapping?: unknown })?.columnMapping;
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+    return { entries: [], targetColumnValues: {}, errors: [{ location: 'File', message: 'Expected an object with a "columnMapping" object.' }] };
+  }
+
+  const entries: CrosswalkEntry[] = [];
+  const errors: CrosswalkError[] = [];
+  for (const [source, target] of Object.entries(mapping)) {
+    const location = `columnMapping["${source}"]`;
+    if (target !== null && typeof target !== 'string') {
+      errors.push({ location, message: 'Must be a target column name, "" or null (ignore).' });
+      continue;
+    }
+    entries.push({ location, source, target: (target || '').trim(), ignore: target === null });
+  }
+
+  const transforms = (data as { columnTransforms?: unknown }).columnTransforms;
+  if (transforms && typeof transforms === 'object' && !Array.isArray(transforms)) {
+    for (const entry of entries) {
+      const transform = (transforms as Record<string, unknown>)[entry.source];
+      if (typeof transform === 'string') entry.transform = transform.trim();
+    }
+  }
+
+  const values = (data as { targetColumnValues?: unknown }).targetColumnValues;
+  return {
+    entries,
+    targetColumnValues: values && typeof values === 'object' && !Array.isArray(values) ? values as Record<string, unknown> : {},
+    errors,
+  };
+};
+
+/**
+ * Read a crosswalk file against the current source and target columns
+ */
+export const importCrosswalk = (
+  text: string,
+  format: CrosswalkFormat,
+  sourceColumns: string[],
+  targetColumns: ColumnInfo[]
+): CrosswalkImport => {
+  const sourcesByKey = new Map(sourceColumns.map(column => [column.toLowerCase(), column]));
+  const targetsByKey = new Map(targetColumns.map(column => [column.name.toLowerCase(), column.name]));
+
+  const parsed = format === 'json'
+    ? readJsonEntries(text)
+    : { ...readCsvEntries(text), targetColumnValues: {} as Record<string, unknown> };
+
+  const errors = [...parsed.errors];
+  const columnMapping: Record<string, string | null> = {};
+  const columnTransforms: ColumnTransforms = {};
+  const seen = new Map<string, string>();
+
+  for (const entry of parsed.entries) {
+    const source = sourcesByKey.get(entry.source.toLowerCase());
+    if (!source) {
+      errors.push({ location: entry.location, message: `Unknown source column "${entry.source}".` });
+      continue;
+    }
+    if (seen.has(source)) {
+      errors.push({ location: entry.location, message: `"${entry.source}" is listed more than once (first in ${seen.get(source)}).` });
+      continue;
+    }
+    seen.set(source, entry.location);
+
+    if (entry.transform) {
+      if (entry.ignore || !entry.target) {
+        errors.push({ location: entry.location, message: `"${entry.source}" has a transform but no target column.` });
+        continue;
+      }
+      const problem = validateTransform(entry.transform, sourceColumns, source);
+      if (problem) {
+        errors.push({ location: entry.location, message: `Transform: ${problem}` });
+        continue;
+      }
+    }
+
+    if (entry.ignore) {
+      if (entry.target) {
+        errors.push({ location: entry.location, message: `"${entry.source}" is marked ignore but also has target column "${entry.target}".` });
+        continue;
+      }
+      columnMapping[source] = null;
+    } else if (!entry.target) {
+      columnMapping[source] = '';
+    } else {
+      const target = targetsByKey.get(entry.target.toLowerCase());
+      if (!target) {
+        errors.push({ location: entry.location, message: `Unknown target column "${entry.target}".` });
+        continue;
+      }
+      columnMapping[source] = target;
+      if (entry.transform !== undefined) columnTransforms[source] = entry.transform;
+    }
+  }
+
+  const targetColumnValues: Record<string, TargetColumnValue> = {};
+  for (const [name, value] of Object.entries(parsed.targetColumnValues)) {
+    const location = `targetColumnValues["${name}"]`;
+    const target = targetsByKey.get(name.toLowerCase());
+    const candidate = value as Partial<TargetColumnValue> | null;
+    const expressionProblem = candidate?.kind === 'expression' && typeof candidate.value === 'string'
+      ? validateTransform(candidate.value, sourceColumns)
+      : null;
+    if (!target) {
+      errors.push({ location, message: `Unknown target column "${name}".` });
+    } else if (!candidate || (candidate.kind !== 'constant' && candidate.kind !== 'expression') ||
+      typeof candidate.value !== 'string' || !candidate.value) {
+      errors.push({ location, message: 'Must be { "kind": "constant" | "expression", "value": "..." }.' });
+    } else if (expressionProblem) {
+      errors.push({ location, message: `Expression: ${expressionProblem}` });
+    } else {
+      targetColumnValues[target] = { kind: candidate.kind, value: candidate.value };
+    }
+  }
+
+  return { columnMapping, columnTransforms, targetColumnValues, errors };
+};
@@ -0,0 +1,130 @@
+// lib/mappingTemplates.ts
+// Client for /api/mapping-templates and matching of saved templates against
+// the current upload.
+//
+// A template is offered when at least one of its entries applies. Source
+// column names are matched ignoring case (re-exported layers often change
+// case); entries whose source column is not in the upload, or whose target
+// column has left the table, are reported as stale rather than applied.
+import type { ColumnInfo, ColumnMapping, ColumnTransforms, TargetColumnValue } from '../types/uploadTypes';
+import type {
+  MappingTemplate,
+  MappingTemplateInput,
+  MappingTemplateMatch,
+  StaleTemplateEntry,
+} from '../types/mappingTemplateTypes';
+
+const TEMPLATES_URL = '/api/mapping-templates';
+
+const readError = async (response: Response): Promise<string> => {
+  try {
+    const data = await response.json();
+    return data.error || `HTTP ${response.status}`;
+  } catch {
+    return `HTTP ${response.status}`;
+  }
+};
+
+export const fetchMappingTemplates = async (targetTable: string): Promise<MappingTemplate[]> => {
+  const params = new URLSearchParams({ targetTable });
+  const response = await fetch(`${TEMPLATES_URL}?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const data = await response.json();
+  return data.templates as MappingTemplate[];
+};
+
+/**
+ * Save a template; one with the same name, table and source columns is replaced
+ */
+export const saveMappingTemplate = async (
+  input: MappingTemplateInput
+): Promise<{ template: MappingTemplate; replaced: boolean }> => {
+  const response = await fetch(TEMPLATES_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+  const data = await response.json();
+  return { template: data.template, replaced: data.replaced };
+};
+
+export const deleteMappingTemplate = async (id: string): Promise<void> => {
+  const response = await fetch(`${TEMPLATES_URL}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  if (!response.ok) {
+    throw new Error(await readError(response));
+  }
+};
+
+const columnSet = (columns: string[]): Set<string> =>
+  new Set(columns.map(column => column.toLowerCase()));
+
+export const matchMappingTemplate = (
+  template: MappingTemplate,
+  sourceColumns: string[],
+  targetColumns: ColumnInfo[]
+): MappingTemplateMatch => {
+  const sourcesByKey = new Map(sourceColumns.map(column => [column.toLowerCase(), column]));
+  const targetNames = new Set(targetColumns.map(column => column.name));
+  const columnMapping: ColumnMapping = {};
+  const targetColumnValues: Record<string, TargetColumnValue> = {};
+  const columnTransforms: ColumnTransforms = {};
+  const staleEntries: StaleTemplateEntry[] = [];
+
+  for (const [templateSource, targetColumn] of Object.entries(template.columnMapping)) {
+    const sourceColumn = sourcesByKey.get(templateSource.toLowerCase());
+    if (!sourceColumn) {
+      staleEntries.push({ sourceColumn: templateSource, targetColumn, reason: 'missing_source' });
+    } else if (targetColumn !== null && !targetNames.has(targetColumn)) {
+      staleEntries.push({ sourceColumn: templateSource, targetColumn, reason: 'missing_target' });
+    } else {
+      columnMapping[sourceColumn] = targetColumn;
+      const transform = template.columnTransforms?.[templateSource];
+      if (transform && targetColumn !== null) columnTransforms[sourceColumn] = transform;
+    }
+  }
+
+  for (const [targetColumn, value] of Object.entries(template.targetColumnValues || {})) {
+    if (targetNames.has(targetColumn)) {
+      targetColumnValues[targetColumn] = value;
+    } else {
+      staleEntries.push({ sourceColumn: null, targetColumn, reason: 'missing_target' });
+    }
+  }
+
+  const current = columnSet(sourceColumns);
+  const saved = columnSet(template.sourceColumns);
+
+  return {
+    template,
+    columnMapping,
+    targetColumnValues,
+    columnTransforms,
+    appliedCount: Object.keys(columnMapping).length,
+    sameColumns: current.size === saved.size && [...current].every(column => saved.has(column)),
+    staleEntries,
+    unmatchedSources: sourceColumns.filter(column => !(column in columnMapping)),
+  };
+};
+
+/**
+ * Templates with at least one applicable entry, best fit first: saved from the
+ * same columns, then most entries applied, then most recently updated
+ */
+export const rankMappingTemplates = (
+  templates: MappingTemplate[],
+  sourceColumns: string[],
+  targetColumns: ColumnInfo[]
+): MappingTemplateMatch[] =>
+  templates
+    .map(template => matchMappingTemplate(template, sourceColumns, targetColumns))
+    .filter(match => match.appliedCount > 0)
+    .sort((a, b) =>
+      Number(b.sameColumns) - Number(a.sameColumns) ||
+      b.appliedCount - a.appliedCount ||
+      b.template.updatedAt.localeCompare(a.template.updatedAt)
+    );
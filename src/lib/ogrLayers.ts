@@ -0,0 +1,91 @@
+// lib/ogrLayers.ts
+// Layers of an `ogrinfo -json` report as LayerInfo: the layer's attribute
+// fields (typed by fromOgrField), then its named geometry fields, with the
+// feature count, geometry type and SRID of the first geometry field.
+//
+// Also the single-file formats analyzed this way. ogrinfo turns each KML
+// folder into a layer, and each GPX feature kind (waypoints, routes, tracks
+// and their points) into a layer whether or not the file has any.
+import JSZip from 'jszip';
+import type { LayerInfo, SourceField } from '../types/uploadTypes';
+import { fromOgrField, geometryField } from './typeCompatibility';
+import { sridFromCoordinateSystem } from './tableDdl';
+
+/**
+ * extraFields are added when the layer has no field of the same name (ignoring
+ * case), e.g. geodatabase system columns ogrinfo does not always list
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const layerInfoFromOgr = (layer: any, extraFields: SourceField[] = []): LayerInfo => {
+  const fieldDetails: SourceField[] = [];
+  const names = new Set<string>();
+  const add = (field: SourceField) => {
+    if (!field.name || names.has(field.name.toUpperCase())) return;
+    names.add(field.name.toUpperCase());
+    fieldDetails.push(field);
+  };
+
+  for (const field of layer.fields || []) {
+    if (field.name) add(fromOgrField(field));
+  }
+  // Shapefile geometry fields have no name and are not listed as columns
+  for (const geomField of layer.geometryFields || []) {
+    if (geomField.name) add(geometryField(geomField.name, geomField.type));
+  }
+  extraFields.forEach(add);
+
+  return {
+    name: layer.name,
+    fields: fieldDetails.map(field => field.name),
+    fieldDetails,
+    featureCount: layer.featureCount ?? 'Unknown',
+    geometryType: layer.geometryFields?.[0]?.type || 'Unknown',
+    srid: sridFromCoordinateSystem(layer.geometryFields?.[0]?.coordinateSystem),
+  };
+};
+
+/**
+ * Every layer in an ogrinfo -json report; throws on output that is not JSON
+ */
+export const layersFromOgrinfo = (stdout: string): LayerInfo[] => {
+  const report = JSON.parse(stdout);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return (report.layers || []).map((layer: any) => layerInfoFromOgr(layer));
+};
+
+/**
+ * Layers with features, or every layer when all are empty
+ */
+export const withoutEmptyLayers = (layers: LayerInfo[]): LayerInfo[] => {
+  const populated = layers.filter(layer => layer.featureCount !== 0);
+  return populated.length > 0 ? populated : layers;
+};
+
+export interface LayeredDatasetFormat {
+  sourceFormat: string; // as shown to the user and recorded in gdalAnalysis
+  extensions: string[];
+}
+
+// In the order analyzeFileColumns looks for them
+export const LAYERED_DATASET_FORMATS: LayeredDatasetFormat[] = [
+  { sourceFormat: 'GeoPackage', extensions: ['.gpkg'] },
+  { sourceFormat: 'GeoJSON', extensions: ['.geojson'] },
+  { sourceFormat: 'KML', extensions: ['.kml', '.kmz'] },
+  { sourceFormat: 'GPX', extensions: ['.gpx'] },
+];
+
+export const isDatasetOfFormat = (fileName: string, format: LayeredDatasetFormat): boolean =>
+  format.extensions.some(extension => fileName.toLowerCase().endsWith(extension));
+
+/**
+ * Path of the KML document inside a KMZ: doc.kml at the root by convention,
+ * otherwise the least nested .kml; null when there is none
+ */
+export const findKmzDocument = async (kmz: Blob): Promise<string | null> => {
+  const zip = await JSZip.loadAsync(kmz);
+  const documents = Object.values(zip.files)
+    .filter(entry => !entry.dir && entry.name.toLowerCase().endsWith('.kml'))
+    .map(entry => entry.name)
+    .sort((a, b) => a.split('/').length - b.split('/').length);
+  return documents.find(name => name.toLowerCase() === 'doc.kml') || documents[0] || null;
+};
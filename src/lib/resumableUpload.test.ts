@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getPendingUpload, uploadResumable } from './resumableUpload';
+
+const SESSION_URL = 'https://storage.test/upload?upload_id=1';
+
+const sha256Hex = async (data: BlobPart) => {
+  const digest = await crypto.subtle.digest('SHA-256', await new Blob([data]).arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Answers every chunk PUT with 200, as GCS does for the final chunk
+class FinalChunkXhr {
+  static sent: string[] = [];
+  status = 200;
+  statusText = 'OK';
+  responseText = '';
+  upload: { onprogress?: (e: { loaded: number }) => void } = {};
+  onload?: () => void;
+  url = '';
+  open(_method: string, url: string) { this.url = url; }
+  setRequestHeader() {}
+  getResponseHeader() { return null; }
+  send() {
+    FinalChunkXhr.sent.push(this.url);
+    setTimeout(() => this.onload?.());
+  }
+}
+
+const storeCompletedSession = async (content: string, metadataJson?: string) => {
+  localStorage.setItem('ugs-ingest:resumable-upload:data.zip', JSON.stringify({
+    filename: 'data.zip',
+    sessionUrl: SESSION_URL,
+    totalBytes: content.length,
+    bytesUploaded: content.length,
+    chunkHashes: [await sha256Hex(content)],
+    metadataJson,
+    createdAt: '2024-03-01T00:00:00.000Z',
+    updatedAt: '2024-03-01T00:00:00.000Z',
+  }));
+};
+
+describe('uploadResumable', () => {
+  beforeEach(() => {
+    const items = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+      removeItem: (key: string) => items.delete(key),
+    });
+    // The stored session reports that it already received every byte
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 200 })));
+    vi.stubGlobal('XMLHttpRequest', FinalChunkXhr);
+    FinalChunkXhr.sent = [];
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reuses a completed session that holds the same bytes', async () => {
+    await storeCompletedSession('zip bytes');
+    const createSession = vi.fn(async () => 'https://storage.test/upload?upload_id=2');
+
+    const result = await uploadResumable({ blob: new Blob(['zip bytes']), filename: 'data.zip', createSession });
+
+    expect(result).toEqual({ resumed: true, resumedFromByte: 9 });
+    expect(createSession).not.toHaveBeenCalled();
+    expect(localStorage.getItem('ugs-ingest:resumable-upload:data.zip')).toBeNull();
+  });
+
+  it('starts over when a completed session holds different bytes of the same size', async () => {
+    await storeCompletedSession('zip bytes');
+    const createSession = vi.fn(async () => 'https://storage.test/upload?upload_id=2');
+
+    const result = await uploadResumable({ blob: new Blob(['new bytes']), filename: 'data.zip', createSession });
+
+    expect(result).toEqual({ resumed: false, resumedFromByte: 0 });
+    expect(createSession).toHaveBeenCalledOnce();
+    expect(FinalChunkXhr.sent).toEqual(['https://storage.test/upload?upload_id=2']);
+  });
+
+  it('starts over when the stored session was started with a different metadata.json', async () => {
+    await storeCompletedSession('zip bytes', '{"submittedAt":"2024-03-01T00:00:00.000Z"}');
+    const createSession = vi.fn(async () => 'https://storage.test/upload?upload_id=2');
+
+    const result = await uploadResumable({
+      blob: new Blob(['zip bytes']),
+      filename: 'data.zip',
+      createSession,
+      metadataJson: '{"submittedAt":"2024-03-02T00:00:00.000Z"}',
+    });
+
+    expect(result).toEqual({ resumed: false, resumedFromByte: 0 });
+    expect(createSession).toHaveBeenCalledOnce();
+  });
+
+  it('keeps the metadata.json with a new session until the upload completes', async () => {
+    const storedWhileSending: (string | undefined)[] = [];
+    vi.stubGlobal('XMLHttpRequest', class extends FinalChunkXhr {
+      send() {
+        storedWhileSending.push(getPendingUpload('data.zip')?.metadataJson);
+        super.send();
+      }
+    });
+
+    await uploadResumable({
+      blob: new Blob(['zip bytes']),
+      filename: 'data.zip',
+      createSession: async () => SESSION_URL,
+      metadataJson: '{"manifestVersion":1}',
+    });
+
+    expect(storedWhileSending).toEqual(['{"manifestVersion":1}']);
+    expect(getPendingUpload('data.zip')).toBeNull();
+  });
+
+  it('removes its abort listeners after waiting to retry a failed chunk', async () => {
+    vi.useFakeTimers();
+    let attempts = 0;
+    vi.stubGlobal('XMLHttpRequest', class extends FinalChunkXhr {
+      send() {
+        if (++attempts === 1) this.status = 503;
+        super.send();
+      }
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { signal } = new AbortController();
+    const added = vi.spyOn(signal, 'addEventListener');
+    const removed = vi.spyOn(signal, 'removeEventListener');
+
+    try {
+      const upload = uploadResumable({ blob: new Blob(['zip bytes']), filename: 'data.zip', createSession: async () => SESSION_URL, signal });
+      await vi.runAllTimersAsync();
+      await upload;
+    } finally {
+      vi.useRealTimers();
+    }
+
+    // The status query after the 503 finds every byte stored, so the chunk is not sent again
+    expect(attempts).toBe(1);
+    expect(added.mock.calls.length).toBeGreaterThan(1);
+    expect(removed.mock.calls.map(([, listener]) => listener)).toEqual(added.mock.calls.map(([, listener]) => listener));
+  });
+});
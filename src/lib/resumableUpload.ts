@@ -0,0 +1,441 @@
+// lib/resumableUpload.ts
+// Chunked upload to a Google Cloud Storage resumable upload session.
+//
+// Protocol reference: https://cloud.google.com/storage/docs/performing-resumable-uploads
+// Each chunk is PUT to the session URI with a Content-Range header. GCS answers
+// 308 (Resume Incomplete) with a Range header describing the bytes it has
+// persisted, or 200/201 once the final byte has been received.
+//
+// Chunks are sent with XMLHttpRequest rather than fetch because only XHR exposes
+// upload progress events. Aborting the signal cancels the session with a DELETE,
+// which discards everything GCS has buffered; no object is created until the
+// final chunk is accepted.
+//
+// Progress is mirrored into localStorage so a reloaded tab can continue the same
+// session. Along with the committed offset we store a SHA-256 of every chunk we
+// sent; when resuming, the rebuilt zip must hash identically over the bytes GCS
+// already holds, otherwise a fresh session is started. The metadata.json a
+// session was started with is stored too: the server compares the finished zip
+// against the manifest it accepted for the session, so a resumed upload must
+// pack that same file.
+//
+// The caller's checksum headers (X-Goog-Hash) go on the final chunk only. GCS
+// checks them against the assembled object and refuses to finalize it if the
+// bytes differ, so a corrupted upload never replaces the stored object.
+
+// GCS requires every chunk except the last to be a multiple of 256 KiB
+export const CHUNK_SIZE = 32 * 256 * 1024; // 8 MiB
+
+const STORAGE_KEY_PREFIX = 'ugs-ingest:resumable-upload:';
+const MAX_RETRIES = 6;
+
+export interface ResumableUploadRecord {
+  filename: string;
+  sessionUrl: string;
+  totalBytes: number;
+  bytesUploaded: number;
+  chunkHashes: string[];
+  // metadata.json as sent to the upload function when the session was created
+  metadataJson?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ResumableUploadOptions {
+  blob: Blob;
+  filename: string;
+  // Asks the upload function for a new session URI
+  createSession: () => Promise<string>;
+  // The metadata.json packed into the blob; a stored session started with a
+  // different one is not reused
+  metadataJson?: string;
+  // Called as bytes leave the browser, including partially sent chunks
+  onProgress?: (bytesUploaded: number, totalBytes: number) => void;
+  // Sent with the request that carries the last byte, e.g. X-Goog-Hash
+  finalChunkHeaders?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+export interface ResumableUploadResult {
+  resumed: boolean;
+  resumedFromByte: number;
+}
+
+type SessionStatus =
+  | { state: 'complete' }
+  | { state: 'incomplete'; bytesUploaded: number }
+  | { state: 'expired' };
+
+// ==========================================
+// Persisted session records
+// ==========================================
+
+const storageKey = (filename: string) => `${STORAGE_KEY_PREFIX}${filename}`;
+
+const loadRecord = (filename: string): ResumableUploadRecord | null => {
+  try {
+    const raw = localStorage.getItem(storageKey(filename));
+    return raw ? (JSON.parse(raw) as ResumableUploadRecord) : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveRecord = (record: ResumableUploadRecord) => {
+  try {
+    localStorage.setItem(storageKey(record.filename), JSON.stringify({
+      ...record,
+      updatedAt: new Date().toISOString(),
+    }));
+  } catch (error) {
+    // Quota errors should not abort the upload itself
+    console.warn('Unable to persist upload progress:', error);
+  }
+};
+
+export const clearPendingUpload = (filename: string) => {
+  localStorage.removeItem(storageKey(filename));
+};
+
+/**
+ * The interrupted upload stored for a filename, if any
+ */
+export const getPendingUpload = (filename: string): ResumableUploadRecord | null => loadRecord(filename);
+
+/**
+ * List uploads that were interrupted before GCS confirmed the final chunk
+ */
+export const getPendingUploads = (): ResumableUploadRecord[] => {
+  const records: ResumableUploadRecord[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(STORAGE_KEY_PREFIX)) {
+      const record = loadRecord(key.substring(STORAGE_KEY_PREFIX.length));
+      if (record) records.push(record);
+    }
+  }
+  return records.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+// ==========================================
+// Session protocol helpers
+// ==========================================
+
+const sha256Hex = async (data: ArrayBuffer): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// Parses "bytes=0-1048575" into the number of persisted bytes
+const parseRangeHeader = (range: string | null): number => {
+  if (!range) return 0;
+  const match = /bytes=0-(\d+)/.exec(range);
+  return match ? parseInt(match[1], 10) + 1 : 0;
+};
+
+const querySessionStatus = async (sessionUrl: string, totalBytes: number, signal?: AbortSignal): Promise<SessionStatus> => {
+  const response = await fetch(sessionUrl, {
+    method: 'PUT',
+    headers: { 'Content-Range': `bytes */${totalBytes}` },
+    signal,
+  });
+
+  if (response.status === 200 || response.status === 201) {
+    return { state: 'complete' };
+  }
+  if (response.status === 308) {
+    return { state: 'incomplete', bytesUploaded: parseRangeHeader(response.headers.get('Range')) };
+  }
+  if (response.status === 404 || response.status === 410) {
+    return { state: 'expired' };
+  }
+  throw new Error(`Unexpected session status response: ${response.status} ${response.statusText}`);
+};
+
+interface ChunkResponse {
+  status: number;
+  statusText: string;
+  range: string | null;
+  responseText: string;
+}
+
+const abortError = () => new DOMException('Upload cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Raised when stored bytes differ from what the browser sent; retrying the same session cannot fix it
+export class ChecksumMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChecksumMismatchError';
+  }
+}
+
+const putChunk = (
+  sessionUrl: string,
+  body: ArrayBuffer,
+  contentRange: string,
+  extraHeaders: Record<string, string>,
+  onBytesSent: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<ChunkResponse> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+
+    xhr.open('PUT', sessionUrl);
+    xhr.setRequestHeader('Content-Range', contentRange);
+    for (const [name, value] of Object.entries(extraHeaders)) {
+      xhr.setRequestHeader(name, value);
+    }
+    xhr.upload.onprogress = (e) => onBytesSent(e.loaded);
+    xhr.onload = () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve({
+        status: xhr.status,
+        statusText: xhr.statusText,
+        range: xhr.getResponseHeader('Range'),
+        responseText: xhr.responseText,
+      });
+    };
+    xhr.onerror = () => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(new TypeError('Network error while uploading chunk'));
+    };
+    xhr.onabort = () => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(abortError());
+    };
+
+    signal?.addEventListener('abort', onAbort);
+    xhr.send(body);
+  });
+};
+
+/**
+ * Cancel a resumable session so GCS drops the bytes it has buffered.
+ * GCS answers a successful cancellation with HTTP 499.
+ */
+export const cancelResumableSession = async (sessionUrl: string): Promise<void> => {
+  try {
+    await fetch(sessionUrl, { method: 'DELETE' });
+  } catch (error) {
+    // Unfinished sessions also expire on their own after a week
+    console.warn('Failed to cancel upload session:', error);
+  }
+};
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Check that the bytes GCS already holds for a stored session match the blob we
+ * are about to upload. Only chunks that overlap the committed range are hashed.
+ */
+const matchesUploadedPrefix = async (blob: Blob, record: ResumableUploadRecord, bytesUploaded: number): Promise<boolean> => {
+  if (record.totalBytes !== blob.size) return false;
+
+  const chunksToVerify = Math.ceil(bytesUploaded / CHUNK_SIZE);
+  if (record.chunkHashes.length < chunksToVerify) return false;
+
+  for (let index = 0; index < chunksToVerify; index++) {
+    const start = index * CHUNK_SIZE;
+    const chunk = await blob.slice(start, Math.min(start + CHUNK_SIZE, blob.size)).arrayBuffer();
+    if (await sha256Hex(chunk) !== record.chunkHashes[index]) {
+      return false;
+    }
+  }
+  return true;
+};
+
+// ==========================================
+// Upload entry point
+// ==========================================
+
+/**
+ * Upload a blob through a resumable session, continuing a stored session for the
+ * same filename when the blob matches what was previously sent.
+ */
+export const uploadResumable = async ({
+  blob,
+  filename,
+  createSession,
+  metadataJson,
+  onProgress,
+  finalChunkHeaders = {},
+  signal,
+}: ResumableUploadOptions): Promise<ResumableUploadResult> => {
+  const totalBytes = blob.size;
+  let record: ResumableUploadRecord | null = null;
+  let offset = 0;
+  let resumed = false;
+
+  // Try to pick up a session left behind by an earlier attempt
+  const stored = loadRecord(filename);
+  if (stored && stored.metadataJson !== metadataJson) {
+    console.log(`Stored session for ${filename} was started with a different metadata.json, starting over`);
+  } else if (stored) {
+    try {
+      const status = await querySessionStatus(stored.sessionUrl, stored.totalBytes, signal);
+      // A finished session only counts when every chunk it holds hashes the same as this blob
+      if (status.state === 'complete' && await matchesUploadedPrefix(blob, stored, totalBytes)) {
+        console.log(`Stored session for ${filename} is already complete`);
+        clearPendingUpload(filename);
+        return { resumed: true, resumedFromByte: totalBytes };
+      }
+      if (status.state === 'incomplete' && await matchesUploadedPrefix(blob, stored, status.bytesUploaded)) {
+        record = stored;
+        offset = status.bytesUploaded;
+        resumed = true;
+        console.log(`Resuming ${filename} from byte ${offset} of ${totalBytes}`);
+      } else {
+        console.log(`Stored session for ${filename} cannot be reused (${status.state}), starting over`);
+      }
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn('Could not query stored upload session, starting over:', error);
+    }
+  }
+
+  if (!record) {
+    clearPendingUpload(filename);
+    const now = new Date().toISOString();
+    record = {
+      filename,
+      sessionUrl: await createSession(),
+      totalBytes,
+      bytesUploaded: 0,
+      chunkHashes: [],
+      metadataJson,
+      createdAt: now,
+      updatedAt: now,
+    };
+    saveRecord(record);
+  }
+
+  const resumedFromByte = offset;
+  onProgress?.(offset, totalBytes);
+
+  try {
+    offset = await uploadChunks(blob, record, offset, finalChunkHeaders, onProgress, signal);
+  } catch (error) {
+    if (isAbortError(error)) {
+      await cancelResumableSession(record.sessionUrl);
+      clearPendingUpload(filename);
+    }
+    throw error;
+  }
+
+  clearPendingUpload(filename);
+  return { resumed, resumedFromByte };
+};
+
+const uploadChunks = async (
+  blob: Blob,
+  record: ResumableUploadRecord,
+  startOffset: number,
+  finalChunkHeaders: Record<string, string>,
+  onProgress?: (bytesUploaded: number, totalBytes: number) => void,
+  signal?: AbortSignal
+): Promise<number> => {
+  const totalBytes = blob.size;
+  let offset = startOffset;
+  let retries = 0;
+
+  while (offset < totalBytes) {
+    if (signal?.aborted) throw abortError();
+
+    const chunkIndex = Math.floor(offset / CHUNK_SIZE);
+    const chunkStart = chunkIndex * CHUNK_SIZE;
+    const chunkEnd = Math.min(chunkStart + CHUNK_SIZE, totalBytes);
+
+    // GCS may have persisted only part of a chunk; always send from the committed offset
+    const chunkData = await blob.slice(chunkStart, chunkEnd).arrayBuffer();
+    if (!record.chunkHashes[chunkIndex]) {
+      record.chunkHashes[chunkIndex] = await sha256Hex(chunkData);
+    }
+    const body = chunkData.slice(offset - chunkStart);
+
+    const chunkOffset = offset;
+    let response: ChunkResponse;
+    try {
+      response = await putChunk(
+        record.sessionUrl,
+        body,
+        `bytes ${offset}-${chunkEnd - 1}/${totalBytes}`,
+        chunkEnd === totalBytes ? finalChunkHeaders : {},
+        (loaded) => onProgress?.(chunkOffset + loaded, totalBytes),
+        signal
+      );
+    } catch (networkError) {
+      if (isAbortError(networkError) || ++retries > MAX_RETRIES) throw networkError;
+      console.warn(`Chunk upload failed (attempt ${retries}/${MAX_RETRIES}), re-syncing with session...`, networkError);
+      await wait(Math.min(1000 * 2 ** retries, 30000), signal);
+      offset = await resyncOffset(record, totalBytes, offset, signal);
+      continue;
+    }
+
+    if (response.status === 308) {
+      offset = parseRangeHeader(response.range);
+      retries = 0;
+    } else if (response.status === 200 || response.status === 201) {
+      offset = totalBytes;
+    } else if (isRetryableStatus(response.status) && retries < MAX_RETRIES) {
+      retries++;
+      console.warn(`Chunk upload returned ${response.status} (attempt ${retries}/${MAX_RETRIES}), retrying...`);
+      await wait(Math.min(1000 * 2 ** retries, 30000), signal);
+      offset = await resyncOffset(record, totalBytes, offset, signal);
+      continue;
+    } else {
+      if (response.status === 404 || response.status === 410) {
+        clearPendingUpload(record.filename);
+      }
+      if (response.status === 400 && /crc32c|md5|hash/i.test(response.responseText)) {
+        // The session cannot be finalized with different bytes; start fresh next time
+        clearPendingUpload(record.filename);
+        throw new ChecksumMismatchError(`Cloud Storage rejected the upload because its checksum did not match: ${response.responseText.trim()}`);
+      }
+      throw new Error(`Upload to Cloud Storage failed: ${response.status} ${response.statusText}`);
+    }
+
+    record.bytesUploaded = offset;
+    saveRecord(record);
+    onProgress?.(offset, totalBytes);
+  }
+
+  return offset;
+};
+
+// After a failed chunk, ask GCS how much it actually kept
+const resyncOffset = async (record: ResumableUploadRecord, totalBytes: number, fallback: number, signal?: AbortSignal): Promise<number> => {
+  try {
+    const status = await querySessionStatus(record.sessionUrl, totalBytes, signal);
+    if (status.state === 'complete') return totalBytes;
+    if (status.state === 'incomplete') return status.bytesUploaded;
+    clearPendingUpload(record.filename);
+    throw new Error('Upload session expired. Please start the upload again.');
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    if (error instanceof Error && error.message.startsWith('Upload session expired')) throw error;
+    return fallback;
+  }
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { ColumnInfo, SourceField } from '../types/uploadTypes';
+import { buildSchemaDriftReport, schemaVersionFor, type SchemaDriftInput } from './schemaDrift';
+import { fromDbfDescriptor, fromOgrField } from './typeCompatibility';
+
+const column = (name: string, format: string, isNullable = true, defaultValue: string | null = null): ColumnInfo => ({
+  name,
+  dataType: 'string',
+  isNullable,
+  defaultValue,
+  position: 1,
+  format,
+});
+
+const input = (overrides: Partial<SchemaDriftInput> = {}): SchemaDriftInput => ({
+  targetTable: 'hazards.landslides',
+  sourceLayer: 'landslides',
+  sourceColumns: ['UNIT_NAME', 'DEPTH_FT'],
+  sourceFields: [fromDbfDescriptor('UNIT_NAME', 'C', 40, 0), fromDbfDescriptor('DEPTH_FT', 'N', 8, 2)],
+  targetColumns: [column('unit_name', 'text'), column('depth_ft', 'numeric')],
+  columnMapping: {},
+  ...overrides,
+});
+
+describe('buildSchemaDriftReport', () => {
+  it('reports no drift when every column pairs by name with a matching type', () => {
+    const report = buildSchemaDriftReport(input());
+    expect(report).toEqual({
+      targetTable: 'hazards.landslides',
+      sourceLayer: 'landslides',
+      addedColumns: [],
+      removedColumns: [],
+      renamedColumns: [],
+      typeChanges: [],
+      nullabilityChanges: [],
+      hasDrift: false,
+    });
+    expect(schemaVersionFor(report)).toBe('v1');
+    expect(schemaVersionFor(null)).toBe('v1');
+  });
+
+  it('lists added, removed, mapped and candidate renamed columns', () => {
+    const report = buildSchemaDriftReport(input({
+      sourceColumns: ['UNIT_NAME', 'DEPTH', 'GEOLOGIC_U', 'OBJECTID'],
+      sourceFields: [fromDbfDescriptor('GEOLOGIC_U', 'C', 10, 0), fromDbfDescriptor('OBJECTID', 'N', 9, 0)],
+      targetColumns: [
+        column('unit_name', 'text'),
+        column('depth_ft', 'numeric'),
+        column('geologic_unit_name', 'text', false),
+        column('created_at', 'timestamp with time zone', false, 'now()'),
+      ],
+      columnMapping: { DEPTH: 'depth_ft', OBJECTID: null },
+    }));
+
+    expect(report.renamedColumns).toEqual([
+      { sourceColumn: 'DEPTH', targetColumn: 'depth_ft', confirmed: true, confidence: null, reason: 'mapped' },
+      { sourceColumn: 'GEOLOGIC_U', targetColumn: 'geologic_unit_name', confirmed: false, confidence: 0.9, reason: 'shapefile-truncated name' },
+    ]);
+    // A candidate stays added/removed until it is mapped
+    expect(report.addedColumns).toEqual([
+      { name: 'GEOLOGIC_U', sourceType: 'C(10)', dropped: false },
+      { name: 'OBJECTID', sourceType: 'N(9)', dropped: true },
+    ]);
+    expect(report.removedColumns).toEqual([
+      { name: 'geologic_unit_name', targetType: 'text', required: true },
+      { name: 'created_at', targetType: 'timestamp with time zone', required: false },
+    ]);
+    expect(report.hasDrift).toBe(true);
+    expect(schemaVersionFor(report)).toBe('v2');
+  });
+
+  it('does not pair by name with a target another column is mapped to', () => {
+    const report = buildSchemaDriftReport(input({ columnMapping: { DEPTH_FT: 'unit_name' } }));
+    expect(report.addedColumns.map(added => added.name)).toEqual(['UNIT_NAME']);
+    expect(report.removedColumns.map(removed => removed.name)).toEqual(['depth_ft']);
+  });
+
+  it('reports type and nullability changes of paired columns', () => {
+    const sourceFields: SourceField[] = [
+      { ...fromOgrField({ name: 'UNIT_NAME', type: 'Integer' }), nullable: true },
+      fromOgrField({ name: 'DEPTH_FT', type: 'Date', nullable: false }),
+    ];
+    const report = buildSchemaDriftReport(input({
+      sourceFields,
+      targetColumns: [column('unit_name', 'text', false, "''"), column('depth_ft', 'numeric')],
+    }));
+
+    expect(report.typeChanges).toEqual([
+      { sourceColumn: 'UNIT_NAME', targetColumn: 'unit_name', sourceType: 'Integer', targetType: 'text', level: 'info', message: 'integer values are converted to text.' },
+      {
+        sourceColumn: 'DEPTH_FT',
+        targetColumn: 'depth_ft',
+        sourceType: 'Date',
+        targetType: 'numeric',
+        level: 'error',
+        message: 'Date values (Date) cannot be loaded into the numeric column.',
+      },
+    ]);
+    expect(report.nullabilityChanges).toEqual([
+      {
+        sourceColumn: 'UNIT_NAME',
+        targetColumn: 'unit_name',
+        sourceNullable: true,
+        targetNullable: false,
+        message: 'The source has empty values, but unit_name is NOT NULL (the default does not apply to loaded nulls).',
+      },
+      { sourceColumn: 'DEPTH_FT', targetColumn: 'depth_ft', sourceNullable: false, targetNullable: true, message: 'The source declares NOT NULL; depth_ft allows nulls.' },
+    ]);
+  });
+});
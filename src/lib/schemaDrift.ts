@@ -0,0 +1,166 @@
+// lib/schemaDrift.ts
+// Compares the source layer with the target table and reports how they differ.
+//
+// Source columns are paired with target columns through the column mapping;
+// columns the mapping does not cover yet are paired by name, ignoring case.
+// Paired columns with different names are confirmed renames. Among the
+// columns left unpaired, the column matcher proposes rename candidates; those
+// columns are still listed as added (source) and removed (target) until the
+// user maps them. Paired columns are checked for type and nullability changes.
+import type { ColumnInfo, ColumnMapping, SourceField } from '../types/uploadTypes';
+import type {
+  AddedColumn,
+  ColumnTypeChange,
+  NullabilityChange,
+  RemovedColumn,
+  RenamedColumn,
+  SchemaDriftReport,
+} from '../types/schemaDriftTypes';
+import { suggestColumnMappings } from './columnMatcher';
+import type { MatchReason } from './columnMatcher';
+import { checkTypeCompatibility, targetFieldKind } from './typeCompatibility';
+import { isRequiredTargetColumn } from './columnCoverage';
+
+export interface SchemaDriftInput {
+  targetTable: string;
+  sourceLayer: string;
+  sourceColumns: string[];
+  sourceFields: SourceField[]; // may be empty when types are unknown
+  targetColumns: ColumnInfo[];
+  columnMapping: ColumnMapping;
+  synonyms?: string[][];
+}
+
+const renameReasons: Record<MatchReason, string> = {
+  exact: 'same name',
+  normalized: 'same name ignoring case and separators',
+  truncated: 'shapefile-truncated name',
+  synonym: 'known synonym',
+  similar: 'similar spelling',
+};
+
+const pairColumns = (
+  sourceColumns: string[],
+  targetColumns: ColumnInfo[],
+  columnMapping: ColumnMapping
+): Map<string, ColumnInfo> => {
+  const targetsByName = new Map(targetColumns.map(column => [column.name, column]));
+  const targetsByKey = new Map(targetColumns.map(column => [column.name.toLowerCase(), column]));
+  const mappedTargets = new Set(Object.values(columnMapping).filter(Boolean));
+  const pairs = new Map<string, ColumnInfo>();
+
+  for (const source of sourceColumns) {
+    const mapped = columnMapping[source];
+    if (mapped === null) continue;
+    const target = mapped
+      ? targetsByName.get(mapped)
+      : targetsByKey.get(source.toLowerCase());
+    // A same-named target the user mapped another column to is taken
+    if (target && (mapped || !mappedTargets.has(target.name))) pairs.set(source, target);
+  }
+  return pairs;
+};
+
+const checkTypeChange = (source: SourceField | undefined, target: ColumnInfo): Omit<ColumnTypeChange, 'sourceColumn' | 'targetColumn'> | null => {
+  if (!source || source.kind === 'unknown') return null;
+  const targetKind = targetFieldKind(target);
+  if (targetKind === 'unknown') return null;
+
+  const issue = checkTypeCompatibility(source, target);
+  if (!issue && source.kind === targetKind) return null;
+  return {
+    sourceType: source.nativeType === 'inferred' ? `${source.kind} (inferred)` : source.nativeType,
+    targetType: target.format || target.dataType,
+    level: issue?.level || 'info',
+    message: issue?.message || `${source.kind} values are converted to ${target.format || target.dataType}.`,
+  };
+};
+
+const checkNullabilityChange = (source: SourceField | undefined, target: ColumnInfo): Omit<NullabilityChange, 'sourceColumn' | 'targetColumn'> | null => {
+  if (source?.nullable === undefined || source.nullable === target.isNullable) return null;
+  return {
+    sourceNullable: source.nullable,
+    targetNullable: target.isNullable,
+    message: source.nullable
+      ? `The source has empty values, but ${target.name} is NOT NULL${target.defaultValue !== null ? ' (the default does not apply to loaded nulls)' : ''}.`
+      : `The source declares NOT NULL; ${target.name} allows nulls.`,
+  };
+};
+
+export const buildSchemaDriftReport = ({
+  targetTable,
+  sourceLayer,
+  sourceColumns,
+  sourceFields,
+  targetColumns,
+  columnMapping,
+  synonyms = [],
+}: SchemaDriftInput): SchemaDriftReport => {
+  const fieldFor = (column: string) => sourceFields.find(field => field.name === column);
+  const pairs = pairColumns(sourceColumns, targetColumns, columnMapping);
+  const pairedTargets = new Set([...pairs.values()].map(column => column.name));
+
+  const renamedColumns: RenamedColumn[] = [];
+  const typeChanges: ColumnTypeChange[] = [];
+  const nullabilityChanges: NullabilityChange[] = [];
+  for (const [sourceColumn, target] of pairs) {
+    if (sourceColumn.toLowerCase() !== target.name.toLowerCase()) {
+      renamedColumns.push({ sourceColumn, targetColumn: target.name, confirmed: true, confidence: null, reason: 'mapped' });
+    }
+    const typeChange = checkTypeChange(fieldFor(sourceColumn), target);
+    if (typeChange) typeChanges.push({ sourceColumn, targetColumn: target.name, ...typeChange });
+    const nullabilityChange = checkNullabilityChange(fieldFor(sourceColumn), target);
+    if (nullabilityChange) nullabilityChanges.push({ sourceColumn, targetColumn: target.name, ...nullabilityChange });
+  }
+
+  const addedColumns: AddedColumn[] = sourceColumns
+    .filter(column => !pairs.has(column))
+    .map(column => {
+      const field = fieldFor(column);
+      return {
+        name: column,
+        sourceType: field && field.kind !== 'unknown' ? field.nativeType : null,
+        dropped: columnMapping[column] === null,
+      };
+    });
+  const removedColumns: RemovedColumn[] = targetColumns
+    .filter(column => !pairedTargets.has(column.name))
+    .map(column => ({ name: column.name, targetType: column.format || column.dataType, required: isRequiredTargetColumn(column) }));
+
+  // Rename candidates among the unpaired, non-dropped columns
+  const settled: ColumnMapping = {};
+  for (const column of sourceColumns) {
+    const target = pairs.get(column);
+    if (target) settled[column] = target.name;
+    else if (columnMapping[column] === null) settled[column] = null;
+  }
+  for (const suggestion of suggestColumnMappings(sourceColumns, removedColumns.map(column => column.name), synonyms, settled)) {
+    renamedColumns.push({
+      sourceColumn: suggestion.sourceColumn,
+      targetColumn: suggestion.targetColumn,
+      confirmed: false,
+      confidence: suggestion.confidence,
+      reason: renameReasons[suggestion.reason],
+    });
+  }
+
+  return {
+    targetTable,
+    sourceLayer,
+    addedColumns,
+    removedColumns,
+    renamedColumns,
+    typeChanges,
+    nullabilityChanges,
+    hasDrift: addedColumns.length + removedColumns.length + renamedColumns.length +
+      typeChanges.length + nullabilityChanges.length > 0,
+  };
+};
+
+/**
+ * Version label for the manifest's tableSchemaVersion. The uploader cannot read
+ * the version recorded for the table, so it reports "v2" whenever the source
+ * differs from the table and "v1" otherwise; the drift report says why.
+ */
+export const schemaVersionFor = (report: SchemaDriftReport | null): string =>
+  report?.hasDrift ? 'v2' : 'v1';
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { Sha256 } from './sha256';
+
+const text = (value: string) => new TextEncoder().encode(value);
+const digest = (...chunks: Uint8Array[]) => chunks.reduce((hash, chunk) => hash.update(chunk), new Sha256()).digestHex();
+
+describe('Sha256', () => {
+  it('matches the FIPS 180-4 test vectors', () => {
+    expect(digest()).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(digest(text('abc'))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(digest(text('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')))
+      .toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+  });
+
+  it('pads messages that end at or past the length field of a block', () => {
+    // 55 bytes fits the padding in one block; 56 and 64 need a second
+    expect(digest(new Uint8Array(55))).toBe('02779466cdec163811d078815c633f21901413081449002f24aa3e80f0b88ef7');
+    expect(digest(new Uint8Array(56))).toBe('d4817aa5497628e7c77e6b606107042bbba3130888c5f47a375e6179be789fbb');
+    expect(digest(new Uint8Array(64))).toBe('f5a5fd42d16a20302798ef6ed309979b43003d2320d9f0e8ea9831a92759fb4b');
+  });
+
+  it('gives the same digest however the input is split', () => {
+    const data = text('The quick brown fox jumps over the lazy dog. '.repeat(20));
+    const whole = digest(data);
+    expect(whole).toBe(digest(data.subarray(0, 1), data.subarray(1, 63), data.subarray(63, 64), data.subarray(64)));
+    expect(whole).toBe(digest(...Array.from({ length: Math.ceil(data.length / 37) }, (_, i) => data.subarray(i * 37, (i + 1) * 37))));
+  });
+
+  it('refuses input after the digest is taken and keeps returning the digest', () => {
+    const hash = new Sha256().update(text('abc'));
+    const first = hash.digestHex();
+    expect(hash.digestHex()).toBe(first);
+    expect(() => hash.update(text('d'))).toThrow('SHA-256 digest already finalized');
+  });
+});
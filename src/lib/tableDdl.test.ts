@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { buildCreateTableDdl, isValidColumnType, validateTableDefinition } from './tableDdl';
+import type { TableDefinition } from '../types/tableDefinitionTypes';
+
+const definition = (type: string): TableDefinition => ({
+  tableName: 'wells',
+  columns: [
+    { sourceColumn: 'WELL_ID', name: 'well_id', type: 'integer', notNull: true, include: true },
+    { sourceColumn: 'DEPTH', name: 'depth', type, notNull: false, include: true },
+  ],
+  geometry: { sourceColumn: '', name: 'geom', geometryType: 'PointZ', srid: 26912 },
+});
+
+describe('isValidColumnType', () => {
+  it('accepts PostgreSQL type names with lengths, precisions and arrays', () => {
+    for (const type of ['integer', 'int8', 'varchar(255)', 'numeric(10, 2)', 'numeric(10,2)', 'double precision', 'timestamp with time zone', 'text[]', ' date ']) {
+      expect(isValidColumnType(type), type).toBe(true);
+    }
+  });
+
+  it('rejects anything that could change the statement', () => {
+    for (const type of ['int); DROP TABLE x; --', 'integer default 0', "text check (depth > '0')", 'numeric(10, 2, 3)', '"text"', 'int -- comment', '']) {
+      expect(isValidColumnType(type), type).toBe(false);
+    }
+  });
+});
+
+describe('validateTableDefinition', () => {
+  it('accepts a valid definition', () => {
+    expect(validateTableDefinition(definition('numeric(10, 2)'), 'well_id')).toEqual([]);
+  });
+
+  it('reports a column type that is not a type name', () => {
+    expect(validateTableDefinition(definition('int); DROP TABLE x; --'), 'well_id')).toEqual([{
+      level: 'error',
+      message: '"int); DROP TABLE x; --" is not a PostgreSQL type name; use e.g. integer, text, varchar(50) or numeric(10, 2).',
+      column: 'DEPTH',
+    }]);
+  });
+
+  it('reports a geometry type PostGIS does not know', () => {
+    const invalid = definition('real');
+    invalid.geometry = { ...invalid.geometry!, geometryType: 'Point, 0); DROP TABLE x; --' };
+    expect(validateTableDefinition(invalid, '').map(issue => issue.message)).toEqual([
+      '"Point, 0); DROP TABLE x; --" is not a PostGIS geometry type.',
+    ]);
+  });
+});
+
+describe('buildCreateTableDdl', () => {
+  it('quotes identifiers and adds the key and spatial index', () => {
+    expect(buildCreateTableDdl('water', definition('numeric(10, 2)'), 'well_id')).toBe(
+      'CREATE TABLE water.wells (\n' +
+      '  well_id integer NOT NULL,\n' +
+      '  depth numeric(10, 2),\n' +
+      '  geom geometry(PointZ, 26912),\n' +
+      '  CONSTRAINT wells_key UNIQUE (well_id)\n' +
+      ');\n\n' +
+      'CREATE INDEX wells_geom_idx ON water.wells USING GIST (geom);\n'
+    );
+  });
+});
@@ -0,0 +1,294 @@
+// lib/tableDdl.ts
+// Proposed CREATE TABLE for new_table loads, built from the source layer's
+// fields, and the checks the reviewed definition must pass.
+//
+// Source names are turned into lower-case unquoted identifiers; types follow
+// the source field kinds (DBF widths and decimals become varchar(n) and
+// numeric(p, s)). The geometry column is a PostGIS geometry with the layer's
+// SRID and gets a GiST index; the unique key becomes a UNIQUE constraint and
+// its columns NOT NULL.
+import type { SourceField } from '../types/uploadTypes';
+import type {
+  GeometryColumnDefinition,
+  TableColumnDefinition,
+  TableDefinition,
+  TableDefinitionIssue,
+} from '../types/tableDefinitionTypes';
+
+// PostgreSQL truncates longer identifiers (NAMEDATALEN - 1 bytes)
+export const MAX_IDENTIFIER_BYTES = 63;
+
+export const GEOMETRY_TYPES = [
+  'Geometry',
+  'Point',
+  'LineString',
+  'Polygon',
+  'MultiPoint',
+  'MultiLineString',
+  'MultiPolygon',
+  'GeometryCollection',
+];
+
+// A type name of words (varchar, double precision, timestamp with time zone,
+// int8), an optional (length) or (precision, scale) and an optional [] for
+// arrays. Types are pasted into the DDL unquoted, so nothing else is accepted.
+const COLUMN_TYPE_PATTERN = /^[a-z][a-z0-9_]*( [a-z][a-z0-9_]*)*( ?\(\d+(, ?\d+)?\))?(\[\])?$/i;
+
+export const isValidColumnType = (type: string): boolean => COLUMN_TYPE_PATTERN.test(type.trim());
+
+// Reserved key words of PostgreSQL, including those allowed as function or type names;
+// none of them can be a column or table name without quoting
+const RESERVED_WORDS = new Set([
+  'all', 'analyse', 'analyze', 'and', 'any', 'array', 'as', 'asc', 'asymmetric', 'authorization',
+  'binary', 'both', 'case', 'cast', 'check', 'collate', 'collation', 'column', 'concurrently',
+  'constraint', 'create', 'cross', 'current_catalog', 'current_date', 'current_role',
+  'current_schema', 'current_time', 'current_timestamp', 'current_user', 'default', 'deferrable',
+  'desc', 'distinct', 'do', 'else', 'end', 'except', 'false', 'fetch', 'for', 'foreign', 'freeze',
+  'from', 'full', 'grant', 'group', 'having', 'ilike', 'in', 'initially', 'inner', 'intersect',
+  'into', 'is', 'isnull', 'join', 'lateral', 'leading', 'left', 'like', 'limit', 'localtime',
+  'localtimestamp', 'natural', 'not', 'notnull', 'null', 'offset', 'on', 'only', 'or', 'order',
+  'outer', 'overlaps', 'placing', 'primary', 'references', 'returning', 'right', 'select',
+  'session_user', 'similar', 'some', 'symmetric', 'system_user', 'table', 'tablesample', 'then',
+  'to', 'trailing', 'true', 'union', 'unique', 'user', 'using', 'variadic', 'verbose', 'when',
+  'where', 'window', 'with',
+]);
+
+const PLAIN_IDENTIFIER = /^[a-z_][a-z0-9_$]*$/;
+
+const identifierBytes = (name: string): number => new TextEncoder().encode(name).length;
+
+export const isReservedWord = (name: string): boolean => RESERVED_WORDS.has(name.toLowerCase());
+
+// Quoted only when it has to be
+export const quoteIdentifier = (name: string): string =>
+  PLAIN_IDENTIFIER.test(name) && !isReservedWord(name) ? name : `"${name.replace(/"/g, '""')}"`;
+
+/**
+ * Lower-case, unquoted form of a source name: other characters become "_",
+ * a leading digit gets a "_" prefix, reserved words a "_col" suffix, and the
+ * result is cut to 63 bytes
+ */
+export const toPostgresIdentifier = (name: string): string => {
+  let identifier = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '_')
+    .replace(/_+/g, '_')
+    .replace(/^_(?=.)|(?<=.)_$/g, '');
+  if (!identifier || identifier === '_') identifier = 'column';
+  if (/^[0-9]/.test(identifier)) identifier = `_${identifier}`;
+  if (isReservedWord(identifier)) identifier = `${identifier}_col`;
+  return identifier.slice(0, MAX_IDENTIFIER_BYTES);
+};
+
+// ==========================================
+// Proposal
+// ==========================================
+
+const postgresType = (field: SourceField): string => {
+  switch (field.kind) {
+    case 'integer':
+      return field.nativeType.startsWith('Integer64') || (field.width ?? 0) > 9 ? 'bigint' : 'integer';
+    case 'real':
+      // DBF numbers carry a declared width and decimal count; keep them exact
+      return field.width && field.precision && field.nativeType !== 'inferred'
+        ? `numeric(${field.width}, ${field.precision})`
+        : 'double precision';
+    case 'text':
+      // Inferred widths are only the longest sample, not a declared limit
+      return field.width && field.nativeType !== 'inferred' ? `varchar(${field.width})` : 'text';
+    case 'date':
+      return 'date';
+    case 'datetime':
+      return 'timestamp';
+    case 'time':
+      return 'time';
+    case 'boolean':
+      return 'boolean';
+    case 'binary':
+      return 'bytea';
+    default:
+      return 'text';
+  }
+};
+
+/**
+ * PostGIS type name for an ogrinfo geometry type ("Multi Polygon", "3D Point",
+ * "Unknown (any)"). Single polygons and lines are promoted to multi types, as
+ * shapefiles and geodatabases mix both in one layer.
+ */
+export const postgisGeometryType = (ogrType: string | undefined): string => {
+  const compact = (ogrType || '').replace(/\s+/g, '').toLowerCase();
+  const is3d = compact.startsWith('3d');
+  const base = GEOMETRY_TYPES.find(type => compact.replace(/^3d/, '') === type.toLowerCase()) || 'Geometry';
+  const promoted = base === 'Polygon' || base === 'LineString' ? `Multi${base}` : base;
+  return is3d && promoted !== 'Geometry' ? `${promoted}Z` : promoted;
+};
+
+// EPSG code from an ogrinfo -json coordinateSystem (PROJJSON id or the WKT's last ID/AUTHORITY)
+export const sridFromCoordinateSystem = (coordinateSystem: unknown): number | null => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const cs = coordinateSystem as any;
+  const projjsonId = cs?.projjson?.id;
+  if (projjsonId?.authority === 'EPSG' && Number.isInteger(Number(projjsonId.code))) return Number(projjsonId.code);
+
+  const wkt: string = typeof cs === 'string' ? cs : cs?.wkt || '';
+  const ids = [...wkt.matchAll(/(?:ID|AUTHORITY)\["EPSG",\s*"?(\d+)"?\]/g)];
+  return ids.length > 0 ? Number(ids[ids.length - 1][1]) : null;
+};
+
+export interface TableProposalInput {
+  tableName: string;
+  fields: SourceField[];
+  geometryType?: string; // ogrinfo geometry type of the layer
+  srid?: number | null;
+}
+
+export const proposeTableDefinition = ({ tableName, fields, geometryType, srid = null }: TableProposalInput): TableDefinition => {
+  const used = new Set<string>();
+  const uniqueName = (name: string) => {
+    let candidate = name;
+    for (let n = 2; used.has(candidate); n++) {
+      const suffix = `_${n}`;
+      candidate = `${name.slice(0, MAX_IDENTIFIER_BYTES - suffix.length)}${suffix}`;
+    }
+    used.add(candidate);
+    return candidate;
+  };
+
+  let geometry: GeometryColumnDefinition | null = null;
+  const columns: TableColumnDefinition[] = [];
+  for (const field of fields) {
+    if (field.kind === 'geometry') {
+      // One geometry column per table; geodatabases list "Shape" alongside the real one
+      if (!geometry) {
+        geometry = {
+          sourceColumn: field.name,
+          name: uniqueName('geom'),
+          geometryType: postgisGeometryType(geometryType || field.nativeType),
+          srid,
+        };
+      }
+      continue;
+    }
+    columns.push({
+      sourceColumn: field.name,
+      name: uniqueName(toPostgresIdentifier(field.name)),
+      type: postgresType(field),
+      notNull: field.nullable === false,
+      include: true,
+    });
+  }
+
+  // ogrinfo gives shapefile geometry fields no name, so only the layer type shows one
+  if (!geometry && geometryType && geometryType !== 'Unknown' && geometryType !== 'None') {
+    geometry = { sourceColumn: '', name: uniqueName('geom'), geometryType: postgisGeometryType(geometryType), srid };
+  }
+
+  return { tableName: toPostgresIdentifier(tableName), columns, geometry };
+};
+
+// ==========================================
+// Checks and DDL
+// ==========================================
+
+export const parseUniqueKey = (uniqueKey: string): string[] =>
+  uniqueKey.split(',').map(column => column.trim()).filter(Boolean);
+
+const checkIdentifier = (name: string, what: string): TableDefinitionIssue[] => {
+  if (!name.trim()) return [{ level: 'error', message: `${what} has no name.` }];
+  const issues: TableDefinitionIssue[] = [];
+  if (identifierBytes(name) > MAX_IDENTIFIER_BYTES) {
+    issues.push({ level: 'error', message: `${what} "${name}" is longer than ${MAX_IDENTIFIER_BYTES} bytes; PostgreSQL would truncate it.` });
+  }
+  if (isReservedWord(name)) {
+    issues.push({ level: 'error', message: `${what} "${name}" is a reserved word in PostgreSQL.` });
+  } else if (!PLAIN_IDENTIFIER.test(name)) {
+    issues.push({ level: 'warning', message: `${what} "${name}" must be quoted in SQL; use lower-case letters, digits and "_".` });
+  }
+  return issues;
+};
+
+/**
+ * Problems with a reviewed definition; errors block the submission
+ */
+export const validateTableDefinition = (
+  definition: TableDefinition,
+  uniqueKey: string,
+  existingTables: string[] = []
+): TableDefinitionIssue[] => {
+  const issues: TableDefinitionIssue[] = [...checkIdentifier(definition.tableName, 'The table')];
+  if (existingTables.some(table => table.toLowerCase() === definition.tableName.toLowerCase())) {
+    issues.push({ level: 'error', message: `A table named "${definition.tableName}" already exists in this schema.` });
+  }
+
+  const included = definition.columns.filter(column => column.include);
+  const names = [...included.map(column => column.name), ...(definition.geometry ? [definition.geometry.name] : [])];
+  if (names.length === 0) issues.push({ level: 'error', message: 'The table has no columns.' });
+
+  for (const column of included) {
+    issues.push(...checkIdentifier(column.name, 'Column').map(issue => ({ ...issue, column: column.sourceColumn })));
+    if (!column.type.trim()) {
+      issues.push({ level: 'error', message: `Column "${column.name}" has no type.`, column: column.sourceColumn });
+    } else if (!isValidColumnType(column.type)) {
+      issues.push({
+        level: 'error',
+        message: `"${column.type}" is not a PostgreSQL type name; use e.g. integer, text, varchar(50) or numeric(10, 2).`,
+        column: column.sourceColumn,
+      });
+    }
+  }
+  const seen = new Set<string>();
+  for (const name of names) {
+    if (seen.has(name.toLowerCase())) issues.push({ level: 'error', message: `Column name "${name}" is used more than once.` });
+    seen.add(name.toLowerCase());
+  }
+
+  if (definition.geometry) {
+    issues.push(...checkIdentifier(definition.geometry.name, 'The geometry column'));
+    if (!GEOMETRY_TYPES.includes(definition.geometry.geometryType.replace(/(Z|M|ZM)$/, ''))) {
+      issues.push({ level: 'error', message: `"${definition.geometry.geometryType}" is not a PostGIS geometry type.` });
+    }
+    const srid = definition.geometry.srid;
+    if (srid === null || !Number.isInteger(srid) || srid <= 0) {
+      issues.push({ level: 'error', message: 'The geometry column needs an SRID (EPSG code), e.g. 26912 for NAD83 / UTM zone 12N.' });
+    }
+  }
+
+  const keyColumns = parseUniqueKey(uniqueKey);
+  for (const key of keyColumns) {
+    if (!included.some(column => column.name === key)) {
+      issues.push({ level: 'error', message: `The unique key column "${key}" is not one of the table's columns.` });
+    }
+  }
+  return issues;
+};
+
+const constraintName = (tableName: string, suffix: string): string =>
+  `${tableName.slice(0, MAX_IDENTIFIER_BYTES - suffix.length - 1)}_${suffix}`;
+
+export const buildCreateTableDdl = (schema: string, definition: TableDefinition, uniqueKey: string): string => {
+  const table = `${quoteIdentifier(schema)}.${quoteIdentifier(definition.tableName)}`;
+  const keyColumns = parseUniqueKey(uniqueKey);
+
+  const lines = definition.columns
+    .filter(column => column.include)
+    .map(column => `  ${quoteIdentifier(column.name)} ${column.type.trim()}${column.notNull || keyColumns.includes(column.name) ? ' NOT NULL' : ''}`);
+  if (definition.geometry) {
+    const { name, geometryType, srid } = definition.geometry;
+    lines.push(`  ${quoteIdentifier(name)} geometry(${geometryType}, ${srid ?? 0})`);
+  }
+  if (keyColumns.length > 0) {
+    lines.push(`  CONSTRAINT ${quoteIdentifier(constraintName(definition.tableName, 'key'))} UNIQUE (${keyColumns.map(quoteIdentifier).join(', ')})`);
+  }
+
+  const statements = [`CREATE TABLE ${table} (\n${lines.join(',\n')}\n);`];
+  if (definition.geometry) {
+    statements.push(
+      `CREATE INDEX ${quoteIdentifier(constraintName(definition.tableName, `${definition.geometry.name}_idx`))} ` +
+      `ON ${table} USING GIST (${quoteIdentifier(definition.geometry.name)});`
+    );
+  }
+  return statements.join('\n\n') + '\n';
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { compileTransform, previewTransform, sampleRowsFromFields, validateTransform } from './transformExpression';
+import type { TransformRow } from './transformExpression';
+
+const COLUMNS = ['DEPTH_FT', 'FIRST', 'LAST', 'UNIT'];
+
+const run = (expression: string, row: TransformRow = {}, currentColumn = 'DEPTH_FT') =>
+  compileTransform(expression, COLUMNS, currentColumn).evaluate(row);
+
+describe('compileTransform', () => {
+  it('parses literals, with SQL-style doubled quotes', () => {
+    expect(run("'it''s'")).toBe("it's");
+    expect(run('"say ""hi"""')).toBe('say "hi"');
+    expect(run('12.5')).toBe(12.5);
+    expect(run('1e3')).toBe(1000);
+    expect(run('true')).toBe(true);
+    expect(run('null')).toBeNull();
+  });
+
+  it('applies operator precedence and parentheses', () => {
+    expect(run('1 + 2 * 3')).toBe(7);
+    expect(run('(1 + 2) * 3')).toBe(9);
+    expect(run('-2 * 3 + 10 % 4')).toBe(-4);
+    expect(run("'a' || 1 + 1")).toBe('a2');
+    expect(run('1 < 2 and not 3 = 4 or false')).toBe(true);
+  });
+
+  it('reads value and [Column] references, ignoring case', () => {
+    const row = { DEPTH_FT: '10', FIRST: 'Ada', LAST: 'Lovelace', UNIT: '' };
+    expect(run('round(value * 0.3048, 2)', row)).toBe(3.05);
+    expect(run("concat([first], ' ', [Last])", row)).toBe('Ada Lovelace');
+    expect(compileTransform("[first] || [LAST]", COLUMNS).columns).toEqual(['FIRST', 'LAST']);
+  });
+
+  it('passes nulls through operators and treats empty values as null', () => {
+    expect(run('value * 0.3048', { DEPTH_FT: '' })).toBeNull();
+    expect(run("coalesce([UNIT], 'unknown')", { UNIT: '' })).toBe('unknown');
+    expect(run("nullif(value, '-9999')", { DEPTH_FT: '-9999' })).toBeNull();
+  });
+
+  it('evaluates only the branch if() returns', () => {
+    expect(run('if(value = 0, null, 1 / value)', { DEPTH_FT: '0' })).toBeNull();
+    expect(() => run('1 / value', { DEPTH_FT: '0' })).toThrow('Division by zero');
+  });
+
+  it('looks up codes, with an optional default', () => {
+    const expression = "lookup(value, 'Qa', 'Alluvium', 'Ql', 'Lacustrine')";
+    expect(run(expression, { DEPTH_FT: 'Ql' })).toBe('Lacustrine');
+    expect(() => run(expression, { DEPTH_FT: 'Qx' })).toThrow('No lookup entry for "Qx"');
+    expect(run("lookup(value, 'Qa', 'Alluvium', 'Unknown')", { DEPTH_FT: 'Qx' })).toBe('Unknown');
+  });
+
+  it('converts dates with parse_date', () => {
+    expect(run("parse_date(value, 'MM/DD/YYYY')", { DEPTH_FT: '03/01/2024' })).toBe('2024-03-01');
+  });
+});
+
+describe('validateTransform', () => {
+  it('accepts a valid expression', () => {
+    expect(validateTransform('upper(trim(value))', COLUMNS, 'UNIT')).toBeNull();
+  });
+
+  it('reports syntax errors', () => {
+    expect(validateTransform('1 +', COLUMNS, 'UNIT')).toBe('The expression ends unexpectedly');
+    expect(validateTransform("'open", COLUMNS, 'UNIT')).toBe('Unterminated text starting at position 1');
+    expect(validateTransform('[DEPTH_FT', COLUMNS, 'UNIT')).toBe('Missing "]" for the column name at position 1');
+    expect(validateTransform('1 # 2', COLUMNS, 'UNIT')).toBe('Unexpected "#" at position 3');
+  });
+
+  it('reports unknown names, columns and argument counts', () => {
+    expect(validateTransform('shout(value)', COLUMNS, 'UNIT')).toBe('Unknown name "shout" at position 1');
+    expect(validateTransform('[ELEV]', COLUMNS, 'UNIT')).toBe('Unknown source column [ELEV] at position 1');
+    expect(validateTransform('upper(value, 1)', COLUMNS, 'UNIT')).toBe('upper() takes 1 argument, got 2');
+  });
+
+  it('rejects names inherited from Object.prototype', () => {
+    expect(validateTransform('constructor(1)', ['A'], 'A')).toBe('Unknown name "constructor" at position 1');
+    expect(validateTransform('tostring(value)', ['A'], 'A')).toBe('Unknown name "tostring" at position 1');
+    expect(validateTransform('hasownproperty(value)', ['A'], 'A')).toBe('Unknown name "hasownproperty" at position 1');
+    expect(validateTransform('__proto__(value)', ['A'], 'A')).toBe('Unknown name "__proto__" at position 1');
+  });
+
+  it('rejects value without a mapped column', () => {
+    expect(validateTransform('value', COLUMNS)).toMatch(/"value" is only available/);
+  });
+});
+
+describe('previewTransform', () => {
+  it('shows each sample row, with errors per row', () => {
+    const rows = sampleRowsFromFields([
+      { name: 'DEPTH_FT', kind: 'real', nativeType: 'inferred', width: null, precision: null, samples: ['2', '0'] },
+    ]);
+    expect(previewTransform(compileTransform('10 / value', COLUMNS, 'DEPTH_FT'), rows, 'DEPTH_FT')).toEqual([
+      { input: '2', output: '5', error: null },
+      { input: '0', output: null, error: 'Division by zero' },
+    ]);
+  });
+});
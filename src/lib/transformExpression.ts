@@ -0,0 +1,574 @@
+// lib/transformExpression.ts
+// A small expression language for transforming source values during the
+// load. Expressions are parsed into a tree and interpreted here for previews;
+// nothing is ever passed to eval. The loader applies the same expressions, so
+// the language is deliberately tiny and versioned (TRANSFORM_LANGUAGE).
+//
+//   value                  the mapped source column's value
+//   [Column Name]          another source column of the same row
+//   'text', "text", 12.5   literals; also true, false, null
+//   + - * / %              arithmetic (operands converted to numbers)
+//   ||                     text concatenation
+//   = != <> < <= > >=      comparison; and, or, not
+//   fn(arg, ...)           one of TRANSFORM_FUNCTIONS
+//
+// Source values are text; empty values are null. null passes through
+// operators and most functions unchanged (null * 0.3048 is null).
+//
+// Examples:
+//   upper(trim(value))
+//   round(value * 0.3048, 2)
+//   parse_date(value, 'MM/DD/YYYY')
+//   concat([FIRST], ' ', [LAST])
+//   lookup(value, 'Qa', 'Alluvium', 'Ql', 'Lacustrine', 'Unknown')
+
+import type { SourceField } from '../types/uploadTypes';
+
+export const TRANSFORM_LANGUAGE = 'ugs-transform/1';
+
+export type TransformValue = string | number | boolean | null;
+
+// Source values of one row, keyed by source column name
+export type TransformRow = Record<string, string | null>;
+
+export class TransformExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransformExpressionError';
+  }
+}
+
+export interface CompiledTransform {
+  evaluate: (row: TransformRow) => TransformValue;
+  // Source columns the expression reads, including the mapped column for `value`
+  columns: string[];
+}
+
+// ==========================================
+// Tokenizer
+// ==========================================
+
+interface Token {
+  type: 'number' | 'string' | 'column' | 'name' | 'op' | 'end';
+  value: string | number; // names are lower-cased
+  pos: number;
+}
+
+const OPERATORS = ['||', '<=', '>=', '!=', '<>', '+', '-', '*', '/', '%', '=', '<', '>', '(', ')', ','];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+      if (!match) throw new TransformExpressionError(`Unexpected "${char}" at position ${i + 1}`);
+      tokens.push({ type: 'number', value: Number(match[0]), pos: i });
+      i += match[0].length;
+    } else if (char === "'" || char === '"') {
+      // Quotes are escaped by doubling them, as in SQL
+      let value = '';
+      let j = i + 1;
+      for (;;) {
+        if (j >= source.length) throw new TransformExpressionError(`Unterminated text starting at position ${i + 1}`);
+        if (source[j] === char) {
+          if (source[j + 1] !== char) break;
+          j++;
+        }
+        value += source[j++];
+      }
+      tokens.push({ type: 'string', value, pos: i });
+      i = j + 1;
+    } else if (char === '[') {
+      const end = source.indexOf(']', i);
+      if (end === -1) throw new TransformExpressionError(`Missing "]" for the column name at position ${i + 1}`);
+      tokens.push({ type: 'column', value: source.slice(i + 1, end), pos: i });
+      i = end + 1;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))![0];
+      tokens.push({ type: 'name', value: name.toLowerCase(), pos: i });
+      i += name.length;
+    } else {
+      const op = OPERATORS.find(candidate => source.startsWith(candidate, i));
+      if (!op) throw new TransformExpressionError(`Unexpected "${char}" at position ${i + 1}`);
+      tokens.push({ type: 'op', value: op, pos: i });
+      i += op.length;
+    }
+  }
+
+  tokens.push({ type: 'end', value: '', pos: source.length });
+  return tokens;
+};
+
+// ==========================================
+// Parser
+// ==========================================
+
+type Node =
+  | { type: 'literal'; value: TransformValue }
+  | { type: 'column'; name: string }
+  | { type: 'unary'; op: string; operand: Node }
+  | { type: 'binary'; op: string; left: Node; right: Node }
+  | { type: 'call'; name: string; args: Node[] };
+
+// Binary operators from loosest to tightest binding
+const PRECEDENCE: string[][] = [
+  ['or'],
+  ['and'],
+  ['=', '!=', '<>', '<', '<=', '>', '>='],
+  ['||'],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+const parse = (source: string, resolveColumn: (name: string, pos: number) => string, currentColumn?: string): Node => {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isOperator = (token: Token, ops: string[]) =>
+    (token.type === 'op' || token.type === 'name') && ops.includes(String(token.value));
+  const expect = (op: string) => {
+    const token = tokens[index];
+    if (token.type !== 'op' || token.value !== op) {
+      throw new TransformExpressionError(`Expected "${op}" at position ${token.pos + 1}`);
+    }
+    index++;
+  };
+
+  const parseLevel = (level: number): Node => {
+    if (level === PRECEDENCE.length) return parseUnary();
+    let left = parseLevel(level + 1);
+    while (isOperator(peek(), PRECEDENCE[level])) {
+      const op = String(tokens[index++].value);
+      left = { type: 'binary', op, left, right: parseLevel(level + 1) };
+      // Comparisons do not chain: a < b < c is almost always a mistake
+      if (level === 2) break;
+    }
+    return left;
+  };
+
+  const parseUnary = (): Node => {
+    const token = peek();
+    if (isOperator(token, ['-', 'not'])) {
+      index++;
+      return { type: 'unary', op: String(token.value), operand: token.value === 'not' ? parseLevel(2) : parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Node => {
+    const token = tokens[index++];
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'column':
+        return { type: 'column', name: resolveColumn(String(token.value), token.pos) };
+      case 'name': {
+        const name = String(token.value);
+        if (name === 'true' || name === 'false') return { type: 'literal', value: name === 'true' };
+        if (name === 'null') return { type: 'literal', value: null };
+        if (name === 'value') {
+          if (!currentColumn) {
+            throw new TransformExpressionError('"value" is only available when transforming a mapped source column; use [Column Name]');
+          }
+          return { type: 'column', name: currentColumn };
+        }
+        // Own keys only: inherited names such as "constructor" are not functions of the language
+        const fn = Object.prototype.hasOwnProperty.call(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+        if (!fn) throw new TransformExpressionError(`Unknown name "${name}" at position ${token.pos + 1}`);
+        expect('(');
+        const args: Node[] = [];
+        if (!isOperator(peek(), [')'])) {
+          args.push(parseLevel(0));
+          while (isOperator(peek(), [','])) {
+            index++;
+            args.push(parseLevel(0));
+          }
+        }
+        expect(')');
+        if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+          const expected = fn.minArgs === fn.maxArgs ? `${fn.minArgs}` : fn.maxArgs === Infinity ? `at least ${fn.minArgs}` : `${fn.minArgs} to ${fn.maxArgs}`;
+          throw new TransformExpressionError(`${name}() takes ${expected} argument${expected === '1' ? '' : 's'}, got ${args.length}`);
+        }
+        return { type: 'call', name, args };
+      }
+      case 'op':
+        if (token.value === '(') {
+          const inner = parseLevel(0);
+          expect(')');
+          return inner;
+        }
+        break;
+    }
+    throw new TransformExpressionError(token.type === 'end'
+      ? 'The expression ends unexpectedly'
+      : `Unexpected "${source.slice(token.pos, token.pos + 10).split(/\s/)[0]}" at position ${token.pos + 1}`);
+  };
+
+  if (peek().type === 'end') throw new TransformExpressionError('The expression is empty');
+  const tree = parseLevel(0);
+  if (peek().type !== 'end') {
+    throw new TransformExpressionError(`Unexpected "${source.slice(peek().pos).split(/\s/)[0]}" at position ${peek().pos + 1}`);
+  }
+  return tree;
+};
+
+// ==========================================
+// Values and functions
+// ==========================================
+
+const toText = (value: TransformValue): string | null => {
+  if (value === null) return null;
+  return typeof value === 'string' ? value : String(value);
+};
+
+const toNumber = (value: TransformValue): number | null => {
+  if (value === null || typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const trimmed = value.trim().replace(/,/g, '');
+  const number = trimmed === '' ? NaN : Number(trimmed);
+  if (Number.isNaN(number)) throw new TransformExpressionError(`"${value}" is not a number`);
+  return number;
+};
+
+const isTruthy = (value: TransformValue): boolean => {
+  if (typeof value === 'string') return !/^(|false|f|no|n|0)$/i.test(value.trim());
+  return Boolean(value);
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DATE_TOKENS = /YYYY|YY|MON|MM|M|DD|D|HH|mm|ss/g;
+
+// parse_date('03/07/2024', 'MM/DD/YYYY') -> '2024-03-07'; with time tokens -> '2024-03-07T14:05:00'
+const parseDate = (text: string, format: string): string => {
+  const parts: string[] = [];
+  let pattern = '';
+  let last = 0;
+  for (const match of format.matchAll(DATE_TOKENS)) {
+    pattern += format.slice(last, match.index).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    pattern += { YYYY: '(\\d{4})', YY: '(\\d{2})', MON: '([A-Za-z]{3})', MM: '(\\d{2})', DD: '(\\d{2})', M: '(\\d{1,2})', D: '(\\d{1,2})' }[match[0]] || '(\\d{2})';
+    parts.push(match[0]);
+    last = match.index + match[0].length;
+  }
+  pattern += format.slice(last).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+  const match = new RegExp(`^${pattern}$`).exec(text.trim());
+  if (!match) throw new TransformExpressionError(`"${text}" does not match the date format "${format}"`);
+
+  const fields: Record<string, number> = { year: NaN, month: NaN, day: NaN, hour: 0, minute: 0, second: 0 };
+  parts.forEach((part, i) => {
+    const raw = match[i + 1];
+    if (part === 'YYYY') fields.year = Number(raw);
+    else if (part === 'YY') fields.year = Number(raw) + (Number(raw) < 50 ? 2000 : 1900);
+    else if (part === 'MON') fields.month = MONTHS.indexOf(raw.toLowerCase()) + 1 || NaN;
+    else if (part === 'MM' || part === 'M') fields.month = Number(raw);
+    else if (part === 'DD' || part === 'D') fields.day = Number(raw);
+    else if (part === 'HH') fields.hour = Number(raw);
+    else if (part === 'mm') fields.minute = Number(raw);
+    else fields.second = Number(raw);
+  });
+
+  const { year, month, day, hour, minute, second } = fields;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (Number.isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day ||
+      hour > 23 || minute > 59 || second > 59) {
+    throw new TransformExpressionError(`"${text}" is not a valid date for the format "${format}"`);
+  }
+
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const iso = `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+  return parts.some(part => ['HH', 'mm', 'ss'].includes(part))
+    ? `${iso}T${pad(hour)}:${pad(minute)}:${pad(second)}`
+    : iso;
+};
+
+interface TransformFunction {
+  minArgs: number;
+  maxArgs: number;
+  // Called with evaluated arguments (if() is special-cased in evaluateNode)
+  apply: (args: TransformValue[]) => TransformValue;
+  description: string;
+}
+
+// Apply to a single text argument; null stays null
+const textFunction = (apply: (text: string) => TransformValue, description: string): TransformFunction => ({
+  minArgs: 1,
+  maxArgs: 1,
+  apply: ([value]) => (value === null ? null : apply(toText(value)!)),
+  description,
+});
+
+const numberFunction = (apply: (n: number, digits: number) => number, description: string, maxArgs = 1): TransformFunction => ({
+  minArgs: 1,
+  maxArgs,
+  apply: ([value, digits]) => {
+    const n = toNumber(value);
+    return n === null ? null : apply(n, toNumber(digits ?? 0) ?? 0);
+  },
+  description,
+});
+
+const FUNCTIONS: Record<string, TransformFunction> = {
+  trim: textFunction(text => text.trim(), 'trim(s): remove leading and trailing spaces'),
+  upper: textFunction(text => text.toUpperCase(), 'upper(s): upper case'),
+  lower: textFunction(text => text.toLowerCase(), 'lower(s): lower case'),
+  length: textFunction(text => text.length, 'length(s): number of characters'),
+  substr: {
+    minArgs: 2,
+    maxArgs: 3,
+    apply: ([value, start, length]) => {
+      const text = toText(value);
+      if (text === null) return null;
+      const from = Math.max((toNumber(start) ?? 1) - 1, 0);
+      return length === undefined ? text.slice(from) : text.slice(from, from + Math.max(toNumber(length) ?? 0, 0));
+    },
+    description: 'substr(s, start[, length]): part of s; start counts from 1',
+  },
+  replace: {
+    minArgs: 3,
+    maxArgs: 3,
+    apply: ([value, find, replacement]) => {
+      const text = toText(value);
+      return text === null ? null : text.split(toText(find) ?? '').join(toText(replacement) ?? '');
+    },
+    description: 'replace(s, find, replacement): replace every occurrence',
+  },
+  lpad: {
+    minArgs: 2,
+    maxArgs: 3,
+    apply: ([value, width, fill]) => {
+      const text = toText(value);
+      return text === null ? null : text.padStart(toNumber(width) ?? 0, toText(fill ?? ' ') || ' ');
+    },
+    description: "lpad(s, width[, fill]): pad on the left, e.g. lpad(value, 3, '0')",
+  },
+  concat: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    apply: args => args.map(arg => toText(arg) ?? '').join(''),
+    description: 'concat(a, b, ...): join as text; null counts as empty',
+  },
+  coalesce: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    apply: args => args.find(arg => arg !== null && arg !== '') ?? null,
+    description: 'coalesce(a, b, ...): first argument that is not null or empty',
+  },
+  nullif: {
+    minArgs: 2,
+    maxArgs: 2,
+    apply: ([value, match]) => (toText(value) === toText(match) ? null : value),
+    description: "nullif(a, b): null when a equals b, e.g. nullif(value, '-9999')",
+  },
+  if: {
+    minArgs: 3,
+    maxArgs: 3,
+    apply: ([condition, then, otherwise]) => (isTruthy(condition) ? then : otherwise),
+    description: 'if(condition, then, else)',
+  },
+  lookup: {
+    minArgs: 3,
+    maxArgs: Infinity,
+    apply: ([value, ...pairs]) => {
+      if (value === null) return null;
+      const key = toText(value)!.trim();
+      for (let i = 0; i + 1 < pairs.length; i += 2) {
+        if (toText(pairs[i]) === key) return pairs[i + 1];
+      }
+      if (pairs.length % 2 === 1) return pairs[pairs.length - 1];
+      throw new TransformExpressionError(`No lookup entry for "${key}"`);
+    },
+    description: 'lookup(s, code1, result1, code2, result2, ...[, default]): code table; fails on an unlisted code without a default',
+  },
+  number: numberFunction(n => n, 'number(s): convert to a number'),
+  integer: numberFunction(n => Math.trunc(n), 'integer(s): convert to a whole number, dropping decimals'),
+  round: numberFunction((n, digits) => Math.round(n * 10 ** digits) / 10 ** digits, 'round(n[, digits])', 2),
+  floor: numberFunction(n => Math.floor(n), 'floor(n)'),
+  ceil: numberFunction(n => Math.ceil(n), 'ceil(n)'),
+  abs: numberFunction(n => Math.abs(n), 'abs(n)'),
+  text: {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: ([value]) => toText(value),
+    description: 'text(x): convert to text',
+  },
+  parse_date: {
+    minArgs: 2,
+    maxArgs: 2,
+    apply: ([value, format]) => {
+      const text = toText(value);
+      return text === null || text.trim() === '' ? null : parseDate(text, toText(format) ?? '');
+    },
+    description: "parse_date(s, format): ISO date from e.g. 'MM/DD/YYYY', 'D-MON-YY', 'YYYYMMDD HH:mm:ss'",
+  },
+};
+
+// For the help text in the mapping dialog
+export const TRANSFORM_FUNCTIONS: string[] = Object.values(FUNCTIONS).map(fn => fn.description);
+
+// ==========================================
+// Evaluation
+// ==========================================
+
+const compare = (op: string, left: TransformValue, right: TransformValue): boolean | null => {
+  if (left === null || right === null) return null;
+  let order: number;
+  if (typeof left === 'number' || typeof right === 'number') {
+    order = toNumber(left)! - toNumber(right)!;
+  } else {
+    const a = toText(left)!;
+    const b = toText(right)!;
+    order = a < b ? -1 : a > b ? 1 : 0;
+  }
+  switch (op) {
+    case '=': return order === 0;
+    case '!=':
+    case '<>': return order !== 0;
+    case '<': return order < 0;
+    case '<=': return order <= 0;
+    case '>': return order > 0;
+    default: return order >= 0;
+  }
+};
+
+const arithmetic = (op: string, left: TransformValue, right: TransformValue): number | null => {
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a === null || b === null) return null;
+  if ((op === '/' || op === '%') && b === 0) throw new TransformExpressionError('Division by zero');
+  switch (op) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    case '/': return a / b;
+    default: return a % b;
+  }
+};
+
+const evaluateNode = (node: Node, row: TransformRow): TransformValue => {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'column': {
+      const value = row[node.name];
+      return value === undefined || value === '' ? null : value;
+    }
+    case 'unary': {
+      const operand = evaluateNode(node.operand, row);
+      if (node.op === 'not') return operand === null ? null : !isTruthy(operand);
+      const n = toNumber(operand);
+      return n === null ? null : -n;
+    }
+    case 'binary': {
+      if (node.op === 'and' || node.op === 'or') {
+        const left = isTruthy(evaluateNode(node.left, row));
+        if (node.op === 'and' ? !left : left) return left;
+        return isTruthy(evaluateNode(node.right, row));
+      }
+      const left = evaluateNode(node.left, row);
+      const right = evaluateNode(node.right, row);
+      if (node.op === '||') {
+        return left === null || right === null ? null : toText(left)! + toText(right)!;
+      }
+      if (['+', '-', '*', '/', '%'].includes(node.op)) return arithmetic(node.op, left, right);
+      return compare(node.op, left, right);
+    }
+    case 'call':
+      // if() only evaluates the branch it returns, so if(x = 0, null, 1 / x) is safe
+      if (node.name === 'if') {
+        return evaluateNode(isTruthy(evaluateNode(node.args[0], row)) ? node.args[1] : node.args[2], row);
+      }
+      return FUNCTIONS[node.name].apply(node.args.map(arg => evaluateNode(arg, row)));
+  }
+};
+
+const collectColumns = (node: Node, columns: Set<string>) => {
+  if (node.type === 'column') columns.add(node.name);
+  else if (node.type === 'unary') collectColumns(node.operand, columns);
+  else if (node.type === 'binary') {
+    collectColumns(node.left, columns);
+    collectColumns(node.right, columns);
+  } else if (node.type === 'call') node.args.forEach(arg => collectColumns(arg, columns));
+};
+
+/**
+ * Parse an expression. [Column] references are resolved against sourceColumns
+ * ignoring case; `value` refers to currentColumn and is rejected without one
+ * (expressions that fill a target column on their own). Throws
+ * TransformExpressionError for syntax errors and unknown names.
+ */
+export const compileTransform = (
+  expression: string,
+  sourceColumns: string[],
+  currentColumn?: string
+): CompiledTransform => {
+  const columnsByKey = new Map(sourceColumns.map(column => [column.toLowerCase(), column]));
+  const tree = parse(expression, (name, pos) => {
+    const column = columnsByKey.get(name.trim().toLowerCase());
+    if (!column) throw new TransformExpressionError(`Unknown source column [${name}] at position ${pos + 1}`);
+    return column;
+  }, currentColumn);
+
+  const columns = new Set<string>();
+  collectColumns(tree, columns);
+  return {
+    evaluate: row => evaluateNode(tree, row),
+    columns: [...columns],
+  };
+};
+
+/**
+ * The problem with an expression, or null when it compiles
+ */
+export const validateTransform = (
+  expression: string,
+  sourceColumns: string[],
+  currentColumn?: string
+): string | null => {
+  try {
+    compileTransform(expression, sourceColumns, currentColumn);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+export interface TransformPreview {
+  input: string | null; // the mapped column's value, or null without one
+  output: string | null;
+  error: string | null;
+}
+
+/**
+ * Run a compiled expression on sample rows for display
+ */
+export const previewTransform = (
+  transform: CompiledTransform,
+  rows: TransformRow[],
+  currentColumn?: string
+): TransformPreview[] =>
+  rows.map(row => {
+    const input = currentColumn ? row[currentColumn] ?? null : null;
+    try {
+      return { input, output: toText(transform.evaluate(row)), error: null };
+    } catch (error) {
+      return { input, output: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+
+/**
+ * Sample rows rebuilt from the fields' row-aligned sample values; empty when
+ * the source was analyzed without reading any rows
+ */
+export const sampleRowsFromFields = (fields: SourceField[]): TransformRow[] => {
+  const count = Math.max(0, ...fields.map(field => field.samples?.length ?? 0));
+  return Array.from({ length: count }, (_, row) =>
+    Object.fromEntries(fields.map(field => [field.name, field.samples?.[row] ?? null]))
+  );
+};
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import type { ColumnInfo } from '../types/uploadTypes';
+import {
+  checkTypeCompatibility,
+  fromDbfDescriptor,
+  fromOgrField,
+  geometryField,
+  inferFieldFromValues,
+  targetFieldKind,
+  unknownField,
+} from './typeCompatibility';
+
+const column = (format: string, maxLength: number | null = null): ColumnInfo => ({
+  name: 'target',
+  dataType: 'string',
+  isNullable: true,
+  defaultValue: null,
+  position: 1,
+  format,
+  maxLength,
+});
+
+const levelOf = (...args: Parameters<typeof checkTypeCompatibility>) => checkTypeCompatibility(...args)?.level ?? null;
+
+describe('source field types', () => {
+  it('reads ogrinfo field definitions', () => {
+    expect(fromOgrField({ name: 'id', type: 'Integer64', width: 0 })).toEqual({
+      name: 'id', kind: 'integer', nativeType: 'Integer64', width: null, precision: null, nullable: undefined,
+    });
+    expect(fromOgrField({ name: 'active', type: 'Integer', subType: 'Boolean' })).toMatchObject({ kind: 'boolean', nativeType: 'Integer(Boolean)' });
+    expect(fromOgrField({ name: 'codes', type: 'IntegerList' }).kind).toBe('unknown');
+  });
+
+  it('reads DBF field descriptors', () => {
+    expect(fromDbfDescriptor('DEPTH', 'N', 10, 2)).toEqual({ name: 'DEPTH', kind: 'real', nativeType: 'N(10,2)', width: 10, precision: 2 });
+    expect(fromDbfDescriptor('COUNT', 'N', 5, 0)).toMatchObject({ kind: 'integer', nativeType: 'N(5)' });
+    expect(fromDbfDescriptor('FLAG', 'L', 1, 0).kind).toBe('boolean');
+    expect(fromDbfDescriptor('X', 'Q', 4, 0).kind).toBe('unknown');
+  });
+
+  it('infers the narrowest kind every sampled value fits', () => {
+    expect(inferFieldFromValues('n', ['1', '-20', ''])).toMatchObject({ kind: 'integer', width: 3, nullable: true });
+    expect(inferFieldFromValues('x', ['1', '2.25', '3e5'])).toMatchObject({ kind: 'real', precision: 2 });
+    expect(inferFieldFromValues('d', ['2024-03-01', '3/15/2024']).kind).toBe('date');
+    expect(inferFieldFromValues('t', ['2024-03-01T10:00:00Z']).kind).toBe('datetime');
+    expect(inferFieldFromValues('s', ['1', 'one']).kind).toBe('text');
+    expect(inferFieldFromValues('e', ['', ' '])).toMatchObject({ kind: 'unknown', nativeType: 'inferred' });
+  });
+
+  it('classifies PostgREST column formats', () => {
+    expect(['smallint', 'bigint', 'double precision', 'timestamp with time zone', 'character varying', 'geometry(Point,4326)', 'jsonb']
+      .map(format => targetFieldKind(column(format))))
+      .toEqual(['integer', 'integer', 'real', 'datetime', 'text', 'geometry', 'unknown']);
+  });
+});
+
+describe('checkTypeCompatibility', () => {
+  it('accepts the same kind and lossless widening', () => {
+    expect(checkTypeCompatibility(fromOgrField({ name: 'id', type: 'Integer' }), column('bigint'))).toBeNull();
+    expect(checkTypeCompatibility(fromDbfDescriptor('N', 'N', 4, 0), column('smallint'))).toBeNull();
+    expect(checkTypeCompatibility(fromOgrField({ name: 'n', type: 'Integer' }), column('double precision'))).toBeNull();
+    expect(checkTypeCompatibility(fromOgrField({ name: 'd', type: 'Date' }), column('timestamp without time zone'))).toBeNull();
+    expect(checkTypeCompatibility(fromDbfDescriptor('NAME', 'C', 40, 0), column('character varying', 50))).toBeNull();
+    expect(checkTypeCompatibility(geometryField('shape', 'Point'), column('geometry'))).toBeNull();
+  });
+
+  it('warns about narrowing that can lose or reject data', () => {
+    expect(checkTypeCompatibility(fromOgrField({ name: 'id', type: 'Integer64' }), column('integer'))).toEqual({
+      level: 'warning', message: '64-bit integers may overflow the integer column.',
+    });
+    expect(checkTypeCompatibility(fromDbfDescriptor('N', 'N', 6, 0), column('smallint'))?.message)
+      .toBe('Values up to 6 digits may overflow the smallint column.');
+    expect(levelOf(fromOgrField({ name: 'x', type: 'Real' }), column('integer'))).toBe('warning');
+    expect(levelOf(fromDbfDescriptor('N', 'N', 10, 0), column('real'))).toBe('warning');
+    expect(checkTypeCompatibility(fromDbfDescriptor('NAME', 'C', 80, 0), column('character varying', 50))?.message)
+      .toBe('Values up to 80 characters will not fit the 50-character limit.');
+    expect(levelOf(fromOgrField({ name: 't', type: 'DateTime' }), column('date'))).toBe('warning');
+    expect(levelOf(inferFieldFromValues('s', ['a']), column('integer'))).toBe('warning');
+  });
+
+  it('reports pairs PostgreSQL cannot cast as errors', () => {
+    expect(checkTypeCompatibility(fromOgrField({ name: 'd', type: 'Date' }), column('integer'))).toEqual({
+      level: 'error', message: 'Date values (Date) cannot be loaded into the integer column.',
+    });
+    expect(levelOf(fromOgrField({ name: 'n', type: 'Real' }), column('geometry'))).toBe('error');
+    expect(levelOf(fromOgrField({ name: 'd', type: 'Date' }), column('boolean'))).toBe('error');
+    expect(levelOf(geometryField('shape'), column('timestamp with time zone'))).toBe('error');
+  });
+
+  it('does not judge unknown types', () => {
+    expect(checkTypeCompatibility(undefined, column('integer'))).toBeNull();
+    expect(checkTypeCompatibility(unknownField('x'), column('integer'))).toBeNull();
+    expect(checkTypeCompatibility(fromOgrField({ name: 'd', type: 'Date' }), column('jsonb'))).toBeNull();
+  });
+});
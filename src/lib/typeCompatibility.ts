@@ -0,0 +1,308 @@
+// lib/typeCompatibility.ts
+// Source column types and whether they can be loaded into a target column.
+//
+// Source types come from three places and are normalized to a SourceFieldKind:
+// ogrinfo -json field definitions (GDB, shapefile), DBF field descriptors and
+// values sampled from CSV rows. Target types come from the PostgREST OpenAPI
+// description of the table (ColumnInfo.format / dataType).
+//
+// A mapping pair gets an error when PostgreSQL cannot cast the values at all
+// (a date into an integer column) and a warning when the load can succeed but
+// may lose or reject data (decimals into integers, text longer than the column).
+import type { ColumnInfo, SourceField, SourceFieldKind } from '../types/uploadTypes';
+
+export interface TypeCompatibilityIssue {
+  level: 'error' | 'warning';
+  message: string;
+}
+
+// ==========================================
+// Source field types
+// ==========================================
+
+export const unknownField = (name: string): SourceField => ({
+  name,
+  kind: 'unknown',
+  nativeType: 'unknown',
+  width: null,
+  precision: null,
+});
+
+export const geometryField = (name: string, geometryType?: string): SourceField => ({
+  name,
+  kind: 'geometry',
+  nativeType: geometryType || 'Geometry',
+  width: null,
+  precision: null,
+});
+
+export interface OgrFieldDefinition {
+  name: string;
+  type?: string; // Integer, Integer64, Real, String, Date, DateTime, Time, Binary, ...List
+  subType?: string; // Boolean, Int16, Float32, JSON, UUID
+  width?: number;
+  precision?: number;
+  nullable?: boolean;
+}
+
+const ogrKinds: Record<string, SourceFieldKind> = {
+  Integer: 'integer',
+  Integer64: 'integer',
+  Real: 'real',
+  String: 'text',
+  Date: 'date',
+  DateTime: 'datetime',
+  Time: 'time',
+  Binary: 'binary',
+};
+
+/**
+ * Field from ogrinfo -json output. List types (IntegerList, ...) are left unknown.
+ */
+export const fromOgrField = (field: OgrFieldDefinition): SourceField => {
+  const type = field.type || '';
+  return {
+    name: field.name,
+    kind: field.subType === 'Boolean' ? 'boolean' : ogrKinds[type] || 'unknown',
+    nativeType: field.subType && field.subType !== 'None' ? `${type}(${field.subType})` : type || 'unknown',
+    // ogrinfo reports 0 for "no limit"
+    width: field.width || null,
+    precision: field.precision || null,
+    nullable: field.nullable,
+  };
+};
+
+/**
+ * Field from a DBF header descriptor: type code, length and decimal count
+ */
+export const fromDbfDescriptor = (name: string, code: string, length: number, decimals: number): SourceField => {
+  let kind: SourceFieldKind;
+  switch (code.toUpperCase()) {
+    case 'C':
+    case 'M':
+      kind = 'text';
+      break;
+    case 'N':
+    case 'F':
+      kind = decimals > 0 ? 'real' : 'integer';
+      break;
+    case 'I':
+    case '+':
+      kind = 'integer';
+      break;
+    case 'O':
+    case 'Y':
+      kind = 'real';
+      break;
+    case 'L':
+      kind = 'boolean';
+      break;
+    case 'D':
+      kind = 'date';
+      break;
+    case 'T':
+    case '@':
+      kind = 'datetime';
+      break;
+    case 'G':
+    case 'P':
+      kind = 'binary';
+      break;
+    default:
+      kind = 'unknown';
+  }
+
+  return {
+    name,
+    kind,
+    nativeType: decimals > 0 ? `${code}(${length},${decimals})` : `${code}(${length})`,
+    width: length || null,
+    precision: decimals || null,
+  };
+};
+
+const INTEGER_VALUE = /^[-+]?\d+$/;
+const REAL_VALUE = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const BOOLEAN_VALUE = /^(true|false|t|f|yes|no|y|n)$/i;
+const DATE_VALUE = /^(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}\/\d{1,2}\/\d{4})$/;
+const DATETIME_VALUE = /^(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}\/\d{1,2}\/\d{4})[ T]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const TIME_VALUE = /^\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+/**
+ * Field whose type is inferred from sample values (CSV). Empty values are ignored
+ * for the type (the field is marked nullable); the narrowest kind every
+ * remaining value fits is used.
+ */
+export const inferFieldFromValues = (name: string, values: string[]): SourceField => {
+  const present = values.map(value => value.trim()).filter(value => value !== '');
+  if (present.length === 0) return { ...unknownField(name), nativeType: 'inferred' };
+
+  const all = (pattern: RegExp) => present.every(value => pattern.test(value));
+  let kind: SourceFieldKind = 'text';
+  if (all(INTEGER_VALUE)) kind = 'integer';
+  else if (all(REAL_VALUE)) kind = 'real';
+  else if (all(BOOLEAN_VALUE)) kind = 'boolean';
+  else if (all(DATE_VALUE)) kind = 'date';
+  else if (all(DATETIME_VALUE)) kind = 'datetime';
+  else if (all(TIME_VALUE)) kind = 'time';
+
+  const precision = kind === 'real'
+    ? Math.max(...present.map(value => (value.split(/[eE]/)[0].split('.')[1] || '').length))
+    : null;
+
+  return {
+    name,
+    kind,
+    nativeType: 'inferred',
+    width: Math.max(...present.map(value => value.length)),
+    precision: precision || null,
+    ...(present.length < values.length ? { nullable: true } : {}),
+  };
+};
+
+// ==========================================
+// Target column types
+// ==========================================
+
+interface TargetType {
+  kind: SourceFieldKind;
+  label: string;
+  integerBytes?: 2 | 4 | 8;
+  singlePrecision?: boolean;
+  maxLength: number | null;
+}
+
+// Most digits each integer size holds without overflowing
+const INTEGER_DIGITS = { 2: 4, 4: 9, 8: 18 };
+
+const classifyTarget = (column: ColumnInfo): TargetType => {
+  const type = (column.format || column.dataType || '').toLowerCase();
+  const maxLength = column.maxLength ?? null;
+  const target = (kind: SourceFieldKind, extra: Partial<TargetType> = {}): TargetType =>
+    ({ kind, label: column.format || column.dataType, maxLength, ...extra });
+
+  if (type.includes('geometry') || type.includes('geography')) return target('geometry');
+  if (type.includes('smallint')) return target('integer', { integerBytes: 2 });
+  if (type.includes('bigint')) return target('integer', { integerBytes: 8 });
+  if (type.includes('integer')) return target('integer', { integerBytes: 4 });
+  if (type === 'real') return target('real', { singlePrecision: true });
+  if (type.includes('double') || type.includes('numeric') || type.includes('decimal') || type === 'number') return target('real');
+  if (type.includes('timestamp')) return target('datetime');
+  if (type.includes('date')) return target('date');
+  if (type.startsWith('time')) return target('time');
+  if (type.includes('bool')) return target('boolean');
+  if (type.includes('bytea')) return target('binary');
+  if (type.includes('char') || type === 'text' || type === 'string') return target('text');
+  return target('unknown');
+};
+
+export const targetFieldKind = (column: ColumnInfo): SourceFieldKind => classifyTarget(column).kind;
+
+// ==========================================
+// Compatibility
+// ==========================================
+
+const kindLabels: Record<SourceFieldKind, string> = {
+  integer: 'Whole-number',
+  real: 'Decimal',
+  text: 'Text',
+  date: 'Date',
+  datetime: 'Date/time',
+  time: 'Time',
+  boolean: 'True/false',
+  binary: 'Binary',
+  geometry: 'Geometry',
+  unknown: 'Unknown',
+};
+
+const error = (message: string): TypeCompatibilityIssue => ({ level: 'error', message });
+const warning = (message: string): TypeCompatibilityIssue => ({ level: 'warning', message });
+
+/**
+ * Check a source column against the target column it is mapped to. Returns
+ * null when the pair is compatible or either type is unknown.
+ */
+export const checkTypeCompatibility = (
+  source: SourceField | undefined,
+  targetColumn: ColumnInfo
+): TypeCompatibilityIssue | null => {
+  if (!source || source.kind === 'unknown') return null;
+  const target = classifyTarget(targetColumn);
+  if (target.kind === 'unknown') return null;
+
+  const from = source.kind;
+  const cannot = () => error(`${kindLabels[from]} values (${source.nativeType}) cannot be loaded into the ${target.label} column.`);
+
+  switch (target.kind) {
+    case 'geometry':
+      if (from === 'geometry') return null;
+      if (from === 'text') return warning('Text values must be WKT or hex WKB to load into a geometry column.');
+      return cannot();
+
+    case 'integer': {
+      if (from === 'integer') {
+        const digits = INTEGER_DIGITS[target.integerBytes || 4];
+        if (target.integerBytes !== 8 && source.nativeType.startsWith('Integer64')) {
+          return warning(`64-bit integers may overflow the ${target.label} column.`);
+        }
+        if (source.width && source.width > digits) {
+          return warning(`Values up to ${source.width} digits may overflow the ${target.label} column.`);
+        }
+        return null;
+      }
+      if (from === 'real') return warning('Decimal values will be rounded to whole numbers.');
+      if (from === 'text') return warning('Text values must all be whole numbers or the load will fail.');
+      if (from === 'boolean') return warning('True/false values will load as 1 and 0.');
+      return cannot();
+    }
+
+    case 'real':
+      if (from === 'integer' || from === 'real') {
+        if (target.singlePrecision && source.width && source.width > 7) {
+          return warning(`Values up to ${source.width} digits lose precision in the ${target.label} column.`);
+        }
+        return null;
+      }
+      if (from === 'text') return warning('Text values must all be numbers or the load will fail.');
+      return cannot();
+
+    case 'text':
+      if (from === 'geometry') return warning('Geometry will be stored as text.');
+      if (from === 'binary') return warning('Binary values will be stored as hex text.');
+      if (target.maxLength && source.width && source.width > target.maxLength) {
+        return warning(`Values up to ${source.width} characters will not fit the ${target.maxLength}-character limit.`);
+      }
+      return null;
+
+    case 'boolean':
+      if (from === 'boolean') return null;
+      if (from === 'integer') return warning('Only 0 and 1 can load into a true/false column.');
+      if (from === 'text') return warning('Only true/false style values (true, false, yes, no, t, f) can load.');
+      return cannot();
+
+    case 'date':
+      if (from === 'date') return null;
+      if (from === 'datetime') return warning('The time of day will be dropped.');
+      if (from === 'text') return warning('Text values must all be valid dates or the load will fail.');
+      return cannot();
+
+    case 'datetime':
+      if (from === 'date' || from === 'datetime') return null;
+      if (from === 'text') return warning('Text values must all be valid timestamps or the load will fail.');
+      return cannot();
+
+    case 'time':
+      if (from === 'time') return null;
+      if (from === 'datetime') return warning('The date part will be dropped.');
+      if (from === 'text') return warning('Text values must all be valid times or the load will fail.');
+      return cannot();
+
+    case 'binary':
+      if (from === 'binary') return null;
+      if (from === 'text') return warning('Text values will be stored as bytes.');
+      return cannot();
+
+    default:
+      return null;
+  }
+};
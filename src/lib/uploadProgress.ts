@@ -0,0 +1,76 @@
+// lib/uploadProgress.ts
+// Throughput and ETA tracking for long-running zip/upload phases
+import type { UploadPhase, UploadProgress } from '../types/uploadTypes';
+
+const UPDATE_INTERVAL_MS = 250;
+// Weight given to the newest throughput sample; lower values give a steadier ETA
+const SMOOTHING = 0.2;
+
+export interface ProgressTracker {
+  update: (bytesProcessed: number) => void;
+  complete: () => void;
+}
+
+/**
+ * Create a tracker that turns raw byte counts into throttled UploadProgress
+ * events with a smoothed bytes-per-second rate and an estimated time remaining.
+ */
+export const createProgressTracker = (
+  phase: UploadPhase,
+  totalBytes: number,
+  onProgress: (progress: UploadProgress) => void,
+  initialBytes = 0
+): ProgressTracker => {
+  let lastSampleTime = Date.now();
+  let lastSampleBytes = initialBytes;
+  let bytesPerSecond = 0;
+
+  const emit = (bytesProcessed: number) => {
+    const remaining = Math.max(totalBytes - bytesProcessed, 0);
+    onProgress({
+      phase,
+      bytesProcessed,
+      totalBytes,
+      bytesPerSecond,
+      etaSeconds: bytesPerSecond > 0 ? remaining / bytesPerSecond : null,
+    });
+  };
+
+  emit(initialBytes);
+
+  return {
+    update: (bytesProcessed: number) => {
+      const now = Date.now();
+      const elapsed = now - lastSampleTime;
+      if (elapsed < UPDATE_INTERVAL_MS) return;
+
+      const sampleRate = ((bytesProcessed - lastSampleBytes) / elapsed) * 1000;
+      bytesPerSecond = bytesPerSecond === 0
+        ? sampleRate
+        : SMOOTHING * sampleRate + (1 - SMOOTHING) * bytesPerSecond;
+
+      lastSampleTime = now;
+      lastSampleBytes = bytesProcessed;
+      emit(bytesProcessed);
+    },
+    complete: () => emit(totalBytes),
+  };
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${bytes} B`;
+};
+
+export const formatDuration = (seconds: number): string => {
+  if (!isFinite(seconds)) return '—';
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  if (hours > 0) return `${hours}h ${minutes.toString().padStart(2, '0')}m`;
+  if (minutes > 0) return `${minutes}m ${secs.toString().padStart(2, '0')}s`;
+  return `${secs}s`;
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeSheet,
+  parseCellReference,
+  readXlsxWorkbook,
+  serialToText,
+  sheetCsvFilename,
+  sheetTable,
+  XlsxFormatError,
+  type XlsxSheet,
+} from './xlsxReader';
+
+// readXlsxWorkbook needs the browser (DOMParser, and JSZip reading a Blob), so
+// the tables below are sheets as it returns them: merged ranges already filled
+const sheet = (cells: string[][], merges: XlsxSheet['merges'] = []): XlsxSheet => ({ name: 'Sheet1', hidden: false, cells, merges });
+
+describe('cell values', () => {
+  it('reads A1 references', () => {
+    expect(parseCellReference('A1')).toEqual({ row: 0, column: 0 });
+    expect(parseCellReference('$AB$12')).toEqual({ row: 11, column: 27 });
+    expect(parseCellReference('XFD1048576')).toEqual({ row: 1048575, column: 16383 });
+    expect(parseCellReference('R1C1')).toBeNull();
+  });
+
+  it('converts date serials in both date systems', () => {
+    expect(serialToText(45366, 'date')).toBe('2024-03-15');
+    expect(serialToText(45366.5, 'datetime')).toBe('2024-03-15 12:00:00');
+    expect(serialToText(0.75, 'time')).toBe('18:00:00');
+    // Serials before Excel's phantom 29 February 1900
+    expect(serialToText(59, 'date')).toBe('1900-02-28');
+    expect(serialToText(61, 'date')).toBe('1900-03-01');
+    expect(serialToText(0, 'date', true)).toBe('1904-01-01');
+  });
+});
+
+describe('sheetTable', () => {
+  it('skips title rows and joins a two-row header under merged groups', () => {
+    const table = sheetTable(sheet([
+      ['Detrital zircon ages', '', '', ''],
+      ['Sample', 'Age (Ma)', 'Age (Ma)', 'Sample'],
+      ['', 'Value', 'Error', ''],
+      ['S1', '12.5', '0.3', 'dup'],
+    ], [{ top: 1, left: 1, bottom: 1, right: 2 }]));
+
+    expect(table).toEqual({
+      headerRows: [2, 3],
+      columns: ['Sample', 'Age (Ma) Value', 'Age (Ma) Error', 'Sample_2'],
+      rows: [['S1', '12.5', '0.3', 'dup']],
+    });
+  });
+
+  it('reads a one-row header and names the columns of a sheet without one', () => {
+    expect(sheetTable(sheet([['Unit', '', 'Depth'], ['Qal', 'x', '2.5']]))).toEqual({
+      headerRows: [1],
+      columns: ['Unit', 'field_2', 'Depth'],
+      rows: [['Qal', 'x', '2.5']],
+    });
+    expect(sheetTable(sheet([['1', '2.5'], ['2', '3.75']]))).toEqual({
+      headerRows: [],
+      columns: ['field_1', 'field_2'],
+      rows: [['1', '2.5'], ['2', '3.75']],
+    });
+  });
+});
+
+describe('analyzeSheet', () => {
+  it('infers field types, skips empty rows and finds coordinate columns', () => {
+    const analysis = analyzeSheet(sheet([
+      ['Site', 'Lat', 'Lon', 'Sampled'],
+      ['A', '40.76', '-111.89', '2024-03-15'],
+      ['', '', '', ''],
+      ['B', '41.2', '-112.05', '2024-04-02'],
+    ]), { samplesKept: 1 });
+
+    expect(analysis).toMatchObject({ name: 'Sheet1', hidden: false, headerRows: [1], rowCount: 2, coordinates: { latitude: 'Lat', longitude: 'Lon' } });
+    expect(analysis.fields.map(field => [field.name, field.kind, field.coordinate])).toEqual([
+      ['Site', 'text', undefined],
+      ['Lat', 'real', 'latitude'],
+      ['Lon', 'real', 'longitude'],
+      ['Sampled', 'date', undefined],
+    ]);
+    expect(analysis.fields[0].samples).toEqual(['A']);
+  });
+});
+
+describe('readXlsxWorkbook', () => {
+  it('rejects files that are not zip packages', async () => {
+    await expect(readXlsxWorkbook(new Blob(['Site,Lat\nA,40.76\n']))).rejects.toThrow(XlsxFormatError);
+  });
+});
+
+describe('sheetCsvFilename', () => {
+  it('names a sheet CSV after its workbook', () => {
+    expect(sheetCsvFilename('results.xlsx', 'U-Pb ages')).toBe('results-U-Pb_ages.csv');
+    expect(sheetCsvFilename('results.XLSX', ' ')).toBe('results-sheet.csv');
+  });
+});
@@ -0,0 +1,418 @@
+// lib/xlsxReader.ts
+// Reads Excel workbooks (.xlsx) in the browser: the package is unzipped with
+// JSZip and its XML parts read with DOMParser.
+//
+//   xl/workbook.xml             sheet names and the 1904 date system flag
+//   xl/_rels/workbook.xml.rels  which part holds each sheet
+//   xl/sharedStrings.xml        text of cells with t="s"
+//   xl/styles.xml               number formats, to tell dates from numbers
+//   xl/worksheets/sheetN.xml    cells by reference (A1) and merged ranges
+//
+// Every cell becomes text the way a CSV export would hold it: numbers as
+// written, dates as YYYY-MM-DD (with HH:MM:SS when the format shows a time),
+// booleans as true/false. Formulas contribute their cached result. A merged
+// range holds its value in its top-left cell; here every cell of the range
+// gets it, so a unit merged down a borehole log repeats on each row.
+//
+// The table of a sheet starts at its first row with two or more cells of its
+// own (rows above are titles and notes). When that row has cells merged across
+// columns and the row below is text, the two rows are one header: "Age (Ma)"
+// over "Value" and "Error" names the columns "Age (Ma) Value" and
+// "Age (Ma) Error". A first row that looks like data is not a header
+// (detectHeader), and the columns are named field_1, field_2, ...
+import JSZip from 'jszip';
+import type { SourceField } from '../types/uploadTypes';
+import { formatCsv } from './csv';
+import { detectHeader, findCoordinateColumns } from './csvSniffer';
+import type { CoordinateColumns } from './csvSniffer';
+import { inferFieldFromValues } from './typeCompatibility';
+
+export class XlsxFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XlsxFormatError';
+  }
+}
+
+// Zero-based and inclusive
+export interface CellRange {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+export interface XlsxSheet {
+  name: string;
+  hidden: boolean;
+  cells: string[][]; // rows of cell text, merged ranges filled, trailing empty rows and columns removed
+  merges: CellRange[];
+}
+
+export interface SheetTable {
+  headerRows: number[]; // one-based row numbers in the sheet; empty when there is no header
+  columns: string[];
+  rows: string[][];
+}
+
+export interface XlsxSheetAnalysis {
+  name: string;
+  hidden: boolean;
+  headerRows: number[];
+  fields: SourceField[];
+  rowCount: number;
+  coordinates: CoordinateColumns | null;
+}
+
+export interface XlsxAnalysisOptions {
+  sampleRows?: number; // data rows used to infer types
+  samplesKept?: number; // values kept per field as SourceField.samples
+}
+
+// Rows searched for the start of the table
+const HEADER_SEARCH_ROWS = 20;
+// Excel shows 15 significant digits; the stored binary double can show noise past that
+const NUMBER_DIGITS = 15;
+const MS_PER_DAY = 86400 * 1000;
+const EPOCH_1900 = Date.UTC(1899, 11, 30);
+const EPOCH_1904 = Date.UTC(1904, 0, 1);
+
+type DateStyle = 'date' | 'time' | 'datetime';
+
+// Built-in number formats that show dates or times
+const BUILTIN_DATE_FORMATS: Record<number, DateStyle> = {
+  14: 'date', 15: 'date', 16: 'date', 17: 'date', 18: 'time', 19: 'time', 20: 'time', 21: 'time', 22: 'datetime',
+  27: 'date', 28: 'date', 29: 'date', 30: 'date', 31: 'date', 32: 'time', 33: 'time', 34: 'time', 35: 'time', 36: 'date',
+  45: 'time', 46: 'time', 47: 'time',
+  50: 'date', 51: 'date', 52: 'date', 53: 'date', 54: 'date', 55: 'date', 56: 'date', 57: 'date', 58: 'date',
+};
+
+// ==========================================
+// Package parts
+// ==========================================
+
+const byTag = (parent: Document | Element, localName: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+const readPart = async (zip: JSZip, path: string): Promise<Document | null> => {
+  const entry = zip.file(path);
+  if (!entry) return null;
+  const document = new DOMParser().parseFromString(await entry.async('string'), 'application/xml');
+  if (byTag(document, 'parsererror').length > 0) throw new XlsxFormatError(`${path} is not well-formed XML.`);
+  return document;
+};
+
+// Relationship targets are relative to xl/ unless they start with "/"
+const resolveTarget = (target: string): string =>
+  target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+
+// Text of a shared string or inline string, leaving out phonetic guides
+const stringText = (element: Element): string =>
+  byTag(element, 't')
+    .filter(t => t.parentElement?.localName !== 'rPh')
+    .map(t => t.textContent || '')
+    .join('');
+
+const dateStyleOfFormat = (formatCode: string): DateStyle | null => {
+  // Quoted text, escaped, padding and fill characters, and sections such as
+  // [Red] or [$-409] are not date parts; elapsed time ([h], [mm]) is
+  const code = formatCode.replace(/"[^"]*"|[\\_*].|\[(?![hms]+\])[^\]]*\]/gi, '').toLowerCase();
+  const hasDate = /[dy]/.test(code);
+  const hasTime = /[hs]/.test(code);
+  if (hasDate && hasTime) return 'datetime';
+  if (hasTime) return 'time';
+  if (hasDate || /m/.test(code)) return 'date';
+  return null;
+};
+
+// Date style of each cell format (the s attribute indexes cellXfs)
+const readDateStyles = (styles: Document | null): (DateStyle | null)[] => {
+  if (!styles) return [];
+  const custom = new Map<number, string>();
+  for (const format of byTag(styles, 'numFmt')) {
+    custom.set(Number(format.getAttribute('numFmtId')), format.getAttribute('formatCode') || '');
+  }
+  const cellXfs = byTag(styles, 'cellXfs')[0];
+  if (!cellXfs) return [];
+  return Array.from(cellXfs.children).filter(xf => xf.localName === 'xf').map(xf => {
+    const id = Number(xf.getAttribute('numFmtId') || 0);
+    return custom.has(id) ? dateStyleOfFormat(custom.get(id) || '') : BUILTIN_DATE_FORMATS[id] || null;
+  });
+};
+
+// ==========================================
+// Cell values
+// ==========================================
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const serialToText = (serial: number, style: DateStyle, date1904 = false): string => {
+  // 1900 system serials below 61 predate Excel's phantom 29 February 1900
+  const epoch = date1904 ? EPOCH_1904 : serial < 61 ? EPOCH_1900 + MS_PER_DAY : EPOCH_1900;
+  const date = new Date(epoch + Math.round(serial * 86400) * 1000);
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  const time = `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+  return style === 'date' ? day : style === 'time' ? time : `${day} ${time}`;
+};
+
+const formatNumber = (value: string): string => {
+  const number = Number(value);
+  return Number.isFinite(number) ? String(Number(number.toPrecision(NUMBER_DIGITS))) : value;
+};
+
+/**
+ * Zero-based row and column of a reference such as "AB12"
+ */
+export const parseCellReference = (reference: string): { row: number; column: number } | null => {
+  const match = /^\$?([A-Z]{1,3})\$?(\d+)$/i.exec(reference.trim());
+  if (!match) return null;
+  const column = match[1].toUpperCase().split('').reduce((total, letter) => total * 26 + letter.charCodeAt(0) - 64, 0);
+  return { row: Number(match[2]) - 1, column: column - 1 };
+};
+
+const parseRange = (reference: string): CellRange | null => {
+  const [first, last = first] = reference.split(':');
+  const start = parseCellReference(first);
+  const end = parseCellReference(last);
+  if (!start || !end) return null;
+  return {
+    top: Math.min(start.row, end.row),
+    left: Math.min(start.column, end.column),
+    bottom: Math.max(start.row, end.row),
+    right: Math.max(start.column, end.column),
+  };
+};
+
+interface WorkbookContext {
+  sharedStrings: string[];
+  dateStyles: (DateStyle | null)[];
+  date1904: boolean;
+}
+
+const cellText = (cell: Element, context: WorkbookContext): string => {
+  const type = cell.getAttribute('t') || 'n';
+  if (type === 'inlineStr') {
+    const inline = byTag(cell, 'is')[0];
+    return inline ? stringText(inline) : '';
+  }
+
+  const value = byTag(cell, 'v')[0]?.textContent ?? '';
+  if (value === '') return '';
+  switch (type) {
+    case 's':
+      return context.sharedStrings[Number(value)] ?? '';
+    case 'b':
+      return value === '1' ? 'true' : 'false';
+    case 'e':
+      return ''; // #N/A, #DIV/0! and other errors
+    case 'str':
+      return value;
+    case 'd':
+      return value.replace('T', ' ').replace(/(\.\d+)?Z?$/, '').replace(/ 00:00:00$/, '');
+    default: {
+      const style = context.dateStyles[Number(cell.getAttribute('s') || 0)];
+      const number = Number(value);
+      return style && Number.isFinite(number) ? serialToText(number, style, context.date1904) : formatNumber(value);
+    }
+  }
+};
+
+const readWorksheet = (name: string, hidden: boolean, worksheet: Document, context: WorkbookContext): XlsxSheet => {
+  const cells: string[][] = [];
+  let rowIndex = -1;
+
+  for (const row of byTag(worksheet, 'row')) {
+    rowIndex = row.hasAttribute('r') ? Number(row.getAttribute('r')) - 1 : rowIndex + 1;
+    const values: string[] = [];
+    let columnIndex = -1;
+    for (const cell of Array.from(row.children).filter(child => child.localName === 'c')) {
+      columnIndex = parseCellReference(cell.getAttribute('r') || '')?.column ?? columnIndex + 1;
+      const text = cellText(cell, context);
+      if (text !== '') values[columnIndex] = text;
+    }
+    cells[rowIndex] = Array.from(values, value => value ?? '');
+  }
+
+  const merges = byTag(worksheet, 'mergeCell')
+    .map(mergeCell => parseRange(mergeCell.getAttribute('ref') || ''))
+    .filter((range): range is CellRange => range !== null);
+
+  for (const range of merges) {
+    const value = cells[range.top]?.[range.left] ?? '';
+    if (value === '') continue;
+    for (let row = range.top; row <= range.bottom; row++) {
+      cells[row] = cells[row] || [];
+      for (let column = range.left; column <= range.right; column++) cells[row][column] = value;
+    }
+  }
+
+  // Fill gaps left by missing rows and cells, then trim what is empty
+  const width = Math.max(0, ...Array.from(cells, row => (row || []).reduce((last, value, index) => (value ? index + 1 : last), 0)));
+  const grid = Array.from(cells, row => Array.from({ length: width }, (_, index) => row?.[index] ?? ''));
+  while (grid.length > 0 && grid[grid.length - 1].every(value => value === '')) grid.pop();
+
+  return { name, hidden, cells: grid, merges };
+};
+
+/**
+ * Every worksheet of a workbook, in tab order. Chart sheets are left out.
+ */
+export const readXlsxWorkbook = async (file: Blob): Promise<XlsxSheet[]> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new XlsxFormatError('File is not an Excel workbook (.xlsx); older .xls workbooks must be saved as .xlsx first.');
+  }
+
+  const workbook = await readPart(zip, 'xl/workbook.xml');
+  const relationships = await readPart(zip, 'xl/_rels/workbook.xml.rels');
+  if (!workbook || !relationships) throw new XlsxFormatError('Workbook is missing xl/workbook.xml or its relationships.');
+
+  const targets = new Map<string, string>();
+  for (const relationship of byTag(relationships, 'Relationship')) {
+    if ((relationship.getAttribute('Type') || '').endsWith('/worksheet')) {
+      targets.set(relationship.getAttribute('Id') || '', resolveTarget(relationship.getAttribute('Target') || ''));
+    }
+  }
+
+  const sharedStringsPart = await readPart(zip, 'xl/sharedStrings.xml');
+  const workbookPr = byTag(workbook, 'workbookPr')[0];
+  const context: WorkbookContext = {
+    sharedStrings: sharedStringsPart ? byTag(sharedStringsPart, 'si').map(stringText) : [],
+    dateStyles: readDateStyles(await readPart(zip, 'xl/styles.xml')),
+    date1904: ['1', 'true'].includes(workbookPr?.getAttribute('date1904') || ''),
+  };
+
+  const sheets: XlsxSheet[] = [];
+  for (const sheet of byTag(workbook, 'sheet')) {
+    // r:id is namespaced; its prefix varies between writers
+    const relationshipId = Array.from(sheet.attributes).find(attribute => attribute.localName === 'id')?.value || '';
+    const target = targets.get(relationshipId);
+    const worksheet = target ? await readPart(zip, target) : null;
+    if (!worksheet) continue;
+    const state = sheet.getAttribute('state');
+    sheets.push(readWorksheet(sheet.getAttribute('name') || `Sheet${sheets.length + 1}`, state === 'hidden' || state === 'veryHidden', worksheet, context));
+  }
+  return sheets;
+};
+
+// ==========================================
+// Tables
+// ==========================================
+
+const isTopLeftOrUnmerged = (merges: CellRange[], row: number, column: number): boolean =>
+  !merges.some(range => row >= range.top && row <= range.bottom && column >= range.left && column <= range.right &&
+    (row !== range.top || column !== range.left));
+
+const ownCellCount = (sheet: XlsxSheet, row: number): number =>
+  sheet.cells[row].filter((value, column) => value !== '' && isTopLeftOrUnmerged(sheet.merges, row, column)).length;
+
+const isNumeric = (value: string) => value.trim() !== '' && Number.isFinite(Number(value));
+
+// Empty names become field_N and repeated names get a _2, _3, ... suffix
+const uniqueColumnNames = (names: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return names.map((name, index) => {
+    const base = name.replace(/\s+/g, ' ').trim() || `field_${index + 1}`;
+    const count = (seen.get(base.toLowerCase()) || 0) + 1;
+    seen.set(base.toLowerCase(), count);
+    return count > 1 ? `${base}_${count}` : base;
+  });
+};
+
+/**
+ * Header rows, column names and data rows of a sheet
+ */
+export const sheetTable = (sheet: XlsxSheet): SheetTable => {
+  const { cells, merges } = sheet;
+  const width = cells[0]?.length ?? 0;
+  const searched = cells.slice(0, HEADER_SEARCH_ROWS).map((_, row) => ownCellCount(sheet, row));
+  let start = searched.findIndex(count => count >= Math.min(2, width));
+  if (start === -1) start = 0;
+
+  const first = cells[start] || [];
+  const next = cells[start + 1];
+  const groupMerges = merges.filter(range => range.top === start && range.bottom === start && range.right > range.left);
+  const isTwoRowHeader = groupMerges.length > 0 && next !== undefined &&
+    groupMerges.every(range => next.slice(range.left, range.right + 1).every(value => value !== '' && !isNumeric(value)));
+
+  if (isTwoRowHeader) {
+    const names = first.map((group, column) => {
+      const sub = next[column] || '';
+      const grouped = groupMerges.some(range => column >= range.left && column <= range.right);
+      if (!grouped || !sub || sub === group) return group || sub;
+      return `${group} ${sub}`;
+    });
+    return { headerRows: [start + 1, start + 2], columns: uniqueColumnNames(names), rows: cells.slice(start + 2) };
+  }
+
+  const hasHeader = detectHeader(cells.slice(start, start + 200));
+  return hasHeader
+    ? { headerRows: [start + 1], columns: uniqueColumnNames(first), rows: cells.slice(start + 1) }
+    : { headerRows: [], columns: uniqueColumnNames(first.map(() => '')), rows: cells.slice(start) };
+};
+
+// ==========================================
+// Fields for the mapping step
+// ==========================================
+
+export const analyzeSheet = (
+  sheet: XlsxSheet,
+  { sampleRows = 200, samplesKept = 0 }: XlsxAnalysisOptions = {}
+): XlsxSheetAnalysis => {
+  const table = sheetTable(sheet);
+  const dataRows = table.rows.filter(row => row.some(value => value !== ''));
+  const sample = dataRows.slice(0, sampleRows);
+
+  const columnValues = table.columns.map((_, index) => sample.map(row => row[index] ?? ''));
+  const fields = table.columns.map((name, index) => ({
+    ...inferFieldFromValues(name, columnValues[index]),
+    samples: columnValues[index].slice(0, samplesKept),
+  }));
+  const coordinates = findCoordinateColumns(fields, columnValues);
+
+  return {
+    name: sheet.name,
+    hidden: sheet.hidden,
+    headerRows: table.headerRows,
+    fields: coordinates
+      ? fields.map(field =>
+          field.name === coordinates.latitude ? { ...field, coordinate: 'latitude' as const }
+            : field.name === coordinates.longitude ? { ...field, coordinate: 'longitude' as const }
+              : field)
+      : fields,
+    rowCount: dataRows.length,
+    coordinates,
+  };
+};
+
+/**
+ * Sheets with at least one cell, analyzed in tab order
+ */
+export const analyzeXlsx = async (file: Blob, options: XlsxAnalysisOptions = {}): Promise<XlsxSheetAnalysis[]> =>
+  (await readXlsxWorkbook(file))
+    .filter(sheet => sheet.cells.length > 0)
+    .map(sheet => analyzeSheet(sheet, options));
+
+/**
+ * The table of one sheet as CSV: the column names analyzeSheet reports, then
+ * the non-empty data rows
+ */
+export const sheetToCsv = async (file: Blob, sheetName: string): Promise<{ csv: string; table: SheetTable }> => {
+  const sheet = (await readXlsxWorkbook(file)).find(candidate => candidate.name === sheetName);
+  if (!sheet) throw new XlsxFormatError(`Sheet "${sheetName}" was not found in the workbook.`);
+  const table = sheetTable(sheet);
+  const rows = table.rows.filter(row => row.some(value => value !== ''));
+  return { csv: formatCsv([table.columns, ...rows]), table: { ...table, rows } };
+};
+
+// GDALAnalysisResult.sourceFormat of an analyzed workbook
+export const XLSX_SOURCE_FORMAT = 'Excel Workbook';
+
+/**
+ * Name for a sheet's CSV next to its workbook: "results.xlsx" and sheet
+ * "U-Pb ages" give "results-U-Pb_ages.csv"
+ */
+export const sheetCsvFilename = (workbookName: string, sheetName: string): string =>
+  `${workbookName.replace(/\.xlsx$/i, '')}-${sheetName.trim().replace(/[^A-Za-z0-9_-]+/g, '_') || 'sheet'}.csv`;
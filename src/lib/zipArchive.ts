@@ -0,0 +1,190 @@
+// lib/zipArchive.ts
+// Main-thread entry point for building submission zips in the zip worker.
+//
+// Every selected file is stored under data/ and compressed exactly once. The
+// compressed data section is cached, so the geodatabase analysis upload and the
+// final submission reuse the same bytes: analysis gets the section plus a
+// central directory, the submission gets the section plus metadata.json plus a
+// central directory.
+import type { UploadProgress } from '../types/uploadTypes';
+import type { ZipWorkerRequest, ZipWorkerResponse } from '../workers/zipWorker';
+import { BlobSink, buildCentralDirectory, writeDeflatedEntry } from './zipWriter';
+import type { ZipEntryRecord } from './zipWriter';
+import { createProgressTracker } from './uploadProgress';
+
+export const DATA_PREFIX = 'data/';
+
+export interface DataArchive {
+  key: string;
+  section: Blob;
+  entries: ZipEntryRecord[];
+}
+
+interface BuildOptions {
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface BlobChecksums {
+  sha256: string; // hex
+  crc32c: string; // base64, as reported by Cloud Storage
+}
+
+type WorkerResult =
+  | { type: 'built'; section: Blob; entries: ZipEntryRecord[] }
+  | { type: 'hashed'; sha256: string; crc32c: string };
+
+let cachedArchive: DataArchive | null = null;
+let pendingBuild: { key: string; promise: Promise<DataArchive> } | null = null;
+
+// Identifies a file selection; any added, removed or modified file invalidates the cache
+const selectionKey = (files: File[]): string =>
+  files.map(file => `${file.name}:${file.size}:${file.lastModified}`).join('|');
+
+const runWorker = (
+  request: ZipWorkerRequest,
+  options: BuildOptions,
+  totalBytes: number
+): Promise<WorkerResult> => {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/zipWorker.ts', import.meta.url), { type: 'module' });
+    const phase = request.type === 'build' ? 'zipping' : 'hashing';
+    const tracker = options.onProgress ? createProgressTracker(phase, totalBytes, options.onProgress) : null;
+
+    const onAbort = () => {
+      worker.terminate();
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    };
+
+    const finish = () => {
+      worker.terminate();
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+
+    worker.onmessage = (event: MessageEvent<ZipWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        tracker?.update(message.bytesProcessed);
+      } else if (message.type === 'built' || message.type === 'hashed') {
+        tracker?.complete();
+        finish();
+        resolve(message);
+      } else if (message.type === 'error') {
+        finish();
+        reject(new Error(`Zip worker failed: ${message.message}`));
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(`Zip worker crashed: ${event.message}`));
+    };
+
+    if (options.signal?.aborted) {
+      onAbort();
+      return;
+    }
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    worker.postMessage(request);
+  });
+};
+
+/**
+ * Compress the selected files into a zip data section, reusing the cached
+ * section when the same selection was already built (e.g. during analysis).
+ */
+export const buildDataArchive = async (files: File[], options: BuildOptions = {}): Promise<DataArchive> => {
+  const key = selectionKey(files);
+
+  if (cachedArchive?.key === key) {
+    console.log('♻️ Reusing previously built data archive');
+    return cachedArchive;
+  }
+  if (pendingBuild?.key === key) {
+    return pendingBuild.promise;
+  }
+
+  const totalBytes = files.reduce((total, file) => total + file.size, 0);
+  const promise = runWorker(
+    { type: 'build', files: files.map(file => ({ path: `${DATA_PREFIX}${file.name}`, file })) },
+    options,
+    totalBytes
+  ).then((result) => {
+    if (result.type !== 'built') throw new Error('Unexpected zip worker response');
+    cachedArchive = { key, section: result.section, entries: result.entries };
+    return cachedArchive;
+  }).finally(() => {
+    if (pendingBuild?.key === key) pendingBuild = null;
+  });
+
+  pendingBuild = { key, promise };
+  return promise;
+};
+
+/**
+ * Archive containing only the data section, for GDAL analysis uploads
+ */
+export const assembleAnalysisZip = (archive: DataArchive): Blob =>
+  new Blob([archive.section, buildCentralDirectory(archive.entries, archive.section.size)], { type: 'application/zip' });
+
+/**
+ * Final submission archive: data section, then metadata.json, then the central directory.
+ * metadata.json goes last so the data bytes stay identical between attempts,
+ * which is what lets an interrupted resumable upload continue.
+ */
+export const assembleSubmissionZip = async (archive: DataArchive, metadataJson: string): Promise<Blob> => {
+  const metadataBytes = new TextEncoder().encode(metadataJson);
+  const sink = new BlobSink();
+  const metadataEntry = await writeDeflatedEntry(
+    new Blob([metadataBytes]).stream(),
+    'metadata.json',
+    Date.now(),
+    metadataBytes.length,
+    archive.section.size,
+    sink
+  );
+
+  const metadataSection = sink.toBlob();
+  const entries = [...archive.entries, metadataEntry];
+  const centralDirectory = buildCentralDirectory(entries, archive.section.size + metadataSection.size);
+
+  return new Blob([archive.section, metadataSection, centralDirectory], { type: 'application/zip' });
+};
+
+/**
+ * SHA-256 and CRC-32C of a finished archive, computed in the zip worker
+ */
+export const computeChecksums = async (blob: Blob, options: BuildOptions = {}): Promise<BlobChecksums> => {
+  const result = await runWorker({ type: 'hash', blob }, options, blob.size);
+  if (result.type !== 'hashed') throw new Error('Unexpected zip worker response');
+  return { sha256: result.sha256, crc32c: result.crc32c };
+};
+
+/**
+ * SHA-256 of each original file, keyed by its name in the selection
+ */
+export const getFileChecksums = (archive: DataArchive): Record<string, string> => {
+  const checksums: Record<string, string> = {};
+  for (const entry of archive.entries) {
+    if (entry.sha256) {
+      checksums[entry.path.substring(DATA_PREFIX.length)] = entry.sha256;
+    }
+  }
+  return checksums;
+};
+
+/**
+ * Fingerprint of the submitted data: SHA-256 over the sorted name/hash pairs of
+ * every original file. Unlike the zip hash it ignores metadata.json and
+ * timestamps, so re-submitting the same files produces the same value.
+ */
+export const getContentHash = async (archive: DataArchive): Promise<string> => {
+  const lines = Object.entries(getFileChecksums(archive))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([name, sha256]) => `${sha256}  ${name}\n`)
+    .join('');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(lines));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
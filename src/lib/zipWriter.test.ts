@@ -0,0 +1,158 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { updateCrc32 } from './crc32';
+import {
+  BlobSink,
+  buildCentralDirectory,
+  buildDataDescriptor,
+  buildLocalHeader,
+  needsZip64ForSize,
+  toDosDateTime,
+  writeDeflatedEntry,
+  type ZipEntryRecord,
+} from './zipWriter';
+
+const text = (value: string) => new TextEncoder().encode(value);
+const viewOf = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+const blobBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+const entryRecord = (overrides: Partial<ZipEntryRecord> = {}): ZipEntryRecord => ({
+  path: 'data/a.csv',
+  offset: 0,
+  crc32: 0xCBF43926,
+  compressedSize: 11,
+  uncompressedSize: 9,
+  dosTime: 0,
+  dosDate: 0,
+  zip64: false,
+  ...overrides,
+});
+
+describe('updateCrc32', () => {
+  it('matches the standard check value, in one pass or in chunks', () => {
+    expect(updateCrc32(0, text('123456789'))).toBe(0xCBF43926);
+    expect(updateCrc32(updateCrc32(0, text('1234')), text('56789'))).toBe(0xCBF43926);
+    expect(updateCrc32(0, new Uint8Array())).toBe(0);
+  });
+});
+
+describe('zip headers', () => {
+  it('clamps timestamps to the MS-DOS date range', () => {
+    expect(toDosDateTime(new Date(2024, 2, 15, 13, 45, 31).getTime())).toEqual({
+      dosTime: (13 << 11) | (45 << 5) | 15,
+      dosDate: (44 << 9) | (3 << 5) | 15,
+    });
+    expect(toDosDateTime(new Date(1970, 0, 1).getTime()).dosDate >> 9).toBe(0);
+  });
+
+  it('switches to ZIP64 before deflate overhead could overflow 32-bit sizes', () => {
+    expect(needsZip64ForSize(0xEFFFFFFF)).toBe(false);
+    expect(needsZip64ForSize(0xF0000000)).toBe(true);
+  });
+
+  it('defers the CRC and sizes of a local header to the data descriptor', () => {
+    const classic = viewOf(buildLocalHeader('data/a.csv', 1, 2, false));
+    expect(classic.getUint32(0, true)).toBe(0x04034b50);
+    expect(classic.getUint16(6, true)).toBe(0x0808);
+    expect([classic.getUint32(14, true), classic.getUint32(18, true), classic.getUint32(22, true)]).toEqual([0, 0, 0]);
+    expect(classic.byteLength).toBe(30 + 'data/a.csv'.length);
+
+    const zip64 = viewOf(buildLocalHeader('data/a.csv', 1, 2, true));
+    expect(zip64.getUint16(4, true)).toBe(45);
+    expect([zip64.getUint32(18, true), zip64.getUint32(22, true)]).toEqual([0xFFFFFFFF, 0xFFFFFFFF]);
+    expect(zip64.getUint16(28, true)).toBe(20);
+    expect(zip64.getUint16(30 + 'data/a.csv'.length, true)).toBe(0x0001);
+  });
+
+  it('writes 8-byte sizes into a ZIP64 data descriptor', () => {
+    expect(buildDataDescriptor(entryRecord())).toHaveLength(16);
+
+    const descriptor = viewOf(buildDataDescriptor(entryRecord({ zip64: true, compressedSize: 5 * 1024 ** 3, uncompressedSize: 6 * 1024 ** 3 })));
+    expect(descriptor.byteLength).toBe(24);
+    expect(descriptor.getUint32(4, true)).toBe(0xCBF43926);
+    expect(descriptor.getBigUint64(8, true)).toBe(BigInt(5 * 1024 ** 3));
+    expect(descriptor.getBigUint64(16, true)).toBe(BigInt(6 * 1024 ** 3));
+  });
+});
+
+describe('buildCentralDirectory', () => {
+  it('ends a small archive with only the classic end record', async () => {
+    const bytes = await blobBytes(buildCentralDirectory([entryRecord()], 100));
+    const end = viewOf(bytes.subarray(bytes.length - 22));
+    expect(bytes.length).toBe(46 + 'data/a.csv'.length + 22);
+    expect(end.getUint32(0, true)).toBe(0x06054b50);
+    expect(end.getUint16(8, true)).toBe(1);
+    expect(end.getUint32(12, true)).toBe(46 + 'data/a.csv'.length);
+    expect(end.getUint32(16, true)).toBe(100);
+  });
+
+  it('adds the ZIP64 end record and locator once the directory starts past 4 GiB', async () => {
+    const offset = 5 * 1024 ** 3;
+    const entry = entryRecord({ offset: offset - 100 });
+    const bytes = await blobBytes(buildCentralDirectory([entry], offset));
+    const headerLength = 46 + entry.path.length + 4 + 8;
+
+    // The local header offset overflows, so it alone moves into the ZIP64 extra
+    const header = viewOf(bytes.subarray(0, headerLength));
+    expect(header.getUint32(42, true)).toBe(0xFFFFFFFF);
+    expect(header.getUint16(30, true)).toBe(12);
+    expect(header.getBigUint64(46 + entry.path.length + 4, true)).toBe(BigInt(offset - 100));
+
+    const zip64End = viewOf(bytes.subarray(headerLength, headerLength + 56));
+    expect(zip64End.getUint32(0, true)).toBe(0x06064b50);
+    expect(zip64End.getBigUint64(24, true)).toBe(1n);
+    expect(zip64End.getBigUint64(40, true)).toBe(BigInt(headerLength));
+    expect(zip64End.getBigUint64(48, true)).toBe(BigInt(offset));
+
+    const locator = viewOf(bytes.subarray(headerLength + 56, headerLength + 76));
+    expect(locator.getUint32(0, true)).toBe(0x07064b50);
+    expect(locator.getBigUint64(8, true)).toBe(BigInt(offset + headerLength));
+
+    const end = viewOf(bytes.subarray(headerLength + 76));
+    expect([end.getUint16(8, true), end.getUint32(12, true), end.getUint32(16, true)]).toEqual([0xFFFF, 0xFFFFFFFF, 0xFFFFFFFF]);
+  });
+});
+
+describe('writeDeflatedEntry', () => {
+  const writeArchive = async (files: [string, string][], sizeHint?: number) => {
+    const sink = new BlobSink();
+    const entries: ZipEntryRecord[] = [];
+    for (const [path, content] of files) {
+      const data = text(content);
+      entries.push(await writeDeflatedEntry(new Blob([data]).stream(), path, Date.UTC(2024, 0, 2), sizeHint ?? data.length, sink.length, sink));
+    }
+    const section = sink.toBlob();
+    return { entries, bytes: await blobBytes(new Blob([section, buildCentralDirectory(entries, section.size)])) };
+  };
+
+  it('records the CRC, sizes and offset of each entry', async () => {
+    const chunks: number[] = [];
+    const sink = new BlobSink();
+    const source = new Blob([text('12345'), text('6789')]).stream();
+    const entry = await writeDeflatedEntry(source, 'check.txt', 0, 9, 0, sink, chunk => chunks.push(chunk.length));
+
+    expect(entry).toMatchObject({ path: 'check.txt', offset: 0, crc32: 0xCBF43926, uncompressedSize: 9, zip64: false });
+    expect(chunks.reduce((total, length) => total + length, 0)).toBe(9);
+    expect(sink.length).toBe(30 + 'check.txt'.length + entry.compressedSize + 16);
+  });
+
+  it('produces archives another zip reader accepts with CRC checks on', async () => {
+    const { entries, bytes } = await writeArchive([
+      ['data/roads.csv', 'id,name\n1,Main St\n'],
+      ['data/ünïcode.txt', 'x'.repeat(5000)],
+    ]);
+    expect(entries[1].offset).toBe(30 + 'data/roads.csv'.length + entries[0].compressedSize + 16);
+
+    const zip = await JSZip.loadAsync(bytes, { checkCRC32: true });
+    expect(await zip.file('data/roads.csv')?.async('string')).toBe('id,name\n1,Main St\n');
+    expect(await zip.file('data/ünïcode.txt')?.async('string')).toBe('x'.repeat(5000));
+  });
+
+  it('writes ZIP64 records when the size hint crosses the threshold', async () => {
+    const { entries, bytes } = await writeArchive([['data/big.txt', 'x'.repeat(1000)]], 0xF0000000);
+    expect(entries[0].zip64).toBe(true);
+
+    const zip = await JSZip.loadAsync(bytes, { checkCRC32: true });
+    expect(await zip.file('data/big.txt')?.async('string')).toBe('x'.repeat(1000));
+  });
+});
@@ -0,0 +1,309 @@
+// lib/zipWriter.ts
+// Minimal streaming zip writer (PKWARE APPNOTE 6.3).
+//
+// Entries are written as local header + deflated data + data descriptor, so
+// sizes and CRCs never have to be known before a file has been read. ZIP64
+// records are emitted only when sizes, offsets or the entry count outgrow the
+// classic 32/16-bit fields, which keeps small archives readable everywhere.
+//
+// The writer is split into pure header builders so the zip worker can stream
+// the (large) data section while the main thread appends the (small)
+// metadata.json entry and central directory afterwards.
+
+import { updateCrc32 } from './crc32';
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const ZIP64_END_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const END_SIGNATURE = 0x06054b50;
+
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+const METHOD_DEFLATE = 8;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+const ZIP64_EXTRA_ID = 0x0001;
+
+const MAX_UINT32 = 0xFFFFFFFF;
+const MAX_UINT16 = 0xFFFF;
+// Deflate can slightly expand incompressible input, so switch to ZIP64 early
+const ZIP64_SIZE_THRESHOLD = 0xF0000000;
+
+export interface ZipEntryRecord {
+  path: string;
+  offset: number; // Offset of the local header from the start of the archive
+  crc32: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  dosTime: number;
+  dosDate: number;
+  zip64: boolean;
+  sha256?: string;
+}
+
+const textEncoder = new TextEncoder();
+
+const setUint64 = (view: DataView, offset: number, value: number) => {
+  view.setUint32(offset, value % 0x100000000, true);
+  view.setUint32(offset + 4, Math.floor(value / 0x100000000), true);
+};
+
+/**
+ * Convert a JS timestamp to MS-DOS date/time fields (local time, 2-second resolution)
+ */
+export const toDosDateTime = (timestamp: number): { dosTime: number; dosDate: number } => {
+  const date = new Date(timestamp);
+  const year = Math.min(Math.max(date.getFullYear(), 1980), 2107);
+  return {
+    dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    dosDate: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+};
+
+export const needsZip64ForSize = (uncompressedSize: number): boolean =>
+  uncompressedSize >= ZIP64_SIZE_THRESHOLD;
+
+export const buildLocalHeader = (path: string, dosTime: number, dosDate: number, zip64: boolean): Uint8Array => {
+  const name = textEncoder.encode(path);
+  // ZIP64 local headers carry a zeroed size extra; real sizes follow in the data descriptor
+  const extraLength = zip64 ? 20 : 0;
+  const header = new Uint8Array(30 + name.length + extraLength);
+  const view = new DataView(header.buffer);
+
+  view.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+  view.setUint16(4, zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+  view.setUint16(6, FLAG_DATA_DESCRIPTOR | FLAG_UTF8, true);
+  view.setUint16(8, METHOD_DEFLATE, true);
+  view.setUint16(10, dosTime, true);
+  view.setUint16(12, dosDate, true);
+  // CRC and sizes are deferred to the data descriptor
+  view.setUint32(14, 0, true);
+  view.setUint32(18, zip64 ? MAX_UINT32 : 0, true);
+  view.setUint32(22, zip64 ? MAX_UINT32 : 0, true);
+  view.setUint16(26, name.length, true);
+  view.setUint16(28, extraLength, true);
+  header.set(name, 30);
+
+  if (zip64) {
+    const extraOffset = 30 + name.length;
+    view.setUint16(extraOffset, ZIP64_EXTRA_ID, true);
+    view.setUint16(extraOffset + 2, 16, true);
+    // Both sizes left as zero
+  }
+
+  return header;
+};
+
+export const buildDataDescriptor = (entry: ZipEntryRecord): Uint8Array => {
+  const descriptor = new Uint8Array(entry.zip64 ? 24 : 16);
+  const view = new DataView(descriptor.buffer);
+
+  view.setUint32(0, DATA_DESCRIPTOR_SIGNATURE, true);
+  view.setUint32(4, entry.crc32, true);
+  if (entry.zip64) {
+    setUint64(view, 8, entry.compressedSize);
+    setUint64(view, 16, entry.uncompressedSize);
+  } else {
+    view.setUint32(8, entry.compressedSize, true);
+    view.setUint32(12, entry.uncompressedSize, true);
+  }
+
+  return descriptor;
+};
+
+const buildCentralHeader = (entry: ZipEntryRecord): Uint8Array => {
+  const name = textEncoder.encode(entry.path);
+
+  // Only fields that overflow go into the ZIP64 extra, in this fixed order
+  const zip64Fields: number[] = [];
+  const uncompressedOverflow = entry.zip64 || entry.uncompressedSize >= MAX_UINT32;
+  const compressedOverflow = entry.zip64 || entry.compressedSize >= MAX_UINT32;
+  const offsetOverflow = entry.offset >= MAX_UINT32;
+  if (uncompressedOverflow) zip64Fields.push(entry.uncompressedSize);
+  if (compressedOverflow) zip64Fields.push(entry.compressedSize);
+  if (offsetOverflow) zip64Fields.push(entry.offset);
+
+  const extraLength = zip64Fields.length > 0 ? 4 + zip64Fields.length * 8 : 0;
+  const header = new Uint8Array(46 + name.length + extraLength);
+  const view = new DataView(header.buffer);
+  const version = zip64Fields.length > 0 ? VERSION_ZIP64 : VERSION_DEFAULT;
+
+  view.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+  view.setUint16(4, version, true);
+  view.setUint16(6, version, true);
+  view.setUint16(8, FLAG_DATA_DESCRIPTOR | FLAG_UTF8, true);
+  view.setUint16(10, METHOD_DEFLATE, true);
+  view.setUint16(12, entry.dosTime, true);
+  view.setUint16(14, entry.dosDate, true);
+  view.setUint32(16, entry.crc32, true);
+  view.setUint32(20, compressedOverflow ? MAX_UINT32 : entry.compressedSize, true);
+  view.setUint32(24, uncompressedOverflow ? MAX_UINT32 : entry.uncompressedSize, true);
+  view.setUint16(28, name.length, true);
+  view.setUint16(30, extraLength, true);
+  view.setUint16(32, 0, true); // comment length
+  view.setUint16(34, 0, true); // disk number start
+  view.setUint16(36, 0, true); // internal attributes
+  view.setUint32(38, 0, true); // external attributes
+  view.setUint32(42, offsetOverflow ? MAX_UINT32 : entry.offset, true);
+  header.set(name, 46);
+
+  if (extraLength > 0) {
+    const extraOffset = 46 + name.length;
+    view.setUint16(extraOffset, ZIP64_EXTRA_ID, true);
+    view.setUint16(extraOffset + 2, zip64Fields.length * 8, true);
+    zip64Fields.forEach((value, index) => setUint64(view, extraOffset + 4 + index * 8, value));
+  }
+
+  return header;
+};
+
+/**
+ * Build the central directory and end-of-central-directory records for entries
+ * whose local data ends at `centralDirectoryOffset`.
+ */
+export const buildCentralDirectory = (entries: ZipEntryRecord[], centralDirectoryOffset: number): Blob => {
+  const headers = entries.map(buildCentralHeader);
+  const centralDirectorySize = headers.reduce((total, header) => total + header.length, 0);
+
+  const needsZip64End =
+    entries.length >= MAX_UINT16 ||
+    centralDirectoryOffset >= MAX_UINT32 ||
+    centralDirectorySize >= MAX_UINT32;
+
+  const parts: Uint8Array[] = [...headers];
+
+  if (needsZip64End) {
+    const zip64EndOffset = centralDirectoryOffset + centralDirectorySize;
+
+    const zip64End = new Uint8Array(56);
+    const endView = new DataView(zip64End.buffer);
+    endView.setUint32(0, ZIP64_END_SIGNATURE, true);
+    setUint64(endView, 4, 44); // size of the remaining record
+    endView.setUint16(12, VERSION_ZIP64, true);
+    endView.setUint16(14, VERSION_ZIP64, true);
+    endView.setUint32(16, 0, true);
+    endView.setUint32(20, 0, true);
+    setUint64(endView, 24, entries.length);
+    setUint64(endView, 32, entries.length);
+    setUint64(endView, 40, centralDirectorySize);
+    setUint64(endView, 48, centralDirectoryOffset);
+
+    const locator = new Uint8Array(20);
+    const locatorView = new DataView(locator.buffer);
+    locatorView.setUint32(0, ZIP64_LOCATOR_SIGNATURE, true);
+    locatorView.setUint32(4, 0, true);
+    setUint64(locatorView, 8, zip64EndOffset);
+    locatorView.setUint32(16, 1, true);
+
+    parts.push(zip64End, locator);
+  }
+
+  const end = new Uint8Array(22);
+  const view = new DataView(end.buffer);
+  view.setUint32(0, END_SIGNATURE, true);
+  view.setUint16(4, 0, true);
+  view.setUint16(6, 0, true);
+  view.setUint16(8, needsZip64End ? MAX_UINT16 : entries.length, true);
+  view.setUint16(10, needsZip64End ? MAX_UINT16 : entries.length, true);
+  view.setUint32(12, needsZip64End ? MAX_UINT32 : centralDirectorySize, true);
+  view.setUint32(16, needsZip64End ? MAX_UINT32 : centralDirectoryOffset, true);
+  view.setUint16(20, 0, true);
+  parts.push(end);
+
+  return new Blob(parts);
+};
+
+// ==========================================
+// Streaming entry writer
+// ==========================================
+
+const SINK_FLUSH_BYTES = 8 * 1024 * 1024;
+
+/**
+ * Collects archive bytes into Blob parts of a few MB each so the browser can
+ * keep the bulk of a large archive in its blob store instead of the JS heap.
+ */
+export class BlobSink {
+  private parts: Blob[] = [];
+  private pending: Uint8Array[] = [];
+  private pendingBytes = 0;
+  length = 0;
+
+  write(chunk: Uint8Array) {
+    this.pending.push(chunk);
+    this.pendingBytes += chunk.length;
+    this.length += chunk.length;
+    if (this.pendingBytes >= SINK_FLUSH_BYTES) {
+      this.flush();
+    }
+  }
+
+  toBlob(): Blob {
+    this.flush();
+    return new Blob(this.parts, { type: 'application/zip' });
+  }
+
+  private flush() {
+    if (this.pending.length > 0) {
+      this.parts.push(new Blob(this.pending));
+      this.pending = [];
+      this.pendingBytes = 0;
+    }
+  }
+}
+
+/**
+ * Deflate `source` into `sink` as a complete zip entry starting at `offset`.
+ * `onChunk` sees every uncompressed chunk, for hashing and progress reporting.
+ */
+export const writeDeflatedEntry = async (
+  source: ReadableStream<Uint8Array>,
+  path: string,
+  lastModified: number,
+  uncompressedSizeHint: number,
+  offset: number,
+  sink: BlobSink,
+  onChunk?: (chunk: Uint8Array) => void
+): Promise<ZipEntryRecord> => {
+  const { dosTime, dosDate } = toDosDateTime(lastModified);
+  const zip64 = needsZip64ForSize(uncompressedSizeHint);
+
+  const localHeader = buildLocalHeader(path, dosTime, dosDate, zip64);
+  sink.write(localHeader);
+
+  let crc = 0;
+  let uncompressedSize = 0;
+  let compressedSize = 0;
+
+  const inspected = source.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      crc = updateCrc32(crc, chunk);
+      uncompressedSize += chunk.length;
+      onChunk?.(chunk);
+      controller.enqueue(chunk);
+    },
+  }));
+
+  const reader = inspected.pipeThrough(new CompressionStream('deflate-raw')).getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    compressedSize += value.length;
+    sink.write(value);
+  }
+
+  const entry: ZipEntryRecord = {
+    path,
+    offset,
+    crc32: crc,
+    compressedSize,
+    uncompressedSize,
+    dosTime,
+    dosDate,
+    zip64,
+  };
+  sink.write(buildDataDescriptor(entry));
+  return entry;
+};
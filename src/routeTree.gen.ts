@@ -12,6 +12,8 @@
 
 import { Route as rootRoute } from './routes/__root'
 import { Route as IndexImport } from './routes/index'
+import { Route as SubmissionsIndexImport } from './routes/submissions.index'
+import { Route as SubmissionsFilenameImport } from './routes/submissions.$filename'
 
 // Create/Update Routes
 
@@ -21,6 +23,18 @@ const IndexRoute = IndexImport.update({
   getParentRoute: () => rootRoute,
 } as any)
 
+const SubmissionsIndexRoute = SubmissionsIndexImport.update({
+  id: '/submissions/',
+  path: '/submissions/',
+  getParentRoute: () => rootRoute,
+} as any)
+
+const SubmissionsFilenameRoute = SubmissionsFilenameImport.update({
+  id: '/submissions/$filename',
+  path: '/submissions/$filename',
+  getParentRoute: () => rootRoute,
+} as any)
+
 // Populate the FileRoutesByPath interface
 
 declare module '@tanstack/react-router' {
@@ -32,6 +46,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexImport
       parentRoute: typeof rootRoute
     }
+    '/submissions/$filename': {
+      id: '/submissions/$filename'
+      path: '/submissions/$filename'
+      fullPath: '/submissions/$filename'
+      preLoaderRoute: typeof SubmissionsFilenameImport
+      parentRoute: typeof rootRoute
+    }
+    '/submissions/': {
+      id: '/submissions/'
+      path: '/submissions'
+      fullPath: '/submissions'
+      preLoaderRoute: typeof SubmissionsIndexImport
+      parentRoute: typeof rootRoute
+    }
   }
 }
 
@@ -39,32 +67,42 @@ declare module '@tanstack/react-router' {
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/submissions/$filename': typeof SubmissionsFilenameRoute
+  '/submissions': typeof SubmissionsIndexRoute
 }
 
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/submissions/$filename': typeof SubmissionsFilenameRoute
+  '/submissions': typeof SubmissionsIndexRoute
 }
 
 export interface FileRoutesById {
   __root__: typeof rootRoute
   '/': typeof IndexRoute
+  '/submissions/$filename': typeof SubmissionsFilenameRoute
+  '/submissions/': typeof SubmissionsIndexRoute
 }
 
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/'
+  fullPaths: '/' | '/submissions/$filename' | '/submissions'
   fileRoutesByTo: FileRoutesByTo
-  to: '/'
-  id: '__root__' | '/'
+  to: '/' | '/submissions/$filename' | '/submissions'
+  id: '__root__' | '/' | '/submissions/$filename' | '/submissions/'
   fileRoutesById: FileRoutesById
 }
 
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  SubmissionsFilenameRoute: typeof SubmissionsFilenameRoute
+  SubmissionsIndexRoute: typeof SubmissionsIndexRoute
 }
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  SubmissionsFilenameRoute: SubmissionsFilenameRoute,
+  SubmissionsIndexRoute: SubmissionsIndexRoute,
 }
 
 export const routeTree = rootRoute
@@ -77,11 +115,19 @@ export const routeTree = rootRoute
     "__root__": {
       "filePath": "__root.tsx",
       "children": [
-        "/"
+        "/",
+        "/submissions/$filename",
+        "/submissions/"
       ]
     },
     "/": {
       "filePath": "index.tsx"
+    },
+    "/submissions/$filename": {
+      "filePath": "submissions.$filename.tsx"
+    },
+    "/submissions/": {
+      "filePath": "submissions.index.tsx"
     }
   }
 }
@@ -1,9 +1,19 @@
-import { createRootRoute, Outlet } from '@tanstack/react-router';
+import { createRootRoute, Link, Outlet } from '@tanstack/react-router';
+
+const navLinkClass = 'px-3 py-1 rounded-md text-sm text-gray-700 hover:bg-gray-100';
 
 export const Route = createRootRoute({
   component: () => (
     <>
+      <nav className="max-w-6xl mx-auto px-2 pt-4 flex gap-2">
+        <Link to="/" className={navLinkClass} activeOptions={{ exact: true }} activeProps={{ className: 'bg-blue-100 text-blue-800' }}>
+          Upload
+        </Link>
+        <Link to="/submissions" className={navLinkClass} activeProps={{ className: 'bg-blue-100 text-blue-800' }}>
+          My Submissions
+        </Link>
+      </nav>
       <Outlet /> {/* This is where child routes will render */}
     </>
   ),
-});
\ No newline at end of file
+});
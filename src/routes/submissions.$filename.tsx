@@ -0,0 +1,15 @@
+import { createFileRoute } from '@tanstack/react-router';
+import { SubmissionDetailView } from '../components/SubmissionDetailView';
+
+const SubmissionDetailPage = () => {
+  const { filename } = Route.useParams();
+  return (
+    <div className="p-2">
+      <SubmissionDetailView filename={filename} />
+    </div>
+  );
+};
+
+export const Route = createFileRoute('/submissions/$filename')({
+  component: SubmissionDetailPage,
+});
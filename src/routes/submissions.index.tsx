@@ -0,0 +1,10 @@
+import { createFileRoute } from '@tanstack/react-router';
+import { SubmissionHistory } from '../components/SubmissionHistory';
+
+export const Route = createFileRoute('/submissions/')({
+  component: () => (
+    <div className="p-2">
+      <SubmissionHistory />
+    </div>
+  ),
+});
@@ -0,0 +1,39 @@
+// types/domainTypes.ts
+// Shapes returned by GET /api/domains (see server/domains.js)
+
+// Optional filename parts a domain can make mandatory
+export type NamingPart = 'scale' | 'quadName' | 'pubId';
+
+export interface NamingRules {
+  prefix: string | null; // first filename part; null uses the domain id
+  dataTopicPattern: string | null; // regular expression the data topic must match
+  requiredParts: NamingPart[];
+  maxLength: number | null; // including the .zip extension
+}
+
+export interface DomainConfig {
+  id: string;
+  label: string;
+  schema: string;
+  postgrestUrl: string;
+  namingRules: NamingRules;
+  allowedPublicationTypes: string[];
+  // Groups of column names treated as equivalent when suggesting column mappings
+  columnSynonyms: string[][];
+}
+
+// Settings used when the user types their own domain ("custom")
+export type CustomDomainConfig = Omit<DomainConfig, 'id'>;
+
+export interface PublicationTypeOption {
+  value: string;
+  label: string;
+}
+
+export interface DomainRegistry {
+  version: number;
+  defaultPostgrestUrl: string | null; // service of domains that do not name their own
+  publicationTypes: PublicationTypeOption[];
+  domains: DomainConfig[];
+  customDomain: CustomDomainConfig | null;
+}
@@ -0,0 +1,71 @@
+// types/draftTypes.ts
+import type {
+  FormData,
+  FileSystemDirectoryHandle,
+  FileSystemFileHandle,
+  SchemaValidationState,
+  TableInfo,
+  ColumnInfo,
+  LayerInfo,
+  GDALAnalysisResult,
+  SourceField,
+  TargetColumnValue,
+  ColumnMapping,
+  ColumnTransforms,
+} from './uploadTypes';
+import type { TableDefinition } from './tableDefinitionTypes';
+
+// Form fields as saved; File objects are not stored (see DraftFileSource)
+export type DraftFormData = Omit<FormData, 'selectedFiles'>;
+
+// What was selected, so files that cannot be restored can be listed for re-selection
+export interface DraftFileDescriptor {
+  name: string;
+  size: number;
+  type: string;
+  lastModified: number;
+}
+
+// A File System Access handle the files were read from. paths are the
+// selectedFiles names that came from it (a folder may be partly removed).
+export interface DraftFileSource {
+  handle: FileSystemDirectoryHandle | FileSystemFileHandle;
+  paths: string[];
+}
+
+// Layer choice and column mapping, the slowest part of a draft to redo
+export interface DraftSchemaState {
+  schemaValidationState: SchemaValidationState;
+  availableTables: TableInfo[];
+  selectedTable: string;
+  sourceColumns: string[];
+  sourceFields?: SourceField[]; // absent in drafts saved before column types were tracked
+  targetColumns: ColumnInfo[];
+  columnMapping: ColumnMapping;
+  targetColumnValues?: Record<string, TargetColumnValue>;
+  columnTransforms?: ColumnTransforms;
+  tableDefinition?: TableDefinition | null; // new_table loads
+  sourceLayerInfo: LayerInfo[];
+  selectedSourceLayer: string;
+  gdalAnalysisResult: GDALAnalysisResult | null;
+  convertSheetToCsv?: boolean; // absent in drafts saved before workbooks were read
+}
+
+export interface UploadDraft {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  formData: DraftFormData;
+  files: DraftFileDescriptor[];
+  fileSources: DraftFileSource[];
+  schema: DraftSchemaState;
+}
+
+export interface RestoredDraftFiles {
+  files: File[];
+  // Selected without a handle, or the handle's permission was refused
+  missing: DraftFileDescriptor[];
+  // Restored, but the size or modification time differs from when the draft was saved
+  changed: string[];
+}
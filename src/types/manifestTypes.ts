@@ -0,0 +1,126 @@
+// types/manifestTypes.ts
+// The submission manifest written to metadata.json in every zip. The JSON
+// Schema in server/schemas/submission-manifest.v1.json is the source of truth:
+// the server rejects upload sessions whose manifest does not validate, and
+// `npm run check:manifest` fails when these interfaces drift from the schema.
+import type { GDALAnalysisResult, TargetColumnValue, ColumnMapping, ColumnTransforms } from './uploadTypes';
+import type { SchemaDriftReport } from './schemaDriftTypes';
+import type { TableDefinition } from './tableDefinitionTypes';
+
+export const MANIFEST_VERSION = 1;
+
+// Replaces the free-text uploadSource of pre-versioned manifests
+export const MANIFEST_GENERATOR = {
+  name: 'UGS Ingest Web Application',
+  version: '2.2.0',
+};
+
+export interface ManifestGenerator {
+  name: string;
+  version: string;
+  userAgent: string | null;
+}
+
+export interface ManifestOriginalFile {
+  name: string;
+  size: number;
+  type: string;
+  lastModified: number;
+  // Hex SHA-256 of the file as stored in the zip
+  sha256: string | null;
+}
+
+// Column mapping against the target table, present for "update" loads
+export interface ManifestSchemaValidation {
+  validationState: string;
+  targetTable: string;
+  sourceLayer: string;
+  sourceColumns: string[];
+  // Source column -> target column; null marks a column the loader must drop
+  columnMapping: ColumnMapping;
+  // The source columns mapped to null, listed for the loader
+  droppedColumns?: string[];
+  // Target column -> value used instead of a source column
+  targetColumnValues?: Record<string, TargetColumnValue>;
+  // Source column -> expression applied to its values before loading; expressions
+  // in targetColumnValues use the same language
+  columnTransforms?: ColumnTransforms;
+  transformLanguage?: string; // e.g. "ugs-transform/1", see lib/transformExpression.ts
+  validationCompleted: boolean;
+  gdalAnalysis: GDALAnalysisResult | null;
+  mappingTimestamp: string;
+  postgrestUrl: string;
+}
+
+export interface SubmissionManifest {
+  manifestVersion: typeof MANIFEST_VERSION;
+  generator: ManifestGenerator;
+
+  projectName: string;
+  datasetName: string;
+  authorName: string;
+  publicationType: string;
+  // YYYY-MM-DD
+  publicationDate: string;
+  description: string;
+
+  domain: string;
+  dataTopic: string;
+  scale: string | null;
+  quadName: string | null;
+  pubId: string | null;
+  loadType: 'new_table' | 'update';
+  isCorrection: boolean;
+  correctionReason: string | null;
+  reviewStatus: 'Y' | 'N' | 'R';
+
+  // Version of the target table's column layout ("v1", "v2", ...)
+  tableSchemaVersion: string;
+  // Why the version is what it is: how the source differs from the target
+  // table. Null for new_table loads; absent in manifests written before it existed
+  schemaDrift?: SchemaDriftReport | null;
+  // new_table loads only
+  tableType: 'fact' | 'dimension' | null;
+  uniqueKey: string | null;
+  unifiedViewName: string | null;
+  // Reviewed CREATE TABLE; absent in manifests written before it existed
+  newTable?: ManifestNewTable | null;
+
+  submittedBy: string;
+  submittedAt: string;
+  zipFilename: string;
+  originalFiles: ManifestOriginalFile[];
+  // The zip's own SHA-256 cannot live inside the zip; it is stored in the object's "sha256" metadata
+  checksumAlgorithm: 'SHA-256';
+  totalFileCount: number;
+  totalFileSize: number;
+  containsGeodatabase: boolean;
+  // Workbook sheet added to the zip as CSV; absent in manifests written before it existed
+  convertedSheet?: ManifestConvertedSheet | null;
+  schemaValidation: ManifestSchemaValidation | null;
+}
+
+export interface ManifestNewTable {
+  schema: string;
+  tableName: string;
+  ddl: string;
+  definition: TableDefinition;
+  warnings: string[]; // unresolved warnings the submitter accepted
+}
+
+// The source sheet of an .xlsx workbook written out as CSV (UTF-8, comma
+// delimited, header row first) so the loader reads one format
+export interface ManifestConvertedSheet {
+  workbook: string; // name of the workbook among originalFiles
+  sheet: string;
+  csvFile: string; // path of the CSV in the zip
+  headerRows: number[]; // one-based sheet rows the column names came from; empty when there was no header
+  rowCount: number;
+  sha256: string | null;
+}
+
+// A { path, message } problem reported by the server's manifest validation
+export interface ManifestValidationError {
+  path: string;
+  message: string;
+}
@@ -0,0 +1,47 @@
+// types/mappingTemplateTypes.ts
+// Saved column mappings shared through /api/mapping-templates (see server/templates.js)
+import type { ColumnMapping, ColumnTransforms, TargetColumnValue } from './uploadTypes';
+
+export interface MappingTemplateInput {
+  name: string;
+  targetTable: string;
+  sourceLayer: string;
+  sourceColumns: string[];
+  columnMapping: ColumnMapping;
+  targetColumnValues: Record<string, TargetColumnValue>;
+  columnTransforms?: ColumnTransforms; // absent in templates saved before transforms existed
+}
+
+export interface MappingTemplate extends MappingTemplateInput {
+  id: string;
+  // Hash of the source column names, ignoring order and case
+  sourceSignature: string;
+  createdBy: string;
+  createdAt: string;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+export type StaleEntryReason = 'missing_source' | 'missing_target';
+
+// A template entry that cannot be applied to the current upload
+export interface StaleTemplateEntry {
+  sourceColumn: string | null; // null for a supplied target value
+  targetColumn: string | null; // null for a dropped source column
+  reason: StaleEntryReason;
+}
+
+// How a template fits the current source columns and target table
+export interface MappingTemplateMatch {
+  template: MappingTemplate;
+  // The entries that apply, keyed by the current upload's source column names
+  columnMapping: ColumnMapping;
+  targetColumnValues: Record<string, TargetColumnValue>;
+  columnTransforms: ColumnTransforms;
+  appliedCount: number;
+  // The template was saved from a layer with exactly these source columns
+  sameColumns: boolean;
+  staleEntries: StaleTemplateEntry[];
+  // Current source columns the template has no entry for
+  unmatchedSources: string[];
+}
@@ -0,0 +1,56 @@
+// types/schemaDriftTypes.ts
+// Differences between a source layer and the target table it is loaded into
+// (see lib/schemaDrift.ts); embedded in metadata.json as schemaDrift
+
+export interface AddedColumn {
+  name: string;
+  sourceType: string | null; // as reported by the source; null when unknown
+  dropped: boolean; // the user chose to leave it out of the load
+}
+
+export interface RemovedColumn {
+  name: string;
+  targetType: string;
+  // NOT NULL without a default: the load needs a supplied value for it
+  required: boolean;
+}
+
+export interface RenamedColumn {
+  sourceColumn: string;
+  targetColumn: string;
+  // Mapped by the user; otherwise a candidate found by name similarity
+  confirmed: boolean;
+  confidence: number | null; // null when confirmed
+  reason: string; // e.g. "mapped", "shapefile-truncated name"
+}
+
+export interface ColumnTypeChange {
+  sourceColumn: string;
+  targetColumn: string;
+  sourceType: string;
+  targetType: string;
+  // error/warning as in the mapping type checks; info when the load converts cleanly
+  level: 'error' | 'warning' | 'info';
+  message: string;
+}
+
+export interface NullabilityChange {
+  sourceColumn: string;
+  targetColumn: string;
+  sourceNullable: boolean;
+  targetNullable: boolean;
+  message: string;
+}
+
+export interface SchemaDriftReport {
+  targetTable: string;
+  sourceLayer: string;
+  // Source columns with no target column of the same name or mapped to
+  addedColumns: AddedColumn[];
+  // Target columns no source column fills
+  removedColumns: RemovedColumn[];
+  renamedColumns: RenamedColumn[];
+  typeChanges: ColumnTypeChange[];
+  nullabilityChanges: NullabilityChange[];
+  hasDrift: boolean;
+}
@@ -0,0 +1,34 @@
+// types/submissionTypes.ts
+
+// A past submission, normalized by the server from the object metadata and
+// the metadata.json inside the zip
+export interface SubmissionSummary {
+  filename: string;
+  uploadedBy: string | null;
+  uploadedAt: string;
+  domain: string | null;
+  dataTopic: string | null;
+  loadType: string | null;
+  reviewStatus: string | null;
+  projectName: string | null;
+  datasetName: string | null;
+  publicationType: string | null;
+  isCorrection: boolean;
+  sizeBytes: number;
+  sha256: string | null;
+  checksumStatus: string | null;
+  manifestStatus: string | null;
+}
+
+export interface SubmissionPagination {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface SubmissionDetail {
+  submission: SubmissionSummary;
+  // Contents of the metadata.json stored in the submission zip (null if it has none)
+  metadata: Record<string, unknown> | null;
+}
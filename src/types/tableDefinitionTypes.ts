@@ -0,0 +1,29 @@
+// types/tableDefinitionTypes.ts
+// Reviewed definition of the table a new_table load creates (see lib/tableDdl.ts)
+
+export interface TableColumnDefinition {
+  sourceColumn: string;
+  name: string; // PostgreSQL column name
+  type: string; // PostgreSQL type, e.g. "integer", "varchar(50)", "numeric(10, 2)"
+  notNull: boolean;
+  include: boolean; // false leaves the source column out of the table
+}
+
+export interface GeometryColumnDefinition {
+  sourceColumn: string; // empty for shapefiles, whose geometry has no field name
+  name: string;
+  geometryType: string; // PostGIS type, e.g. "MultiPolygon", "PointZ"
+  srid: number | null; // EPSG code; null until known
+}
+
+export interface TableDefinition {
+  tableName: string; // without the schema, which comes from the domain
+  columns: TableColumnDefinition[];
+  geometry: GeometryColumnDefinition | null;
+}
+
+export interface TableDefinitionIssue {
+  level: 'error' | 'warning';
+  message: string;
+  column?: string; // source column of the row the issue belongs to
+}
@@ -6,6 +6,9 @@ import type { ChangeEvent } from 'react';
 export interface FileSystemHandle {
   kind: 'file' | 'directory';
   name: string;
+  // Chromium only; handles restored from IndexedDB need permission granted again
+  queryPermission?(descriptor: { mode: 'read' | 'readwrite' }): Promise<PermissionState>;
+  requestPermission?(descriptor: { mode: 'read' | 'readwrite' }): Promise<PermissionState>;
 }
 
 export interface FileSystemFileHandle extends FileSystemHandle {
@@ -47,21 +50,71 @@ export interface ColumnInfo {
   isNullable: boolean;
   defaultValue: string | null;
   position: number;
+  format?: string; // PostgreSQL type as reported by PostgREST, e.g. "character varying" or "bigint"
+  maxLength?: number | null; // character length limit, when the column has one
+}
+
+// Type of a source column, normalized from ogrinfo field types, DBF field
+// descriptors or values inferred from CSV rows
+export type SourceFieldKind =
+  | 'integer'
+  | 'real'
+  | 'text'
+  | 'date'
+  | 'datetime'
+  | 'time'
+  | 'boolean'
+  | 'binary'
+  | 'geometry'
+  | 'unknown';
+
+export interface SourceField {
+  name: string;
+  kind: SourceFieldKind;
+  nativeType: string; // as reported by the source, e.g. "Integer64", "N(10,2)", "inferred"
+  width: number | null; // characters for text, digits for numbers
+  precision: number | null; // decimal places
+  // false when the source declares the field NOT NULL, true when it allows or
+  // contains empty values; absent when unknown
+  nullable?: boolean;
+  // First few values, row-aligned across the layer's fields; used to preview transforms
+  samples?: string[];
+  // CSV column that, with its partner, looks like a point geometry (lib/csvSniffer.ts)
+  coordinate?: 'latitude' | 'longitude';
+}
+
+// Source column -> target column. null drops the source column: it is
+// deliberately left out of the load (GDB system fields, scratch columns, ...)
+export type ColumnMapping = Record<string, string | null>;
+
+// Source column -> expression applied to its values before loading
+// (see lib/transformExpression.ts)
+export type ColumnTransforms = Record<string, string>;
+
+// Fills a target column that no source column is mapped to: a constant
+// written to every row, or an expression evaluated for each row
+export interface TargetColumnValue {
+  kind: 'constant' | 'expression';
+  value: string;
 }
 
 // Layer information interface
 export interface LayerInfo {
   name: string;
   fields: string[];
+  fieldDetails?: SourceField[]; // same order as fields; missing for older analyses
   featureCount: string | number;
   geometryType: string;
+  srid?: number | null; // EPSG code of the geometry's coordinate system, when ogrinfo reports one
 }
 
 // GDAL Analysis Result interface for metadata preservation
 export interface GDALAnalysisResult {
   layers: LayerInfo[];
   selectedLayer?: LayerInfo;
+  sourceFormat?: string; // e.g. "File Geodatabase", "GeoPackage"
   gdbFolderName?: string;
+  datasetPath?: string; // single-file datasets: the file's path among the selected files
   totalLayers: number;
   analysisTimestamp: string;
   crs?: any; // Coordinate Reference System information
@@ -116,30 +169,34 @@ export interface FormErrors {
 }
 export type SchemaValidationState = 'not_started' | 'validating' | 'layer_selection' | 'mapping' | 'completed';
 
-// Options for dropdowns
-export const publicationTypeOptions = [
-  { value: '', label: 'Select Publication Type' },
-  { value: 'Special Study', label: 'Special Study' },
-  { value: 'Digital Map', label: 'Digital Map' },
-  { value: 'Open File', label: 'Open File Report' },
-  { value: 'report', label: 'Technical Report' },
-  { value: 'dataset', label: 'Dataset' },
-  { value: 'other', label: 'Other' },
-];
+// Upload progress reporting
+export type UploadPhase = 'zipping' | 'hashing' | 'uploading' | 'verifying' | 'finalizing';
 
-export const domainOptions = [
-  { value: '', label: 'Select Domain' },
-  { value: 'hazards', label: 'Hazards', schema: 'hazards' },
-  { value: 'groundwater', label: 'Groundwater', schema: 'gwportal' }, // Changed from 'groundwater' to 'gwportal'
-  { value: 'wetlands', label: 'Wetlands', schema: 'wetlands' },
-  { value: 'geologic_maps', label: 'Geologic Maps', schema: 'mapping' },
-  { value: 'energy_minerals', label: 'Energy & Minerals', schema: 'emp' },
-  { value: 'ccus', label: 'CCUS', schema: 'ccus' },
-  { value: 'boreholes', label: 'Boreholes', schema: 'boreholes' },
-  { value: 'geochron', label: 'Geochronology', schema: 'geochron' },
-  { value: 'custom', label: 'Other (specify)' },
-];
+export interface UploadProgress {
+  phase: UploadPhase;
+  bytesProcessed: number;
+  totalBytes: number;
+  bytesPerSecond: number;
+  etaSeconds: number | null; // null until enough samples exist to estimate
+}
+
+// Duplicate submission detection (answered by the upload function before signing)
+export type ConflictResolution = 'reject' | 'new-version' | 'replace';
+
+export interface ExistingSubmission {
+  filename: string;
+  uploadedBy: string;
+  uploadedAt: string | null;
+}
+
+export interface SubmissionConflict {
+  identical: ExistingSubmission | null; // same data files, any filename
+  nameConflict: ExistingSubmission | null; // same filename, any content
+  suggestedFilename: string;
+}
 
+// Options for dropdowns
+// (domains and publication types come from the domain registry, see lib/domainRegistry.ts)
 export const tableTypeOptions = [
   { value: '', label: 'Select Table Type' },
   { value: 'fact', label: 'Fact Table' },
@@ -160,11 +217,9 @@ export const loadTypeOptions = [
   { value: 'update', label: 'Update' },
 ];
 
-// Helper function to get schema from domain
-export const getSchemaFromDomain = (domain: string): string => {
-  const domainOption = domainOptions.find(option => option.value === domain);
-  return domainOption?.schema || 'mapping'; // Default to mapping schema
-};
+// Helper function to show the label for a stored option value
+export const getOptionLabel = (options: { value: string; label: string }[], value: string | null): string =>
+  options.find(option => option.value === value)?.label || value || '—';
 
 // Event handler types
 export type HandleChangeType = (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => void;
\ No newline at end of file
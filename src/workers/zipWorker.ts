@@ -0,0 +1,99 @@
+// workers/zipWorker.ts
+// Builds the compressed data section of a submission zip off the main thread,
+// and checksums finished archives before upload.
+//
+// Files are streamed through CRC-32, SHA-256 and deflate one chunk at a time,
+// so neither the source files nor the archive are ever fully loaded into the
+// JS heap. The resulting Blob is assembled from multi-MB parts held in the
+// browser's blob store.
+import { BlobSink, writeDeflatedEntry } from '../lib/zipWriter';
+import type { ZipEntryRecord } from '../lib/zipWriter';
+import { Sha256 } from '../lib/sha256';
+import { updateCrc32c, crc32cToBase64 } from '../lib/crc32c';
+
+export interface ZipWorkerFile {
+  path: string;
+  file: File;
+}
+
+export type ZipWorkerRequest =
+  | { type: 'build'; files: ZipWorkerFile[] }
+  | { type: 'hash'; blob: Blob };
+
+export type ZipWorkerResponse =
+  | { type: 'progress'; bytesProcessed: number; totalBytes: number }
+  | { type: 'built'; section: Blob; entries: ZipEntryRecord[] }
+  | { type: 'hashed'; sha256: string; crc32c: string }
+  | { type: 'error'; message: string };
+
+const PROGRESS_INTERVAL_BYTES = 4 * 1024 * 1024;
+
+const post = (message: ZipWorkerResponse) => self.postMessage(message);
+
+const createProgressReporter = (totalBytes: number) => {
+  let processed = 0;
+  let lastReported = 0;
+  return (chunkLength: number) => {
+    processed += chunkLength;
+    if (processed - lastReported >= PROGRESS_INTERVAL_BYTES || processed === totalBytes) {
+      lastReported = processed;
+      post({ type: 'progress', bytesProcessed: processed, totalBytes });
+    }
+  };
+};
+
+const buildSection = async (files: ZipWorkerFile[]) => {
+  const totalBytes = files.reduce((total, { file }) => total + file.size, 0);
+  const reportProgress = createProgressReporter(totalBytes);
+  const sink = new BlobSink();
+  const entries: ZipEntryRecord[] = [];
+
+  for (const { path, file } of files) {
+    const hash = new Sha256();
+    const entry = await writeDeflatedEntry(
+      file.stream(),
+      path,
+      file.lastModified,
+      file.size,
+      sink.length,
+      sink,
+      (chunk) => {
+        hash.update(chunk);
+        reportProgress(chunk.length);
+      }
+    );
+    entries.push({ ...entry, sha256: hash.digestHex() });
+  }
+
+  post({ type: 'built', section: sink.toBlob(), entries });
+};
+
+// SHA-256 for the submission record and CRC-32C for Cloud Storage, in one pass
+const hashBlob = async (blob: Blob) => {
+  const reportProgress = createProgressReporter(blob.size);
+  const hash = new Sha256();
+  let crc = 0;
+  const reader = blob.stream().getReader();
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    hash.update(value);
+    crc = updateCrc32c(crc, value);
+    reportProgress(value.length);
+  }
+
+  post({ type: 'hashed', sha256: hash.digestHex(), crc32c: crc32cToBase64(crc) });
+};
+
+self.onmessage = async (event: MessageEvent<ZipWorkerRequest>) => {
+  try {
+    if (event.data.type === 'build') {
+      await buildSection(event.data.files);
+    } else if (event.data.type === 'hash') {
+      await hashBlob(event.data.blob);
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
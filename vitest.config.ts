@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config'
+
+// Unit tests only: the app's Vite plugins (router generation, Tailwind) are not needed
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts', 'server/**/*.test.js'],
+    environment: 'node',
+  },
+})